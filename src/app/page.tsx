@@ -8,6 +8,8 @@ import QueryInput from '@/components/QueryInput';
 import InsightsPanel from '@/components/InsightsPanel';
 import SensitivityPanel from '@/components/SensitivityPanel';
 import { useCausalGraphStore } from '@/store/graphStore';
+import { SAMPLING_METHODS, type SamplingMethod } from '@/lib/sampling';
+import { exportRun } from '@/lib/runExport';
 
 export default function Home() {
   const [isLoading, setIsLoading] = useState(false);
@@ -18,14 +20,44 @@ export default function Home() {
   const error = useCausalGraphStore((s) => s.error);
   const interventions = useCausalGraphStore((s) => s.interventions);
   const clearAllInterventions = useCausalGraphStore((s) => s.clearAllInterventions);
+  const evidence = useCausalGraphStore((s) => s.evidence);
+  const clearAllEvidence = useCausalGraphStore((s) => s.clearAllEvidence);
+  const counterfactuals = useCausalGraphStore((s) => s.counterfactuals);
+  const clearAllCounterfactuals = useCausalGraphStore((s) => s.clearAllCounterfactuals);
   const selectedEdgeId = useCausalGraphStore((s) => s.selectedEdgeId);
   const sampleCount = useCausalGraphStore((s) => s.sampleCount);
   const setSampleCount = useCausalGraphStore((s) => s.setSampleCount);
+  const autoSampling = useCausalGraphStore((s) => s.autoSampling);
+  const setAutoSampling = useCausalGraphStore((s) => s.setAutoSampling);
+  const samplesUsed = useCausalGraphStore((s) => s.samplesUsed);
+  const precisionReached = useCausalGraphStore((s) => s.precisionReached);
+  const samplingMethod = useCausalGraphStore((s) => s.samplingMethod);
+  const setSamplingMethod = useCausalGraphStore((s) => s.setSamplingMethod);
+  const tickCount = useCausalGraphStore((s) => s.tickCount);
+  const setTickCount = useCausalGraphStore((s) => s.setTickCount);
+  const seed = useCausalGraphStore((s) => s.seed);
+  const setSeed = useCausalGraphStore((s) => s.setSeed);
+  const rerollSeed = useCausalGraphStore((s) => s.rerollSeed);
+  const isComputing = useCausalGraphStore((s) => s.isComputing);
+
+  // Everything a teammate needs to reproduce the numbers on screen
+  const runJson = model && showExportModal
+    ? exportRun(model, {
+        seed,
+        sampleCount,
+        autoSampling,
+        sampling: samplingMethod,
+        tickCount,
+        interventions,
+        evidence,
+        counterfactuals,
+      })
+    : '';
 
   const handleCopyJson = async () => {
     if (!model) return;
     try {
-      await navigator.clipboard.writeText(JSON.stringify(model, null, 2));
+      await navigator.clipboard.writeText(runJson);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
@@ -72,11 +104,19 @@ export default function Home() {
                     </span>
                   </div>
                   <div className="flex items-center gap-3">
+                    {isComputing && (
+                      <div className="flex items-center gap-1.5 text-xs text-gray-500">
+                        <div className="w-3 h-3 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
+                        Computing...
+                      </div>
+                    )}
                     <div className="flex items-center gap-2">
                       <label className="text-xs text-gray-500">Samples:</label>
                       <select
-                        value={sampleCount}
-                        onChange={(e) => setSampleCount(Number(e.target.value))}
+                        value={autoSampling ? 'auto' : sampleCount}
+                        onChange={(e) =>
+                          e.target.value === 'auto' ? setAutoSampling(true) : setSampleCount(Number(e.target.value))
+                        }
                         className="text-xs border border-gray-300 rounded px-1.5 py-0.5 bg-white"
                       >
                         <option value={50}>50</option>
@@ -84,6 +124,62 @@ export default function Home() {
                         <option value={200}>200</option>
                         <option value={500}>500</option>
                         <option value={1000}>1000</option>
+                        <option value="auto">Auto</option>
+                      </select>
+                      {autoSampling && (
+                        <span
+                          className={`text-xs ${precisionReached ? 'text-gray-500' : 'text-amber-600'}`}
+                          title={precisionReached
+                            ? 'Terminal nodes reached the target precision'
+                            : 'Time budget ran out before terminal nodes reached the target precision'}
+                        >
+                          {samplesUsed}{precisionReached ? '' : ' (imprecise)'}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs text-gray-500">Draws:</label>
+                      <select
+                        value={samplingMethod}
+                        onChange={(e) => setSamplingMethod(e.target.value as SamplingMethod)}
+                        className="text-xs border border-gray-300 rounded px-1.5 py-0.5 bg-white"
+                        title="How exogenous noise is drawn. Latin hypercube and Sobol draws cover the distributions more evenly, so results settle with fewer samples."
+                      >
+                        {SAMPLING_METHODS.map(({ value, label }) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs text-gray-500">Seed:</label>
+                      <input
+                        type="number"
+                        value={seed}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value, 10);
+                          if (!isNaN(value)) setSeed(value);
+                        }}
+                        className="w-20 text-xs border border-gray-300 rounded px-1.5 py-0.5 bg-white"
+                      />
+                      <button
+                        onClick={rerollSeed}
+                        className="text-xs text-gray-500 hover:text-gray-700"
+                        title="Draw a new random seed"
+                      >
+                        ⟳
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs text-gray-500">Ticks:</label>
+                      <select
+                        value={tickCount}
+                        onChange={(e) => setTickCount(Number(e.target.value))}
+                        className="text-xs border border-gray-300 rounded px-1.5 py-0.5 bg-white"
+                      >
+                        <option value={0}>Off</option>
+                        <option value={10}>10</option>
+                        <option value={20}>20</option>
+                        <option value={50}>50</option>
                       </select>
                     </div>
                     {interventions.size > 0 && (
@@ -94,6 +190,22 @@ export default function Home() {
                         Clear all interventions ({interventions.size})
                       </button>
                     )}
+                    {evidence.size > 0 && (
+                      <button
+                        onClick={clearAllEvidence}
+                        className="text-sm text-teal-600 hover:text-teal-700"
+                      >
+                        Clear all evidence ({evidence.size})
+                      </button>
+                    )}
+                    {counterfactuals.size > 0 && (
+                      <button
+                        onClick={clearAllCounterfactuals}
+                        className="text-sm text-purple-600 hover:text-purple-700"
+                      >
+                        Clear counterfactuals ({counterfactuals.size})
+                      </button>
+                    )}
                   </div>
                 </div>
               )}
@@ -172,6 +284,55 @@ export default function Home() {
                       </svg>
                       <span className="text-gray-600">Logistic</span>
                     </div>
+                    <div className="flex items-center gap-2">
+                      <svg width="24" height="8" viewBox="0 0 24 8">
+                        <line x1="0" y1="4" x2="20" y2="4" stroke="#0d9488" strokeWidth="2"/>
+                        <polygon points="20,1 24,4 20,7" fill="#0d9488"/>
+                      </svg>
+                      <span className="text-gray-600">Piecewise</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <svg width="24" height="8" viewBox="0 0 24 8">
+                        <line x1="0" y1="4" x2="20" y2="4" stroke="#059669" strokeWidth="2"/>
+                        <polygon points="20,1 24,4 20,7" fill="#059669"/>
+                      </svg>
+                      <span className="text-gray-600">Saturating</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <svg width="24" height="8" viewBox="0 0 24 8">
+                        <line x1="0" y1="4" x2="20" y2="4" stroke="#e11d48" strokeWidth="2"/>
+                        <polygon points="20,1 24,4 20,7" fill="#e11d48"/>
+                      </svg>
+                      <span className="text-gray-600">Decay</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <svg width="24" height="8" viewBox="0 0 24 8">
+                        <line x1="0" y1="4" x2="20" y2="4" stroke="#4f46e5" strokeWidth="2"/>
+                        <polygon points="20,1 24,4 20,7" fill="#4f46e5"/>
+                      </svg>
+                      <span className="text-gray-600">Power law</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <svg width="24" height="8" viewBox="0 0 24 8">
+                        <line x1="0" y1="4" x2="20" y2="4" stroke="#c026d3" strokeWidth="2"/>
+                        <polygon points="20,1 24,4 20,7" fill="#c026d3"/>
+                      </svg>
+                      <span className="text-gray-600">Expression</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <svg width="24" height="8" viewBox="0 0 24 8">
+                        <line x1="0" y1="4" x2="20" y2="4" stroke="#0284c7" strokeWidth="2"/>
+                        <polygon points="20,1 24,4 20,7" fill="#0284c7"/>
+                      </svg>
+                      <span className="text-gray-600">Table</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <svg width="24" height="8" viewBox="0 0 24 8">
+                        <line x1="0" y1="4" x2="20" y2="4" stroke="#db2777" strokeWidth="2"/>
+                        <polygon points="20,1 24,4 20,7" fill="#db2777"/>
+                      </svg>
+                      <span className="text-gray-600">Joint mechanism</span>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -189,7 +350,7 @@ export default function Home() {
                 <button
                   onClick={() => setShowExportModal(true)}
                   className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 hover:border-gray-300 transition"
-                  title="Export model JSON"
+                  title="Export the model and run settings as JSON"
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                     <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
@@ -228,7 +389,7 @@ export default function Home() {
         <div className="max-w-7xl mx-auto text-center text-sm text-gray-500">
           <p>
             What If Explorer uses Monte Carlo sampling with 100 particles for propagation.
-            Click nodes to intervene (do-operator) and see downstream effects.
+            Click nodes to intervene (do-operator) or observe them (conditioning) and see the effects.
             Click edges to view and edit effect types.
           </p>
         </div>
@@ -239,7 +400,12 @@ export default function Home() {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[80vh] flex flex-col">
             <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
-              <h3 className="font-medium text-gray-900">Model JSON Export</h3>
+              <h3 className="font-medium text-gray-900">
+                Run JSON Export
+                <span className="ml-2 text-xs font-normal text-gray-500">
+                  Results shown use {samplesUsed} samples, seed {seed}
+                </span>
+              </h3>
               <div className="flex items-center gap-2">
                 <button
                   onClick={handleCopyJson}
@@ -263,7 +429,7 @@ export default function Home() {
             </div>
             <div className="p-4 overflow-auto flex-1">
               <pre className="text-xs font-mono bg-gray-50 p-4 rounded border border-gray-200 overflow-x-auto">
-                {JSON.stringify(model, null, 2)}
+                {runJson}
               </pre>
             </div>
           </div>
@@ -4,6 +4,10 @@ import { useEffect, useRef, useCallback, useState } from 'react';
 import * as d3 from 'd3';
 import type { CausalModel, CausalNode, CausalEdge, EffectFunction } from '@/types/causal';
 import { useCausalGraphStore } from '@/store/graphStore';
+import { expectedValue } from '@/lib/distributions';
+import { describeObservation } from '@/lib/evidence';
+import { partitionParentEdges } from '@/lib/inference';
+import { JOINT_MECHANISM_TYPES } from '@/lib/mechanisms';
 
 // Dynamic import for dagre (CommonJS module)
 let dagreModule: typeof import('dagre') | null = null;
@@ -15,10 +19,29 @@ const getEdgeColor = (effect: EffectFunction): string => {
     case 'multiplicative': return '#2563eb'; // blue-600 - scaling/growth
     case 'threshold': return '#d97706';     // amber-600 - warning/switch
     case 'logistic': return '#7c3aed';      // violet-600 - probability
+    case 'piecewise': return '#0d9488';     // teal-600 - expert-drawn curve
+    case 'hill': return '#059669';          // emerald-600 - saturating growth
+    case 'decay': return '#e11d48';         // rose-600 - fall-off
+    case 'power': return '#4f46e5';         // indigo-600 - elasticity
+    case 'expression': return '#c026d3';    // fuchsia-600 - user formula
+    case 'table': return '#0284c7';         // sky-600 - per-category cells
     default: return '#374151';
   }
 };
 
+// Edges into a joint mechanism and its badge: pink-600
+const JOINT_MECHANISM_COLOR = '#db2777';
+
+// Bidirected confounder arcs: slate-500
+const CONFOUNDER_COLOR = '#64748b';
+
+// Badge colors for feedback loop equilibrium status
+const loopStatusColors: Record<string, string> = {
+  converged: '#059669',   // emerald-600
+  oscillating: '#d97706', // amber-600
+  diverged: '#dc2626',    // red-600
+};
+
 interface NodePosition {
   id: string;
   x: number;
@@ -36,7 +59,9 @@ export default function CausalGraph({ width = 800, height = 600 }: Props) {
   const [dagreLoaded, setDagreLoaded] = useState(false);
   const model = useCausalGraphStore((s) => s.model);
   const interventions = useCausalGraphStore((s) => s.interventions);
+  const evidence = useCausalGraphStore((s) => s.evidence);
   const nodeDistributions = useCausalGraphStore((s) => s.nodeDistributions);
+  const equilibrium = useCausalGraphStore((s) => s.equilibrium);
   const selectedNodeId = useCausalGraphStore((s) => s.selectedNodeId);
   const selectedEdgeId = useCausalGraphStore((s) => s.selectedEdgeId);
   const selectNode = useCausalGraphStore((s) => s.selectNode);
@@ -216,6 +241,13 @@ export default function CausalGraph({ width = 800, height = 600 }: Props) {
       { id: 'arrowhead-multiplicative', color: '#2563eb' },
       { id: 'arrowhead-threshold', color: '#d97706' },
       { id: 'arrowhead-logistic', color: '#7c3aed' },
+      { id: 'arrowhead-piecewise', color: '#0d9488' },
+      { id: 'arrowhead-hill', color: '#059669' },
+      { id: 'arrowhead-decay', color: '#e11d48' },
+      { id: 'arrowhead-power', color: '#4f46e5' },
+      { id: 'arrowhead-expression', color: '#c026d3' },
+      { id: 'arrowhead-table', color: '#0284c7' },
+      { id: 'arrowhead-joint', color: JOINT_MECHANISM_COLOR },
       { id: 'arrowhead-selected', color: '#0ea5e9' }, // cyan for selected
     ];
     effectColors.forEach(({ id, color }) => {
@@ -231,6 +263,18 @@ export default function CausalGraph({ width = 800, height = 600 }: Props) {
         .attr('d', 'M 0,-3 L 6,0 L 0,3')
         .attr('fill', color);
     });
+    // Confounder arcs carry the same arrowhead at both ends
+    defs.append('marker')
+      .attr('id', 'arrowhead-confounder')
+      .attr('viewBox', '-0 -3 6 6')
+      .attr('refX', 5)
+      .attr('refY', 0)
+      .attr('orient', 'auto-start-reverse')
+      .attr('markerWidth', 5)
+      .attr('markerHeight', 5)
+      .append('path')
+      .attr('d', 'M 0,-3 L 6,0 L 0,3')
+      .attr('fill', CONFOUNDER_COLOR);
 
     // Zone legend (horizontal bar at top) - properly spaced
     const zones = Object.entries(model.zones);
@@ -294,46 +338,82 @@ export default function CausalGraph({ width = 800, height = 600 }: Props) {
 
     console.log('[CausalGraph] Drawing', model.edges.length, 'edges');
 
+    // Moderator edges point at the middle of the edge they scale, so draw them after the rest.
+    // Edges feeding a joint mechanism share its color, since their own effects are not applied.
+    const moderatorEdges = new Set<CausalEdge>();
+    const jointEdges = new Set<CausalEdge>();
+    for (const nodeId of new Set(model.edges.map(e => e.target))) {
+      const mechanisms = model.nodes.find(n => n.id === nodeId)?.mechanisms;
+      const { moderators, joint } = partitionParentEdges(model.edges.filter(e => e.target === nodeId), mechanisms);
+      moderators.forEach(edges => edges.forEach(e => moderatorEdges.add(e)));
+      joint.forEach(({ edges }) => edges.forEach(e => jointEdges.add(e)));
+    }
+    const edgeMidpoints = new Map<string, { x: number; y: number }>();
+
     model.edges.forEach((edge: CausalEdge) => {
       const source = positionMap.get(edge.source);
       const target = positionMap.get(edge.target);
-      if (!source || !target) return;
+      if (!source || !target || moderatorEdges.has(edge)) return;
 
       const sourceDim = nodeDimensions.get(edge.source) || { width: 80, height: 32 };
       const targetDim = nodeDimensions.get(edge.target) || { width: 80, height: 32 };
 
+      // Determine edge color and selection state
+      const edgeId = `${edge.source}->${edge.target}`;
+      const isEdgeSelected = edgeId === selectedEdgeId;
+      const isJoint = jointEdges.has(edge);
+      const edgeColor = isEdgeSelected ? '#0ea5e9' : isJoint ? JOINT_MECHANISM_COLOR : getEdgeColor(edge.effect);
+      const arrowMarkerId = isEdgeSelected ? 'arrowhead-selected' : isJoint ? 'arrowhead-joint' : `arrowhead-${edge.effect.type}`;
+
       // Calculate edge endpoints at node boundaries
       const dx = target.x - source.x;
       const dy = target.y - source.y;
       const dist = Math.sqrt(dx * dx + dy * dy);
-      if (dist === 0) return;
+      let pathD: string;
 
-      // Calculate intersection with rectangle boundary
-      const sourceHalfW = sourceDim.width / 2;
-      const sourceHalfH = sourceDim.height / 2;
-      const targetHalfW = targetDim.width / 2;
-      const targetHalfH = targetDim.height / 2;
-
-      // Source offset - find where line exits source rectangle
-      const sourceOffsetX = Math.abs(dx) > 0.001 ? Math.min(sourceHalfW, Math.abs(sourceHalfH * dx / dy)) : 0;
-      const sourceOffsetY = Math.abs(dy) > 0.001 ? Math.min(sourceHalfH, Math.abs(sourceHalfW * dy / dx)) : 0;
-      const sourceOffset = Math.sqrt(sourceOffsetX * sourceOffsetX + sourceOffsetY * sourceOffsetY) || sourceHalfW;
-
-      // Target offset - find where line enters target rectangle (plus arrow space)
-      const targetOffsetX = Math.abs(dx) > 0.001 ? Math.min(targetHalfW, Math.abs(targetHalfH * dx / dy)) : 0;
-      const targetOffsetY = Math.abs(dy) > 0.001 ? Math.min(targetHalfH, Math.abs(targetHalfW * dy / dx)) : 0;
-      const targetOffset = Math.sqrt(targetOffsetX * targetOffsetX + targetOffsetY * targetOffsetY) || targetHalfW;
-
-      const startX = source.x + (dx / dist) * sourceOffset;
-      const startY = source.y + (dy / dist) * sourceOffset;
-      const endX = target.x - (dx / dist) * (targetOffset + 6);
-      const endY = target.y - (dy / dist) * (targetOffset + 6);
-
-      // Determine edge color and selection state
-      const edgeId = `${edge.source}->${edge.target}`;
-      const isEdgeSelected = edgeId === selectedEdgeId;
-      const edgeColor = isEdgeSelected ? '#0ea5e9' : getEdgeColor(edge.effect);
-      const arrowMarkerId = isEdgeSelected ? 'arrowhead-selected' : `arrowhead-${edge.effect.type}`;
+      if (dist === 0) {
+        // Self-loop: small arc off the node's top-right corner
+        const x = source.x + sourceDim.width / 2 - 12;
+        const y = source.y - sourceDim.height / 2;
+        pathD = `M ${x - 10} ${y} C ${x - 14} ${y - 30}, ${x + 26} ${y - 30}, ${x + 12} ${y - 3}`;
+      } else {
+        // Calculate intersection with rectangle boundary
+        const sourceHalfW = sourceDim.width / 2;
+        const sourceHalfH = sourceDim.height / 2;
+        const targetHalfW = targetDim.width / 2;
+        const targetHalfH = targetDim.height / 2;
+
+        // Source offset - find where line exits source rectangle
+        const sourceOffsetX = Math.abs(dx) > 0.001 ? Math.min(sourceHalfW, Math.abs(sourceHalfH * dx / dy)) : 0;
+        const sourceOffsetY = Math.abs(dy) > 0.001 ? Math.min(sourceHalfH, Math.abs(sourceHalfW * dy / dx)) : 0;
+        const sourceOffset = Math.sqrt(sourceOffsetX * sourceOffsetX + sourceOffsetY * sourceOffsetY) || sourceHalfW;
+
+        // Target offset - find where line enters target rectangle (plus arrow space)
+        const targetOffsetX = Math.abs(dx) > 0.001 ? Math.min(targetHalfW, Math.abs(targetHalfH * dx / dy)) : 0;
+        const targetOffsetY = Math.abs(dy) > 0.001 ? Math.min(targetHalfH, Math.abs(targetHalfW * dy / dx)) : 0;
+        const targetOffset = Math.sqrt(targetOffsetX * targetOffsetX + targetOffsetY * targetOffsetY) || targetHalfW;
+
+        const startX = source.x + (dx / dist) * sourceOffset;
+        const startY = source.y + (dy / dist) * sourceOffset;
+        const endX = target.x - (dx / dist) * (targetOffset + 6);
+        const endY = target.y - (dy / dist) * (targetOffset + 6);
+
+        // Bend two-way loop edges apart so A->B and B->A don't overlap
+        const hasReverse = model.edges.some(e => e.source === edge.target && e.target === edge.source);
+        if (hasReverse) {
+          const bend = 24;
+          const ctrlX = (startX + endX) / 2 - (dy / dist) * bend;
+          const ctrlY = (startY + endY) / 2 + (dx / dist) * bend;
+          pathD = `M ${startX} ${startY} Q ${ctrlX} ${ctrlY} ${endX} ${endY}`;
+          edgeMidpoints.set(edgeId, {
+            x: 0.25 * startX + 0.5 * ctrlX + 0.25 * endX,
+            y: 0.25 * startY + 0.5 * ctrlY + 0.25 * endY,
+          });
+        } else {
+          pathD = `M ${startX} ${startY} L ${endX} ${endY}`;
+          edgeMidpoints.set(edgeId, { x: (startX + endX) / 2, y: (startY + endY) / 2 });
+        }
+      }
 
       // Create a group for the edge to handle click events better
       const edgeG = edgeGroup.append('g')
@@ -346,14 +426,14 @@ export default function CausalGraph({ width = 800, height = 600 }: Props) {
 
       // Invisible wider path for easier clicking
       edgeG.append('path')
-        .attr('d', `M ${startX} ${startY} L ${endX} ${endY}`)
+        .attr('d', pathD)
         .attr('fill', 'none')
         .attr('stroke', 'transparent')
         .attr('stroke-width', 12);
 
       // Visible path with effect type color
       const path = edgeG.append('path')
-        .attr('d', `M ${startX} ${startY} L ${endX} ${endY}`)
+        .attr('d', pathD)
         .attr('fill', 'none')
         .attr('stroke', edgeColor)
         .attr('stroke-width', isEdgeSelected ? 3 : (edge.weight === 'heavy' ? 2.5 : edge.weight === 'light' ? 1 : 1.5))
@@ -373,6 +453,111 @@ export default function CausalGraph({ width = 800, height = 600 }: Props) {
       }
     });
 
+    // Confounders: dashed bidirected arcs, bowed so they stand apart from causal edges
+    const labelOf = (id?: string) => model.nodes.find(n => n.id === id)?.label ?? id;
+    (model.confounders || []).forEach((confounder) => {
+      const [a, b] = confounder.nodes;
+      const source = positionMap.get(a);
+      const target = positionMap.get(b);
+      if (!source || !target || a === b) return;
+
+      const sourceDim = nodeDimensions.get(a) || { width: 80, height: 32 };
+      const targetDim = nodeDimensions.get(b) || { width: 80, height: 32 };
+      const dx = target.x - source.x;
+      const dy = target.y - source.y;
+      const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+      const boundary = (dim: { width: number; height: number }) => {
+        const offsetX = Math.abs(dx) > 0.001 ? Math.min(dim.width / 2, Math.abs((dim.height / 2) * dx / dy)) : 0;
+        const offsetY = Math.abs(dy) > 0.001 ? Math.min(dim.height / 2, Math.abs((dim.width / 2) * dy / dx)) : 0;
+        return Math.sqrt(offsetX * offsetX + offsetY * offsetY) || dim.width / 2;
+      };
+      const startX = source.x + (dx / dist) * (boundary(sourceDim) + 6);
+      const startY = source.y + (dy / dist) * (boundary(sourceDim) + 6);
+      const endX = target.x - (dx / dist) * (boundary(targetDim) + 6);
+      const endY = target.y - (dy / dist) * (boundary(targetDim) + 6);
+      const bend = Math.min(60, dist * 0.25);
+      const ctrlX = (startX + endX) / 2 + (dy / dist) * bend;
+      const ctrlY = (startY + endY) / 2 - (dx / dist) * bend;
+      const pathD = `M ${startX} ${startY} Q ${ctrlX} ${ctrlY} ${endX} ${endY}`;
+
+      const arcG = edgeGroup.append('g');
+      arcG.append('path')
+        .attr('d', pathD)
+        .attr('fill', 'none')
+        .attr('stroke', CONFOUNDER_COLOR)
+        .attr('stroke-width', 1.5)
+        .attr('stroke-dasharray', '6,4')
+        .attr('marker-start', 'url(#arrowhead-confounder)')
+        .attr('marker-end', 'url(#arrowhead-confounder)');
+
+      arcG.append('text')
+        .attr('x', 0.25 * startX + 0.5 * ctrlX + 0.25 * endX)
+        .attr('y', 0.25 * startY + 0.5 * ctrlY + 0.25 * endY - 4)
+        .attr('text-anchor', 'middle')
+        .attr('fill', CONFOUNDER_COLOR)
+        .attr('font-size', '9px')
+        .text(`ρ ${confounder.correlation.toFixed(2)}`);
+
+      arcG.append('title')
+        .text(`${labelOf(a)} ↔ ${labelOf(b)}: shared unobserved shock${confounder.label ? ` (${confounder.label})` : ''}, correlation ${confounder.correlation}`);
+    });
+
+    // Moderator edges: dotted line from the moderator to the moderated edge's midpoint, ending in a dot
+    moderatorEdges.forEach((edge) => {
+      const source = positionMap.get(edge.source);
+      const midpoint = edgeMidpoints.get(`${edge.moderates}->${edge.target}`);
+      if (!source || !midpoint) return;
+
+      const sourceDim = nodeDimensions.get(edge.source) || { width: 80, height: 32 };
+      const edgeId = `${edge.source}->${edge.target}`;
+      const isEdgeSelected = edgeId === selectedEdgeId;
+      const edgeColor = isEdgeSelected ? '#0ea5e9' : getEdgeColor(edge.effect);
+
+      const dx = midpoint.x - source.x;
+      const dy = midpoint.y - source.y;
+      const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+      const offsetX = Math.abs(dx) > 0.001 ? Math.min(sourceDim.width / 2, Math.abs((sourceDim.height / 2) * dx / dy)) : 0;
+      const offsetY = Math.abs(dy) > 0.001 ? Math.min(sourceDim.height / 2, Math.abs((sourceDim.width / 2) * dy / dx)) : 0;
+      const offset = Math.sqrt(offsetX * offsetX + offsetY * offsetY) || sourceDim.width / 2;
+      const pathD = `M ${source.x + (dx / dist) * offset} ${source.y + (dy / dist) * offset} L ${midpoint.x} ${midpoint.y}`;
+
+      const edgeG = edgeGroup.append('g')
+        .attr('cursor', 'pointer')
+        .on('click', (event) => {
+          event.stopPropagation();
+          console.log('>>> MODERATOR EDGE CLICK:', edge.source, 'moderates', edge.moderates, '->', edge.target);
+          selectEdge(edgeId);
+        });
+
+      edgeG.append('path')
+        .attr('d', pathD)
+        .attr('fill', 'none')
+        .attr('stroke', 'transparent')
+        .attr('stroke-width', 12);
+
+      const path = edgeG.append('path')
+        .attr('d', pathD)
+        .attr('fill', 'none')
+        .attr('stroke', edgeColor)
+        .attr('stroke-width', isEdgeSelected ? 3 : 1.5)
+        .attr('stroke-dasharray', '2,3');
+
+      if (isEdgeSelected) {
+        path.attr('filter', 'drop-shadow(0 0 4px rgba(14, 165, 233, 0.5))');
+      }
+
+      edgeG.append('circle')
+        .attr('cx', midpoint.x)
+        .attr('cy', midpoint.y)
+        .attr('r', 4)
+        .attr('fill', 'white')
+        .attr('stroke', edgeColor)
+        .attr('stroke-width', 2);
+
+      edgeG.append('title')
+        .text(`${labelOf(edge.source)} moderates ${labelOf(edge.moderates)} → ${labelOf(edge.target)}`);
+    });
+
     // Draw nodes
     const nodeGroup = svg.append('g').attr('class', 'nodes');
 
@@ -381,6 +566,7 @@ export default function CausalGraph({ width = 800, height = 600 }: Props) {
     positions.forEach((pos) => {
       const isSelected = pos.id === selectedNodeId;
       const isIntervened = interventions.has(pos.id);
+      const observation = evidence.get(pos.id);
       const zone = model.zones[pos.node.zone];
       const distribution = nodeDistributions.get(pos.id);
       const dim = nodeDimensions.get(pos.id) || { width: 80, height: 32 };
@@ -485,11 +671,86 @@ export default function CausalGraph({ width = 800, height = 600 }: Props) {
           .attr('filter', 'drop-shadow(0 0 8px rgba(251, 146, 60, 0.6))');
       }
 
+      // Observed (conditioned on): teal with a dashed outline, distinct from the solid orange do-intervention
+      if (observation) {
+        shape
+          .attr('fill', '#CCFBF1')
+          .attr('stroke', '#0D9488')
+          .attr('stroke-dasharray', '6,3')
+          .attr('filter', 'drop-shadow(0 0 6px rgba(13, 148, 136, 0.5))');
+
+        const badge = g.append('g')
+          .attr('transform', `translate(${-w / 2 + 2}, ${-h / 2 + 2})`);
+        badge.append('circle')
+          .attr('r', 7)
+          .attr('fill', 'white')
+          .attr('stroke', '#0D9488')
+          .attr('stroke-width', 1.5);
+        badge.append('text')
+          .attr('text-anchor', 'middle')
+          .attr('dy', '0.35em')
+          .attr('font-size', '9px')
+          .attr('font-weight', '600')
+          .attr('fill', '#0D9488')
+          .text('?');
+        badge.append('title')
+          .text(`Observed ${describeObservation(observation)}`);
+      }
+
       // Selection highlight
-      if (isSelected && !isIntervened) {
+      if (isSelected && !isIntervened && !observation) {
         shape.attr('filter', 'drop-shadow(0 0 4px rgba(59, 130, 246, 0.5))');
       }
 
+      // Feedback loop badge, colored by equilibrium status
+      const loopReport = equilibrium[pos.id];
+      if (loopReport) {
+        const badge = g.append('g')
+          .attr('transform', `translate(${w / 2 - 2}, ${-h / 2 + 2})`);
+        badge.append('circle')
+          .attr('r', 7)
+          .attr('fill', 'white')
+          .attr('stroke', loopStatusColors[loopReport.status])
+          .attr('stroke-width', 1.5);
+        badge.append('text')
+          .attr('text-anchor', 'middle')
+          .attr('dy', '0.35em')
+          .attr('font-size', '10px')
+          .attr('fill', loopStatusColors[loopReport.status])
+          .text('↻');
+        badge.append('title')
+          .text(`Feedback loop ${loopReport.loopIndex + 1}: ${loopReport.status} after ${loopReport.rounds} rounds`);
+      }
+
+      // Joint mechanism badge: one symbol per mechanism, bottom-left
+      const mechanisms = pos.node.mechanisms ?? [];
+      if (mechanisms.length > 0) {
+        const symbols = mechanisms.map(m => JOINT_MECHANISM_TYPES.find(t => t.value === m.type)?.symbol ?? '?').join(' ');
+        const badgeWidth = Math.max(16, symbols.length * 6 + 8);
+        const badge = g.append('g')
+          .attr('transform', `translate(${-w / 2 + 2}, ${h / 2 - 2})`);
+        badge.append('rect')
+          .attr('x', 0)
+          .attr('y', -7)
+          .attr('width', badgeWidth)
+          .attr('height', 14)
+          .attr('rx', 7)
+          .attr('fill', 'white')
+          .attr('stroke', JOINT_MECHANISM_COLOR)
+          .attr('stroke-width', 1.5);
+        badge.append('text')
+          .attr('x', badgeWidth / 2)
+          .attr('text-anchor', 'middle')
+          .attr('dy', '0.35em')
+          .attr('font-size', '9px')
+          .attr('font-weight', '600')
+          .attr('fill', JOINT_MECHANISM_COLOR)
+          .text(symbols);
+        const labelOf = (id: string) => model.nodes.find(n => n.id === id)?.label ?? id;
+        badge.append('title')
+          .text(mechanisms.map(m => `${JOINT_MECHANISM_TYPES.find(t => t.value === m.type)?.label ?? m.type} of ${m.parents.map(labelOf).join(', ')}`).join('\n'));
+      }
+
       // Always show mean and units - use computed distribution or fall back to prior
       const hasMean = distribution?.mean !== undefined || pos.node.distribution;
 
@@ -510,27 +771,28 @@ export default function CausalGraph({ width = 800, height = 600 }: Props) {
           meanValue = distribution.mean;
         } else {
           // Fall back to prior distribution mean
-          const prior = pos.node.distribution;
-          if (prior.type === 'continuous' && prior.params) {
-            meanValue = prior.params[0]; // First param is mean for normal
-          } else if (prior.type === 'bounded') {
-            meanValue = (prior.min + prior.max) / 2;
-          } else {
-            meanValue = 0;
-          }
+          meanValue = expectedValue(pos.node.distribution);
         }
 
         const units = pos.node.units ? ` (${pos.node.units})` : '';
+        // Binary nodes show P(true); categorical ones their most likely outcome
+        const categories = distribution?.categories;
+        const modal = categories?.reduce((best, c) => (c.probability > best.probability ? c : best), categories[0]);
+        const summary = !categories || !modal
+          ? `μ=${meanValue.toFixed(1)}${units}`
+          : pos.node.distribution.type === 'binary'
+            ? `P=${(categories[1].probability * 100).toFixed(0)}%`
+            : `${modal.label} ${(modal.probability * 100).toFixed(0)}%`;
         g.append('text')
           .attr('text-anchor', 'middle')
           .attr('dy', '1.1em')
           .attr('font-size', '9px')
           .attr('fill', '#6b7280')
-          .text(`μ=${meanValue.toFixed(1)}${units}`);
+          .text(summary);
       }
     });
 
-  }, [model, interventions, nodeDistributions, selectedNodeId, selectedEdgeId, calculatePositions, selectNode, selectEdge, hoverNode, dagreLoaded]);
+  }, [model, interventions, evidence, nodeDistributions, equilibrium, selectedNodeId, selectedEdgeId, calculatePositions, selectNode, selectEdge, hoverNode, dagreLoaded]);
 
   if (!model) {
     return (
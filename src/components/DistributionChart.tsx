@@ -1,28 +1,123 @@
 'use client';
 
 import { useMemo } from 'react';
-import type { RenderableDistribution } from '@/types/causal';
+import { pdf, support } from '@/lib/distributions';
+import type { Distribution, RenderableDistribution } from '@/types/causal';
 
 interface Props {
   distribution: RenderableDistribution;
   interventionValue?: number;
+  comparison?: RenderableDistribution; // Overlaid as a dashed outline (e.g. counterfactual)
+  prior?: Distribution; // Analytic density drawn as a dotted line, or ticks over outcome bars
   width?: number;
   height?: number;
 }
 
+/**
+ * Binary and categorical nodes: one bar per outcome with its Monte Carlo
+ * error, the prior probability as a dotted tick and any comparison as a
+ * dashed outline
+ */
+function OutcomeBars({ distribution, interventionValue, comparison, prior, width = 200, height = 80 }: Props) {
+  const categories = distribution.categories ?? [];
+  const padding = 10;
+  const labelHeight = 12;
+  const slot = (width - padding * 2) / Math.max(categories.length, 1);
+  const barWidth = Math.min(slot * 0.6, 40);
+  const chartBottom = height - labelHeight;
+  const yScale = (p: number) => chartBottom - p * (chartBottom - padding);
+
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      {categories.map((category, k) => {
+        const x = padding + slot * k + (slot - barWidth) / 2;
+        const center = x + barWidth / 2;
+        const priorProbability = prior ? pdf(prior, k) : NaN;
+        const compared = comparison?.categories?.[k];
+        const intervened = interventionValue !== undefined && Math.round(interventionValue) === k;
+        return (
+          <g key={k}>
+            <title>{`${category.label}: ${(category.probability * 100).toFixed(1)}% ± ${(category.standardError * 100).toFixed(1)}`}</title>
+            <rect
+              x={x}
+              y={yScale(category.probability)}
+              width={barWidth}
+              height={chartBottom - yScale(category.probability)}
+              fill="rgba(59, 130, 246, 0.2)"
+              stroke={intervened ? 'rgb(251, 146, 60)' : 'rgb(59, 130, 246)'}
+              strokeWidth={intervened ? 2 : 1.5}
+            />
+            {category.standardError > 0 && (
+              <line
+                x1={center}
+                y1={yScale(Math.min(category.probability + category.standardError, 1))}
+                x2={center}
+                y2={yScale(Math.max(category.probability - category.standardError, 0))}
+                stroke="rgb(59, 130, 246)"
+                strokeWidth={1}
+              />
+            )}
+            {compared && (
+              <rect
+                x={x - 2}
+                y={yScale(compared.probability)}
+                width={barWidth + 4}
+                height={chartBottom - yScale(compared.probability)}
+                fill="none"
+                stroke="rgb(147, 51, 234)"
+                strokeWidth={1.5}
+                strokeDasharray="4,3"
+              />
+            )}
+            {isFinite(priorProbability) && (
+              <line
+                x1={x - 4}
+                y1={yScale(priorProbability)}
+                x2={x + barWidth + 4}
+                y2={yScale(priorProbability)}
+                stroke="#9ca3af"
+                strokeWidth={1.5}
+                strokeDasharray="1,3"
+                strokeLinecap="round"
+              />
+            )}
+            <text x={center} y={height - 2} textAnchor="middle" fontSize={9} fill="#6b7280">
+              {category.label.length > 10 ? `${category.label.slice(0, 9)}…` : category.label}
+            </text>
+          </g>
+        );
+      })}
+      <line x1={padding} y1={chartBottom} x2={width - padding} y2={chartBottom} stroke="#e5e7eb" strokeWidth={1} />
+    </svg>
+  );
+}
+
 export default function DistributionChart({
   distribution,
   interventionValue,
+  comparison,
+  prior,
   width = 200,
   height = 80,
 }: Props) {
-  const { pathD, xScale, yMax } = useMemo(() => {
+  const { pathD, comparisonD, priorD, xScale, yMax } = useMemo(() => {
     const points = distribution.points;
-    if (points.length === 0) return { pathD: '', xScale: (x: number) => 0, yMax: 0 };
+    if (points.length === 0) return { pathD: '', comparisonD: '', priorD: '', xScale: (x: number) => 0, yMax: 0 };
+
+    // Shared axes so all curves are directly comparable
+    const allPoints = comparison ? [...points, ...comparison.points] : points;
+    const xMin = Math.min(...allPoints.map((p) => p.x));
+    const xMax = Math.max(...allPoints.map((p) => p.x));
+    const sampledMax = Math.max(...allPoints.map((p) => p.y));
 
-    const xMin = points[0].x;
-    const xMax = points[points.length - 1].x;
-    const yMax = Math.max(...points.map((p) => p.y));
+    // Prior density over the same range, capped so a spiky prior cannot flatten the sampled curves
+    const priorPoints = prior && !support(prior).discrete
+      ? Array.from({ length: 61 }, (_, i) => {
+          const x = xMin + ((xMax - xMin) * i) / 60;
+          return { x, y: pdf(prior, x) };
+        }).filter((p) => isFinite(p.y))
+      : [];
+    const yMax = Math.min(Math.max(sampledMax, ...priorPoints.map((p) => p.y)), sampledMax * 2);
 
     const padding = 10;
     const chartWidth = width - padding * 2;
@@ -46,13 +141,41 @@ export default function DistributionChart({
     pathPoints.push(`L ${firstX} ${baseline}`);
     pathPoints.push('Z');
 
-    return { pathD: pathPoints.join(' '), xScale, yMax };
-  }, [distribution, width, height]);
+    const comparisonD = comparison
+      ? comparison.points
+          .map((p, i) => `${i === 0 ? 'M' : 'L'} ${xScale(p.x)} ${yScale(p.y)}`)
+          .join(' ')
+      : '';
+
+    const priorD = priorPoints
+      .map((p, i) => `${i === 0 ? 'M' : 'L'} ${xScale(p.x)} ${Math.max(yScale(p.y), padding)}`)
+      .join(' ');
+
+    return { pathD: pathPoints.join(' '), comparisonD, priorD, xScale, yMax };
+  }, [distribution, comparison, prior, width, height]);
+
+  if (distribution.categories) {
+    return (
+      <OutcomeBars
+        distribution={distribution}
+        interventionValue={interventionValue}
+        comparison={comparison}
+        prior={prior}
+        width={width}
+        height={height}
+      />
+    );
+  }
 
   const interventionX = interventionValue !== undefined ? xScale(interventionValue) : null;
 
   return (
     <svg width={width} height={height} className="overflow-visible">
+      {/* Prior density */}
+      {priorD && (
+        <path d={priorD} fill="none" stroke="#9ca3af" strokeWidth={1.5} strokeDasharray="1,3" strokeLinecap="round" />
+      )}
+
       {/* Distribution curve */}
       <path
         d={pathD}
@@ -61,6 +184,28 @@ export default function DistributionChart({
         strokeWidth={2}
       />
 
+      {/* Comparison curve and its mean */}
+      {comparison && (
+        <>
+          <path
+            d={comparisonD}
+            fill="none"
+            stroke="rgb(147, 51, 234)"
+            strokeWidth={2}
+            strokeDasharray="4,3"
+          />
+          <line
+            x1={xScale(comparison.mean)}
+            y1={10}
+            x2={xScale(comparison.mean)}
+            y2={height - 10}
+            stroke="rgb(147, 51, 234)"
+            strokeWidth={1}
+            strokeDasharray="3,3"
+          />
+        </>
+      )}
+
       {/* Mean line */}
       <line
         x1={xScale(distribution.mean)}
@@ -2,14 +2,39 @@
 
 import { useState, useMemo, useCallback } from 'react';
 import { useCausalGraphStore } from '@/store/graphStore';
-import type { EffectFunction, LinearEffect, MultiplicativeEffect, ThresholdEffect, LogisticEffect } from '@/types/causal';
+import { expectedValue, outcomeLabels } from '@/lib/distributions';
+import { partitionParentEdges } from '@/lib/inference';
+import { JOINT_MECHANISM_TYPES } from '@/lib/mechanisms';
+import { KNOT_INTERPOLATIONS, type KnotInterpolation } from '@/lib/piecewise';
+import { compileExpression, validateExpression } from '@/lib/expression';
+import { validateTableCells } from '@/lib/table';
+import {
+  EFFECT_PARAMETERS,
+  effectParameter,
+  isUncertain,
+  parameterMean,
+  parameterSpread,
+  validateEffectParameters,
+  withParameterMean,
+  withParameterSpread,
+} from '@/lib/parameters';
+import { describeDistribution } from '@/lib/interventions';
+import type { EffectFunction, EffectParameter, LinearEffect, MultiplicativeEffect, ThresholdEffect, LogisticEffect, PiecewiseEffect, HillEffect, DecayEffect, PowerEffect, ExpressionEffect, TableEffect } from '@/types/causal';
+import KnotEditor from './KnotEditor';
+import TableEditor from './TableEditor';
 
 // Effect type colors matching CausalGraph
-const effectColors: Record<string, { bg: string; text: string; border: string }> = {
-  linear: { bg: 'bg-gray-100', text: 'text-gray-700', border: 'border-gray-300' },
-  multiplicative: { bg: 'bg-blue-100', text: 'text-blue-700', border: 'border-blue-300' },
-  threshold: { bg: 'bg-amber-100', text: 'text-amber-700', border: 'border-amber-300' },
-  logistic: { bg: 'bg-violet-100', text: 'text-violet-700', border: 'border-violet-300' },
+const effectColors: Record<string, { bg: string; text: string; border: string; ring: string }> = {
+  linear: { bg: 'bg-gray-100', text: 'text-gray-700', border: 'border-gray-300', ring: 'ring-gray-400' },
+  multiplicative: { bg: 'bg-blue-100', text: 'text-blue-700', border: 'border-blue-300', ring: 'ring-blue-400' },
+  threshold: { bg: 'bg-amber-100', text: 'text-amber-700', border: 'border-amber-300', ring: 'ring-amber-400' },
+  logistic: { bg: 'bg-violet-100', text: 'text-violet-700', border: 'border-violet-300', ring: 'ring-violet-400' },
+  piecewise: { bg: 'bg-teal-100', text: 'text-teal-700', border: 'border-teal-300', ring: 'ring-teal-400' },
+  hill: { bg: 'bg-emerald-100', text: 'text-emerald-700', border: 'border-emerald-300', ring: 'ring-emerald-400' },
+  decay: { bg: 'bg-rose-100', text: 'text-rose-700', border: 'border-rose-300', ring: 'ring-rose-400' },
+  power: { bg: 'bg-indigo-100', text: 'text-indigo-700', border: 'border-indigo-300', ring: 'ring-indigo-400' },
+  expression: { bg: 'bg-fuchsia-100', text: 'text-fuchsia-700', border: 'border-fuchsia-300', ring: 'ring-fuchsia-400' },
+  table: { bg: 'bg-sky-100', text: 'text-sky-700', border: 'border-sky-300', ring: 'ring-sky-400' },
 };
 
 const effectTypeLabels: Record<string, string> = {
@@ -17,6 +42,12 @@ const effectTypeLabels: Record<string, string> = {
   multiplicative: 'Multiplicative',
   threshold: 'Threshold',
   logistic: 'Logistic',
+  piecewise: 'Piecewise',
+  hill: 'Saturating',
+  decay: 'Decay',
+  power: 'Power law',
+  expression: 'Expression',
+  table: 'Table',
 };
 
 const effectTypeDescriptions: Record<string, string> = {
@@ -24,10 +55,41 @@ const effectTypeDescriptions: Record<string, string> = {
   multiplicative: 'Percentage-based or compounding effect',
   threshold: 'Step change at a critical value',
   logistic: 'Probability/binary outcome effect',
+  piecewise: 'Response curve drawn through known points',
+  hill: 'Diminishing returns that level off (dose-response)',
+  decay: 'Exponential fall-off towards a floor',
+  power: 'Constant elasticity: % change in source gives scaled % change',
+  expression: 'Custom formula over the source value',
+  table: 'One cell per category of a categorical source',
 };
 
-// Helper to create default effect for each type
-function createDefaultEffect(type: EffectFunction['type']): EffectFunction {
+const parameterLabels: Record<string, string> = {
+  coefficient: 'Coefficient',
+  intercept: 'Intercept',
+  saturation: 'Saturation',
+  threshold: 'Threshold',
+  factor: 'Factor',
+  baseline: 'Baseline',
+  cutoff: 'Cutoff',
+  below: 'Below',
+  above: 'Above',
+  smoothness: 'Smoothness',
+  maxEffect: 'Maximum effect',
+  halfSaturation: 'Half-saturation',
+  hillCoefficient: 'Hill coefficient',
+  rate: 'Rate',
+  floor: 'Floor',
+  exponent: 'Exponent',
+};
+
+// What a parameter's input shows: its mean when uncertain, blank when an optional parameter is unset
+function shownValue(value: EffectParameter | undefined): number | '' {
+  return value === undefined ? '' : parameterMean(value);
+}
+
+// Helper to create default effect for each type (piecewise knots span the parent's mean,
+// the Hill half-saturation sits at it, and tables get one neutral cell per parent category)
+function createDefaultEffect(type: EffectFunction['type'], parentMean: number, parentCategories: number): EffectFunction {
   switch (type) {
     case 'linear':
       return { type: 'linear', coefficient: 0.1 };
@@ -37,16 +99,38 @@ function createDefaultEffect(type: EffectFunction['type']): EffectFunction {
       return { type: 'threshold', cutoff: 0, below: 0, above: 1 };
     case 'logistic':
       return { type: 'logistic', coefficient: 0.5, threshold: 0 };
+    case 'piecewise': {
+      const spread = Math.abs(parentMean) / 2 || 1;
+      return {
+        type: 'piecewise',
+        knots: [
+          { x: parentMean - spread, multiplier: 0.8 },
+          { x: parentMean, multiplier: 1 },
+          { x: parentMean + spread, multiplier: 1.2 },
+        ],
+      };
+    }
+    case 'hill':
+      return { type: 'hill', maxEffect: 0.5, halfSaturation: parentMean > 0 ? parentMean : 1, hillCoefficient: 1 };
+    case 'decay':
+      return { type: 'decay', rate: 1, floor: 0.2 };
+    case 'power':
+      return { type: 'power', exponent: 0.5 };
+    case 'expression':
+      return { type: 'expression', expression: 'base + 0.1 * (parent - parentMean)' };
+    case 'table':
+      return { type: 'table', cells: Array.from({ length: parentCategories }, () => ({ multiplier: 1 })) };
   }
 }
 
 export default function EdgeInspector() {
-  const [isComputing, setIsComputing] = useState(false);
   const model = useCausalGraphStore((s) => s.model);
+  const isComputing = useCausalGraphStore((s) => s.isComputing);
   const selectedEdgeId = useCausalGraphStore((s) => s.selectedEdgeId);
   const selectEdge = useCausalGraphStore((s) => s.selectEdge);
   const selectNode = useCausalGraphStore((s) => s.selectNode);
   const updateEdgeEffect = useCausalGraphStore((s) => s.updateEdgeEffect);
+  const updateEdgeModeration = useCausalGraphStore((s) => s.updateEdgeModeration);
 
   // Parse edge ID to get source and target
   const [sourceId, targetId] = useMemo(() => {
@@ -71,13 +155,40 @@ export default function EdgeInspector() {
     return model.nodes.find((n) => n.id === targetId);
   }, [model, targetId]);
 
+  // Other direct edges into the same target, which this edge could moderate
+  const moderationCandidates = useMemo(() => {
+    if (!model || !edge) return [];
+    return model.edges
+      .filter((e) => e.target === edge.target && e.source !== edge.source && !e.moderates)
+      .map((e) => model.nodes.find((n) => n.id === e.source))
+      .filter(Boolean);
+  }, [model, edge]);
+
+  // Edges that scale this one
+  const moderatedBy = useMemo(() => {
+    if (!model || !edge) return [];
+    return model.edges
+      .filter((e) => e.target === edge.target && e.moderates === edge.source)
+      .map((e) => model.nodes.find((n) => n.id === e.source))
+      .filter(Boolean);
+  }, [model, edge]);
+
+  // Joint mechanism on the target that reads this edge instead of applying its effect
+  const jointMechanism = useMemo(() => {
+    if (!model || !edge || !targetNode?.mechanisms) return null;
+    const { joint } = partitionParentEdges(model.edges.filter((e) => e.target === edge.target), targetNode.mechanisms);
+    return joint.find(({ edges }) => edges.includes(edge))?.mechanism ?? null;
+  }, [model, edge, targetNode]);
+
   // Local state for editing
   const [localEffect, setLocalEffect] = useState<EffectFunction | null>(null);
+  const [localModerates, setLocalModerates] = useState<string | undefined>(undefined);
 
   // Initialize local effect when edge changes
   useMemo(() => {
     if (edge) {
       setLocalEffect({ ...edge.effect });
+      setLocalModerates(edge.moderates);
     }
   }, [edge]);
 
@@ -85,28 +196,58 @@ export default function EdgeInspector() {
   const colors = effectType ? effectColors[effectType] : effectColors.linear;
 
   // Check if local effect differs from saved
-  const hasChanges = useMemo(() => {
+  const effectChanged = useMemo(() => {
     if (!edge || !localEffect) return false;
     return JSON.stringify(edge.effect) !== JSON.stringify(localEffect);
   }, [edge, localEffect]);
+  const moderationChanged = edge ? (edge.moderates || undefined) !== (localModerates || undefined) : false;
+  const hasChanges = effectChanged || moderationChanged;
+
+  const sourceMean = sourceNode ? expectedValue(sourceNode.distribution) : 0;
+  const targetMean = targetNode ? expectedValue(targetNode.distribution) : 0;
+
+  // Syntax and name errors block applying an expression effect
+  const expressionError = useMemo(() => {
+    if (localEffect?.type !== 'expression') return null;
+    return validateExpression(localEffect.expression, localEffect.constants);
+  }, [localEffect]);
+
+  // The expression at the source's mean with the target at its mean, for a sanity check
+  const expressionPreview = useMemo(() => {
+    if (localEffect?.type !== 'expression' || expressionError) return null;
+    return compileExpression(localEffect.expression, localEffect.constants)(sourceMean, targetMean, sourceMean);
+  }, [localEffect, expressionError, sourceMean, targetMean]);
+
+  // A categorical or binary source's outcomes, which a table effect gives one cell each
+  const sourceCategories = useMemo(() => (sourceNode ? outcomeLabels(sourceNode.distribution) : null), [sourceNode]);
+
+  const tableError = useMemo(() => {
+    if (localEffect?.type !== 'table' || !targetNode) return null;
+    if (!sourceCategories) return `${sourceNode?.label} is not categorical, so a table has no categories to fill`;
+    return validateTableCells(localEffect.cells, sourceCategories.length, targetNode.distribution);
+  }, [localEffect, sourceCategories, sourceNode, targetNode]);
+
+  // Parameters set on the current effect, each of which can be given a spread
+  const uncertainNames = useMemo(() => {
+    if (!localEffect) return [];
+    return EFFECT_PARAMETERS[localEffect.type].filter((name) => effectParameter(localEffect, name) !== undefined);
+  }, [localEffect]);
+
+  const parameterError = useMemo(() => (localEffect ? validateEffectParameters(localEffect) : null), [localEffect]);
 
   const handleTypeChange = useCallback((newType: EffectFunction['type']) => {
-    setLocalEffect(createDefaultEffect(newType));
-  }, []);
+    setLocalEffect(createDefaultEffect(newType, sourceMean, sourceCategories?.length ?? 0));
+  }, [sourceMean, sourceCategories]);
 
   const handleApplyChanges = useCallback(() => {
-    if (!sourceId || !targetId || !localEffect) return;
-    setIsComputing(true);
-    setTimeout(() => {
-      try {
-        updateEdgeEffect(sourceId, targetId, localEffect);
-      } catch (error) {
-        console.error('[EdgeInspector] Error updating edge effect:', error);
-      } finally {
-        setIsComputing(false);
-      }
-    }, 10);
-  }, [sourceId, targetId, localEffect, updateEdgeEffect]);
+    if (!sourceId || !targetId || !localEffect || expressionError || tableError || parameterError) return;
+    try {
+      if (effectChanged) updateEdgeEffect(sourceId, targetId, localEffect);
+      if (moderationChanged) updateEdgeModeration(sourceId, targetId, localModerates);
+    } catch (error) {
+      console.error('[EdgeInspector] Error updating edge effect:', error);
+    }
+  }, [sourceId, targetId, localEffect, expressionError, tableError, parameterError, effectChanged, moderationChanged, localModerates, updateEdgeEffect, updateEdgeModeration]);
 
   if (!edge || !sourceNode || !targetNode) {
     return (
@@ -153,21 +294,30 @@ export default function EdgeInspector() {
         <span className="font-medium">{effectTypeLabels[effectType || 'linear']}</span>
       </div>
       <p className="text-sm text-gray-500">{effectTypeDescriptions[effectType || 'linear']}</p>
+      {jointMechanism && (
+        <p className="text-xs text-pink-700 bg-pink-50 border border-pink-200 rounded p-2">
+          {sourceNode.label} feeds the {JOINT_MECHANISM_TYPES.find((t) => t.value === jointMechanism.type)?.label.toLowerCase()} mechanism
+          on {targetNode.label}, so this edge&apos;s own effect is not applied. Edit it from the {targetNode.label} node.
+        </p>
+      )}
 
       {/* Effect Type Selector */}
       <div className="space-y-2">
         <label className="text-sm font-medium text-gray-700">Effect Type</label>
         <div className="grid grid-cols-2 gap-2">
-          {(['linear', 'multiplicative', 'threshold', 'logistic'] as const).map((type) => {
+          {(['linear', 'multiplicative', 'threshold', 'logistic', 'piecewise', 'hill', 'decay', 'power', 'expression', 'table'] as const).map((type) => {
             const typeColors = effectColors[type];
             const isSelected = effectType === type;
+            const unavailable = type === 'table' && !sourceCategories && !isSelected;
             return (
               <button
                 key={type}
                 onClick={() => handleTypeChange(type)}
-                className={`px-3 py-2 text-sm rounded border transition ${
+                disabled={unavailable}
+                title={unavailable ? `Tables need a categorical or binary source; ${sourceNode.label} is numeric` : undefined}
+                className={`px-3 py-2 text-sm rounded border transition disabled:opacity-40 disabled:cursor-not-allowed ${
                   isSelected
-                    ? `${typeColors.bg} ${typeColors.text} ${typeColors.border} ring-2 ring-offset-1 ring-${type === 'linear' ? 'gray' : type === 'multiplicative' ? 'blue' : type === 'threshold' ? 'amber' : 'violet'}-400`
+                    ? `${typeColors.bg} ${typeColors.text} ${typeColors.border} ring-2 ring-offset-1 ${typeColors.ring}`
                     : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
                 }`}
               >
@@ -189,10 +339,10 @@ export default function EdgeInspector() {
               <input
                 type="number"
                 step="0.01"
-                value={(localEffect as LinearEffect).coefficient}
+                value={shownValue((localEffect as LinearEffect).coefficient)}
                 onChange={(e) => setLocalEffect({
                   ...localEffect,
-                  coefficient: parseFloat(e.target.value) || 0,
+                  coefficient: withParameterMean((localEffect as LinearEffect).coefficient, parseFloat(e.target.value) || 0),
                 } as LinearEffect)}
                 className="w-full px-2 py-1.5 text-sm border rounded"
               />
@@ -203,10 +353,10 @@ export default function EdgeInspector() {
               <input
                 type="number"
                 step="0.1"
-                value={(localEffect as LinearEffect).intercept ?? ''}
+                value={shownValue((localEffect as LinearEffect).intercept)}
                 onChange={(e) => setLocalEffect({
                   ...localEffect,
-                  intercept: e.target.value ? parseFloat(e.target.value) : undefined,
+                  intercept: e.target.value ? withParameterMean((localEffect as LinearEffect).intercept, parseFloat(e.target.value)) : undefined,
                 } as LinearEffect)}
                 className="w-full px-2 py-1.5 text-sm border rounded"
               />
@@ -216,10 +366,10 @@ export default function EdgeInspector() {
               <input
                 type="number"
                 step="0.5"
-                value={(localEffect as LinearEffect).saturation ?? ''}
+                value={shownValue((localEffect as LinearEffect).saturation)}
                 onChange={(e) => setLocalEffect({
                   ...localEffect,
-                  saturation: e.target.value ? parseFloat(e.target.value) : undefined,
+                  saturation: e.target.value ? withParameterMean((localEffect as LinearEffect).saturation, parseFloat(e.target.value)) : undefined,
                 } as LinearEffect)}
                 className="w-full px-2 py-1.5 text-sm border rounded"
               />
@@ -235,10 +385,10 @@ export default function EdgeInspector() {
               <input
                 type="number"
                 step="0.01"
-                value={(localEffect as MultiplicativeEffect).factor}
+                value={shownValue((localEffect as MultiplicativeEffect).factor)}
                 onChange={(e) => setLocalEffect({
                   ...localEffect,
-                  factor: parseFloat(e.target.value) || 1,
+                  factor: withParameterMean((localEffect as MultiplicativeEffect).factor, parseFloat(e.target.value) || 1),
                 } as MultiplicativeEffect)}
                 className="w-full px-2 py-1.5 text-sm border rounded"
               />
@@ -249,10 +399,10 @@ export default function EdgeInspector() {
               <input
                 type="number"
                 step="0.1"
-                value={(localEffect as MultiplicativeEffect).baseline ?? ''}
+                value={shownValue((localEffect as MultiplicativeEffect).baseline)}
                 onChange={(e) => setLocalEffect({
                   ...localEffect,
-                  baseline: e.target.value ? parseFloat(e.target.value) : undefined,
+                  baseline: e.target.value ? withParameterMean((localEffect as MultiplicativeEffect).baseline, parseFloat(e.target.value)) : undefined,
                 } as MultiplicativeEffect)}
                 className="w-full px-2 py-1.5 text-sm border rounded"
               />
@@ -268,10 +418,10 @@ export default function EdgeInspector() {
               <input
                 type="number"
                 step="0.1"
-                value={(localEffect as ThresholdEffect).cutoff}
+                value={shownValue((localEffect as ThresholdEffect).cutoff)}
                 onChange={(e) => setLocalEffect({
                   ...localEffect,
-                  cutoff: parseFloat(e.target.value) || 0,
+                  cutoff: withParameterMean((localEffect as ThresholdEffect).cutoff, parseFloat(e.target.value) || 0),
                 } as ThresholdEffect)}
                 className="w-full px-2 py-1.5 text-sm border rounded"
               />
@@ -283,10 +433,10 @@ export default function EdgeInspector() {
                 <input
                   type="number"
                   step="0.1"
-                  value={(localEffect as ThresholdEffect).below}
+                  value={shownValue((localEffect as ThresholdEffect).below)}
                   onChange={(e) => setLocalEffect({
                     ...localEffect,
-                    below: parseFloat(e.target.value) || 0,
+                    below: withParameterMean((localEffect as ThresholdEffect).below, parseFloat(e.target.value) || 0),
                   } as ThresholdEffect)}
                   className="w-full px-2 py-1.5 text-sm border rounded"
                 />
@@ -296,10 +446,10 @@ export default function EdgeInspector() {
                 <input
                   type="number"
                   step="0.1"
-                  value={(localEffect as ThresholdEffect).above}
+                  value={shownValue((localEffect as ThresholdEffect).above)}
                   onChange={(e) => setLocalEffect({
                     ...localEffect,
-                    above: parseFloat(e.target.value) || 0,
+                    above: withParameterMean((localEffect as ThresholdEffect).above, parseFloat(e.target.value) || 0),
                   } as ThresholdEffect)}
                   className="w-full px-2 py-1.5 text-sm border rounded"
                 />
@@ -310,10 +460,10 @@ export default function EdgeInspector() {
               <input
                 type="number"
                 step="0.5"
-                value={(localEffect as ThresholdEffect).smoothness ?? ''}
+                value={shownValue((localEffect as ThresholdEffect).smoothness)}
                 onChange={(e) => setLocalEffect({
                   ...localEffect,
-                  smoothness: e.target.value ? parseFloat(e.target.value) : undefined,
+                  smoothness: e.target.value ? withParameterMean((localEffect as ThresholdEffect).smoothness, parseFloat(e.target.value)) : undefined,
                 } as ThresholdEffect)}
                 className="w-full px-2 py-1.5 text-sm border rounded"
               />
@@ -329,10 +479,10 @@ export default function EdgeInspector() {
               <input
                 type="number"
                 step="0.1"
-                value={(localEffect as LogisticEffect).coefficient}
+                value={shownValue((localEffect as LogisticEffect).coefficient)}
                 onChange={(e) => setLocalEffect({
                   ...localEffect,
-                  coefficient: parseFloat(e.target.value) || 0,
+                  coefficient: withParameterMean((localEffect as LogisticEffect).coefficient, parseFloat(e.target.value) || 0),
                 } as LogisticEffect)}
                 className="w-full px-2 py-1.5 text-sm border rounded"
               />
@@ -343,10 +493,10 @@ export default function EdgeInspector() {
               <input
                 type="number"
                 step="0.1"
-                value={(localEffect as LogisticEffect).threshold}
+                value={shownValue((localEffect as LogisticEffect).threshold)}
                 onChange={(e) => setLocalEffect({
                   ...localEffect,
-                  threshold: parseFloat(e.target.value) || 0,
+                  threshold: withParameterMean((localEffect as LogisticEffect).threshold, parseFloat(e.target.value) || 0),
                 } as LogisticEffect)}
                 className="w-full px-2 py-1.5 text-sm border rounded"
               />
@@ -354,13 +504,325 @@ export default function EdgeInspector() {
             </div>
           </div>
         )}
+
+        {localEffect?.type === 'piecewise' && (
+          <div className="space-y-3">
+            <KnotEditor
+              knots={(localEffect as PiecewiseEffect).knots}
+              interpolation={(localEffect as PiecewiseEffect).interpolation ?? 'linear'}
+              parentMean={sourceMean}
+              onChange={(knots) => setLocalEffect({ ...localEffect, knots } as PiecewiseEffect)}
+            />
+            <div>
+              <label className="text-xs text-gray-500">Interpolation</label>
+              <select
+                value={(localEffect as PiecewiseEffect).interpolation ?? 'linear'}
+                onChange={(e) => setLocalEffect({
+                  ...localEffect,
+                  interpolation: e.target.value as KnotInterpolation,
+                } as PiecewiseEffect)}
+                className="w-full px-2 py-1.5 text-sm border rounded bg-white"
+              >
+                {KNOT_INTERPOLATIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-400 mt-1">
+                {sourceNode.label} at each knot multiplies {targetNode.label} by the given factor; beyond the end knots the end factors hold
+              </p>
+            </div>
+          </div>
+        )}
+
+        {localEffect?.type === 'hill' && (
+          <div className="space-y-3">
+            <div>
+              <label className="text-xs text-gray-500">Maximum effect</label>
+              <input
+                type="number"
+                step="0.05"
+                value={shownValue((localEffect as HillEffect).maxEffect)}
+                onChange={(e) => setLocalEffect({
+                  ...localEffect,
+                  maxEffect: withParameterMean((localEffect as HillEffect).maxEffect, parseFloat(e.target.value) || 0),
+                } as HillEffect)}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              />
+              <p className="text-xs text-gray-400 mt-1">Multiplier change from no source to full saturation (negative = inhibition)</p>
+            </div>
+            <div>
+              <label className="text-xs text-gray-500">Half-saturation</label>
+              <input
+                type="number"
+                step="any"
+                value={shownValue((localEffect as HillEffect).halfSaturation)}
+                onChange={(e) => setLocalEffect({
+                  ...localEffect,
+                  halfSaturation: withParameterMean((localEffect as HillEffect).halfSaturation, parseFloat(e.target.value) || 0),
+                } as HillEffect)}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              />
+              <p className="text-xs text-gray-400 mt-1">{sourceNode.label} value giving half the maximum response</p>
+            </div>
+            <div>
+              <label className="text-xs text-gray-500">Hill coefficient (optional)</label>
+              <input
+                type="number"
+                step="0.5"
+                value={shownValue((localEffect as HillEffect).hillCoefficient)}
+                onChange={(e) => setLocalEffect({
+                  ...localEffect,
+                  hillCoefficient: e.target.value ? withParameterMean((localEffect as HillEffect).hillCoefficient, parseFloat(e.target.value)) : undefined,
+                } as HillEffect)}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              />
+              <p className="text-xs text-gray-400 mt-1">1 = Michaelis–Menten; higher = more switch-like</p>
+            </div>
+          </div>
+        )}
+
+        {localEffect?.type === 'decay' && (
+          <div className="space-y-3">
+            <div>
+              <label className="text-xs text-gray-500">Rate</label>
+              <input
+                type="number"
+                step="0.1"
+                value={shownValue((localEffect as DecayEffect).rate)}
+                onChange={(e) => setLocalEffect({
+                  ...localEffect,
+                  rate: withParameterMean((localEffect as DecayEffect).rate, parseFloat(e.target.value) || 0),
+                } as DecayEffect)}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              />
+              <p className="text-xs text-gray-400 mt-1">Decay per 100% rise of {sourceNode.label} above its mean</p>
+            </div>
+            <div>
+              <label className="text-xs text-gray-500">Floor (optional)</label>
+              <input
+                type="number"
+                step="0.05"
+                value={shownValue((localEffect as DecayEffect).floor)}
+                onChange={(e) => setLocalEffect({
+                  ...localEffect,
+                  floor: e.target.value ? withParameterMean((localEffect as DecayEffect).floor, parseFloat(e.target.value)) : undefined,
+                } as DecayEffect)}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              />
+              <p className="text-xs text-gray-400 mt-1">Multiplier approached as {sourceNode.label} keeps rising</p>
+            </div>
+          </div>
+        )}
+
+        {localEffect?.type === 'power' && (
+          <div className="space-y-3">
+            <div>
+              <label className="text-xs text-gray-500">Exponent</label>
+              <input
+                type="number"
+                step="0.1"
+                value={shownValue((localEffect as PowerEffect).exponent)}
+                onChange={(e) => setLocalEffect({
+                  ...localEffect,
+                  exponent: withParameterMean((localEffect as PowerEffect).exponent, parseFloat(e.target.value) || 0),
+                } as PowerEffect)}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              />
+              <p className="text-xs text-gray-400 mt-1">A 1% change in {sourceNode.label} moves {targetNode.label} by about this many %</p>
+            </div>
+          </div>
+        )}
+
+        {localEffect?.type === 'expression' && (
+          <div className="space-y-3">
+            <div>
+              <label className="text-xs text-gray-500">Expression</label>
+              <textarea
+                value={(localEffect as ExpressionEffect).expression}
+                onChange={(e) => setLocalEffect({
+                  ...localEffect,
+                  expression: e.target.value,
+                } as ExpressionEffect)}
+                rows={2}
+                spellCheck={false}
+                className={`w-full px-2 py-1.5 text-sm font-mono border rounded ${expressionError ? 'border-red-400' : ''}`}
+              />
+              {expressionError ? (
+                <p className="text-xs text-red-600 mt-1">
+                  {expressionError.message}
+                  {expressionError.position > 0 && ` (at character ${expressionError.position + 1})`}
+                </p>
+              ) : (
+                <p className="text-xs text-gray-400 mt-1">
+                  Gives {targetNode.label} from <code>parent</code> ({sourceNode.label}), <code>base</code> ({targetNode.label} before this edge) and <code>parentMean</code>
+                  {expressionPreview !== null && <> — {expressionPreview.toPrecision(4)} with both at their means</>}
+                </p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-gray-500">Constants</label>
+              {Object.entries((localEffect as ExpressionEffect).constants ?? {}).map(([name, value], i, entries) => {
+                const setEntry = (nextName: string, nextValue: number) => setLocalEffect({
+                  ...localEffect,
+                  constants: Object.fromEntries(entries.map((entry, j) => (j === i ? [nextName, nextValue] : entry))),
+                } as ExpressionEffect);
+                return (
+                  <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-1">
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setEntry(e.target.value, value)}
+                      className="w-full px-2 py-1 text-sm font-mono border rounded"
+                    />
+                    <input
+                      type="number"
+                      step="any"
+                      value={value}
+                      onChange={(e) => setEntry(name, parseFloat(e.target.value) || 0)}
+                      className="w-full px-2 py-1 text-sm border rounded"
+                    />
+                    <button
+                      onClick={() => setLocalEffect({
+                        ...localEffect,
+                        constants: Object.fromEntries(entries.filter((_, j) => j !== i)),
+                      } as ExpressionEffect)}
+                      className="w-5 text-gray-400 hover:text-red-500"
+                      title="Remove constant"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                );
+              })}
+              <button
+                onClick={() => {
+                  const constants = (localEffect as ExpressionEffect).constants ?? {};
+                  let n = Object.keys(constants).length + 1;
+                  while (`k${n}` in constants) n++;
+                  setLocalEffect({ ...localEffect, constants: { ...constants, [`k${n}`]: 1 } } as ExpressionEffect);
+                }}
+                className="text-xs text-fuchsia-600 hover:underline"
+              >
+                + Add constant
+              </button>
+            </div>
+            <p className="text-xs text-gray-400">
+              Operators + - * / % ^, comparisons and <code>a ? b : c</code>; functions such as min, max, clamp, exp, log, sqrt
+            </p>
+          </div>
+        )}
+
+        {localEffect?.type === 'table' && (
+          <div className="space-y-2">
+            {sourceCategories && (
+              <TableEditor
+                rows={sourceCategories}
+                cells={(localEffect as TableEffect).cells}
+                target={targetNode.distribution}
+                onChange={(cells) => setLocalEffect({ ...localEffect, cells } as TableEffect)}
+              />
+            )}
+            {tableError ? (
+              <p className="text-xs text-red-600">{tableError}</p>
+            ) : (
+              <p className="text-xs text-gray-400">
+                Each {sourceNode.label} category scales {targetNode.label}, or gives its
+                {outcomeLabels(targetNode.distribution) ? ' outcome probabilities' : ' distribution (each sample keeps its quantile)'}
+              </p>
+            )}
+          </div>
+        )}
+
+        {localEffect && uncertainNames.length > 0 && (
+          <div className="space-y-1 pt-2 border-t border-dashed">
+            <label className="text-xs text-gray-500">Uncertainty (± standard deviation)</label>
+            {uncertainNames.map((name) => {
+              const value = effectParameter(localEffect, name);
+              return (
+                <div key={name} className="grid grid-cols-[1fr_5rem] items-center gap-2">
+                  <span className="text-xs text-gray-600 truncate">
+                    {parameterLabels[name] ?? name}
+                    {isUncertain(value) && <span className="text-gray-400"> · {describeDistribution(value)}</span>}
+                  </span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    placeholder="fixed"
+                    value={parameterSpread(value) || ''}
+                    onChange={(e) => setLocalEffect({
+                      ...localEffect,
+                      [name]: withParameterSpread(value, parseFloat(e.target.value) || 0),
+                    } as EffectFunction)}
+                    className="w-full px-2 py-1 text-sm border rounded"
+                  />
+                </div>
+              );
+            })}
+            {parameterError ? (
+              <p className="text-xs text-red-600">{parameterError}</p>
+            ) : (
+              <p className="text-xs text-gray-400">
+                Each sample draws its own value, so results include how unsure the estimate is. Leave blank for a fixed value.
+              </p>
+            )}
+          </div>
+        )}
+
+        {sourceCategories && localEffect?.type !== 'table' && (
+          <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded p-2">
+            {sourceNode.label} is categorical, so this effect reads its category number ({sourceCategories.map((c, i) => `${c} = ${i}`).join(', ')}).
+            A table gives each category its own effect.
+          </p>
+        )}
       </div>
 
+      {/* Moderation */}
+      {(moderationCandidates.length > 0 || localModerates) && (
+        <div className="space-y-2 pt-2 border-t">
+          <label className="text-sm font-medium text-gray-700">Acts on</label>
+          <select
+            value={localModerates ?? ''}
+            onChange={(e) => setLocalModerates(e.target.value || undefined)}
+            className="w-full px-2 py-1.5 text-sm border rounded bg-white"
+          >
+            <option value="">{targetNode.label} directly</option>
+            {moderationCandidates.map((candidate) => (
+              <option key={candidate!.id} value={candidate!.id}>
+                Strength of {candidate!.label} → {targetNode.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-400">
+            {localModerates
+              ? `${sourceNode.label} scales how strongly that edge acts, instead of changing ${targetNode.label} itself. The effect above sets the multiplier (1 at ${sourceNode.label}'s mean).`
+              : `Pick another edge into ${targetNode.label} to make ${sourceNode.label} a moderator of it.`}
+          </p>
+        </div>
+      )}
+
+      {moderatedBy.length > 0 && (
+        <div className="text-xs text-gray-500">
+          Strength moderated by:{' '}
+          {moderatedBy.map((m, i) => (
+            <span key={m!.id}>
+              {i > 0 && ', '}
+              <button onClick={() => selectEdge(`${m!.id}->${edge.target}`)} className="text-blue-600 hover:underline">
+                {m!.label}
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Edge metadata */}
       <div className="text-xs text-gray-400 space-y-1 pt-2 border-t">
         <div>Relationship: {edge.relationship}</div>
         <div>Style: {edge.style} | Weight: {edge.weight}</div>
         {edge.label && <div>Label: {edge.label}</div>}
+        {(edge.delay !== undefined || edge.decayRate !== undefined) && (
+          <div>Delay: {edge.delay ?? 0} ticks | Decay: {((edge.decayRate ?? 0) * 100).toFixed(0)}%/tick</div>
+        )}
       </div>
       </div>
 
@@ -369,7 +831,7 @@ export default function EdgeInspector() {
         <div className="flex-shrink-0 p-3 border-t border-gray-200 bg-white">
           <button
             onClick={handleApplyChanges}
-            disabled={isComputing}
+            disabled={!!expressionError || !!tableError || !!parameterError}
             className="w-full py-2 text-sm bg-cyan-500 text-white rounded hover:bg-cyan-600 disabled:bg-cyan-300 transition flex items-center justify-center gap-2"
           >
             {isComputing ? (
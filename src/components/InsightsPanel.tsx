@@ -1,12 +1,18 @@
 'use client';
 
 import { useCausalGraphStore } from '@/store/graphStore';
+import { describeObservation, LOW_EFFECTIVE_SAMPLE_SIZE } from '@/lib/evidence';
+import { describeIntervention, describePolicy } from '@/lib/interventions';
 
 export default function InsightsPanel() {
   const model = useCausalGraphStore((s) => s.model);
   const showInsights = useCausalGraphStore((s) => s.showInsights);
   const toggleInsights = useCausalGraphStore((s) => s.toggleInsights);
   const interventions = useCausalGraphStore((s) => s.interventions);
+  const evidence = useCausalGraphStore((s) => s.evidence);
+  const counterfactuals = useCausalGraphStore((s) => s.counterfactuals);
+  const effectiveSampleSize = useCausalGraphStore((s) => s.effectiveSampleSize);
+  const samplesUsed = useCausalGraphStore((s) => s.samplesUsed);
 
   if (!model) return null;
 
@@ -29,11 +35,17 @@ export default function InsightsPanel() {
                 Active Interventions ({interventions.size})
               </div>
               <div className="text-sm text-orange-700">
-                {Array.from(interventions.entries()).map(([nodeId, value]) => {
+                {Array.from(interventions.entries()).map(([nodeId, intervention]) => {
                   const node = model.nodes.find(n => n.id === nodeId);
                   return (
                     <div key={nodeId}>
-                      {node?.label}: <strong>{value.toFixed(2)}</strong>{node?.units || ''}
+                      {node?.label}{' '}
+                      <strong>
+                        {intervention.type === 'policy'
+                          ? `:= ${describePolicy(intervention, (id) => model.nodes.find(n => n.id === id)?.label ?? id)}`
+                          : describeIntervention(intervention)}
+                      </strong>
+                      {intervention.type === 'set' || intervention.type === 'shift' ? node?.units || '' : ''}
                     </div>
                   );
                 })}
@@ -41,6 +53,53 @@ export default function InsightsPanel() {
             </div>
           )}
 
+          {/* Active evidence summary */}
+          {evidence.size > 0 && (
+            <div className="p-3 bg-teal-50 border border-teal-200 rounded-lg">
+              <div className="text-sm font-medium text-teal-800 mb-1">
+                Observed ({evidence.size})
+              </div>
+              <div className="text-sm text-teal-700">
+                {Array.from(evidence.entries()).map(([nodeId, observation]) => {
+                  const node = model.nodes.find(n => n.id === nodeId);
+                  return (
+                    <div key={nodeId}>
+                      {node?.label} <strong>{describeObservation(observation)}</strong>{node?.units || ''}
+                    </div>
+                  );
+                })}
+              </div>
+              <div className={`text-xs mt-1 ${effectiveSampleSize < LOW_EFFECTIVE_SAMPLE_SIZE ? 'text-red-600' : 'text-teal-600'}`}>
+                {effectiveSampleSize === 0
+                  ? 'No samples are consistent with this evidence; distributions are unconditioned.'
+                  : `Effective sample size: ${effectiveSampleSize.toFixed(0)} of ${samplesUsed}`}
+                {effectiveSampleSize > 0 && effectiveSampleSize < LOW_EFFECTIVE_SAMPLE_SIZE && ' (too few to trust; raise the sample count or loosen the evidence)'}
+              </div>
+            </div>
+          )}
+
+          {/* Counterfactual summary */}
+          {counterfactuals.size > 0 && (
+            <div className="p-3 bg-purple-50 border border-purple-200 rounded-lg">
+              <div className="text-sm font-medium text-purple-800 mb-1">
+                Counterfactual ({counterfactuals.size})
+              </div>
+              <div className="text-sm text-purple-700">
+                {Array.from(counterfactuals.entries()).map(([nodeId, value]) => {
+                  const node = model.nodes.find(n => n.id === nodeId);
+                  return (
+                    <div key={nodeId}>
+                      Had {node?.label} been <strong>{value.toFixed(2)}</strong>{node?.units || ''}
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="text-xs text-purple-600 mt-1">
+                Select a node to compare its factual and counterfactual distributions.
+              </div>
+            </div>
+          )}
+
           {/* Model insights */}
           {model.keyInsights && model.keyInsights.length > 0 && (
             <div className="space-y-2">
@@ -0,0 +1,223 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { knotCurve, type KnotInterpolation } from '@/lib/piecewise';
+import type { EffectKnot } from '@/types/causal';
+
+interface Props {
+  knots: EffectKnot[];
+  interpolation: KnotInterpolation;
+  onChange: (knots: EffectKnot[]) => void;
+  parentMean?: number; // Marked with a dashed line for reference
+  width?: number;
+  height?: number;
+}
+
+interface Domain {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+const PADDING = 14;
+
+function byX(knots: EffectKnot[]): EffectKnot[] {
+  return [...knots].sort((a, b) => a.x - b.x);
+}
+
+// Round to about a thousandth of the span, so dragged values stay readable
+function roundTo(value: number, span: number): number {
+  const step = Math.pow(10, Math.floor(Math.log10(span || 1)) - 3);
+  return Math.round(value / step) * step;
+}
+
+function domainOf(knots: EffectKnot[], parentMean?: number): Domain {
+  const xs = knots.map((k) => k.x).concat(parentMean !== undefined ? [parentMean] : []);
+  const ys = knots.map((k) => k.multiplier).concat([1]);
+  const xLow = Math.min(...xs);
+  const xHigh = Math.max(...xs);
+  const xPad = (xHigh - xLow || Math.abs(xLow) || 1) * 0.1;
+  const yHigh = Math.max(...ys);
+  const yLow = Math.min(0, ...ys);
+  return { xMin: xLow - xPad, xMax: xHigh + xPad, yMin: yLow, yMax: yHigh + (yHigh - yLow || 1) * 0.15 };
+}
+
+/**
+ * Response curve editor: drag knots to move them, double-click the plot to add
+ * one, double-click a knot to remove it. A table below edits exact values.
+ */
+export default function KnotEditor({
+  knots,
+  interpolation,
+  onChange,
+  parentMean,
+  width = 240,
+  height = 140,
+}: Props) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+  // Axes stay put while dragging, so the knot doesn't run away from the pointer
+  const [frozenDomain, setFrozenDomain] = useState<Domain | null>(null);
+
+  const domain = useMemo(() => frozenDomain ?? domainOf(knots, parentMean), [frozenDomain, knots, parentMean]);
+  const chartWidth = width - PADDING * 2;
+  const chartHeight = height - PADDING * 2;
+  const xScale = (x: number) => PADDING + ((x - domain.xMin) / (domain.xMax - domain.xMin)) * chartWidth;
+  const yScale = (y: number) => height - PADDING - ((y - domain.yMin) / (domain.yMax - domain.yMin)) * chartHeight;
+
+  const curveD = useMemo(() => {
+    const curve = knotCurve(knots, interpolation);
+    return Array.from({ length: 81 }, (_, i) => {
+      const x = domain.xMin + ((domain.xMax - domain.xMin) * i) / 80;
+      const px = PADDING + (i / 80) * chartWidth;
+      const py = height - PADDING - ((curve(x) - domain.yMin) / (domain.yMax - domain.yMin)) * chartHeight;
+      return `${i === 0 ? 'M' : 'L'} ${px} ${py}`;
+    }).join(' ');
+  }, [knots, interpolation, domain, chartWidth, chartHeight, height]);
+
+  // Pointer position in data coordinates
+  const toData = (event: React.PointerEvent | React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const px = event.clientX - rect.left;
+    const py = event.clientY - rect.top;
+    return {
+      x: domain.xMin + ((px - PADDING) / chartWidth) * (domain.xMax - domain.xMin),
+      multiplier: domain.yMin + ((height - PADDING - py) / chartHeight) * (domain.yMax - domain.yMin),
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (dragging === null) return;
+    const point = toData(event);
+    // Keep the knot between its neighbours so the order never changes mid-drag
+    const low = knots[dragging - 1]?.x ?? -Infinity;
+    const high = knots[dragging + 1]?.x ?? Infinity;
+    const next = [...knots];
+    next[dragging] = {
+      x: roundTo(Math.min(Math.max(point.x, low), high), domain.xMax - domain.xMin),
+      multiplier: roundTo(point.multiplier, domain.yMax - domain.yMin),
+    };
+    onChange(next);
+  };
+
+  const endDrag = () => {
+    setDragging(null);
+    setFrozenDomain(null);
+  };
+
+  const updateKnot = (index: number, field: keyof EffectKnot, value: number) => {
+    const next = [...knots];
+    next[index] = { ...next[index], [field]: value };
+    onChange(byX(next));
+  };
+
+  const oneY = yScale(1);
+  const meanX = parentMean !== undefined ? xScale(parentMean) : null;
+
+  return (
+    <div className="space-y-2">
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        className="bg-white border rounded select-none touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerLeave={endDrag}
+        onDoubleClick={(event) => {
+          const point = toData(event);
+          onChange(byX([...knots, {
+            x: roundTo(point.x, domain.xMax - domain.xMin),
+            multiplier: roundTo(point.multiplier, domain.yMax - domain.yMin),
+          }]));
+        }}
+      >
+        {/* No-effect line */}
+        <line x1={PADDING} y1={oneY} x2={width - PADDING} y2={oneY} stroke="#e5e7eb" strokeWidth={1} />
+        <text x={PADDING} y={oneY - 3} fontSize={9} fill="#9ca3af">×1</text>
+
+        {/* Parent prior mean */}
+        {meanX !== null && (
+          <line x1={meanX} y1={PADDING} x2={meanX} y2={height - PADDING} stroke="#9ca3af" strokeWidth={1} strokeDasharray="3,3" />
+        )}
+
+        <path d={curveD} fill="none" stroke="#0d9488" strokeWidth={2} />
+
+        {knots.map((knot, i) => (
+          <circle
+            key={i}
+            cx={xScale(knot.x)}
+            cy={yScale(knot.multiplier)}
+            r={dragging === i ? 6 : 5}
+            fill="white"
+            stroke="#0d9488"
+            strokeWidth={2}
+            className="cursor-grab"
+            onPointerDown={(event) => {
+              event.stopPropagation();
+              svgRef.current?.setPointerCapture(event.pointerId);
+              setFrozenDomain(domain);
+              setDragging(i);
+            }}
+            onDoubleClick={(event) => {
+              event.stopPropagation();
+              if (knots.length > 2) onChange(knots.filter((_, j) => j !== i));
+            }}
+          />
+        ))}
+      </svg>
+      <p className="text-xs text-gray-400">Drag knots; double-click to add one, or double-click a knot to remove it</p>
+
+      <div className="space-y-1">
+        <div className="grid grid-cols-[1fr_1fr_auto] gap-1 text-xs text-gray-500">
+          <span>Parent value</span>
+          <span>Multiplier</span>
+          <span className="w-5" />
+        </div>
+        {knots.map((knot, i) => (
+          <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-1">
+            <input
+              type="number"
+              step="any"
+              value={knot.x}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!isNaN(value)) updateKnot(i, 'x', value);
+              }}
+              className="w-full px-2 py-1 text-sm border rounded"
+            />
+            <input
+              type="number"
+              step="0.05"
+              value={knot.multiplier}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!isNaN(value)) updateKnot(i, 'multiplier', value);
+              }}
+              className="w-full px-2 py-1 text-sm border rounded"
+            />
+            <button
+              onClick={() => onChange(knots.filter((_, j) => j !== i))}
+              disabled={knots.length <= 2}
+              className="w-5 text-gray-400 hover:text-red-500 disabled:opacity-30"
+              title="Remove knot"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => {
+            const last = knots[knots.length - 1];
+            const step = knots.length > 1 ? last.x - knots[knots.length - 2].x : 1;
+            onChange([...knots, { x: last ? last.x + (step || 1) : 0, multiplier: last?.multiplier ?? 1 }]);
+          }}
+          className="text-xs text-teal-600 hover:underline"
+        >
+          + Add knot
+        </button>
+      </div>
+    </div>
+  );
+}
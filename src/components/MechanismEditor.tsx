@@ -0,0 +1,191 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { JOINT_MECHANISM_TYPES, validateMechanism, type MechanismContext } from '@/lib/mechanisms';
+import { tableRowLabels } from '@/lib/table';
+import type { Distribution, JointMechanism, JointMechanismType } from '@/types/causal';
+import TableEditor from './TableEditor';
+
+interface Props {
+  mechanisms: JointMechanism[] | undefined;
+  parents: { id: string; label: string; categories: string[] | null }[]; // categories: binary and categorical parents
+  target: Distribution; // This node's prior, which table cells scale or replace
+  onApply: (mechanisms: JointMechanism[]) => void;
+}
+
+const WEIGHTED: JointMechanismType[] = ['product', 'geometricMean'];
+
+// A table sized for its parents' categories, every cell neutral
+function withTable(mechanism: JointMechanism, categoriesOf: MechanismContext['categoriesOf']): JointMechanism {
+  const categoryCounts = mechanism.parents.map((id) => categoriesOf(id)?.length ?? 0);
+  const size = categoryCounts.reduce((a, b) => a * b, 1);
+  return { ...mechanism, categoryCounts, cells: Array.from({ length: size }, () => ({ multiplier: 1 })) };
+}
+
+// Switching type keeps the parents; weights, expressions and tables only where they apply
+function withType(mechanism: JointMechanism, type: JointMechanismType, categoriesOf: MechanismContext['categoriesOf']): JointMechanism {
+  const next: JointMechanism = { type, parents: mechanism.parents };
+  if (WEIGHTED.includes(type) && mechanism.weights) next.weights = mechanism.weights;
+  if (type === 'expression') {
+    next.expression = mechanism.expression ?? `base * ${mechanism.parents.map((id) => `${id} / ${id}_mean`).join(' * ')}`;
+    if (mechanism.constants) next.constants = mechanism.constants;
+  }
+  return type === 'table' ? withTable(next, categoriesOf) : next;
+}
+
+/**
+ * Joint mechanisms of one node: interactions that read several parents at
+ * once. Edits are drafted locally and applied together, since typing an
+ * expression would otherwise recompute the model on every keystroke.
+ */
+export default function MechanismEditor({ mechanisms, parents, target, onApply }: Props) {
+  const [draft, setDraft] = useState<JointMechanism[]>(mechanisms ?? []);
+  useEffect(() => setDraft(mechanisms ?? []), [mechanisms]);
+
+  const parentIds = useMemo(() => parents.map((p) => p.id), [parents]);
+  const labelOf = useCallback((id: string) => parents.find((p) => p.id === id)?.label ?? id, [parents]);
+  const context = useMemo<MechanismContext>(() => ({
+    categoriesOf: (id) => parents.find((p) => p.id === id)?.categories ?? null,
+    targetPrior: target,
+  }), [parents, target]);
+
+  // A parent can feed only one mechanism; later ones would be skipped
+  const errors = useMemo(() => {
+    const used = new Set<string>();
+    return draft.map((mechanism) => {
+      const error = validateMechanism(mechanism, parentIds, context);
+      const shared = mechanism.parents.find((id) => used.has(id));
+      mechanism.parents.forEach((id) => used.add(id));
+      return error ?? (shared ? `${labelOf(shared)} already feeds another mechanism` : null);
+    });
+  }, [draft, parentIds, context, labelOf]);
+
+  const changed = JSON.stringify(draft) !== JSON.stringify(mechanisms ?? []);
+  const update = (index: number, mechanism: JointMechanism) =>
+    setDraft(draft.map((m, i) => (i === index ? mechanism : m)));
+
+  const toggleParent = (index: number, id: string) => {
+    const mechanism = draft[index];
+    const position = mechanism.parents.indexOf(id);
+    const parentsNext = position >= 0 ? mechanism.parents.filter((p) => p !== id) : [...mechanism.parents, id];
+    const weights = mechanism.weights && (position >= 0
+      ? mechanism.weights.filter((_, j) => j !== position)
+      : [...mechanism.weights, 1]);
+    const next = { ...mechanism, parents: parentsNext, ...(weights ? { weights } : {}) };
+    // The table's shape follows its parents, so it starts over
+    update(index, next.type === 'table' ? withTable(next, context.categoriesOf) : next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {draft.map((mechanism, index) => {
+        const info = JOINT_MECHANISM_TYPES.find((t) => t.value === mechanism.type);
+        return (
+          <div key={index} className="p-2 space-y-2 border rounded bg-gray-50">
+            <div className="flex items-center gap-2">
+              <select
+                value={mechanism.type}
+                onChange={(e) => update(index, withType(mechanism, e.target.value as JointMechanismType, context.categoriesOf))}
+                className="flex-1 px-1.5 py-0.5 text-xs border rounded bg-white"
+              >
+                {JOINT_MECHANISM_TYPES.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-red-500 text-xs"
+                title="Remove mechanism"
+              >
+                ✕
+              </button>
+            </div>
+            <p className="text-xs text-gray-400">{info?.description}</p>
+
+            <div className="flex flex-wrap gap-1">
+              {parents.map((parent) => {
+                const selected = mechanism.parents.includes(parent.id);
+                return (
+                  <button
+                    key={parent.id}
+                    onClick={() => toggleParent(index, parent.id)}
+                    className={`px-2 py-0.5 text-xs rounded border ${
+                      selected ? 'bg-pink-100 text-pink-700 border-pink-300' : 'bg-white text-gray-500 border-gray-200'
+                    }`}
+                  >
+                    {parent.label}
+                  </button>
+                );
+              })}
+            </div>
+
+            {WEIGHTED.includes(mechanism.type) && mechanism.parents.length > 0 && (
+              <div className="grid grid-cols-2 gap-1">
+                {mechanism.parents.map((id, j) => (
+                  <label key={id} className="text-xs text-gray-500">
+                    {labelOf(id)} weight
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={mechanism.weights?.[j] ?? 1}
+                      onChange={(e) => {
+                        const weights = mechanism.parents.map((_, k) => mechanism.weights?.[k] ?? 1);
+                        weights[j] = parseFloat(e.target.value) || 0;
+                        update(index, { ...mechanism, weights });
+                      }}
+                      className="w-full px-2 py-1 text-sm border rounded"
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {mechanism.type === 'expression' && (
+              <div>
+                <textarea
+                  value={mechanism.expression ?? ''}
+                  onChange={(e) => update(index, { ...mechanism, expression: e.target.value })}
+                  rows={2}
+                  spellCheck={false}
+                  className="w-full px-2 py-1 text-xs font-mono border rounded"
+                />
+                <p className="text-xs text-gray-400">
+                  Names: <code>base</code>{mechanism.parents.map((id) => <span key={id}>, <code>{id}</code>, <code>{id}_mean</code></span>)}
+                </p>
+              </div>
+            )}
+
+            {mechanism.type === 'table' && mechanism.parents.every((id) => context.categoriesOf(id)) && (
+              <TableEditor
+                rows={tableRowLabels(mechanism.parents.map((id) => context.categoriesOf(id)!)).map((row) => row.join(' · '))}
+                cells={mechanism.cells ?? []}
+                target={target}
+                onChange={(cells) => update(index, { ...mechanism, cells })}
+              />
+            )}
+
+            {errors[index] && <p className="text-xs text-red-600">{errors[index]}</p>}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setDraft([...draft, { type: 'product', parents: parentIds.slice(0, 2) }])}
+          className="text-xs text-pink-600 hover:underline"
+        >
+          + Add interaction
+        </button>
+        {changed && (
+          <button
+            onClick={() => onApply(draft)}
+            disabled={errors.some(Boolean)}
+            className="px-2 py-0.5 text-xs bg-cyan-500 text-white rounded hover:bg-cyan-600 disabled:bg-cyan-300"
+          >
+            Apply
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,17 +2,95 @@
 
 import { useState, useMemo, useCallback, useEffect } from 'react';
 import { useCausalGraphStore } from '@/store/graphStore';
-import { expectedValue } from '@/lib/distributions';
+import { expectedValue, standardDeviation, pairedDifference, quantile, support, outcomeLabels } from '@/lib/distributions';
+import { describeObservation } from '@/lib/evidence';
+import { describeDistribution, describeIntervention, describePolicy } from '@/lib/interventions';
+import { confoundedPartners, validateConfounders } from '@/lib/confounders';
+import type { CausalModel, CircuitBreakers, Confounder, Distribution, Intervention, Observation, ParentCombiner, PolicyIntervention } from '@/types/causal';
 import DistributionChart from './DistributionChart';
+import TrajectoryChart from './TrajectoryChart';
+import MechanismEditor from './MechanismEditor';
+
+const interventionModeLabels: Record<Intervention['type'], string> = {
+  set: 'Set',
+  shift: 'Shift',
+  scale: 'Scale',
+  distribution: 'Distribution',
+  policy: 'Policy',
+};
+
+const combinerDescriptions: Record<ParentCombiner, string> = {
+  multiplicative: 'Each parent scales the base value; effects compound',
+  additive: 'Each parent adds its own change to the base value',
+};
+
+const interventionModeDescriptions: Record<Intervention['type'], string> = {
+  set: 'Pin every sample to one value',
+  shift: 'Add a fixed amount, keeping natural variation',
+  scale: 'Multiply by a factor, keeping natural variation',
+  distribution: 'Replace with draws from a chosen distribution',
+  policy: 'Replace with a rule over the parents, e.g. a Taylor rule',
+};
+
+// Starting rule: hold the prior mean, one zero-weight term per parent measured from its prior mean
+function defaultPolicy(model: CausalModel, nodeId: string, mean: number): PolicyIntervention {
+  return {
+    type: 'policy',
+    intercept: mean,
+    terms: model.edges
+      .filter((e) => e.target === nodeId)
+      .map((e) => {
+        const parent = model.nodes.find((n) => n.id === e.source);
+        return { nodeId: e.source, coefficient: 0, reference: parent ? expectedValue(parent.distribution) : 0 };
+      }),
+  };
+}
+
+// Set-value slider: the prior's central 99% widened by half its span on each side,
+// kept inside the support and the circuit breakers
+function sliderRange(
+  distribution: Distribution | undefined,
+  breakers: CircuitBreakers | undefined
+): { minValue: number; maxValue: number } {
+  if (!distribution) return { minValue: breakers?.minValue ?? -1, maxValue: breakers?.maxValue ?? 1 };
+  const low = quantile(distribution, 0.005);
+  const high = quantile(distribution, 0.995);
+  const margin = high > low ? (high - low) / 2 : Math.abs(expectedValue(distribution)) || 1;
+  const bounds = support(distribution);
+  return {
+    minValue: breakers?.minValue ?? Math.max(low - margin, bounds.min),
+    maxValue: breakers?.maxValue ?? Math.min(high + margin, bounds.max),
+  };
+}
 
 export default function NodeInspector() {
-  const [isComputing, setIsComputing] = useState(false);
   const model = useCausalGraphStore((s) => s.model);
+  const isComputing = useCausalGraphStore((s) => s.isComputing);
   const selectedNodeId = useCausalGraphStore((s) => s.selectedNodeId);
   const interventions = useCausalGraphStore((s) => s.interventions);
+  const evidence = useCausalGraphStore((s) => s.evidence);
+  const counterfactuals = useCausalGraphStore((s) => s.counterfactuals);
+  const counterfactualResult = useCausalGraphStore((s) => s.counterfactualResult);
   const nodeDistributions = useCausalGraphStore((s) => s.nodeDistributions);
+  const nodeSamples = useCausalGraphStore((s) => s.nodeSamples);
+  const baselineSamples = useCausalGraphStore((s) => s.baselineSamples);
+  const evidenceWeights = useCausalGraphStore((s) => s.evidenceWeights);
+  const temporalResult = useCausalGraphStore((s) => s.temporalResult);
+  const feedbackLoops = useCausalGraphStore((s) => s.feedbackLoops);
+  const equilibrium = useCausalGraphStore((s) => s.equilibrium);
+  const errorsAreBounds = useCausalGraphStore((s) => s.errorsAreBounds);
+  const samplingMethod = useCausalGraphStore((s) => s.samplingMethod);
   const setIntervention = useCausalGraphStore((s) => s.setIntervention);
   const clearIntervention = useCausalGraphStore((s) => s.clearIntervention);
+  const setEvidence = useCausalGraphStore((s) => s.setEvidence);
+  const clearEvidence = useCausalGraphStore((s) => s.clearEvidence);
+  const setCounterfactual = useCausalGraphStore((s) => s.setCounterfactual);
+  const clearCounterfactual = useCausalGraphStore((s) => s.clearCounterfactual);
+  const savePolicy = useCausalGraphStore((s) => s.savePolicy);
+  const deletePolicy = useCausalGraphStore((s) => s.deletePolicy);
+  const updateNodeCombiner = useCausalGraphStore((s) => s.updateNodeCombiner);
+  const updateNodeMechanisms = useCausalGraphStore((s) => s.updateNodeMechanisms);
+  const updateConfounders = useCausalGraphStore((s) => s.updateConfounders);
   const selectNode = useCausalGraphStore((s) => s.selectNode);
 
   const node = useMemo(() => {
@@ -25,23 +103,145 @@ export default function NodeInspector() {
     return nodeDistributions.get(selectedNodeId);
   }, [nodeDistributions, selectedNodeId]);
 
+  // Paired against the no-intervention run on the same draws, so the delta is free of resampling noise.
+  // Under evidence each pair carries its sample's weight, as the distributions shown do.
+  const delta = useMemo(() => {
+    if (!selectedNodeId || interventions.size === 0) return null;
+    const current = nodeSamples[selectedNodeId];
+    const baseline = baselineSamples[selectedNodeId];
+    if (!current || !baseline) return null;
+    return pairedDifference(current, baseline, evidenceWeights ?? undefined);
+  }, [nodeSamples, baselineSamples, evidenceWeights, selectedNodeId, interventions]);
+
+  // Shares, deltas and counterfactual effects always use the independent-draw formulas,
+  // which only bound the error under Latin hypercube or Sobol draws
+  const formulaErrorsAreBounds = samplingMethod !== 'random';
+  const plusMinus = (bound: boolean) => (bound ? '≤ ±' : '±');
+
+  const trajectory = selectedNodeId ? temporalResult?.summaries[selectedNodeId] : undefined;
+  const loopReport = selectedNodeId ? equilibrium[selectedNodeId] : undefined;
+
   const intervention = interventions.get(selectedNodeId || '');
   const isIntervened = intervention !== undefined;
 
   const priorMean = node ? expectedValue(node.distribution) : 0;
-  const minValue = node?.circuitBreakers?.minValue ?? (priorMean - priorMean * 2);
-  const maxValue = node?.circuitBreakers?.maxValue ?? (priorMean + priorMean * 2);
+  const { minValue, maxValue } = useMemo(() => sliderRange(node?.distribution, node?.circuitBreakers), [node]);
+
+  const [interventionMode, setInterventionMode] = useState<Intervention['type']>(intervention?.type ?? 'set');
+  const [localValue, setLocalValue] = useState<number>(intervention?.type === 'set' ? intervention.value : priorMean);
+  const [localDelta, setLocalDelta] = useState(0);
+  const [localFactor, setLocalFactor] = useState(1);
+  const [localDistribution, setLocalDistribution] = useState<Distribution>({
+    type: 'continuous',
+    dist: 'normal',
+    params: [priorMean, 1],
+  });
 
-  const [localValue, setLocalValue] = useState<number>(intervention ?? priorMean);
+  const [localPolicy, setLocalPolicy] = useState<PolicyIntervention>({ type: 'policy', intercept: priorMean, terms: [] });
+  const [policyLabel, setPolicyLabel] = useState('');
 
-  // Update local value when node changes or intervention changes externally
+  const pendingIntervention = useMemo((): Intervention => {
+    switch (interventionMode) {
+      case 'policy':
+        return localPolicy;
+      case 'shift':
+        return { type: 'shift', delta: localDelta };
+      case 'scale':
+        return { type: 'scale', factor: localFactor };
+      case 'distribution':
+        return { type: 'distribution', distribution: localDistribution };
+      default:
+        return { type: 'set', value: localValue };
+    }
+  }, [interventionMode, localValue, localDelta, localFactor, localDistribution, localPolicy]);
+
+  const observation = evidence.get(selectedNodeId || '');
+  const [observationMode, setObservationMode] = useState<Observation['type']>('point');
+  const [observedValue, setObservedValue] = useState('');
+  const [observedMin, setObservedMin] = useState('');
+  const [observedMax, setObservedMax] = useState('');
+
+  // Reset the observation form when the node or its observation changes
   useEffect(() => {
-    if (intervention !== undefined) {
-      setLocalValue(intervention);
-    } else if (node) {
-      setLocalValue(expectedValue(node.distribution));
+    setObservationMode(observation?.type ?? 'point');
+    setObservedValue(observation?.type === 'point' ? String(observation.value) : '');
+    setObservedMin(observation?.type === 'range' && observation.min !== undefined ? String(observation.min) : '');
+    setObservedMax(observation?.type === 'range' && observation.max !== undefined ? String(observation.max) : '');
+  }, [selectedNodeId, observation]);
+
+  const pendingObservation = useMemo((): Observation | null => {
+    if (observationMode === 'point') {
+      const value = parseFloat(observedValue);
+      return isNaN(value) ? null : { type: 'point', value };
     }
-  }, [node, intervention]);
+    const min = parseFloat(observedMin);
+    const max = parseFloat(observedMax);
+    if (isNaN(min) && isNaN(max)) return null;
+    if (!isNaN(min) && !isNaN(max) && min > max) return null;
+    return {
+      type: 'range',
+      ...(isNaN(min) ? {} : { min }),
+      ...(isNaN(max) ? {} : { max }),
+    };
+  }, [observationMode, observedValue, observedMin, observedMax]);
+
+  const hypotheticalValue = counterfactuals.get(selectedNodeId || '');
+  const [counterfactualInput, setCounterfactualInput] = useState('');
+
+  useEffect(() => {
+    setCounterfactualInput(hypotheticalValue !== undefined ? String(hypotheticalValue) : '');
+  }, [selectedNodeId, hypotheticalValue]);
+
+  const handleApplyCounterfactual = useCallback(() => {
+    const value = parseFloat(counterfactualInput);
+    if (!selectedNodeId || isNaN(value)) return;
+    setCounterfactual(selectedNodeId, value);
+  }, [selectedNodeId, counterfactualInput, setCounterfactual]);
+
+  // When no sample is consistent with the evidence nothing was abduced, and the answer would be unconditioned
+  const counterfactualUnsupported = evidence.size > 0 && counterfactualResult !== null && !counterfactualResult.conditioned;
+  const counterfactualDistribution = selectedNodeId && !counterfactualUnsupported
+    ? counterfactualResult?.counterfactualDistributions.get(selectedNodeId)
+    : undefined;
+  const counterfactualEffect = selectedNodeId ? counterfactualResult?.effects[selectedNodeId] : undefined;
+
+  // "Had Fed Rate been 2.00 and ..." for the counterfactual summary
+  const hypotheticalPhrase = model
+    ? Array.from(counterfactuals.entries())
+        .map(([id, value]) => `${model.nodes.find((n) => n.id === id)?.label ?? id} been ${value.toFixed(2)}`)
+        .join(' and ')
+    : '';
+
+  const handleApplyObservation = useCallback(() => {
+    if (!selectedNodeId || !pendingObservation) return;
+    setEvidence(selectedNodeId, pendingObservation);
+  }, [selectedNodeId, pendingObservation, setEvidence]);
+
+  // Update local values when node changes or intervention changes externally
+  useEffect(() => {
+    if (!node || !model) return;
+    const mean = expectedValue(node.distribution);
+    const starting = defaultPolicy(model, node.id, mean);
+    setLocalPolicy(
+      intervention?.type === 'policy'
+        ? {
+            ...intervention,
+            // Keep a row for every parent, even ones the saved rule left out
+            terms: starting.terms.map((t) => intervention.terms.find((it) => it.nodeId === t.nodeId) ?? t),
+          }
+        : starting
+    );
+    setPolicyLabel('');
+    setInterventionMode(intervention?.type ?? 'set');
+    setLocalValue(intervention?.type === 'set' ? intervention.value : mean);
+    setLocalDelta(intervention?.type === 'shift' ? intervention.delta : 0);
+    setLocalFactor(intervention?.type === 'scale' ? intervention.factor : 1);
+    setLocalDistribution(
+      intervention?.type === 'distribution'
+        ? intervention.distribution
+        : { type: 'continuous', dist: 'normal', params: [mean, standardDeviation(node.distribution)] }
+    );
+  }, [model, node, intervention]);
 
   // Slider only updates local state - no recomputation until "Set Value" clicked
   const handleSliderChange = useCallback(
@@ -54,26 +254,34 @@ export default function NodeInspector() {
 
   const handleApplyIntervention = useCallback(() => {
     if (!selectedNodeId) return;
-    setIsComputing(true);
-    // Use setTimeout to allow UI to update before heavy computation
-    setTimeout(() => {
-      try {
-        setIntervention(selectedNodeId, localValue);
-      } catch (error) {
-        console.error('[NodeInspector] Error setting intervention:', error);
-      } finally {
-        setIsComputing(false);
-      }
-    }, 10);
-  }, [selectedNodeId, localValue, setIntervention]);
+    try {
+      setIntervention(selectedNodeId, pendingIntervention);
+    } catch (error) {
+      console.error('[NodeInspector] Error setting intervention:', error);
+    }
+  }, [selectedNodeId, pendingIntervention, setIntervention]);
+
+  const savedPolicies = useMemo(
+    () => (model?.policies || []).filter((p) => p.nodeId === selectedNodeId),
+    [model, selectedNodeId]
+  );
+
+  const handleSavePolicy = useCallback(() => {
+    if (!selectedNodeId || !policyLabel.trim()) return;
+    const existing = savedPolicies.find((p) => p.label === policyLabel.trim());
+    savePolicy({
+      id: existing?.id ?? `policy-${selectedNodeId}-${Date.now()}`,
+      label: policyLabel.trim(),
+      nodeId: selectedNodeId,
+      rule: { ...localPolicy, terms: localPolicy.terms.filter((t) => t.coefficient !== 0) },
+    });
+    setPolicyLabel('');
+  }, [selectedNodeId, policyLabel, localPolicy, savedPolicies, savePolicy]);
 
   const handleClearIntervention = useCallback(() => {
     if (!selectedNodeId) return;
     clearIntervention(selectedNodeId);
-    if (node) {
-      setLocalValue(expectedValue(node.distribution));
-    }
-  }, [selectedNodeId, node, clearIntervention]);
+  }, [selectedNodeId, clearIntervention]);
 
   // Get parent and child nodes
   const parentNodes = useMemo(() => {
@@ -92,6 +300,36 @@ export default function NodeInspector() {
       .filter(Boolean);
   }, [model, selectedNodeId]);
 
+  // Confounders: shared unobserved shocks with other nodes
+  const partners = useMemo(
+    () => (model && selectedNodeId ? confoundedPartners(model, selectedNodeId) : []),
+    [model, selectedNodeId]
+  );
+  const [newPartnerId, setNewPartnerId] = useState('');
+  const [confounderError, setConfounderError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setNewPartnerId('');
+    setConfounderError(null);
+  }, [selectedNodeId]);
+
+  // Set the correlation with a partner (null removes the confounder), keeping every other confounder
+  const handleConfounderChange = useCallback(
+    (partnerId: string, correlation: number | null) => {
+      if (!model || !selectedNodeId) return;
+      const isPair = (c: Confounder) => c.nodes.includes(selectedNodeId) && c.nodes.includes(partnerId);
+      const existing = (model.confounders || []).find(isPair);
+      const others = (model.confounders || []).filter((c) => !isPair(c));
+      const confounders = correlation === null
+        ? others
+        : [...others, { ...existing, nodes: existing?.nodes ?? [selectedNodeId, partnerId], correlation }];
+      const error = validateConfounders({ ...model, confounders });
+      setConfounderError(error);
+      if (!error) updateConfounders(confounders);
+    },
+    [model, selectedNodeId, updateConfounders]
+  );
+
   if (!node) {
     return (
       <div className="p-4 text-gray-500 text-sm">
@@ -131,25 +369,118 @@ export default function NodeInspector() {
         <div className="bg-gray-50 rounded-lg p-3">
           <div className="text-xs text-gray-500 mb-2">
             Distribution
-            <span className="ml-1 text-gray-400">
-              ({node.distribution.type === 'continuous'
-                ? (node.distribution.dist || 'normal')
-                : node.distribution.type === 'rate'
-                ? 'beta'
-                : node.distribution.type})
-            </span>
+            {evidence.size > 0 && <span className="ml-1 text-teal-600">| evidence</span>}
+            <span className="ml-1 text-gray-400 break-words">({describeDistribution(node.distribution)})</span>
+            {!support(node.distribution).discrete && (
+              <span className="ml-1 text-gray-400" title="Dotted: the prior density, before parent effects">
+                ┄ prior
+              </span>
+            )}
+            {distribution.categories && (
+              <span className="ml-1 text-gray-400" title="Dotted: each outcome's prior probability, before parent effects">
+                ┄ prior
+              </span>
+            )}
           </div>
           <DistributionChart
             distribution={distribution}
-            interventionValue={isIntervened ? intervention : undefined}
+            interventionValue={intervention?.type === 'set' ? intervention.value : undefined}
+            comparison={counterfactualDistribution}
+            prior={node.distribution}
             width={240}
             height={100}
           />
-          <div className="flex justify-between text-xs text-gray-500 mt-1">
-            <span>p5: {distribution.percentiles.p5.toFixed(2)}</span>
-            <span>μ: {distribution.mean.toFixed(2)}</span>
-            <span>p95: {distribution.percentiles.p95.toFixed(2)}</span>
+          {distribution.categories ? (
+            <div
+              className="text-xs text-gray-500 mt-1 space-y-0.5"
+              title={`Share of samples in each outcome, ± ${formulaErrorsAreBounds ? 'an upper bound on ' : ''}its Monte Carlo standard error`}
+            >
+              {distribution.categories.map((category) => (
+                <div key={category.label} className="flex justify-between">
+                  <span className="truncate">{category.label}</span>
+                  <span>
+                    {(category.probability * 100).toFixed(1)}%
+                    <span className="text-gray-400"> {plusMinus(formulaErrorsAreBounds)} {(category.standardError * 100).toFixed(1)}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <>
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>p5: {distribution.percentiles.p5.toFixed(2)}</span>
+                <span>μ: {distribution.mean.toFixed(2)}</span>
+                <span>p95: {distribution.percentiles.p95.toFixed(2)}</span>
+              </div>
+              <div
+                className="flex justify-between text-xs text-gray-400"
+                title={errorsAreBounds
+                  ? 'Upper bound on the Monte Carlo standard error: with Latin hypercube or Sobol draws each figure moves less than this with another seed'
+                  : 'Monte Carlo standard error: how far each figure would move with another seed'}
+              >
+                <span>{plusMinus(errorsAreBounds)} {distribution.standardErrors.percentiles.p5.toFixed(2)}</span>
+                <span>{plusMinus(errorsAreBounds)} {distribution.standardErrors.mean.toFixed(2)}</span>
+                <span>{plusMinus(errorsAreBounds)} {distribution.standardErrors.percentiles.p95.toFixed(2)}</span>
+              </div>
+            </>
+          )}
+          {counterfactualDistribution && counterfactualEffect && (
+            <div className="text-xs mt-2 p-2 bg-purple-50 border border-purple-200 rounded text-purple-800">
+              Had {hypotheticalPhrase}, {node.label} would have been{' '}
+              <strong>{counterfactualDistribution.mean.toFixed(2)}</strong> {node.units || ''} instead of{' '}
+              {distribution.mean.toFixed(2)}
+              <span className="text-purple-500">
+                {' '}({counterfactualEffect.mean >= 0 ? '+' : ''}
+                {counterfactualEffect.mean.toFixed(2)} {plusMinus(formulaErrorsAreBounds)} {(1.96 * counterfactualEffect.standardError).toFixed(2)})
+              </span>
+              {evidence.size === 0 && (
+                <div className="text-purple-500 mt-1">No evidence set: this is the same as an intervention.</div>
+              )}
+            </div>
+          )}
+          {counterfactualUnsupported && (
+            <div className="text-xs mt-2 p-2 bg-purple-50 border border-purple-200 rounded text-red-600">
+              No samples are consistent with the evidence, so there is no counterfactual to report. Raise the sample count or
+              loosen the evidence.
+            </div>
+          )}
+          {delta && (
+            <div className="text-xs text-gray-500 mt-1">
+              vs. no intervention{evidence.size > 0 ? ', given the evidence' : ''}:{' '}
+              <span className={delta.mean > 0 ? 'text-green-600' : delta.mean < 0 ? 'text-red-600' : ''}>
+                {delta.mean >= 0 ? '+' : ''}
+                {delta.mean.toFixed(2)}
+              </span>
+              <span className="text-gray-400"> {plusMinus(formulaErrorsAreBounds)} {(1.96 * delta.standardError).toFixed(2)} {node.units || ''}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Trajectory over ticks */}
+      {trajectory && (
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-xs text-gray-500 mb-2">
+            Over time
+            <span className="ml-1 text-gray-400">({temporalResult?.tickCount} ticks)</span>
           </div>
+          <TrajectoryChart trajectory={trajectory} width={240} height={80} />
+          {trajectory.arrivalTick !== null ? (
+            <div className="text-xs text-gray-500 mt-1 space-y-0.5">
+              <div>Arrives at t={trajectory.arrivalTick}</div>
+              <div>
+                Peaks at t={trajectory.peakTick} ({trajectory.peakChange >= 0 ? '+' : ''}
+                {trajectory.peakChange.toFixed(2)} {node.units || ''})
+              </div>
+              <div>
+                {trajectory.halfLifeTick !== null
+                  ? `Half faded by t=${trajectory.halfLifeTick}`
+                  : 'Still near peak at end of run'}
+              </div>
+            </div>
+          ) : (
+            <div className="text-xs text-gray-400 mt-1">No change from baseline over this run</div>
+          )}
         </div>
       )}
 
@@ -175,37 +506,280 @@ export default function NodeInspector() {
             )}
           </div>
 
-          <div className="space-y-1">
-            <input
-              type="range"
-              min={minValue}
-              max={maxValue}
-              step={(maxValue - minValue) / 100}
-              value={localValue}
-              onChange={handleSliderChange}
-              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-orange-500"
-            />
+          {isIntervened && (
+            <div className="text-xs text-orange-700">Active: {describeIntervention(intervention)}</div>
+          )}
+
+          <div className="flex gap-1">
+            {(Object.keys(interventionModeLabels) as Intervention['type'][])
+              .filter((mode) => mode !== 'policy' || parentNodes.length > 0)
+              // Outcome codes cannot be shifted or scaled
+              .filter((mode) => (mode !== 'shift' && mode !== 'scale') || !support(node.distribution).discrete)
+              .map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setInterventionMode(mode)}
+                  title={interventionModeDescriptions[mode]}
+                  className={`flex-1 py-1 text-xs rounded border ${
+                    interventionMode === mode
+                      ? 'bg-orange-50 border-orange-400 text-orange-700'
+                      : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+                  }`}
+                >
+                  {interventionModeLabels[mode]}
+                </button>
+              ))}
+          </div>
+          <p className="text-xs text-gray-400">{interventionModeDescriptions[interventionMode]}</p>
+
+          {interventionMode === 'set' && (
+            <div className="space-y-1">
+              <input
+                type="range"
+                min={minValue}
+                max={maxValue}
+                step={(maxValue - minValue) / 100}
+                value={localValue}
+                onChange={handleSliderChange}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-orange-500"
+              />
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  value={localValue.toFixed(2)}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value)) {
+                      setLocalValue(value);
+                    }
+                  }}
+                  className="flex-1 px-2 py-1 text-sm border rounded"
+                />
+                <span className="text-sm text-gray-500">{node.units || ''}</span>
+              </div>
+            </div>
+          )}
+
+          {interventionMode === 'shift' && (
             <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-500">x +</span>
               <input
                 type="number"
-                value={localValue.toFixed(2)}
+                step="any"
+                value={localDelta}
                 onChange={(e) => {
                   const value = parseFloat(e.target.value);
-                  if (!isNaN(value)) {
-                    setLocalValue(value);
-                  }
+                  if (!isNaN(value)) setLocalDelta(value);
                 }}
                 className="flex-1 px-2 py-1 text-sm border rounded"
               />
               <span className="text-sm text-gray-500">{node.units || ''}</span>
             </div>
-          </div>
+          )}
+
+          {interventionMode === 'scale' && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-500">x ×</span>
+              <input
+                type="number"
+                step="0.05"
+                value={localFactor}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!isNaN(value)) setLocalFactor(value);
+                }}
+                className="flex-1 px-2 py-1 text-sm border rounded"
+              />
+            </div>
+          )}
+
+          {interventionMode === 'distribution' && (
+            <div className="space-y-1">
+              <select
+                value={localDistribution.type === 'bounded' ? 'bounded' : 'normal'}
+                onChange={(e) => {
+                  const sd = standardDeviation(node.distribution);
+                  setLocalDistribution(
+                    e.target.value === 'bounded'
+                      ? {
+                          type: 'bounded',
+                          min: quantile(node.distribution, 0.025),
+                          mode: priorMean,
+                          max: quantile(node.distribution, 0.975),
+                        }
+                      : { type: 'continuous', dist: 'normal', params: [priorMean, sd] }
+                  );
+                }}
+                className="w-full px-2 py-1 text-sm border rounded bg-white"
+              >
+                <option value="normal">Normal (mean, std dev)</option>
+                <option value="bounded">PERT (min, mode, max)</option>
+              </select>
+              {localDistribution.type === 'bounded' ? (
+                <div className="flex gap-1">
+                  {(['min', 'mode', 'max'] as const).map((key) => (
+                    <input
+                      key={key}
+                      type="number"
+                      step="any"
+                      title={key}
+                      value={localDistribution[key]}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value)) setLocalDistribution({ ...localDistribution, [key]: value });
+                      }}
+                      className="w-0 flex-1 px-2 py-1 text-sm border rounded"
+                    />
+                  ))}
+                </div>
+              ) : localDistribution.type === 'continuous' && localDistribution.dist === 'normal' ? (
+                <div className="flex gap-1">
+                  {['mean', 'std dev'].map((label, i) => (
+                    <input
+                      key={label}
+                      type="number"
+                      step="any"
+                      title={label}
+                      value={localDistribution.params[i]}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (isNaN(value)) return;
+                        const params = [...localDistribution.params];
+                        params[i] = value;
+                        setLocalDistribution({ ...localDistribution, params });
+                      }}
+                      className="w-0 flex-1 px-2 py-1 text-sm border rounded"
+                    />
+                  ))}
+                </div>
+              ) : (
+                <div className="text-xs text-gray-500">
+                  {describeIntervention({ type: 'distribution', distribution: localDistribution })}
+                </div>
+              )}
+            </div>
+          )}
+
+          {interventionMode === 'policy' && (
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500 w-16">Intercept</span>
+                <input
+                  type="number"
+                  step="any"
+                  value={localPolicy.intercept}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value)) setLocalPolicy({ ...localPolicy, intercept: value });
+                  }}
+                  className="w-0 flex-1 px-2 py-1 text-sm border rounded"
+                />
+              </div>
+              {localPolicy.terms.map((term, i) => {
+                const updateTerm = (patch: Partial<typeof term>) => {
+                  const terms = [...localPolicy.terms];
+                  terms[i] = { ...term, ...patch };
+                  setLocalPolicy({ ...localPolicy, terms });
+                };
+                return (
+                  <div key={term.nodeId} className="flex items-center gap-1">
+                    <span className="text-xs text-gray-500 w-16 truncate" title={term.nodeId}>
+                      {model?.nodes.find((n) => n.id === term.nodeId)?.label ?? term.nodeId}
+                    </span>
+                    <input
+                      type="number"
+                      step="any"
+                      title="Coefficient"
+                      value={term.coefficient}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value)) updateTerm({ coefficient: value });
+                      }}
+                      className="w-0 flex-1 px-2 py-1 text-sm border rounded"
+                    />
+                    <span className="text-xs text-gray-400">× (x −</span>
+                    <input
+                      type="number"
+                      step="any"
+                      title="Reference value"
+                      value={term.reference ?? 0}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value)) updateTerm({ reference: value });
+                      }}
+                      className="w-0 flex-1 px-2 py-1 text-sm border rounded"
+                    />
+                    <span className="text-xs text-gray-400">)</span>
+                  </div>
+                );
+              })}
+              <div className="flex items-center gap-1">
+                <span className="text-xs text-gray-500 w-16">Clamp</span>
+                {(['min', 'max'] as const).map((key) => (
+                  <input
+                    key={key}
+                    type="number"
+                    step="any"
+                    placeholder={key}
+                    value={localPolicy[key] ?? ''}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      setLocalPolicy({ ...localPolicy, [key]: isNaN(value) ? undefined : value });
+                    }}
+                    className="w-0 flex-1 px-2 py-1 text-sm border rounded"
+                  />
+                ))}
+              </div>
+              <div className="text-xs text-gray-500 font-mono break-words">
+                {node.label} := {describePolicy(localPolicy, (id) => model?.nodes.find((n) => n.id === id)?.label ?? id)}
+              </div>
+              <div className="flex items-center gap-1">
+                <input
+                  type="text"
+                  placeholder="Rule name, e.g. Taylor rule"
+                  value={policyLabel}
+                  onChange={(e) => setPolicyLabel(e.target.value)}
+                  className="w-0 flex-1 px-2 py-1 text-sm border rounded"
+                />
+                <button
+                  onClick={handleSavePolicy}
+                  disabled={!policyLabel.trim()}
+                  className="px-2 py-1 text-xs border border-orange-300 text-orange-700 rounded hover:bg-orange-50 disabled:opacity-50"
+                >
+                  Save rule
+                </button>
+              </div>
+            </div>
+          )}
+
+          {savedPolicies.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs text-gray-500">Saved rules:</div>
+              {savedPolicies.map((policy) => (
+                <div key={policy.id} className="flex items-center gap-1 text-xs">
+                  <button
+                    onClick={() => setIntervention(policy.nodeId, policy.rule)}
+                    title={describePolicy(policy.rule, (id) => model?.nodes.find((n) => n.id === id)?.label ?? id)}
+                    className="flex-1 text-left px-2 py-0.5 bg-orange-50 text-orange-700 rounded hover:bg-orange-100 truncate"
+                  >
+                    {policy.label}
+                  </button>
+                  <button
+                    onClick={() => deletePolicy(policy.id)}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Delete rule"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
 
           {/* Show button when value differs from current intervention (or when not intervened) */}
-          {(!isIntervened || Math.abs(localValue - (intervention ?? 0)) > 0.001) && (
+          {(!isIntervened || JSON.stringify(pendingIntervention) !== JSON.stringify(intervention)) && (
             <button
               onClick={handleApplyIntervention}
-              disabled={isComputing}
               className="w-full py-2 text-sm bg-orange-500 text-white rounded hover:bg-orange-600 disabled:bg-orange-300 transition flex items-center justify-center gap-2"
             >
               {isComputing ? (
@@ -214,13 +788,158 @@ export default function NodeInspector() {
                   Computing...
                 </>
               ) : (
-                isIntervened ? 'Update Value' : 'Set Value'
+                interventionMode === 'set'
+                  ? (isIntervened ? 'Update Value' : 'Set Value')
+                  : (isIntervened ? 'Update Intervention' : 'Apply Intervention')
               )}
             </button>
           )}
         </div>
       )}
 
+      {/* Observation Control */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Observe (condition on)</span>
+          {observation && (
+            <button
+              onClick={() => clearEvidence(node.id)}
+              className="text-xs text-teal-600 hover:text-teal-700"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+        {observation && (
+          <div className="text-xs text-teal-700">
+            Observed {describeObservation(observation)} {node.units || ''}
+          </div>
+        )}
+        <div className="flex gap-1">
+          {(['point', 'range'] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setObservationMode(mode)}
+              className={`flex-1 py-1 text-xs rounded border ${
+                observationMode === mode
+                  ? 'bg-teal-50 border-teal-400 text-teal-700'
+                  : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+              }`}
+            >
+              {mode === 'point' ? 'Exact value' : 'Range'}
+            </button>
+          ))}
+        </div>
+        {observationMode === 'point' ? (
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              placeholder="Observed value"
+              value={observedValue}
+              onChange={(e) => setObservedValue(e.target.value)}
+              className="flex-1 px-2 py-1 text-sm border rounded"
+            />
+            <span className="text-sm text-gray-500">{node.units || ''}</span>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              placeholder="Min"
+              value={observedMin}
+              onChange={(e) => setObservedMin(e.target.value)}
+              className="w-0 flex-1 px-2 py-1 text-sm border rounded"
+            />
+            <span className="text-sm text-gray-400">to</span>
+            <input
+              type="number"
+              placeholder="Max"
+              value={observedMax}
+              onChange={(e) => setObservedMax(e.target.value)}
+              className="w-0 flex-1 px-2 py-1 text-sm border rounded"
+            />
+          </div>
+        )}
+        <button
+          onClick={handleApplyObservation}
+          disabled={!pendingObservation}
+          className="w-full py-2 text-sm bg-teal-600 text-white rounded hover:bg-teal-700 disabled:bg-teal-300 transition"
+        >
+          {observation ? 'Update Observation' : 'Observe'}
+        </button>
+        {isIntervened && (
+          <p className="text-xs text-gray-400">Observing this node replaces its intervention.</p>
+        )}
+      </div>
+
+      {/* Counterfactual Control */}
+      {node.type !== 'terminal' && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Counterfactual (had it been…)</span>
+            {hypotheticalValue !== undefined && (
+              <button
+                onClick={() => clearCounterfactual(node.id)}
+                className="text-xs text-purple-600 hover:text-purple-700"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              placeholder={distribution ? distribution.mean.toFixed(2) : 'Value'}
+              value={counterfactualInput}
+              onChange={(e) => setCounterfactualInput(e.target.value)}
+              className="flex-1 px-2 py-1 text-sm border rounded"
+            />
+            <span className="text-sm text-gray-500">{node.units || ''}</span>
+          </div>
+          <button
+            onClick={handleApplyCounterfactual}
+            disabled={isNaN(parseFloat(counterfactualInput))}
+            className="w-full py-2 text-sm bg-purple-600 text-white rounded hover:bg-purple-700 disabled:bg-purple-300 transition"
+          >
+            {hypotheticalValue !== undefined ? 'Update What If' : 'What If'}
+          </button>
+          <p className="text-xs text-gray-400">
+            Keeps each sample&apos;s own noise, weighted by the evidence, and compares it with what would have happened.
+          </p>
+        </div>
+      )}
+
+      {/* Feedback loop membership */}
+      {loopReport && (
+        <div
+          className={`rounded-lg p-3 border ${
+            loopReport.status === 'converged'
+              ? 'bg-emerald-50 border-emerald-200'
+              : loopReport.status === 'oscillating'
+              ? 'bg-amber-50 border-amber-200'
+              : 'bg-red-50 border-red-200'
+          }`}
+        >
+          <div className="text-sm font-medium text-gray-700 mb-1">↻ Feedback loop</div>
+          <div className="text-xs text-gray-600 mb-2">
+            {loopReport.status === 'converged' && `Settled to equilibrium in ${loopReport.rounds} rounds.`}
+            {loopReport.status === 'oscillating' && `Still oscillating after ${loopReport.rounds} rounds; values shown are the last round.`}
+            {loopReport.status === 'diverged' && `Diverging after ${loopReport.rounds} rounds; values shown are the last round and unreliable.`}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {(feedbackLoops[loopReport.loopIndex] || []).map((memberId) => (
+              <button
+                key={memberId}
+                onClick={() => selectNode(memberId)}
+                className="px-2 py-0.5 text-xs bg-white border border-gray-200 text-gray-700 rounded hover:bg-gray-100"
+              >
+                {model?.nodes.find((n) => n.id === memberId)?.label ?? memberId}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Node relationships */}
       <div className="space-y-2">
         {parentNodes.length > 0 && (
@@ -237,9 +956,97 @@ export default function NodeInspector() {
                 </button>
               ))}
             </div>
+            {parentNodes.length > 1 && (
+              <div className="flex items-center gap-2 mt-2">
+                <label className="text-xs text-gray-500">Combine parents:</label>
+                <select
+                  value={node.combiner ?? 'multiplicative'}
+                  onChange={(e) => updateNodeCombiner(node.id, e.target.value as ParentCombiner)}
+                  title={combinerDescriptions[node.combiner ?? 'multiplicative']}
+                  className="px-1.5 py-0.5 text-xs border rounded bg-white"
+                >
+                  <option value="multiplicative">Multiplicative</option>
+                  <option value="additive">Additive</option>
+                </select>
+              </div>
+            )}
+            {parentNodes.length > 1 && (
+              <div className="mt-2">
+                <div className="text-xs text-gray-500 mb-1">Joint mechanisms:</div>
+                <MechanismEditor
+                  mechanisms={node.mechanisms}
+                  parents={parentNodes.map((parent) => ({
+                    id: parent!.id,
+                    label: parent!.label,
+                    categories: outcomeLabels(parent!.distribution),
+                  }))}
+                  target={node.distribution}
+                  onApply={(mechanisms) => updateNodeMechanisms(node.id, mechanisms)}
+                />
+              </div>
+            )}
           </div>
         )}
 
+        <div>
+          <div className="text-xs text-gray-500 mb-1" title="Shared unobserved shocks: the two nodes' draws are correlated, each keeping its own distribution">
+            Confounded with:
+          </div>
+          {partners.map((partner) => (
+            <div key={partner.nodeId} className="flex items-center gap-2 mb-1">
+              <button
+                onClick={() => selectNode(partner.nodeId)}
+                className="px-2 py-0.5 text-xs bg-slate-100 text-slate-700 rounded hover:bg-slate-200"
+                title={partner.label}
+              >
+                ↔ {model?.nodes.find((n) => n.id === partner.nodeId)?.label ?? partner.nodeId}
+              </button>
+              <label className="text-xs text-gray-500">ρ</label>
+              <input
+                type="number"
+                step="0.1"
+                min="-0.99"
+                max="0.99"
+                value={partner.correlation}
+                onChange={(e) => handleConfounderChange(partner.nodeId, parseFloat(e.target.value) || 0)}
+                className="w-16 px-1 py-0.5 text-xs border rounded"
+              />
+              <button
+                onClick={() => handleConfounderChange(partner.nodeId, null)}
+                className="text-xs text-gray-400 hover:text-red-600"
+                title="Remove confounder"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <select
+              value={newPartnerId}
+              onChange={(e) => setNewPartnerId(e.target.value)}
+              className="px-1.5 py-0.5 text-xs border rounded bg-white"
+            >
+              <option value="">Add a shared shock with…</option>
+              {model?.nodes
+                .filter((n) => n.id !== node.id && !partners.some((p) => p.nodeId === n.id))
+                .map((n) => (
+                  <option key={n.id} value={n.id}>{n.label}</option>
+                ))}
+            </select>
+            <button
+              onClick={() => {
+                handleConfounderChange(newPartnerId, 0.5);
+                setNewPartnerId('');
+              }}
+              disabled={!newPartnerId}
+              className="px-2 py-0.5 text-xs bg-slate-600 text-white rounded hover:bg-slate-700 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+          {confounderError && <div className="text-xs text-red-600 mt-1">{confounderError}</div>}
+        </div>
+
         {childNodes.length > 0 && (
           <div>
             <div className="text-xs text-gray-500 mb-1">Affects:</div>
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useCausalGraphStore } from '@/store/graphStore';
+import { parseRun } from '@/lib/runExport';
 import type { CausalModel } from '@/types/causal';
 
 interface Props {
@@ -19,6 +20,7 @@ export default function QueryInput({ onLoadingChange }: Props) {
   const query = useCausalGraphStore((s) => s.query);
   const setQuery = useCausalGraphStore((s) => s.setQuery);
   const setModel = useCausalGraphStore((s) => s.setModel);
+  const loadRun = useCausalGraphStore((s) => s.loadRun);
   const setError = useCausalGraphStore((s) => s.setError);
 
   const handleSubmit = async (e: React.FormEvent, skipValidation = false) => {
@@ -68,6 +70,22 @@ export default function QueryInput({ onLoadingChange }: Props) {
     }
   };
 
+  // Load an exported run (or a bare model) from a JSON file
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Let the same file be picked again
+    if (!file) return;
+
+    setError(null);
+    setValidation(null);
+    try {
+      loadRun(parseRun(await file.text()));
+    } catch (error) {
+      console.error('[QueryInput] Import failed:', error);
+      setError(error instanceof Error ? error.message : 'Import failed');
+    }
+  };
+
   const useSuggestedQuery = () => {
     if (validation?.suggestedQuery) {
       setQuery(validation.suggestedQuery);
@@ -96,6 +114,15 @@ export default function QueryInput({ onLoadingChange }: Props) {
         >
           {isLoading ? 'Generating...' : 'Generate'}
         </button>
+        <label
+          className={`px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition ${
+            isLoading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+          }`}
+          title="Load a model or run exported as JSON"
+        >
+          Import
+          <input type="file" accept="application/json,.json" onChange={handleImport} disabled={isLoading} className="hidden" />
+        </label>
       </form>
 
       {validation && (
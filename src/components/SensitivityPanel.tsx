@@ -2,7 +2,8 @@
 
 import { useState } from 'react';
 import { useCausalGraphStore } from '@/store/graphStore';
-import { runSensitivityAnalysis, formatAnalysisForLLM, type SensitivityAnalysis } from '@/lib/sensitivity';
+import { formatAnalysisForLLM, type SensitivityAnalysis } from '@/lib/sensitivity';
+import { runJob, cancelJob } from '@/lib/workerClient';
 
 interface Props {
   isOpen: boolean;
@@ -12,6 +13,8 @@ interface Props {
 export default function SensitivityPanel({ isOpen, onClose }: Props) {
   const model = useCausalGraphStore((s) => s.model);
   const sampleCount = useCausalGraphStore((s) => s.sampleCount);
+  const seed = useCausalGraphStore((s) => s.seed);
+  const sampling = useCausalGraphStore((s) => s.samplingMethod);
   const setModel = useCausalGraphStore((s) => s.setModel);
 
   const [analysis, setAnalysis] = useState<SensitivityAnalysis | null>(null);
@@ -30,17 +33,17 @@ export default function SensitivityPanel({ isOpen, onClose }: Props) {
     setError(null);
     setRecalibrationResult(null);
 
-    // Run in a timeout to allow UI to update
-    setTimeout(() => {
-      try {
-        const result = runSensitivityAnalysis(model, sampleCount);
-        setAnalysis(result);
-      } catch (e) {
-        setError(e instanceof Error ? e.message : 'Analysis failed');
-      } finally {
-        setIsRunning(false);
-      }
-    }, 50);
+    runJob('sensitivity', { model, sampleCount, seed, sampling })
+      .then((result) => {
+        if (result) setAnalysis(result);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : 'Analysis failed'))
+      .finally(() => setIsRunning(false));
+  };
+
+  const handleClose = () => {
+    cancelJob('sensitivity');
+    onClose();
   };
 
   const handleRecalibrate = async () => {
@@ -72,10 +75,8 @@ export default function SensitivityPanel({ isOpen, onClose }: Props) {
       setModel(result.model);
 
       // Re-run analysis with new model
-      setTimeout(() => {
-        const newAnalysis = runSensitivityAnalysis(result.model, sampleCount);
-        setAnalysis(newAnalysis);
-      }, 100);
+      const newAnalysis = await runJob('sensitivity', { model: result.model, sampleCount, seed, sampling });
+      if (newAnalysis) setAnalysis(newAnalysis);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Recalibration failed');
     } finally {
@@ -88,9 +89,16 @@ export default function SensitivityPanel({ isOpen, onClose }: Props) {
       <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[85vh] flex flex-col">
         {/* Header */}
         <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
-          <h3 className="font-medium text-gray-900">Sensitivity Analysis</h3>
+          <h3 className="font-medium text-gray-900">
+            Sensitivity Analysis
+            {analysis && (
+              <span className="ml-2 text-xs font-normal text-gray-500">
+                {analysis.sampleCount} samples · seed {analysis.seed}
+              </span>
+            )}
+          </h3>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="p-1 text-gray-500 hover:text-gray-700"
           >
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -179,6 +187,47 @@ export default function SensitivityPanel({ isOpen, onClose }: Props) {
                   </div>
                 )}
 
+                {analysis.varianceSources.length > 0 && (
+                  <div className="mb-3">
+                    <div className="text-sm font-medium text-amber-700 mb-1">Variance Sources</div>
+                    <div className="space-y-1">
+                      {analysis.varianceSources.map((v) => (
+                        <div key={v.nodeId} className="grid grid-cols-[8rem_1fr_auto] items-center gap-2 text-xs text-gray-600">
+                          <span className="truncate" title={v.nodeLabel}>{v.nodeLabel}</span>
+                          <div className="flex h-2 rounded overflow-hidden bg-gray-200">
+                            <div className="bg-amber-400" style={{ width: `${v.parameterShare * 100}%` }} />
+                          </div>
+                          <span>
+                            {(v.parameterShare * 100).toFixed(0)}% parameters · {((1 - v.parameterShare) * 100).toFixed(0)}% noise
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="text-xs text-gray-400 mt-1">
+                      Share of each outcome&apos;s variance that disappears when uncertain effect parameters are fixed at their means
+                    </div>
+                  </div>
+                )}
+
+                {analysis.summary.confoundedEffects.length > 0 && (
+                  <div className="mb-3">
+                    <div className="text-sm font-medium text-slate-700 mb-1">Confounded Inputs</div>
+                    <div className="text-sm text-gray-600 space-y-0.5">
+                      {analysis.summary.confoundedEffects.map((c, i) => (
+                        <div key={i} title={`Shares an unobserved shock with ${c.confoundedWith.join(', ')}`}>
+                          {c.exogenousNode} → {c.terminalNode}: {c.causalPctChange.toFixed(1)}% causal
+                          <span className="text-gray-400 ml-1">
+                            (data would suggest {c.associatedPctChange.toFixed(1)}%)
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="text-xs text-gray-400 mt-1">
+                      Effect of a 50% increase against the association in the baseline draws
+                    </div>
+                  </div>
+                )}
+
                 {analysis.summary.strongEffects.length > 0 && (
                   <div className="mb-3">
                     <div className="text-sm font-medium text-green-700 mb-1">Strong Effects (&gt;5%)</div>
@@ -301,7 +350,7 @@ export default function SensitivityPanel({ isOpen, onClose }: Props) {
                 </button>
               )}
               <button
-                onClick={onClose}
+                onClick={handleClose}
                 className="px-4 py-1.5 bg-gray-200 text-gray-700 text-sm rounded hover:bg-gray-300"
               >
                 Close
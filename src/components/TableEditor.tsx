@@ -0,0 +1,140 @@
+'use client';
+
+import { expectedValue, outcomeLabels, standardDeviation } from '@/lib/distributions';
+import { describeDistribution } from '@/lib/interventions';
+import type { CategoricalDistribution, Distribution, TableCell } from '@/types/causal';
+
+interface Props {
+  rows: string[]; // One label per cell: a parent category, or a combination of them
+  cells: TableCell[];
+  target: Distribution; // The target's prior: binary and categorical targets get outcome probabilities
+  onChange: (cells: TableCell[]) => void;
+}
+
+// Outcome probabilities of a binary or categorical cell, in the target's outcome order
+function cellProbabilities(cell: TableCell, target: Distribution): number[] {
+  const dist = cell.distribution;
+  if (dist?.type === 'binary') return [1 - dist.p, dist.p];
+  if (dist?.type === 'categorical') return dist.probs;
+  if (target.type === 'binary') return [1 - target.p, target.p];
+  return (target as CategoricalDistribution).probs ?? [];
+}
+
+function withProbabilities(target: Distribution, probs: number[]): Distribution {
+  if (target.type === 'binary') return { type: 'binary', p: probs[1] };
+  return { type: 'categorical', categories: (target as CategoricalDistribution).categories, probs };
+}
+
+// A distribution cell starts from the target's prior: its probabilities, or a normal with its mean and spread
+function defaultDistribution(target: Distribution): Distribution {
+  if (outcomeLabels(target)) return withProbabilities(target, cellProbabilities({}, target));
+  return { type: 'continuous', dist: 'normal', params: [expectedValue(target), standardDeviation(target)] };
+}
+
+/**
+ * Grid editor for a conditional table: one row per parent category (or
+ * combination), each either scaling the target or giving its distribution
+ */
+export default function TableEditor({ rows, cells, target, onChange }: Props) {
+  const outcomes = outcomeLabels(target);
+  const update = (k: number, cell: TableCell) => onChange(rows.map((_, j) => (j === k ? cell : cells[j] ?? {})));
+  const setProbability = (k: number, outcome: number, value: number) => {
+    const probs = [...cellProbabilities(cells[k] ?? {}, target)];
+    probs[outcome] = value;
+    if (target.type === 'binary') probs[0] = 1 - value;
+    update(k, { distribution: withProbabilities(target, probs) });
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-normal pb-1">Parent</th>
+            <th className="text-left font-normal pb-1">Cell</th>
+            {outcomes && target.type !== 'binary'
+              ? outcomes.map((label) => (
+                  <th key={label} className="text-left font-normal pb-1 truncate max-w-[4rem]" title={label}>{label}</th>
+                ))
+              : <th className="text-left font-normal pb-1">{outcomes ? 'P(true)' : 'Value'}</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, k) => {
+            const cell = cells[k] ?? {};
+            const isDistribution = Boolean(cell.distribution);
+            const normal = cell.distribution?.type === 'continuous' && cell.distribution.dist === 'normal' ? cell.distribution : null;
+            return (
+              <tr key={row} className="border-t border-gray-100">
+                <td className="py-1 pr-2 text-gray-700 truncate max-w-[6rem]" title={row}>{row}</td>
+                <td className="py-1 pr-2">
+                  <select
+                    value={isDistribution ? 'distribution' : 'scale'}
+                    onChange={(e) => update(k, e.target.value === 'scale' ? { multiplier: 1 } : { distribution: defaultDistribution(target) })}
+                    className="px-1 py-0.5 border rounded bg-white"
+                  >
+                    <option value="scale">{outcomes ? 'odds ×' : 'scale ×'}</option>
+                    <option value="distribution">{outcomes ? 'probabilities' : 'distribution'}</option>
+                  </select>
+                </td>
+                {!isDistribution && (
+                  <td className="py-1" colSpan={outcomes && target.type !== 'binary' ? outcomes.length : 1}>
+                    <input
+                      type="number"
+                      step="0.05"
+                      min="0"
+                      value={cell.multiplier ?? 1}
+                      onChange={(e) => update(k, { multiplier: parseFloat(e.target.value) || 0 })}
+                      className="w-16 px-1 py-0.5 border rounded"
+                    />
+                  </td>
+                )}
+                {isDistribution && outcomes && (target.type === 'binary' ? [1] : outcomes.map((_, j) => j)).map((j) => (
+                  <td key={j} className="py-1 pr-1">
+                    <input
+                      type="number"
+                      step="0.05"
+                      min="0"
+                      max="1"
+                      value={cellProbabilities(cell, target)[j] ?? 0}
+                      onChange={(e) => setProbability(k, j, parseFloat(e.target.value) || 0)}
+                      className="w-14 px-1 py-0.5 border rounded"
+                    />
+                  </td>
+                ))}
+                {isDistribution && !outcomes && (
+                  <td className="py-1">
+                    {normal ? (
+                      <span className="flex items-center gap-1 text-gray-500">
+                        N(
+                        <input
+                          type="number"
+                          value={normal.params[0]}
+                          onChange={(e) => update(k, { distribution: { ...normal, params: [parseFloat(e.target.value) || 0, normal.params[1]] } })}
+                          className="w-16 px-1 py-0.5 border rounded"
+                          title="Mean"
+                        />
+                        ,
+                        <input
+                          type="number"
+                          min="0"
+                          value={normal.params[1]}
+                          onChange={(e) => update(k, { distribution: { ...normal, params: [normal.params[0], parseFloat(e.target.value) || 0] } })}
+                          className="w-14 px-1 py-0.5 border rounded"
+                          title="Standard deviation"
+                        />
+                        )
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">{describeDistribution(cell.distribution!)}</span>
+                    )}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { NodeTrajectory } from '@/lib/temporal';
+
+interface Props {
+  trajectory: NodeTrajectory;
+  width?: number;
+  height?: number;
+}
+
+export default function TrajectoryChart({
+  trajectory,
+  width = 200,
+  height = 80,
+}: Props) {
+  const { bandD, meanD, xScale, yScale } = useMemo(() => {
+    const ticks = trajectory.ticks;
+    if (ticks.length === 0) {
+      return { bandD: '', meanD: '', xScale: () => 0, yScale: () => 0 };
+    }
+
+    const yMin = Math.min(trajectory.baselineMean, ...ticks.map((t) => t.p5));
+    const yMax = Math.max(trajectory.baselineMean, ...ticks.map((t) => t.p95));
+    const ySpan = yMax - yMin || 1;
+    const lastTick = ticks[ticks.length - 1].tick || 1;
+
+    const padding = 10;
+    const chartWidth = width - padding * 2;
+    const chartHeight = height - padding * 2;
+
+    const xScale = (tick: number) => padding + (tick / lastTick) * chartWidth;
+    const yScale = (y: number) => height - padding - ((y - yMin) / ySpan) * chartHeight;
+
+    // p5-p95 band: upper edge left to right, lower edge right to left
+    const upper = ticks.map((t, i) => `${i === 0 ? 'M' : 'L'} ${xScale(t.tick)} ${yScale(t.p95)}`);
+    const lower = [...ticks].reverse().map((t) => `L ${xScale(t.tick)} ${yScale(t.p5)}`);
+    const bandD = [...upper, ...lower, 'Z'].join(' ');
+
+    const meanD = ticks
+      .map((t, i) => `${i === 0 ? 'M' : 'L'} ${xScale(t.tick)} ${yScale(t.mean)}`)
+      .join(' ');
+
+    return { bandD, meanD, xScale, yScale };
+  }, [trajectory, width, height]);
+
+  const baselineY = yScale(trajectory.baselineMean);
+
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      {/* Uncertainty band */}
+      <path d={bandD} fill="rgba(59, 130, 246, 0.15)" stroke="none" />
+
+      {/* Pre-intervention baseline */}
+      <line
+        x1={10}
+        y1={baselineY}
+        x2={width - 10}
+        y2={baselineY}
+        stroke="#9ca3af"
+        strokeWidth={1}
+        strokeDasharray="3,3"
+      />
+
+      {/* Mean trajectory */}
+      <path d={meanD} fill="none" stroke="rgb(59, 130, 246)" strokeWidth={2} />
+
+      {/* Peak marker */}
+      {trajectory.peakTick !== null && (
+        <circle
+          cx={xScale(trajectory.peakTick)}
+          cy={yScale(trajectory.ticks[trajectory.peakTick]?.mean ?? trajectory.baselineMean)}
+          r={3}
+          fill="rgb(251, 146, 60)"
+        />
+      )}
+    </svg>
+  );
+}
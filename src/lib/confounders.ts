@@ -0,0 +1,190 @@
+/**
+ * Latent Confounders
+ *
+ * Every node's noise is drawn independently, which cannot say "oil prices and
+ * inflation expectations share a common unobserved shock". A confounder is a
+ * bidirected arc between two nodes whose noise is correlated through a
+ * Gaussian copula: each node's draws stay on its own distribution, and only
+ * their ranks move together. Confounders that share a node form a group whose
+ * normal scores are drawn jointly from the group's correlation matrix.
+ *
+ * Interventions fix a node's value and so cut its confounding; the other
+ * node keeps its own draws. Evidence and counterfactuals reweight the shared
+ * draws, so the correlation is respected there without further work.
+ */
+
+import type { CausalModel, Confounder } from '@/types/causal';
+import { normalCdf, normalQuantile } from './specialFunctions';
+import { createRandom, seedFromValues } from './random';
+
+// Keeps uniforms off 0 and 1, where the normal scores are infinite
+const UNIFORM_MARGIN = 1e-12;
+
+// Each failed factorization scales every correlation in the group by this much
+const SHRINK_FACTOR = 0.9;
+
+export interface ConfoundedPartner {
+  nodeId: string;
+  correlation: number;
+  label?: string;
+}
+
+const clampUniform = (u: number) => Math.min(Math.max(u, UNIFORM_MARGIN), 1 - UNIFORM_MARGIN);
+
+// Confounders between two distinct nodes of the model; a later entry for the same pair replaces an earlier one
+function usableConfounders(model: CausalModel): Confounder[] {
+  const nodeIds = new Set(model.nodes.map(n => n.id));
+  const byPair = new Map<string, Confounder>();
+  for (const confounder of model.confounders ?? []) {
+    const [a, b] = confounder.nodes ?? [];
+    if (a === b || !nodeIds.has(a) || !nodeIds.has(b)) continue;
+    if (!(Math.abs(confounder.correlation) < 1)) continue;
+    byPair.set([a, b].sort().join('\u0000'), confounder);
+  }
+  return [...byPair.values()];
+}
+
+/**
+ * Nodes whose noise is drawn jointly: the connected groups of the
+ * confounder arcs, each in model order
+ */
+export function confoundedGroups(model: CausalModel): string[][] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const up = parent.get(id) ?? id;
+    if (up === id) return id;
+    const root = find(up);
+    parent.set(id, root);
+    return root;
+  };
+  for (const { nodes: [a, b] } of usableConfounders(model)) {
+    for (const id of [a, b]) if (!parent.has(id)) parent.set(id, id);
+    parent.set(find(a), find(b));
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const node of model.nodes) {
+    if (!parent.has(node.id)) continue;
+    const root = find(node.id);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(node.id);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * The nodes a node shares a confounder with, and the correlations
+ */
+export function confoundedPartners(model: CausalModel, nodeId: string): ConfoundedPartner[] {
+  return usableConfounders(model).flatMap(({ nodes: [a, b], correlation, label }) => {
+    if (a === nodeId) return [{ nodeId: b, correlation, label }];
+    if (b === nodeId) return [{ nodeId: a, correlation, label }];
+    return [];
+  });
+}
+
+/**
+ * Correlation matrix of a group's normal scores, in the group's order.
+ * Pairs without a confounder of their own are uncorrelated.
+ */
+export function correlationMatrix(model: CausalModel, group: string[]): number[][] {
+  const matrix = group.map((_, i) => group.map((_, j): number => (i === j ? 1 : 0)));
+  const index = new Map(group.map((id, i) => [id, i]));
+  for (const { nodes: [a, b], correlation } of usableConfounders(model)) {
+    const i = index.get(a);
+    const j = index.get(b);
+    if (i === undefined || j === undefined) continue;
+    matrix[i][j] = correlation;
+    matrix[j][i] = correlation;
+  }
+  return matrix;
+}
+
+/**
+ * Lower-triangular L with L·Lᵀ = matrix, or null if the matrix is not
+ * positive definite
+ */
+export function cholesky(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      if (i === j) {
+        if (!(sum > 0)) return null;
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+  return lower;
+}
+
+// Correlations that cannot all hold at once are scaled toward zero until they can
+function groupFactor(matrix: number[][]): number[][] {
+  let scale = 1;
+  for (;;) {
+    const scaled = matrix.map((row, i) => row.map((r, j) => (i === j ? 1 : r * scale)));
+    const lower = cholesky(scaled);
+    if (lower) return lower;
+    scale *= SHRINK_FACTOR;
+  }
+}
+
+/**
+ * Copula uniforms for every confounded node, or an empty record if the model
+ * has no confounders. The independent uniforms a group correlates are its
+ * members' own stratified columns when given, which keeps each member on its
+ * own Latin hypercube or Sobol dimension; otherwise each group draws from its
+ * own stream seeded from the given seed and its members, so editing one group
+ * leaves every other draw as it was.
+ */
+export function copulaUniforms(
+  model: CausalModel,
+  sampleCount: number,
+  seed: number,
+  columns?: Record<string, number[]>
+): Record<string, number[]> {
+  const uniforms: Record<string, number[]> = {};
+  for (const group of confoundedGroups(model)) {
+    const stream = createRandom(seedFromValues([seed, ...Array.from(group.join(','), c => c.charCodeAt(0))]));
+    const independent = group.map(nodeId =>
+      columns?.[nodeId] ?? Array.from({ length: sampleCount }, () => stream()));
+    const scores = independent.map(column => column.map(u => normalQuantile(clampUniform(u))));
+    const lower = groupFactor(correlationMatrix(model, group));
+
+    group.forEach((nodeId, i) => {
+      uniforms[nodeId] = Array.from({ length: sampleCount }, (_, s) => {
+        let z = 0;
+        for (let k = 0; k <= i; k++) z += lower[i][k] * scores[k][s];
+        return clampUniform(normalCdf(z));
+      });
+    });
+  }
+  return uniforms;
+}
+
+/**
+ * Why the model's confounders cannot be drawn as given, or null if they can
+ */
+export function validateConfounders(model: CausalModel): string | null {
+  const nodeIds = new Set(model.nodes.map(n => n.id));
+  const seen = new Set<string>();
+  for (const confounder of model.confounders ?? []) {
+    const [a, b] = confounder.nodes ?? [];
+    if (!nodeIds.has(a) || !nodeIds.has(b)) return `Confounder ${a} ↔ ${b} names a node that is not in the model`;
+    if (a === b) return `A confounder needs two different nodes, got ${a} twice`;
+    const pair = [a, b].sort().join('\u0000');
+    if (seen.has(pair)) return `${a} ↔ ${b} is confounded twice`;
+    seen.add(pair);
+    if (!(Math.abs(confounder.correlation) < 1)) return `${a} ↔ ${b}: correlation must be between -1 and 1`;
+  }
+  for (const group of confoundedGroups(model)) {
+    if (!cholesky(correlationMatrix(model, group))) {
+      return `The correlations among ${group.join(', ')} contradict each other`;
+    }
+  }
+  return null;
+}
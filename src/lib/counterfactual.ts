@@ -0,0 +1,93 @@
+/**
+ * Counterfactual Module
+ *
+ * Answers "had X been x instead, what would Y have been?" for the specific
+ * situation described by the evidence, using Pearl's three steps:
+ * 1. Abduction: weight each exogenous noise draw by how well its factual world
+ *    matches the evidence (likelihood weighting over shared noise)
+ * 2. Action: apply the hypothetical intervention
+ * 3. Prediction: re-propagate every draw with its own noise, keeping the
+ *    abduction weights, so each unit is compared with its own factual self
+ */
+
+import {
+  propagateWithSampling,
+  drawNoise,
+  DEFAULT_SAMPLE_COUNT,
+  type NodeSamples,
+  type PropagationOptions,
+} from './inference';
+import { samplesToKDE, summarizeNodeSamples, pairedDifference } from './distributions';
+import type { CausalModel, Observation, RenderableDistribution, InterventionMap } from '@/types/causal';
+
+export interface CounterfactualQuery {
+  evidence: Map<string, Observation>; // What actually happened
+  hypothetical: InterventionMap; // What would have been different
+  interventions?: InterventionMap; // Standing interventions, in force in both worlds
+}
+
+export interface CounterfactualEffect {
+  mean: number; // Weighted mean of counterfactual minus factual, per unit
+  standardError: number;
+}
+
+export interface CounterfactualResult {
+  factual: NodeSamples;
+  counterfactual: NodeSamples;
+  weights: number[] | null; // Abduction weights shared by both worlds (null without evidence)
+  effectiveSampleSize: number;
+  conditioned: boolean; // False without evidence or when no sample is consistent with it, so nothing was abduced
+  factualDistributions: Map<string, RenderableDistribution>;
+  counterfactualDistributions: Map<string, RenderableDistribution>;
+  effects: Record<string, CounterfactualEffect>;
+}
+
+export function runCounterfactual(
+  model: CausalModel,
+  query: CounterfactualQuery,
+  sampleCount: number = DEFAULT_SAMPLE_COUNT,
+  options: PropagationOptions = {}
+): CounterfactualResult {
+  const interventions: InterventionMap = query.interventions ?? new Map();
+  const noise = options.noise ?? drawNoise(model, sampleCount, options.rng, options.sampling);
+
+  console.log('>>> [Counterfactual] Evidence:', [...query.evidence.entries()], 'hypothetical:', [...query.hypothetical.entries()]);
+
+  // Abduction: the factual world conditioned on the evidence
+  const factual = propagateWithSampling(model, interventions, sampleCount, {
+    ...options,
+    noise,
+    evidence: query.evidence,
+  });
+
+  // Action + prediction: same noise, hypothetical interventions layered over the standing ones
+  const counterfactualInterventions: InterventionMap = new Map([...interventions, ...query.hypothetical]);
+  const counterfactual = propagateWithSampling(model, counterfactualInterventions, sampleCount, {
+    ...options,
+    noise,
+    evidence: undefined,
+  });
+
+  const weights = factual.weights;
+  const counterfactualDistributions = new Map<string, RenderableDistribution>();
+  const effects: Record<string, CounterfactualEffect> = {};
+  const nodeMap = new Map(model.nodes.map(n => [n.id, n]));
+  for (const [nodeId, samples] of Object.entries(counterfactual.samples)) {
+    const node = nodeMap.get(nodeId);
+    counterfactualDistributions.set(nodeId, node
+      ? summarizeNodeSamples(node.distribution, samples, weights ?? undefined)
+      : samplesToKDE(samples, 50, weights ?? undefined));
+    effects[nodeId] = pairedDifference(samples, factual.samples[nodeId], weights ?? undefined);
+  }
+
+  return {
+    factual: factual.samples,
+    counterfactual: counterfactual.samples,
+    weights,
+    effectiveSampleSize: factual.effectiveSampleSize,
+    conditioned: weights !== null,
+    factualDistributions: factual.distributions,
+    counterfactualDistributions,
+    effects,
+  };
+}
@@ -1,13 +1,33 @@
 import type {
   Distribution,
   RenderableDistribution,
+  OutcomeShare,
   BinaryDistribution,
   CategoricalDistribution,
   ContinuousDistribution,
   BoundedDistribution,
   CountDistribution,
   RateDistribution,
+  UniformDistribution,
+  TriangularDistribution,
+  TruncatedNormalDistribution,
+  StudentTDistribution,
+  WeibullDistribution,
+  ExponentialDistribution,
+  MixtureDistribution,
+  EmpiricalDistribution,
 } from '@/types/causal';
+import type { RandomSource } from './random';
+import {
+  logGamma,
+  normalCdf,
+  normalQuantile,
+  regularizedBeta,
+  regularizedGammaP,
+  regularizedGammaQ,
+  inverseRegularizedBeta,
+  inverseRegularizedGammaP,
+} from './specialFunctions';
 
 // Use jstat for distribution sampling
 // We'll implement fallbacks for when jstat isn't available
@@ -15,9 +35,9 @@ import type {
 /**
  * Box-Muller transform for normal distribution sampling
  */
-function randomNormal(mean: number, stdDev: number): number {
-  const u1 = Math.random();
-  const u2 = Math.random();
+function randomNormal(mean: number, stdDev: number, rng: RandomSource): number {
+  const u1 = rng();
+  const u2 = rng();
   const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
   return mean + stdDev * z;
 }
@@ -25,15 +45,15 @@ function randomNormal(mean: number, stdDev: number): number {
 /**
  * Sample from a lognormal distribution
  */
-function randomLognormal(mu: number, sigma: number): number {
-  const normal = randomNormal(mu, sigma);
+function randomLognormal(mu: number, sigma: number, rng: RandomSource): number {
+  const normal = randomNormal(mu, sigma, rng);
   return Math.exp(normal);
 }
 
 /**
  * Sample from a beta distribution using Johnk's algorithm
  */
-function randomBeta(alpha: number, beta: number): number {
+function randomBeta(alpha: number, beta: number, rng: RandomSource): number {
   // For alpha, beta > 1, use a more efficient algorithm
   if (alpha > 1 && beta > 1) {
     const a = alpha - 1;
@@ -44,8 +64,8 @@ function randomBeta(alpha: number, beta: number): number {
     const sigma = 0.5 / Math.sqrt(c);
 
     while (true) {
-      const u = Math.random();
-      let x = randomNormal(mu, sigma);
+      const u = rng();
+      let x = randomNormal(mu, sigma, rng);
 
       if (x < 0 || x > 1) continue;
 
@@ -56,8 +76,8 @@ function randomBeta(alpha: number, beta: number): number {
 
   // Johnk's algorithm for general case
   while (true) {
-    const u1 = Math.random();
-    const u2 = Math.random();
+    const u1 = rng();
+    const u2 = rng();
     const x = Math.pow(u1, 1 / alpha);
     const y = Math.pow(u2, 1 / beta);
     if (x + y <= 1) {
@@ -69,10 +89,10 @@ function randomBeta(alpha: number, beta: number): number {
 /**
  * Sample from a gamma distribution using Marsaglia and Tsang's method
  */
-function randomGamma(shape: number, rate: number): number {
+function randomGamma(shape: number, rate: number, rng: RandomSource): number {
   if (shape < 1) {
     // Boost shape if less than 1
-    return randomGamma(shape + 1, rate) * Math.pow(Math.random(), 1 / shape);
+    return randomGamma(shape + 1, rate, rng) * Math.pow(rng(), 1 / shape);
   }
 
   const d = shape - 1 / 3;
@@ -83,12 +103,12 @@ function randomGamma(shape: number, rate: number): number {
     let v: number;
 
     do {
-      x = randomNormal(0, 1);
+      x = randomNormal(0, 1, rng);
       v = 1 + c * x;
     } while (v <= 0);
 
     v = v * v * v;
-    const u = Math.random();
+    const u = rng();
 
     if (u < 1 - 0.0331 * (x * x) * (x * x)) {
       return d * v / rate;
@@ -103,7 +123,7 @@ function randomGamma(shape: number, rate: number): number {
 /**
  * Sample from a Poisson distribution
  */
-function randomPoisson(lambda: number): number {
+function randomPoisson(lambda: number, rng: RandomSource): number {
   if (lambda < 30) {
     // Direct method for small lambda
     const L = Math.exp(-lambda);
@@ -111,60 +131,62 @@ function randomPoisson(lambda: number): number {
     let p = 1;
     do {
       k++;
-      p *= Math.random();
+      p *= rng();
     } while (p > L);
     return k - 1;
   } else {
     // Normal approximation for large lambda
-    return Math.max(0, Math.round(randomNormal(lambda, Math.sqrt(lambda))));
+    return Math.max(0, Math.round(randomNormal(lambda, Math.sqrt(lambda), rng)));
   }
 }
 
 /**
  * Sample from a PERT/triangular distribution (bounded)
  */
-function randomPERT(min: number, max: number, mode: number): number {
+function randomPERT(min: number, max: number, mode: number, rng: RandomSource): number {
   // PERT distribution uses beta distribution scaled to [min, max]
   const range = max - min;
-  const mu = (min + 4 * mode + max) / 6;
-  const alpha = 1 + 4 * (mu - min) / range;
-  const beta = 1 + 4 * (max - mu) / range;
+  const alpha = 1 + 4 * (mode - min) / range;
+  const beta = 1 + 4 * (max - mode) / range;
 
-  const betaSample = randomBeta(Math.max(0.5, alpha), Math.max(0.5, beta));
+  const betaSample = randomBeta(Math.max(0.5, alpha), Math.max(0.5, beta), rng);
   return min + betaSample * range;
 }
 
 /**
  * Safe version of randomBeta with iteration limit
  */
-function randomBetaSafe(alpha: number, beta: number): number {
+function randomBetaSafe(alpha: number, beta: number, rng: RandomSource): number {
   const a = Math.max(0.1, alpha);
   const b = Math.max(0.1, beta);
   const maxIterations = 100;
 
   for (let iter = 0; iter < maxIterations; iter++) {
-    const u1 = Math.random();
-    const u2 = Math.random();
+    const u1 = rng();
+    const u2 = rng();
     const x = Math.pow(u1, 1 / a);
     const y = Math.pow(u2, 1 / b);
     if (x + y <= 1 && x + y > 0) {
       return x / (x + y);
     }
   }
-  // Fallback: return mean of beta distribution
-  return a / (a + b);
+  // Johnk's acceptance rate collapses when both parameters are large (about 2% for
+  // beta(8, 2)), so fall back to the gamma ratio, which is exact for any parameters
+  const g1 = randomGammaSafe(a, 1, rng);
+  const g2 = randomGammaSafe(b, 1, rng);
+  return g1 + g2 > 0 ? g1 / (g1 + g2) : a / (a + b);
 }
 
 /**
  * Safe version of randomGamma with iteration limit
  */
-function randomGammaSafe(shape: number, rate: number): number {
+function randomGammaSafe(shape: number, rate: number, rng: RandomSource): number {
   const s = Math.max(0.1, shape);
   const r = Math.max(0.1, rate);
   const maxIterations = 100;
 
   if (s < 1) {
-    return randomGammaSafe(s + 1, r) * Math.pow(Math.random(), 1 / s);
+    return randomGammaSafe(s + 1, r, rng) * Math.pow(rng(), 1 / s);
   }
 
   const d = s - 1 / 3;
@@ -176,7 +198,7 @@ function randomGammaSafe(shape: number, rate: number): number {
     let attempts = 0;
 
     do {
-      x = randomNormal(0, 1);
+      x = randomNormal(0, 1, rng);
       v = 1 + c * x;
       attempts++;
     } while (v <= 0 && attempts < 10);
@@ -184,7 +206,7 @@ function randomGammaSafe(shape: number, rate: number): number {
     if (v <= 0) continue;
 
     v = v * v * v;
-    const u = Math.random();
+    const u = rng();
 
     if (u < 1 - 0.0331 * (x * x) * (x * x)) {
       return d * v / r;
@@ -201,24 +223,27 @@ function randomGammaSafe(shape: number, rate: number): number {
 /**
  * Safe version of randomPERT
  */
-function randomPERTSafe(min: number, max: number, mode: number): number {
+function randomPERTSafe(min: number, max: number, mode: number, rng: RandomSource): number {
   if (max <= min) {
     return min;
   }
   const range = max - min;
   const clampedMode = Math.max(min, Math.min(max, mode));
-  const mu = (min + 4 * clampedMode + max) / 6;
-  const alpha = Math.max(0.5, 1 + 4 * (mu - min) / range);
-  const beta = Math.max(0.5, 1 + 4 * (max - mu) / range);
+  const alpha = 1 + 4 * (clampedMode - min) / range;
+  const beta = 1 + 4 * (max - clampedMode) / range;
 
-  const betaSample = randomBetaSafe(alpha, beta);
+  const betaSample = randomBetaSafe(alpha, beta, rng);
   return min + betaSample * range;
 }
 
 /**
  * Sample n values from a distribution
  */
-export function sampleFromDistribution(dist: Distribution, n: number): number[] {
+export function sampleFromDistribution(
+  dist: Distribution,
+  n: number,
+  rng: RandomSource = Math.random
+): number[] {
   // Initialize with zeros as fallback
   const samples: number[] = new Array(n).fill(0);
 
@@ -228,7 +253,7 @@ export function sampleFromDistribution(dist: Distribution, n: number): number[]
         const bd = dist as BinaryDistribution;
         const p = bd.p ?? 0.5;
         for (let i = 0; i < n; i++) {
-          samples[i] = Math.random() < p ? 1 : 0;
+          samples[i] = rng() < p ? 1 : 0;
         }
         break;
       }
@@ -243,8 +268,9 @@ export function sampleFromDistribution(dist: Distribution, n: number): number[]
             cumProbs.push(cumSum);
           }
           for (let i = 0; i < n; i++) {
-            const u = Math.random();
-            samples[i] = cumProbs.findIndex(cp => u <= cp);
+            const u = rng();
+            const index = cumProbs.findIndex(cp => u <= cp);
+            samples[i] = index < 0 ? cumProbs.length - 1 : index;
           }
         }
         break;
@@ -262,28 +288,28 @@ export function sampleFromDistribution(dist: Distribution, n: number): number[]
         switch (distType) {
           case 'normal':
             for (let i = 0; i < n; i++) {
-              samples[i] = randomNormal(mean, std);
+              samples[i] = randomNormal(mean, std, rng);
             }
             break;
           case 'lognormal':
             for (let i = 0; i < n; i++) {
-              samples[i] = randomLognormal(mean, std);
+              samples[i] = randomLognormal(mean, std, rng);
             }
             break;
           case 'beta':
             for (let i = 0; i < n; i++) {
-              samples[i] = randomBetaSafe(mean, std);
+              samples[i] = randomBetaSafe(mean, std, rng);
             }
             break;
           case 'gamma':
             for (let i = 0; i < n; i++) {
-              samples[i] = randomGammaSafe(mean, std);
+              samples[i] = randomGammaSafe(mean, std, rng);
             }
             break;
           default:
             // Fallback to normal
             for (let i = 0; i < n; i++) {
-              samples[i] = randomNormal(mean, std);
+              samples[i] = randomNormal(mean, std, rng);
             }
         }
         break;
@@ -295,7 +321,7 @@ export function sampleFromDistribution(dist: Distribution, n: number): number[]
         const max = bd.max ?? 100;
         const mode = bd.mode ?? (min + max) / 2;
         for (let i = 0; i < n; i++) {
-          samples[i] = randomPERTSafe(min, max, mode);
+          samples[i] = randomPERTSafe(min, max, mode, rng);
         }
         break;
       }
@@ -304,7 +330,7 @@ export function sampleFromDistribution(dist: Distribution, n: number): number[]
         const cd = dist as CountDistribution;
         const lambda = Math.max(cd.lambda ?? 1, 0.1);
         for (let i = 0; i < n; i++) {
-          samples[i] = randomPoisson(lambda);
+          samples[i] = randomPoisson(lambda, rng);
         }
         break;
       }
@@ -314,15 +340,50 @@ export function sampleFromDistribution(dist: Distribution, n: number): number[]
         const alpha = Math.max(rd.alpha ?? 1, 0.1);
         const beta = Math.max(rd.beta ?? 1, 0.1);
         for (let i = 0; i < n; i++) {
-          samples[i] = randomBetaSafe(alpha, beta);
+          samples[i] = randomBetaSafe(alpha, beta, rng);
         }
         break;
       }
 
+      case 'studentT': {
+        const { df, location, scale } = studentTParams(dist as StudentTDistribution);
+        // A normal over the square root of an independent chi-squared / df
+        for (let i = 0; i < n; i++) {
+          const chiSquared = 2 * randomGammaSafe(df / 2, 1, rng);
+          samples[i] = location + (scale * randomNormal(0, 1, rng)) / Math.sqrt(chiSquared / df);
+        }
+        break;
+      }
+
+      case 'mixture': {
+        const { components, weights } = mixtureParts(dist as MixtureDistribution);
+        if (components.length === 0) break;
+        // Assign each draw a component, then draw each component's share in one batch
+        const assigned = Array.from({ length: n }, () => pickIndex(weights, rng()));
+        components.forEach((component, k) => {
+          const slots = assigned.flatMap((c, i) => (c === k ? [i] : []));
+          const draws = sampleFromDistribution(component, slots.length, rng);
+          slots.forEach((slot, j) => (samples[slot] = draws[j]));
+        });
+        break;
+      }
+
+      case 'uniform':
+      case 'triangular':
+      case 'truncatedNormal':
+      case 'weibull':
+      case 'exponential':
+      case 'empirical':
+        // Closed-form or table-lookup inverse CDFs, so invert uniforms directly
+        for (let i = 0; i < n; i++) {
+          samples[i] = quantile(dist, rng());
+        }
+        break;
+
       default:
         // Unknown distribution type - use standard normal
         for (let i = 0; i < n; i++) {
-          samples[i] = randomNormal(0, 1);
+          samples[i] = randomNormal(0, 1, rng);
         }
     }
   } catch (error) {
@@ -334,6 +395,568 @@ export function sampleFromDistribution(dist: Distribution, n: number): number[]
   return samples;
 }
 
+// Parameters as sampleFromDistribution resolves them, shared by the analytic functions below
+
+function continuousParams(cont: ContinuousDistribution): { family: string; a: number; b: number } {
+  const mean = cont.params?.[0] ?? 0;
+  const std = Math.max(cont.params?.[1] ?? 1, 0.01);
+  const family = cont.dist || 'normal';
+  // Beta and gamma samplers floor both parameters at 0.1
+  if (family === 'beta' || family === 'gamma') return { family, a: Math.max(0.1, mean), b: Math.max(0.1, std) };
+  return { family: family === 'lognormal' ? family : 'normal', a: mean, b: std };
+}
+
+function pertParams(bd: BoundedDistribution): { min: number; range: number; alpha: number; beta: number } {
+  const min = bd.min ?? 0;
+  const max = bd.max ?? 100;
+  const range = max - min;
+  const mode = Math.max(min, Math.min(max, bd.mode ?? (min + max) / 2));
+  return { min, range, alpha: 1 + 4 * (mode - min) / range, beta: 1 + 4 * (max - mode) / range };
+}
+
+function rateParams(rd: RateDistribution): { alpha: number; beta: number } {
+  return { alpha: Math.max(rd.alpha ?? 1, 0.1), beta: Math.max(rd.beta ?? 1, 0.1) };
+}
+
+function poissonLambda(cd: CountDistribution): number {
+  return Math.max(cd.lambda ?? 1, 0.1);
+}
+
+// The count sampler switches to a rounded normal approximation at this rate
+const POISSON_NORMAL_LAMBDA = 30;
+
+// A strictly positive parameter, or the fallback when it is missing or invalid
+function positive(value: number | undefined, fallback: number): number {
+  return value !== undefined && value > 0 && isFinite(value) ? value : fallback;
+}
+
+function uniformParams(ud: UniformDistribution): { min: number; range: number } {
+  const min = ud.min ?? 0;
+  return { min, range: Math.max((ud.max ?? 1) - min, 0) };
+}
+
+function triangularParams(td: TriangularDistribution): { min: number; max: number; mode: number } {
+  const min = td.min ?? 0;
+  const max = Math.max(td.max ?? 1, min);
+  return { min, max, mode: Math.max(min, Math.min(max, td.mode ?? (min + max) / 2)) };
+}
+
+// Bounds in standard units of the untruncated normal
+function truncatedNormalParams(tn: TruncatedNormalDistribution): { mean: number; sd: number; lower: number; upper: number } {
+  const mean = tn.mean ?? 0;
+  const sd = positive(tn.stdDev, 1);
+  return { mean, sd, lower: ((tn.min ?? -Infinity) - mean) / sd, upper: ((tn.max ?? Infinity) - mean) / sd };
+}
+
+// Probability between standard bounds. A window entirely above the mean is measured
+// with upper tail probabilities, which keep their precision where Φ rounds to 1.
+function normalWindow(lower: number, upper: number): number {
+  return lower > 0 ? normalCdf(-lower) - normalCdf(-upper) : normalCdf(upper) - normalCdf(lower);
+}
+
+function studentTParams(st: StudentTDistribution): { df: number; location: number; scale: number } {
+  // The sampler's gamma draw floors its shape (df / 2) at 0.1
+  return { df: Math.max(positive(st.df, 5), 0.2), location: st.location ?? 0, scale: positive(st.scale, 1) };
+}
+
+function weibullParams(wd: WeibullDistribution): { shape: number; scale: number } {
+  return { shape: positive(wd.shape, 1.5), scale: positive(wd.scale, 1) };
+}
+
+function exponentialRate(ed: ExponentialDistribution): number {
+  return positive(ed.rate, 1);
+}
+
+// Components with weights normalized to sum to 1 (equal weights if none are positive)
+function mixtureParts(md: MixtureDistribution): { components: Distribution[]; weights: number[] } {
+  const components = md.components ?? [];
+  const raw = components.map((_, i) => Math.max(md.weights?.[i] ?? 1, 0));
+  const total = raw.reduce((a, b) => a + b, 0);
+  return { components, weights: raw.map(w => (total > 0 ? w / total : 1 / components.length)) };
+}
+
+function pickIndex(weights: number[], u: number): number {
+  let cumSum = 0;
+  const index = weights.findIndex(w => u <= (cumSum += w));
+  return index < 0 ? weights.length - 1 : index;
+}
+
+// Knots of an empirical distribution's piecewise-linear CDF: the sorted samples at
+// equally spaced probabilities, or the histogram's bin edges at their cumulative shares
+const empiricalKnotCache = new WeakMap<EmpiricalDistribution, { xs: number[]; ps: number[] }>();
+
+function empiricalKnots(ed: EmpiricalDistribution): { xs: number[]; ps: number[] } {
+  const cached = empiricalKnotCache.get(ed);
+  if (cached) return cached;
+
+  let knots = { xs: [0], ps: [1] };
+  const samples = (ed.samples ?? []).filter(v => isFinite(v)).sort((a, b) => a - b);
+  if (samples.length > 0) {
+    knots = { xs: samples, ps: samples.map((_, i) => (samples.length > 1 ? i / (samples.length - 1) : 1)) };
+  } else if (ed.histogram && ed.histogram.counts.length > 0) {
+    const counts = ed.histogram.counts.map(c => Math.max(c, 0));
+    const total = counts.reduce((a, b) => a + b, 0) || 1;
+    let cumulative = 0;
+    knots = {
+      xs: ed.histogram.edges.slice(0, counts.length + 1),
+      ps: [0, ...counts.map(c => (cumulative += c) / total)],
+    };
+  }
+  empiricalKnotCache.set(ed, knots);
+  return knots;
+}
+
+// Index of the last knot at or below x (-1 below the first)
+function lastKnotAtOrBelow(xs: number[], x: number): number {
+  let low = -1;
+  let high = xs.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (xs[mid] <= x) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * Smallest x in [low, high] whose CDF reaches p, given that the answer lies in the
+ * bracket. Continuous CDFs take Newton steps kept inside a shrinking bracket;
+ * discrete ones bisect on the integers.
+ */
+function invertCdf(dist: Distribution, p: number, low: number, high: number, discrete: boolean): number {
+  if (discrete) {
+    let lo = Math.floor(low);
+    let hi = Math.ceil(high);
+    while (lo < hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (cdf(dist, mid) >= p) hi = mid;
+      else lo = mid + 1;
+    }
+    return lo;
+  }
+
+  let x = (low + high) / 2;
+  for (let i = 0; i < 100 && high - low > 1e-12 * Math.max(1, Math.abs(x)); i++) {
+    const error = cdf(dist, x) - p;
+    if (Math.abs(error) < 1e-14) return x;
+    if (error > 0) high = x;
+    else low = x;
+    const density = pdf(dist, x);
+    const newton = density > 0 ? x - error / density : NaN;
+    x = newton > low && newton < high ? newton : (low + high) / 2;
+  }
+  return x;
+}
+
+function betaPdf(x: number, a: number, b: number): number {
+  if (x < 0 || x > 1) return 0;
+  if ((x === 0 && a < 1) || (x === 1 && b < 1)) return Infinity;
+  return Math.exp((a - 1) * Math.log(x) + (b - 1) * Math.log(1 - x) + logGamma(a + b) - logGamma(a) - logGamma(b));
+}
+
+function normalPdf(z: number): number {
+  return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Range of values a distribution can produce, and whether it only produces integers
+ */
+export function support(dist: Distribution): { min: number; max: number; discrete: boolean } {
+  switch (dist.type) {
+    case 'binary':
+      return { min: 0, max: 1, discrete: true };
+    case 'categorical':
+      return { min: 0, max: Math.max(((dist as CategoricalDistribution).probs?.length ?? 1) - 1, 0), discrete: true };
+    case 'continuous': {
+      const { family } = continuousParams(dist as ContinuousDistribution);
+      if (family === 'beta') return { min: 0, max: 1, discrete: false };
+      if (family === 'normal') return { min: -Infinity, max: Infinity, discrete: false };
+      return { min: 0, max: Infinity, discrete: false };
+    }
+    case 'bounded': {
+      const { min, range } = pertParams(dist as BoundedDistribution);
+      return { min, max: min + Math.max(range, 0), discrete: false };
+    }
+    case 'count':
+      return { min: 0, max: Infinity, discrete: true };
+    case 'rate':
+      return { min: 0, max: 1, discrete: false };
+    case 'uniform': {
+      const { min, range } = uniformParams(dist as UniformDistribution);
+      return { min, max: min + range, discrete: false };
+    }
+    case 'triangular': {
+      const { min, max } = triangularParams(dist as TriangularDistribution);
+      return { min, max, discrete: false };
+    }
+    case 'truncatedNormal': {
+      const { mean, sd, lower, upper } = truncatedNormalParams(dist as TruncatedNormalDistribution);
+      return { min: mean + sd * lower, max: mean + sd * upper, discrete: false };
+    }
+    case 'weibull':
+    case 'exponential':
+      return { min: 0, max: Infinity, discrete: false };
+    case 'mixture': {
+      const ranges = mixtureParts(dist as MixtureDistribution).components.map(support);
+      if (ranges.length === 0) return { min: 0, max: 0, discrete: false };
+      return {
+        min: Math.min(...ranges.map(r => r.min)),
+        max: Math.max(...ranges.map(r => r.max)),
+        discrete: ranges.every(r => r.discrete),
+      };
+    }
+    case 'empirical': {
+      const { xs } = empiricalKnots(dist as EmpiricalDistribution);
+      return { min: xs[0], max: xs[xs.length - 1], discrete: false };
+    }
+    default:
+      return { min: -Infinity, max: Infinity, discrete: false };
+  }
+}
+
+/**
+ * Density at x, or for discrete distributions (binary, categorical, count) the probability of exactly x
+ */
+export function pdf(dist: Distribution, x: number): number {
+  switch (dist.type) {
+    case 'binary': {
+      const p = (dist as BinaryDistribution).p ?? 0.5;
+      return x === 1 ? p : x === 0 ? 1 - p : 0;
+    }
+
+    case 'categorical': {
+      const probs = (dist as CategoricalDistribution).probs ?? [];
+      return Number.isInteger(x) ? probs[x] ?? 0 : 0;
+    }
+
+    case 'continuous': {
+      const { family, a, b } = continuousParams(dist as ContinuousDistribution);
+      switch (family) {
+        case 'lognormal':
+          return x > 0 ? normalPdf((Math.log(x) - a) / b) / (x * b) : 0;
+        case 'beta':
+          return betaPdf(x, a, b);
+        case 'gamma':
+          if (x < 0) return 0;
+          if (x === 0) return a < 1 ? Infinity : a === 1 ? b : 0;
+          return Math.exp(a * Math.log(b) + (a - 1) * Math.log(x) - b * x - logGamma(a));
+        default:
+          return normalPdf((x - a) / b) / b;
+      }
+    }
+
+    case 'bounded': {
+      const { min, range, alpha, beta } = pertParams(dist as BoundedDistribution);
+      if (range <= 0) return x === min ? Infinity : 0;
+      return betaPdf((x - min) / range, alpha, beta) / range;
+    }
+
+    case 'count': {
+      const lambda = poissonLambda(dist as CountDistribution);
+      if (!Number.isInteger(x) || x < 0) return 0;
+      if (lambda >= POISSON_NORMAL_LAMBDA) {
+        const sd = Math.sqrt(lambda);
+        const below = x === 0 ? 0 : normalCdf((x - 0.5 - lambda) / sd);
+        return normalCdf((x + 0.5 - lambda) / sd) - below;
+      }
+      return Math.exp(x * Math.log(lambda) - lambda - logGamma(x + 1));
+    }
+
+    case 'rate': {
+      const { alpha, beta } = rateParams(dist as RateDistribution);
+      return betaPdf(x, alpha, beta);
+    }
+
+    case 'uniform': {
+      const { min, range } = uniformParams(dist as UniformDistribution);
+      if (range <= 0) return x === min ? Infinity : 0;
+      return x >= min && x <= min + range ? 1 / range : 0;
+    }
+
+    case 'triangular': {
+      const { min, max, mode } = triangularParams(dist as TriangularDistribution);
+      if (max <= min) return x === min ? Infinity : 0;
+      if (x < min || x > max) return 0;
+      return x < mode
+        ? (2 * (x - min)) / ((max - min) * (mode - min))
+        : x === mode ? 2 / (max - min) : (2 * (max - x)) / ((max - min) * (max - mode));
+    }
+
+    case 'truncatedNormal': {
+      const { mean, sd, lower, upper } = truncatedNormalParams(dist as TruncatedNormalDistribution);
+      const z = (x - mean) / sd;
+      if (z < lower || z > upper) return 0;
+      return normalPdf(z) / (sd * normalWindow(lower, upper));
+    }
+
+    case 'studentT': {
+      const { df, location, scale } = studentTParams(dist as StudentTDistribution);
+      const t = (x - location) / scale;
+      return Math.exp(
+        logGamma((df + 1) / 2) - logGamma(df / 2) - 0.5 * Math.log(df * Math.PI) - ((df + 1) / 2) * Math.log1p((t * t) / df)
+      ) / scale;
+    }
+
+    case 'weibull': {
+      const { shape, scale } = weibullParams(dist as WeibullDistribution);
+      if (x < 0) return 0;
+      if (x === 0) return shape < 1 ? Infinity : shape === 1 ? 1 / scale : 0;
+      return (shape / scale) * Math.pow(x / scale, shape - 1) * Math.exp(-Math.pow(x / scale, shape));
+    }
+
+    case 'exponential': {
+      const rate = exponentialRate(dist as ExponentialDistribution);
+      return x < 0 ? 0 : rate * Math.exp(-rate * x);
+    }
+
+    case 'mixture': {
+      const { components, weights } = mixtureParts(dist as MixtureDistribution);
+      return components.reduce((sum, component, k) => sum + weights[k] * pdf(component, x), 0);
+    }
+
+    case 'empirical': {
+      const { xs, ps } = empiricalKnots(dist as EmpiricalDistribution);
+      if (xs.length === 1) return x === xs[0] ? Infinity : 0;
+      if (x < xs[0] || x > xs[xs.length - 1]) return 0;
+      const j = Math.min(lastKnotAtOrBelow(xs, x), xs.length - 2);
+      return (ps[j + 1] - ps[j]) / (xs[j + 1] - xs[j]);
+    }
+
+    default:
+      return normalPdf(x);
+  }
+}
+
+/**
+ * Probability that a draw is at most x
+ */
+export function cdf(dist: Distribution, x: number): number {
+  switch (dist.type) {
+    case 'binary': {
+      const p = (dist as BinaryDistribution).p ?? 0.5;
+      return x < 0 ? 0 : x < 1 ? 1 - p : 1;
+    }
+
+    case 'categorical': {
+      const probs = (dist as CategoricalDistribution).probs ?? [];
+      if (x < 0) return 0;
+      return Math.min(probs.slice(0, Math.floor(x) + 1).reduce((a, b) => a + b, 0), 1);
+    }
+
+    case 'continuous': {
+      const { family, a, b } = continuousParams(dist as ContinuousDistribution);
+      switch (family) {
+        case 'lognormal':
+          return x > 0 ? normalCdf((Math.log(x) - a) / b) : 0;
+        case 'beta':
+          return regularizedBeta(x, a, b);
+        case 'gamma':
+          return regularizedGammaP(a, b * x);
+        default:
+          return normalCdf((x - a) / b);
+      }
+    }
+
+    case 'bounded': {
+      const { min, range, alpha, beta } = pertParams(dist as BoundedDistribution);
+      if (range <= 0) return x < min ? 0 : 1;
+      return regularizedBeta((x - min) / range, alpha, beta);
+    }
+
+    case 'count': {
+      const lambda = poissonLambda(dist as CountDistribution);
+      if (x < 0) return 0;
+      const k = Math.floor(x);
+      if (lambda >= POISSON_NORMAL_LAMBDA) return normalCdf((k + 0.5 - lambda) / Math.sqrt(lambda));
+      // P(X <= k) = Q(k + 1, λ)
+      return regularizedGammaQ(k + 1, lambda);
+    }
+
+    case 'rate': {
+      const { alpha, beta } = rateParams(dist as RateDistribution);
+      return regularizedBeta(x, alpha, beta);
+    }
+
+    case 'uniform': {
+      const { min, range } = uniformParams(dist as UniformDistribution);
+      if (range <= 0) return x < min ? 0 : 1;
+      return Math.min(Math.max((x - min) / range, 0), 1);
+    }
+
+    case 'triangular': {
+      const { min, max, mode } = triangularParams(dist as TriangularDistribution);
+      if (x < min) return 0;
+      if (x >= max) return 1;
+      return x <= mode
+        ? (x - min) ** 2 / ((max - min) * (mode - min))
+        : 1 - (max - x) ** 2 / ((max - min) * (max - mode));
+    }
+
+    case 'truncatedNormal': {
+      const { mean, sd, lower, upper } = truncatedNormalParams(dist as TruncatedNormalDistribution);
+      const z = (x - mean) / sd;
+      if (z <= lower) return 0;
+      if (z >= upper) return 1;
+      return normalWindow(lower, z) / normalWindow(lower, upper);
+    }
+
+    case 'studentT': {
+      const { df, location, scale } = studentTParams(dist as StudentTDistribution);
+      const t = (x - location) / scale;
+      // P(|T| > |t|) = I_{df / (df + t²)}(df / 2, 1 / 2)
+      const tail = 0.5 * regularizedBeta(df / (df + t * t), df / 2, 0.5);
+      return t < 0 ? tail : 1 - tail;
+    }
+
+    case 'weibull': {
+      const { shape, scale } = weibullParams(dist as WeibullDistribution);
+      return x > 0 ? -Math.expm1(-Math.pow(x / scale, shape)) : 0;
+    }
+
+    case 'exponential':
+      return x > 0 ? -Math.expm1(-exponentialRate(dist as ExponentialDistribution) * x) : 0;
+
+    case 'mixture': {
+      const { components, weights } = mixtureParts(dist as MixtureDistribution);
+      return components.reduce((sum, component, k) => sum + weights[k] * cdf(component, x), 0);
+    }
+
+    case 'empirical': {
+      const { xs, ps } = empiricalKnots(dist as EmpiricalDistribution);
+      if (x < xs[0]) return 0;
+      if (x >= xs[xs.length - 1]) return 1;
+      const j = lastKnotAtOrBelow(xs, x);
+      return ps[j] + ((ps[j + 1] - ps[j]) * (x - xs[j])) / (xs[j + 1] - xs[j]);
+    }
+
+    default:
+      return normalCdf(x);
+  }
+}
+
+/**
+ * Value below which a fraction p of the distribution lies (inverse CDF).
+ * For discrete distributions, the smallest value whose CDF reaches p.
+ * Mapping uniform draws through this targets the same distribution as sampleFromDistribution.
+ */
+export function quantile(dist: Distribution, p: number): number {
+  switch (dist.type) {
+    case 'binary':
+      return p <= 1 - ((dist as BinaryDistribution).p ?? 0.5) ? 0 : 1;
+
+    case 'categorical': {
+      const cd = dist as CategoricalDistribution;
+      if (!cd.probs || cd.probs.length === 0) return 0;
+      // Probabilities summing to a little under 1 leave the top of the range to the last category
+      return pickIndex(cd.probs, p);
+    }
+
+    case 'continuous': {
+      const { family, a, b } = continuousParams(dist as ContinuousDistribution);
+      switch (family) {
+        case 'lognormal':
+          return Math.exp(a + b * normalQuantile(p));
+        case 'beta':
+          return inverseRegularizedBeta(p, a, b);
+        case 'gamma':
+          return inverseRegularizedGammaP(p, a) / b;
+        default:
+          return a + b * normalQuantile(p);
+      }
+    }
+
+    case 'bounded': {
+      const { min, range, alpha, beta } = pertParams(dist as BoundedDistribution);
+      if (range <= 0) return min;
+      return min + inverseRegularizedBeta(p, alpha, beta) * range;
+    }
+
+    case 'count': {
+      const lambda = poissonLambda(dist as CountDistribution);
+      if (lambda >= POISSON_NORMAL_LAMBDA) return Math.max(0, Math.round(lambda + Math.sqrt(lambda) * normalQuantile(p)));
+      let k = 0;
+      let pmf = Math.exp(-lambda);
+      let cumulative = pmf;
+      while (cumulative < p && pmf > 0) {
+        k++;
+        pmf *= lambda / k;
+        cumulative += pmf;
+      }
+      return k;
+    }
+
+    case 'rate': {
+      const { alpha, beta } = rateParams(dist as RateDistribution);
+      return inverseRegularizedBeta(p, alpha, beta);
+    }
+
+    case 'uniform': {
+      const { min, range } = uniformParams(dist as UniformDistribution);
+      return min + p * range;
+    }
+
+    case 'triangular': {
+      const { min, max, mode } = triangularParams(dist as TriangularDistribution);
+      const range = max - min;
+      return p * range <= mode - min
+        ? min + Math.sqrt(p * range * (mode - min))
+        : max - Math.sqrt((1 - p) * range * (max - mode));
+    }
+
+    case 'truncatedNormal': {
+      const { mean, sd, lower, upper } = truncatedNormalParams(dist as TruncatedNormalDistribution);
+      // Mirrors normalWindow: a window above the mean is inverted through the upper tail
+      const z = lower > 0
+        ? -normalQuantile(normalCdf(-lower) - p * normalWindow(lower, upper))
+        : normalQuantile(normalCdf(lower) + p * normalWindow(lower, upper));
+      return mean + sd * Math.min(Math.max(z, lower), upper);
+    }
+
+    case 'studentT': {
+      const { df, location, scale } = studentTParams(dist as StudentTDistribution);
+      const tail = Math.min(p, 1 - p);
+      if (tail === 0.5) return location;
+      // Invert the tail probability (small) or the central one (near 1), whichever is
+      // away from 1, so neither loses precision to rounding
+      let t: number;
+      if (tail < 0.25) {
+        const x = inverseRegularizedBeta(2 * tail, df / 2, 0.5);
+        t = Math.sqrt((df * (1 - x)) / x);
+      } else {
+        const y = inverseRegularizedBeta(1 - 2 * tail, 0.5, df / 2);
+        t = Math.sqrt((df * y) / (1 - y));
+      }
+      return location + (p < 0.5 ? -t : t) * scale;
+    }
+
+    case 'weibull': {
+      const { shape, scale } = weibullParams(dist as WeibullDistribution);
+      return scale * Math.pow(-Math.log1p(-p), 1 / shape);
+    }
+
+    case 'exponential':
+      return -Math.log1p(-p) / exponentialRate(dist as ExponentialDistribution);
+
+    case 'mixture': {
+      const { components } = mixtureParts(dist as MixtureDistribution);
+      if (components.length === 0) return 0;
+      // The mixture's quantile lies between its components' quantiles
+      const bounds = components.map(component => quantile(component, p));
+      return invertCdf(dist, p, Math.min(...bounds), Math.max(...bounds), support(dist).discrete);
+    }
+
+    case 'empirical': {
+      const { xs, ps } = empiricalKnots(dist as EmpiricalDistribution);
+      const j = ps.findIndex(cumulative => cumulative >= p);
+      if (j <= 0) return xs[Math.max(j, 0)];
+      return xs[j - 1] + ((p - ps[j - 1]) / (ps[j] - ps[j - 1])) * (xs[j] - xs[j - 1]);
+    }
+
+    default:
+      return normalQuantile(p);
+  }
+}
+
 /**
  * Calculate expected value of a distribution
  */
@@ -389,6 +1012,41 @@ export function expectedValue(dist: Distribution): number {
         return alpha / (alpha + beta);
       }
 
+      case 'uniform': {
+        const { min, range } = uniformParams(dist as UniformDistribution);
+        return min + range / 2;
+      }
+
+      case 'triangular': {
+        const { min, max, mode } = triangularParams(dist as TriangularDistribution);
+        return (min + mode + max) / 3;
+      }
+
+      case 'truncatedNormal': {
+        const { mean, sd, lower, upper } = truncatedNormalParams(dist as TruncatedNormalDistribution);
+        return mean + (sd * (normalPdf(lower) - normalPdf(upper))) / normalWindow(lower, upper);
+      }
+
+      case 'studentT':
+        // The mean only exists for df > 1; the location is the median either way
+        return studentTParams(dist as StudentTDistribution).location;
+
+      case 'weibull': {
+        const { shape, scale } = weibullParams(dist as WeibullDistribution);
+        return scale * Math.exp(logGamma(1 + 1 / shape));
+      }
+
+      case 'exponential':
+        return 1 / exponentialRate(dist as ExponentialDistribution);
+
+      case 'mixture': {
+        const { components, weights } = mixtureParts(dist as MixtureDistribution);
+        return components.reduce((sum, component, k) => sum + weights[k] * expectedValue(component), 0);
+      }
+
+      case 'empirical':
+        return empiricalMoments(dist as EmpiricalDistribution).mean;
+
       default:
         return 0;
     }
@@ -397,6 +1055,21 @@ export function expectedValue(dist: Distribution): number {
   }
 }
 
+// Mean and variance of the piecewise-linear CDF: each segment is uniform over its span
+function empiricalMoments(ed: EmpiricalDistribution): { mean: number; variance: number } {
+  const { xs, ps } = empiricalKnots(ed);
+  if (xs.length === 1) return { mean: xs[0], variance: 0 };
+  let mean = 0;
+  let secondMoment = 0;
+  for (let j = 0; j + 1 < xs.length; j++) {
+    const mass = ps[j + 1] - ps[j];
+    const [a, b] = [xs[j], xs[j + 1]];
+    mean += (mass * (a + b)) / 2;
+    secondMoment += (mass * (a * a + a * b + b * b)) / 3;
+  }
+  return { mean, variance: Math.max(secondMoment - mean * mean, 0) };
+}
+
 /**
  * Calculate standard deviation of a distribution
  */
@@ -407,6 +1080,12 @@ export function standardDeviation(dist: Distribution): number {
       return Math.sqrt(p * (1 - p));
     }
 
+    case 'categorical': {
+      const probs = (dist as CategoricalDistribution).probs ?? [];
+      const m = expectedValue(dist);
+      return Math.sqrt(probs.reduce((sum, p, i) => sum + p * (i - m) ** 2, 0));
+    }
+
     case 'continuous': {
       const cont = dist as ContinuousDistribution;
       switch (cont.dist) {
@@ -429,9 +1108,9 @@ export function standardDeviation(dist: Distribution): number {
     }
 
     case 'bounded': {
-      const bd = dist as BoundedDistribution;
-      // PERT std dev approximation
-      return (bd.max - bd.min) / 6;
+      const { range, alpha, beta } = pertParams(dist as BoundedDistribution);
+      // Beta(α, β) spread scaled to the range; α + β = 6 for every PERT
+      return range > 0 ? range * Math.sqrt((alpha * beta) / (36 * 7)) : 0;
     }
 
     case 'count':
@@ -444,6 +1123,53 @@ export function standardDeviation(dist: Distribution): number {
       return Math.sqrt((a * b) / ((a + b) ** 2 * (a + b + 1)));
     }
 
+    case 'uniform':
+      return uniformParams(dist as UniformDistribution).range / Math.sqrt(12);
+
+    case 'triangular': {
+      const { min, max, mode } = triangularParams(dist as TriangularDistribution);
+      return Math.sqrt((min * min + max * max + mode * mode - min * max - min * mode - max * mode) / 18);
+    }
+
+    case 'truncatedNormal': {
+      const { sd, lower, upper } = truncatedNormalParams(dist as TruncatedNormalDistribution);
+      const window = normalWindow(lower, upper);
+      // z·φ(z) vanishes at an infinite bound
+      const edge = (z: number) => (isFinite(z) ? z * normalPdf(z) : 0);
+      const shift = (normalPdf(lower) - normalPdf(upper)) / window;
+      return sd * Math.sqrt(Math.max(1 + (edge(lower) - edge(upper)) / window - shift * shift, 0));
+    }
+
+    case 'studentT': {
+      const { df, scale } = studentTParams(dist as StudentTDistribution);
+      if (df > 2) return scale * Math.sqrt(df / (df - 2));
+      // Infinite variance: use the spread of a normal with the same interquartile range
+      return (quantile(dist, 0.75) - quantile(dist, 0.25)) / 1.349;
+    }
+
+    case 'weibull': {
+      const { shape, scale } = weibullParams(dist as WeibullDistribution);
+      const m1 = Math.exp(logGamma(1 + 1 / shape));
+      return scale * Math.sqrt(Math.max(Math.exp(logGamma(1 + 2 / shape)) - m1 * m1, 0));
+    }
+
+    case 'exponential':
+      return 1 / exponentialRate(dist as ExponentialDistribution);
+
+    case 'mixture': {
+      const { components, weights } = mixtureParts(dist as MixtureDistribution);
+      const m = expectedValue(dist);
+      // Law of total variance: mean within-component variance plus spread of the component means
+      const total = components.reduce(
+        (sum, component, k) => sum + weights[k] * (standardDeviation(component) ** 2 + (expectedValue(component) - m) ** 2),
+        0
+      );
+      return Math.sqrt(total);
+    }
+
+    case 'empirical':
+      return Math.sqrt(empiricalMoments(dist as EmpiricalDistribution).variance);
+
     default:
       return 1;
   }
@@ -452,49 +1178,398 @@ export function standardDeviation(dist: Distribution): number {
 }
 
 /**
- * Convert samples to a renderable KDE distribution
+ * First problem that makes a distribution unusable (a missing or out-of-range
+ * parameter), or null if it is valid
  */
-export function samplesToKDE(samples: number[], numPoints: number = 50): RenderableDistribution {
-  // Handle edge cases
-  if (!samples || samples.length === 0) {
-    return {
-      type: 'kde',
-      points: [{ x: 0, y: 1 }],
-      mean: 0,
-      stdDev: 1,
-      percentiles: { p5: 0, p25: 0, p50: 0, p75: 0, p95: 0 },
-    };
+export function validateDistribution(dist: Distribution): string | null {
+  if (!dist || !dist.type) return 'missing distribution type';
+
+  const finite = (...values: unknown[]) => values.every(v => typeof v === 'number' && isFinite(v));
+  const positiveValues = (...values: unknown[]) => finite(...values) && values.every(v => (v as number) > 0);
+
+  switch (dist.type) {
+    case 'binary': {
+      const { p } = dist as BinaryDistribution;
+      return finite(p) && p >= 0 && p <= 1 ? null : 'binary p must be between 0 and 1';
+    }
+
+    case 'categorical': {
+      const { categories, probs } = dist as CategoricalDistribution;
+      if (!Array.isArray(probs) || probs.length === 0 || !finite(...probs)) return 'categorical probs must be a list of numbers';
+      if (!Array.isArray(categories) || categories.length !== probs.length) return 'categorical needs one category per probability';
+      if (probs.some(p => p < 0)) return 'categorical probs cannot be negative';
+      return Math.abs(probs.reduce((a, b) => a + b, 0) - 1) < 1e-6 ? null : 'categorical probs must sum to 1';
+    }
+
+    case 'continuous': {
+      const cont = dist as ContinuousDistribution;
+      if (!['normal', 'lognormal', 'beta', 'gamma'].includes(cont.dist)) return `unknown continuous dist "${cont.dist}"`;
+      if (!Array.isArray(cont.params) || cont.params.length < 2 || !finite(cont.params[0], cont.params[1])) {
+        return `${cont.dist} needs two numeric params`;
+      }
+      if (cont.dist === 'beta' || cont.dist === 'gamma') {
+        return positiveValues(cont.params[0], cont.params[1]) ? null : `${cont.dist} params must be positive`;
+      }
+      return cont.params[1] > 0 ? null : `${cont.dist} spread must be positive`;
+    }
+
+    case 'bounded': {
+      const { min, max, mode } = dist as BoundedDistribution;
+      if (!finite(min, max, mode)) return 'bounded needs numeric min, max and mode';
+      return min < max && mode >= min && mode <= max ? null : 'bounded needs min < max with mode between them';
+    }
+
+    case 'count':
+      return positiveValues((dist as CountDistribution).lambda) ? null : 'count lambda must be positive';
+
+    case 'rate': {
+      const { alpha, beta } = dist as RateDistribution;
+      return positiveValues(alpha, beta) ? null : 'rate alpha and beta must be positive';
+    }
+
+    case 'uniform': {
+      const { min, max } = dist as UniformDistribution;
+      return finite(min, max) && min < max ? null : 'uniform needs numeric min < max';
+    }
+
+    case 'triangular': {
+      const { min, max, mode } = dist as TriangularDistribution;
+      if (!finite(min, max, mode)) return 'triangular needs numeric min, max and mode';
+      return min < max && mode >= min && mode <= max ? null : 'triangular needs min < max with mode between them';
+    }
+
+    case 'truncatedNormal': {
+      const tn = dist as TruncatedNormalDistribution;
+      if (!finite(tn.mean) || !positiveValues(tn.stdDev)) return 'truncated normal needs a mean and a positive stdDev';
+      if ((tn.min !== undefined && !finite(tn.min)) || (tn.max !== undefined && !finite(tn.max))) {
+        return 'truncated normal bounds must be numbers';
+      }
+      if ((tn.min ?? -Infinity) >= (tn.max ?? Infinity)) return 'truncated normal needs min < max';
+      const { lower, upper } = truncatedNormalParams(tn);
+      return normalWindow(lower, upper) > 0 ? null : 'truncated normal bounds leave no probability';
+    }
+
+    case 'studentT': {
+      const { df, location, scale } = dist as StudentTDistribution;
+      if (!finite(location)) return 'Student-t needs a numeric location';
+      return positiveValues(df, scale) ? null : 'Student-t df and scale must be positive';
+    }
+
+    case 'weibull': {
+      const { shape, scale } = dist as WeibullDistribution;
+      return positiveValues(shape, scale) ? null : 'Weibull shape and scale must be positive';
+    }
+
+    case 'exponential':
+      return positiveValues((dist as ExponentialDistribution).rate) ? null : 'exponential rate must be positive';
+
+    case 'mixture': {
+      const { components, weights } = dist as MixtureDistribution;
+      if (!Array.isArray(components) || components.length === 0) return 'mixture needs at least one component';
+      if (!Array.isArray(weights) || weights.length !== components.length || !finite(...weights)) {
+        return 'mixture needs one weight per component';
+      }
+      if (weights.some(w => w < 0) || weights.every(w => w === 0)) return 'mixture weights must be non-negative with a positive total';
+      for (let k = 0; k < components.length; k++) {
+        const problem = validateDistribution(components[k]);
+        if (problem) return `mixture component ${k + 1}: ${problem}`;
+      }
+      return null;
+    }
+
+    case 'empirical': {
+      const { samples, histogram } = dist as EmpiricalDistribution;
+      if (samples !== undefined) {
+        return Array.isArray(samples) && samples.length > 0 && finite(...samples) ? null : 'empirical samples must be a non-empty list of numbers';
+      }
+      if (!histogram) return 'empirical needs samples or a histogram';
+      const { edges, counts } = histogram;
+      if (!Array.isArray(counts) || counts.length === 0 || !finite(...counts)) return 'empirical histogram needs numeric counts';
+      if (!Array.isArray(edges) || edges.length !== counts.length + 1 || !finite(...edges)) {
+        return 'empirical histogram needs one more edge than counts';
+      }
+      if (edges.some((edge, i) => i > 0 && edge <= edges[i - 1])) return 'empirical histogram edges must increase';
+      if (counts.some(c => c < 0) || counts.every(c => c === 0)) return 'empirical histogram counts must be non-negative with a positive total';
+      return null;
+    }
+
+    default:
+      return `unknown distribution type "${(dist as { type: string }).type}"`;
   }
+}
 
-  // Filter out NaN/Infinity values
-  const validSamples = samples.filter(s => isFinite(s));
-  if (validSamples.length === 0) {
-    return {
-      type: 'kde',
-      points: [{ x: 0, y: 1 }],
-      mean: 0,
-      stdDev: 1,
-      percentiles: { p5: 0, p25: 0, p50: 0, p75: 0, p95: 0 },
-    };
+/**
+ * Outcome labels of a binary or categorical distribution, in the order its
+ * samples index them (false = 0, true = 1), or null for any other distribution
+ */
+export function outcomeLabels(dist: Distribution): string[] | null {
+  if (dist.type === 'binary') return ['false', 'true'];
+  if (dist.type === 'categorical') {
+    const cd = dist as CategoricalDistribution;
+    return (cd.probs ?? []).map((_, k) => cd.categories?.[k] ?? String(k));
+  }
+  return null;
+}
+
+/**
+ * Probability of each outcome up to and including it, for a binary or
+ * categorical distribution (empty for any other)
+ */
+export function outcomeCumulative(dist: Distribution): number[] {
+  const probs = dist.type === 'binary'
+    ? [1 - ((dist as BinaryDistribution).p ?? 0.5), (dist as BinaryDistribution).p ?? 0.5]
+    : dist.type === 'categorical' ? (dist as CategoricalDistribution).probs ?? [] : [];
+  let sum = 0;
+  return probs.map(p => (sum += p));
+}
+
+/**
+ * The outcome a uniform draw u selects once parents have shifted the log-odds
+ * by `shift`. Outcomes are treated as ordered (a cumulative logit model): a
+ * positive shift moves probability towards later outcomes, and for a binary
+ * node raises the log-odds of true by exactly `shift`. With no shift this is
+ * the distribution's quantile function.
+ */
+export function shiftedOutcome(cumulative: number[], shift: number, u: number): number {
+  const last = cumulative.length - 1;
+  for (let k = 0; k < last; k++) {
+    const c = cumulative[k];
+    const shifted = shift === 0 || c <= 0 || c >= 1 ? c : 1 / (1 + Math.exp(shift - Math.log(c / (1 - c))));
+    if (u <= shifted) return k;
+  }
+  return Math.max(last, 0);
+}
+
+/**
+ * Share of (optionally weighted) samples in each outcome, with its Monte Carlo
+ * standard error. Samples are rounded to the nearest outcome index; values
+ * outside the outcomes are not counted.
+ */
+export function outcomeShares(samples: number[], labels: string[], weights?: number[]): OutcomeShare[] {
+  const totals = new Array<number>(labels.length).fill(0);
+  const counted: number[] = [];
+  samples.forEach((value, i) => {
+    const weight = weights?.[i] ?? 1;
+    const k = Math.round(value);
+    if (!(weight > 0) || !(k >= 0 && k < labels.length)) return;
+    totals[k] += weight;
+    counted.push(weight);
+  });
+
+  const total = totals.reduce((a, b) => a + b, 0);
+  const effectiveN = weights ? effectiveSampleSize(counted) : counted.length;
+  return labels.map((label, k) => {
+    const probability = total > 0 ? totals[k] / total : 0;
+    const standardError = effectiveN > 0 ? Math.sqrt((probability * (1 - probability)) / effectiveN) : 0;
+    return { label, probability, standardError };
+  });
+}
+
+/**
+ * Renderable summary of a node's samples: the KDE, plus the outcome shares
+ * for binary and categorical nodes
+ */
+export function summarizeNodeSamples(dist: Distribution, samples: number[], weights?: number[]): RenderableDistribution {
+  const kde = samplesToKDE(samples, 50, weights);
+  const labels = outcomeLabels(dist);
+  return labels ? { ...kde, categories: outcomeShares(samples, labels, weights) } : kde;
+}
+
+// Samples per bucket when ranking samples for percentiles
+const SAMPLES_PER_BUCKET = 8;
+
+// Grid nodes per bandwidth when binning samples for the density curve
+const GRID_PER_BANDWIDTH = 4;
+
+// The Gaussian kernel is summed out to this many bandwidths
+const KERNEL_REACH = 6;
+
+/**
+ * Weighted quantiles without a full sort. Samples are bucketed by value, and
+ * only the bucket holding a requested rank is sorted, on first use. The
+ * p-quantile is the first sample in sorted order whose cumulative weight
+ * passes p × the total weight.
+ */
+function bucketedQuantiles(values: Float64Array, weights: Float64Array, lo: number, hi: number): (p: number) => number {
+  const n = values.length;
+  const bucketCount = Math.max(1, Math.ceil(n / SAMPLES_PER_BUCKET));
+  const scale = hi > lo ? bucketCount / (hi - lo) : 0;
+  const bucketOf = (v: number) => Math.min(bucketCount - 1, Math.floor((v - lo) * scale));
+
+  // Counting sort into buckets, with each bucket's cumulative weight
+  const buckets = new Int32Array(n);
+  const starts = new Int32Array(bucketCount + 1);
+  const cumulative = new Float64Array(bucketCount + 1);
+  for (let i = 0; i < n; i++) {
+    const b = bucketOf(values[i]);
+    buckets[i] = b;
+    starts[b + 1]++;
+    cumulative[b + 1] += weights[i];
+  }
+  for (let b = 0; b < bucketCount; b++) {
+    starts[b + 1] += starts[b];
+    cumulative[b + 1] += cumulative[b];
+  }
+  const fill = starts.slice(0, bucketCount);
+  const order = new Int32Array(n);
+  for (let i = 0; i < n; i++) order[fill[buckets[i]]++] = i;
+  const sorted = new Uint8Array(bucketCount);
+
+  return (p: number) => {
+    const target = p * cumulative[bucketCount];
+    // First bucket whose cumulative weight passes the target
+    let low = 0;
+    let high = bucketCount - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (cumulative[mid + 1] > target) high = mid;
+      else low = mid + 1;
+    }
+    const from = starts[low];
+    const to = starts[low + 1];
+    if (!sorted[low]) {
+      const slice = Array.from(order.subarray(from, to)).sort((a, b) => values[a] - values[b]);
+      order.set(slice, from);
+      sorted[low] = 1;
+    }
+    let acc = cumulative[low];
+    for (let k = from; k < to; k++) {
+      acc += weights[order[k]];
+      if (acc > target) return values[order[k]];
+    }
+    return values[order[Math.max(from, to - 1)]];
+  };
+}
+
+/**
+ * Gaussian KDE at numPoints + 1 evenly spaced points from min. Large samples
+ * are first spread linearly onto a grid a quarter of a bandwidth apart (with
+ * the output points on grid nodes), which costs one pass over the samples
+ * plus a sum over nearby grid nodes per point; small ones are summed directly.
+ */
+function kernelDensity(
+  values: Float64Array,
+  weights: Float64Array,
+  totalWeight: number,
+  bandwidth: number,
+  min: number,
+  step: number,
+  numPoints: number
+): number[] {
+  const n = values.length;
+  const norm = totalWeight * bandwidth * Math.sqrt(2 * Math.PI);
+  const subdivisions = Math.max(1, Math.ceil((GRID_PER_BANDWIDTH * step) / bandwidth));
+  const gridSize = numPoints * subdivisions + 1;
+
+  if (gridSize >= n) {
+    return Array.from({ length: numPoints + 1 }, (_, i) => {
+      const x = min + i * step;
+      let density = 0;
+      for (let j = 0; j < n; j++) {
+        const z = (x - values[j]) / bandwidth;
+        density += weights[j] * Math.exp(-0.5 * z * z);
+      }
+      return density / norm;
+    });
   }
 
-  const n = validSamples.length;
-  const sorted = [...validSamples].sort((a, b) => a - b);
+  const spacing = step / subdivisions;
+  const grid = new Float64Array(gridSize);
+  for (let j = 0; j < n; j++) {
+    const position = (values[j] - min) / spacing;
+    const g = Math.min(Math.floor(position), gridSize - 2);
+    const fraction = position - g;
+    grid[g] += weights[j] * (1 - fraction);
+    grid[g + 1] += weights[j] * fraction;
+  }
+
+  const reach = Math.ceil((KERNEL_REACH * bandwidth) / spacing);
+  const kernel = Float64Array.from({ length: reach + 1 }, (_, k) => Math.exp(-0.5 * ((k * spacing) / bandwidth) ** 2));
+  return Array.from({ length: numPoints + 1 }, (_, i) => {
+    const center = i * subdivisions;
+    let density = 0;
+    for (let g = Math.max(0, center - reach); g <= Math.min(gridSize - 1, center + reach); g++) {
+      density += grid[g] * kernel[Math.abs(g - center)];
+    }
+    return density / norm;
+  });
+}
+
+/**
+ * Convert samples to a renderable KDE distribution
+ *
+ * Optional per-sample weights (e.g. from likelihood weighting) shift the mean,
+ * spread, percentiles and density towards the heavier samples.
+ */
+export function samplesToKDE(
+  samples: number[],
+  numPoints: number = 50,
+  weights?: number[]
+): RenderableDistribution {
+  const empty: RenderableDistribution = {
+    type: 'kde',
+    points: [{ x: 0, y: 1 }],
+    mean: 0,
+    stdDev: 1,
+    percentiles: { p5: 0, p25: 0, p50: 0, p75: 0, p95: 0 },
+    standardErrors: { mean: 0, percentiles: { p5: 0, p25: 0, p50: 0, p75: 0, p95: 0 } },
+  };
+
+  // Handle edge cases
+  if (!samples || samples.length === 0) return empty;
+
+  // Filter out NaN/Infinity values (and samples the weights rule out entirely)
+  let n = 0;
+  const validSamples = new Float64Array(samples.length);
+  const validWeights = new Float64Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const weight = weights ? weights[i] : 1;
+    if (!isFinite(samples[i]) || !(weight > 0)) continue;
+    validSamples[n] = samples[i];
+    validWeights[n] = weight;
+    n++;
+  }
+  if (n === 0) return empty;
+  const values = validSamples.subarray(0, n);
+  const valueWeights = validWeights.subarray(0, n);
 
   // Calculate statistics
-  const mean = validSamples.reduce((a, b) => a + b, 0) / n;
-  const variance = validSamples.reduce((a, b) => a + (b - mean) ** 2, 0) / n;
+  let totalWeight = 0;
+  let squaredWeight = 0;
+  let weightedSum = 0;
+  let lowest = Infinity;
+  let highest = -Infinity;
+  for (let i = 0; i < n; i++) {
+    const weight = valueWeights[i];
+    const value = values[i];
+    totalWeight += weight;
+    squaredWeight += weight * weight;
+    weightedSum += weight * value;
+    if (value < lowest) lowest = value;
+    if (value > highest) highest = value;
+  }
+  const effectiveN = weights ? (totalWeight * totalWeight) / squaredWeight : n;
+  const mean = weightedSum / totalWeight;
+  let squaredDeviation = 0;
+  for (let i = 0; i < n; i++) {
+    const deviation = values[i] - mean;
+    squaredDeviation += valueWeights[i] * (deviation * deviation);
+  }
+  const variance = squaredDeviation / totalWeight;
   const stdDev = Math.sqrt(variance) || 1; // Ensure non-zero
 
+  // Weighted quantile: first sorted sample whose cumulative weight passes p
+  const quantile = bucketedQuantiles(values, valueWeights, lowest, highest);
+
   // Silverman's rule of thumb for bandwidth - ensure minimum bandwidth
-  const iqr = (sorted[Math.floor(n * 0.75)] || 0) - (sorted[Math.floor(n * 0.25)] || 0);
-  const rawBandwidth = 0.9 * Math.min(stdDev, (iqr / 1.34) || stdDev) * Math.pow(n, -0.2);
+  const iqr = quantile(0.75) - quantile(0.25);
+  const rawBandwidth = 0.9 * Math.min(stdDev, (iqr / 1.34) || stdDev) * Math.pow(effectiveN, -0.2);
   const bandwidth = Math.max(rawBandwidth, 0.01); // Ensure minimum bandwidth
 
   // Generate density curve
   const padding = Math.max(2 * stdDev, 1);
-  const min = (sorted[0] ?? 0) - padding;
-  const max = (sorted[n - 1] ?? 0) + padding;
+  const min = lowest - padding;
+  const max = highest + padding;
 
   // Ensure we have a valid range
   const range = max - min;
@@ -505,33 +1580,42 @@ export function samplesToKDE(samples: number[], numPoints: number = 50): Rendera
       mean,
       stdDev,
       percentiles: { p5: mean, p25: mean, p50: mean, p75: mean, p95: mean },
+      standardErrors: { mean: 0, percentiles: { p5: 0, p25: 0, p50: 0, p75: 0, p95: 0 } },
     };
   }
 
   const step = range / numPoints;
-  const points: Array<{ x: number; y: number }> = [];
-  const sqrtTwoPi = Math.sqrt(2 * Math.PI);
-
-  for (let i = 0; i <= numPoints; i++) {
-    const x = min + i * step;
-    // Gaussian kernel
-    let density = 0;
-    for (const s of validSamples) {
-      const z = (x - s) / bandwidth;
-      density += Math.exp(-0.5 * z * z);
-    }
-    density /= n * bandwidth * sqrtTwoPi;
-    points.push({ x, y: isFinite(density) ? density : 0 });
-  }
+  const points = kernelDensity(values, valueWeights, totalWeight, bandwidth, min, step, numPoints)
+    .map((density, i) => ({ x: min + i * step, y: isFinite(density) ? density : 0 }));
 
   // Calculate percentiles safely
-  const getPercentile = (p: number) => sorted[Math.min(Math.floor(n * p), n - 1)] ?? mean;
+  const pick = (p: number) => {
+    const value = quantile(p);
+    return isFinite(value) ? value : mean;
+  };
   const percentiles = {
-    p5: getPercentile(0.05),
-    p25: getPercentile(0.25),
-    p50: getPercentile(0.50),
-    p75: getPercentile(0.75),
-    p95: getPercentile(0.95),
+    p5: pick(0.05),
+    p25: pick(0.25),
+    p50: pick(0.50),
+    p75: pick(0.75),
+    p95: pick(0.95),
+  };
+
+  // Monte Carlo error of a percentile: the number of samples below it is binomial,
+  // so half the spread between the quantiles one binomial standard error either side
+  const percentileError = (p: number) => {
+    const spread = Math.sqrt((p * (1 - p)) / effectiveN);
+    return (pick(Math.min(p + spread, 1 - 1e-9)) - pick(Math.max(p - spread, 0))) / 2;
+  };
+  const standardErrors = {
+    mean: Math.sqrt(variance / effectiveN),
+    percentiles: {
+      p5: percentileError(0.05),
+      p25: percentileError(0.25),
+      p50: percentileError(0.50),
+      p75: percentileError(0.75),
+      p95: percentileError(0.95),
+    },
   };
 
   return {
@@ -540,9 +1624,94 @@ export function samplesToKDE(samples: number[], numPoints: number = 50): Rendera
     mean,
     stdDev,
     percentiles,
+    standardErrors,
   };
 }
 
+/**
+ * Largest Monte Carlo standard error among a distribution's mean and percentiles,
+ * relative to its scale (the larger of |mean| and the standard deviation)
+ */
+export function relativeStandardError(distribution: RenderableDistribution): number {
+  const { mean, percentiles } = distribution.standardErrors;
+  const largest = Math.max(mean, ...Object.values(percentiles));
+  const scale = Math.max(Math.abs(distribution.mean), distribution.stdDev);
+  return scale > 0 ? largest / scale : 0;
+}
+
+/**
+ * Standard errors of a distribution's mean and percentiles measured from the
+ * spread between batches of its samples. The formulas in samplesToKDE assume
+ * independent draws; Latin hypercube and Sobol draws within a batch are
+ * negatively correlated, so for them those formulas only bound the error from
+ * above. Batches drawn from independent seeds are independent replicates, so
+ * the spread of their summaries measures the error directly. Each batch is
+ * summarized on its own, with its share of the weights, and each error is the
+ * batch summaries' standard deviation over √batches. Null with fewer than two
+ * batches or when a batch has no weight.
+ */
+export function batchStandardErrors(
+  samples: number[],
+  batchSize: number,
+  weights?: number[]
+): RenderableDistribution['standardErrors'] | null {
+  const batchCount = Math.floor(samples.length / batchSize);
+  if (batchCount < 2) return null;
+
+  const levels = { p5: 0.05, p25: 0.25, p50: 0.5, p75: 0.75, p95: 0.95 };
+  const estimates: Record<'mean' | keyof typeof levels, number[]> = { mean: [], p5: [], p25: [], p50: [], p75: [], p95: [] };
+  for (let b = 0; b < batchCount; b++) {
+    const values = new Float64Array(batchSize);
+    const valueWeights = new Float64Array(batchSize);
+    let n = 0;
+    let totalWeight = 0;
+    let weightedSum = 0;
+    let lowest = Infinity;
+    let highest = -Infinity;
+    for (let i = b * batchSize; i < (b + 1) * batchSize; i++) {
+      const weight = weights ? weights[i] : 1;
+      if (!isFinite(samples[i]) || !(weight > 0)) continue;
+      values[n] = samples[i];
+      valueWeights[n] = weight;
+      n++;
+      totalWeight += weight;
+      weightedSum += weight * samples[i];
+      if (samples[i] < lowest) lowest = samples[i];
+      if (samples[i] > highest) highest = samples[i];
+    }
+    if (n === 0) return null;
+
+    const quantileOf = bucketedQuantiles(values.subarray(0, n), valueWeights.subarray(0, n), lowest, highest);
+    estimates.mean.push(weightedSum / totalWeight);
+    for (const [key, p] of Object.entries(levels) as [keyof typeof levels, number][]) estimates[key].push(quantileOf(p));
+  }
+
+  const errorOf = (values: number[]) => {
+    const m = values.reduce((a, v) => a + v, 0) / batchCount;
+    return Math.sqrt(values.reduce((a, v) => a + (v - m) ** 2, 0) / (batchCount - 1) / batchCount);
+  };
+  return {
+    mean: errorOf(estimates.mean),
+    percentiles: {
+      p5: errorOf(estimates.p5),
+      p25: errorOf(estimates.p25),
+      p50: errorOf(estimates.p50),
+      p75: errorOf(estimates.p75),
+      p95: errorOf(estimates.p95),
+    },
+  };
+}
+
+/**
+ * Kish effective sample size of a set of importance weights: (sum w)^2 / sum w^2.
+ * Equals the sample count for equal weights and drops towards 1 as weight concentrates.
+ */
+export function effectiveSampleSize(weights: number[]): number {
+  const total = weights.reduce((a, b) => a + b, 0);
+  const squares = weights.reduce((a, b) => a + b * b, 0);
+  return squares > 0 ? (total * total) / squares : 0;
+}
+
 /**
  * Basic statistics helpers
  */
@@ -560,3 +1729,33 @@ export function percentile(values: number[], p: number): number {
   const index = Math.floor(sorted.length * p);
   return sorted[index];
 }
+
+/**
+ * Mean and standard error of sample-by-sample differences between two runs
+ * drawn from the same exogenous noise. Pairing cancels the noise shared by
+ * both runs, so the standard error reflects only the intervention's effect.
+ * Optional weights (e.g. evidence weights shared by both runs) give a weighted mean.
+ */
+export function pairedDifference(
+  intervened: number[],
+  baseline: number[],
+  weights?: number[]
+): { mean: number; standardError: number } {
+  const n = Math.min(intervened.length, baseline.length);
+  if (n === 0) return { mean: 0, standardError: 0 };
+
+  const diffs = Array.from({ length: n }, (_, i) => intervened[i] - baseline[i]);
+
+  if (weights) {
+    const total = weights.slice(0, n).reduce((a, b) => a + b, 0);
+    if (total <= 0) return { mean: 0, standardError: 0 };
+    const w = weights.slice(0, n).map(x => x / total);
+    const m = diffs.reduce((a, d, i) => a + w[i] * d, 0);
+    const varianceOfMean = diffs.reduce((a, d, i) => a + w[i] * w[i] * (d - m) ** 2, 0);
+    return { mean: m, standardError: Math.sqrt(varianceOfMean) };
+  }
+
+  const m = mean(diffs);
+  const sampleVariance = n > 1 ? diffs.reduce((a, b) => a + (b - m) ** 2, 0) / (n - 1) : 0;
+  return { mean: m, standardError: Math.sqrt(sampleVariance / n) };
+}
@@ -0,0 +1,113 @@
+/**
+ * Evidence Module
+ *
+ * Observational conditioning by likelihood weighting. Samples are propagated
+ * as usual, then each sample is weighted by how well it agrees with the
+ * observations. Weighted distributions answer "given that X was observed,
+ * what is Y likely to be?", as opposed to the do-operator's "if we set X".
+ */
+
+import { effectiveSampleSize, standardDeviation } from './distributions';
+import type { CausalModel, Observation } from '@/types/causal';
+
+// Default point-observation tolerance as a fraction of the node's sampled spread
+const DEFAULT_TOLERANCE_RATIO = 0.25;
+
+// Below this many effective samples, conditioned distributions are too noisy to trust
+export const LOW_EFFECTIVE_SAMPLE_SIZE = 20;
+
+export interface EvidenceWeights {
+  weights: number[]; // Normalized to sum to 1 (all zero if no sample matches)
+  effectiveSampleSize: number;
+}
+
+function sampleStdDev(samples: number[]): number {
+  const m = samples.reduce((a, b) => a + b, 0) / samples.length;
+  return Math.sqrt(samples.reduce((a, b) => a + (b - m) ** 2, 0) / samples.length);
+}
+
+/**
+ * Likelihood of a single sampled value under an observation
+ *
+ * Point observations use a Gaussian measurement kernel of width `tolerance`;
+ * range observations accept or reject outright.
+ */
+export function observationLikelihood(observation: Observation, value: number, tolerance: number): number {
+  if (!isFinite(value)) return 0;
+
+  if (observation.type === 'range') {
+    const aboveMin = observation.min === undefined || value >= observation.min;
+    const belowMax = observation.max === undefined || value <= observation.max;
+    return aboveMin && belowMax ? 1 : 0;
+  }
+
+  const z = (value - observation.value) / tolerance;
+  return Math.exp(-0.5 * z * z);
+}
+
+/**
+ * Measurement tolerance for a point observation: explicit, else a fraction of
+ * the node's sampled spread (falling back to its prior spread if samples are constant)
+ */
+export function resolveTolerance(
+  model: CausalModel,
+  nodeId: string,
+  observation: Observation,
+  samples: number[]
+): number {
+  if (observation.type === 'point' && observation.tolerance !== undefined && observation.tolerance > 0) {
+    return observation.tolerance;
+  }
+  const node = model.nodes.find(n => n.id === nodeId);
+  const spread = sampleStdDev(samples) || (node ? standardDeviation(node.distribution) : 0) || 1;
+  return spread * DEFAULT_TOLERANCE_RATIO;
+}
+
+/**
+ * Weight every sample by its joint likelihood under all observations
+ */
+export function computeEvidenceWeights(
+  model: CausalModel,
+  samples: Record<string, number[]>,
+  evidence: Map<string, Observation>,
+  sampleCount: number
+): EvidenceWeights {
+  const raw: number[] = Array(sampleCount).fill(1);
+
+  for (const [nodeId, observation] of evidence) {
+    const nodeSamples = samples[nodeId];
+    if (!nodeSamples) {
+      console.warn(`>>> [Evidence] Ignoring observation on unknown node ${nodeId}`);
+      continue;
+    }
+    const tolerance = resolveTolerance(model, nodeId, observation, nodeSamples);
+    for (let i = 0; i < sampleCount; i++) {
+      raw[i] *= observationLikelihood(observation, nodeSamples[i], tolerance);
+    }
+  }
+
+  const total = raw.reduce((a, b) => a + b, 0);
+  const weights = total > 0 ? raw.map(w => w / total) : raw.map(() => 0);
+  const ess = total > 0 ? effectiveSampleSize(weights) : 0;
+
+  console.log(`>>> [Evidence] ${evidence.size} observations, effective sample size ${ess.toFixed(1)} of ${sampleCount}`);
+
+  return { weights, effectiveSampleSize: ess };
+}
+
+/**
+ * Short human-readable form of an observation, e.g. "= 6.0 ± 0.2" or "> 6"
+ */
+export function describeObservation(observation: Observation): string {
+  if (observation.type === 'point') {
+    return observation.tolerance !== undefined
+      ? `= ${observation.value} ± ${observation.tolerance}`
+      : `= ${observation.value}`;
+  }
+  if (observation.min !== undefined && observation.max !== undefined) {
+    return `in [${observation.min}, ${observation.max}]`;
+  }
+  if (observation.min !== undefined) return `≥ ${observation.min}`;
+  if (observation.max !== undefined) return `≤ ${observation.max}`;
+  return 'unconstrained';
+}
@@ -0,0 +1,439 @@
+/**
+ * Expression Effects
+ *
+ * An expression effect states an edge's relationship as a formula, such as
+ * `parent * 0.8 + 2` or `base * parent / parentMean`. Expressions are parsed
+ * once into a tree and compiled to nested closures, never passed to eval or
+ * Function, so a model can only ever compute arithmetic on the names below.
+ *
+ * Grammar (lowest to highest precedence):
+ *   condition ? a : b
+ *   comparisons  < <= > >= == !=   (1 for true, 0 for false)
+ *   + -
+ *   * / %
+ *   unary - +
+ *   ^            (right-associative; -2^2 is -4)
+ *   numbers, names, function calls, parentheses
+ */
+
+import type { ExpressionEffect } from '@/types/causal';
+
+/** Variables bound per sample */
+export const EXPRESSION_VARIABLES = ['parent', 'base', 'parentMean'] as const;
+
+/** Built-in constants, after any user-defined ones of the same name */
+const BUILTIN_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/** Functions callable from expressions, with their arity (a range for variadic ones) */
+export const EXPRESSION_FUNCTIONS: Record<string, { arity: [number, number]; fn: (...args: number[]) => number }> = {
+  abs: { arity: [1, 1], fn: Math.abs },
+  sqrt: { arity: [1, 1], fn: Math.sqrt },
+  exp: { arity: [1, 1], fn: Math.exp },
+  log: { arity: [1, 1], fn: Math.log },
+  log10: { arity: [1, 1], fn: Math.log10 },
+  log2: { arity: [1, 1], fn: Math.log2 },
+  floor: { arity: [1, 1], fn: Math.floor },
+  ceil: { arity: [1, 1], fn: Math.ceil },
+  round: { arity: [1, 1], fn: Math.round },
+  sign: { arity: [1, 1], fn: Math.sign },
+  tanh: { arity: [1, 1], fn: Math.tanh },
+  pow: { arity: [2, 2], fn: Math.pow },
+  min: { arity: [1, Infinity], fn: Math.min },
+  max: { arity: [1, Infinity], fn: Math.max },
+  clamp: { arity: [3, 3], fn: (x, lo, hi) => Math.min(Math.max(x, lo), hi) },
+};
+
+// Deepest nesting accepted; each level is a parser frame and, once compiled, a closure frame per evaluation
+const MAX_NESTING = 250;
+
+// Own keys only, so names like 'constructor' never resolve through the prototype
+const has = (table: object, name: string) => Object.prototype.hasOwnProperty.call(table, name);
+
+export type ExpressionEvaluator = (parent: number, base: number, parentMean: number) => number;
+
+/**
+ * A syntax or name error, with the character offset it was found at
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type TokenKind = 'number' | 'name' | 'operator' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  position: number;
+}
+
+const OPERATORS = ['<=', '>=', '==', '!=', '+', '-', '*', '/', '%', '^', '<', '>', '(', ')', ',', '?', ':'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (name) {
+      tokens.push({ kind: 'name', text: name[0], position: i });
+      i += name[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) throw new ExpressionError(`Unexpected character '${ch}'`, i);
+    tokens.push({ kind: 'operator', text: operator, position: i });
+    i += operator.length;
+  }
+  tokens.push({ kind: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; index: number }
+  | { kind: 'unary'; op: string; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'conditional'; test: Node; then: Node; otherwise: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly variables: readonly string[],
+    private readonly constants: Record<string, number>
+  ) {}
+
+  parse(): Node {
+    if (this.peek().kind === 'end') throw new ExpressionError('Expression is empty', 0);
+    const node = this.conditional();
+    const next = this.peek();
+    if (next.kind !== 'end') throw new ExpressionError(`Unexpected '${next.text}'`, next.position);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private take(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private accept(...ops: string[]): string | null {
+    const token = this.peek();
+    if (token.kind === 'operator' && ops.includes(token.text)) {
+      this.index++;
+      return token.text;
+    }
+    return null;
+  }
+
+  private expect(op: string): void {
+    const token = this.peek();
+    if (!this.accept(op)) {
+      throw new ExpressionError(
+        token.kind === 'end' ? `Expected '${op}' at end of expression` : `Expected '${op}' but found '${token.text}'`,
+        token.position
+      );
+    }
+  }
+
+  // Parse one level deeper, refusing input nested deep enough to exhaust the stack
+  private nested(parse: () => Node): Node {
+    if (this.depth >= MAX_NESTING) {
+      throw new ExpressionError(`Expression is nested more than ${MAX_NESTING} levels deep`, this.peek().position);
+    }
+    this.depth++;
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private conditional(): Node {
+    const test = this.comparison();
+    if (!this.accept('?')) return test;
+    const then = this.nested(() => this.conditional());
+    this.expect(':');
+    const otherwise = this.nested(() => this.conditional());
+    return { kind: 'conditional', test, then, otherwise };
+  }
+
+  private comparison(): Node {
+    const left = this.additive();
+    const op = this.accept('<', '<=', '>', '>=', '==', '!=');
+    return op ? { kind: 'binary', op, left, right: this.additive() } : left;
+  }
+
+  private additive(): Node {
+    let node = this.multiplicative();
+    let op: string | null;
+    while ((op = this.accept('+', '-'))) {
+      node = { kind: 'binary', op, left: node, right: this.multiplicative() };
+    }
+    return node;
+  }
+
+  private multiplicative(): Node {
+    let node = this.unary();
+    let op: string | null;
+    while ((op = this.accept('*', '/', '%'))) {
+      node = { kind: 'binary', op, left: node, right: this.unary() };
+    }
+    return node;
+  }
+
+  private unary(): Node {
+    const op = this.accept('-', '+');
+    if (op) return { kind: 'unary', op, operand: this.nested(() => this.unary()) };
+    return this.power();
+  }
+
+  private power(): Node {
+    const base = this.primary();
+    // The exponent may carry its own sign: 2^-1
+    return this.accept('^') ? { kind: 'binary', op: '^', left: base, right: this.nested(() => this.unary()) } : base;
+  }
+
+  private primary(): Node {
+    const token = this.take();
+
+    if (token.kind === 'number') return { kind: 'number', value: parseFloat(token.text) };
+
+    if (token.kind === 'name') {
+      if (this.accept('(')) return this.call(token);
+
+      const variable = this.variables.indexOf(token.text);
+      if (variable >= 0) return { kind: 'variable', index: variable };
+      if (has(this.constants, token.text)) return { kind: 'number', value: this.constants[token.text] };
+      if (has(BUILTIN_CONSTANTS, token.text)) return { kind: 'number', value: BUILTIN_CONSTANTS[token.text] };
+      if (has(EXPRESSION_FUNCTIONS, token.text)) {
+        throw new ExpressionError(`'${token.text}' is a function; call it as ${token.text}(...)`, token.position);
+      }
+      throw new ExpressionError(`Unknown name '${token.text}'`, token.position);
+    }
+
+    if (token.kind === 'operator' && token.text === '(') {
+      const node = this.nested(() => this.conditional());
+      this.expect(')');
+      return node;
+    }
+
+    throw new ExpressionError(
+      token.kind === 'end' ? 'Unexpected end of expression' : `Unexpected '${token.text}'`,
+      token.position
+    );
+  }
+
+  private call(name: Token): Node {
+    const spec = has(EXPRESSION_FUNCTIONS, name.text) ? EXPRESSION_FUNCTIONS[name.text] : null;
+    if (!spec) throw new ExpressionError(`Unknown function '${name.text}'`, name.position);
+
+    const args: Node[] = [];
+    if (!this.accept(')')) {
+      do {
+        args.push(this.nested(() => this.conditional()));
+      } while (this.accept(','));
+      this.expect(')');
+    }
+
+    const [least, most] = spec.arity;
+    if (args.length < least || args.length > most) {
+      const expected = least === most ? `${least}` : most === Infinity ? `at least ${least}` : `${least}-${most}`;
+      throw new ExpressionError(`${name.text}() takes ${expected} argument${expected === '1' || expected === 'at least 1' ? '' : 's'}, got ${args.length}`, name.position);
+    }
+    return { kind: 'call', name: name.text, args };
+  }
+}
+
+// ============================================================================
+// Compiler
+// ============================================================================
+
+type Compiled = (vars: number[]) => number;
+
+const BINARY: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '%': (a, b) => a % b,
+  '^': Math.pow,
+  '<': (a, b) => (a < b ? 1 : 0),
+  '<=': (a, b) => (a <= b ? 1 : 0),
+  '>': (a, b) => (a > b ? 1 : 0),
+  '>=': (a, b) => (a >= b ? 1 : 0),
+  '==': (a, b) => (a === b ? 1 : 0),
+  '!=': (a, b) => (a !== b ? 1 : 0),
+};
+
+// Closures over the tree; subtrees without variables are folded to constants.
+// Long chains like a + b + c + ... parse without nesting but still build deep trees.
+function compileNode(node: Node, depth = 0): { run: Compiled; constant?: number } {
+  if (depth > MAX_NESTING) throw new ExpressionError(`Expression is nested more than ${MAX_NESTING} levels deep`, 0);
+  const compile = (child: Node) => compileNode(child, depth + 1);
+  switch (node.kind) {
+    case 'number':
+      return { run: () => node.value, constant: node.value };
+
+    case 'variable': {
+      const index = node.index;
+      return { run: vars => vars[index] };
+    }
+
+    case 'unary': {
+      const operand = compile(node.operand);
+      if (node.op === '+') return operand;
+      if (operand.constant !== undefined) return fold(-operand.constant);
+      const run = operand.run;
+      return { run: vars => -run(vars) };
+    }
+
+    case 'binary': {
+      const left = compile(node.left);
+      const right = compile(node.right);
+      const op = BINARY[node.op];
+      if (left.constant !== undefined && right.constant !== undefined) return fold(op(left.constant, right.constant));
+      const [a, b] = [left.run, right.run];
+      return { run: vars => op(a(vars), b(vars)) };
+    }
+
+    case 'conditional': {
+      const test = compile(node.test);
+      const then = compile(node.then);
+      const otherwise = compile(node.otherwise);
+      if (test.constant !== undefined) return test.constant !== 0 ? then : otherwise;
+      const [t, a, b] = [test.run, then.run, otherwise.run];
+      return { run: vars => (t(vars) !== 0 ? a(vars) : b(vars)) };
+    }
+
+    case 'call': {
+      const fn = EXPRESSION_FUNCTIONS[node.name].fn;
+      const args = node.args.map(compile);
+      if (args.every(arg => arg.constant !== undefined)) return fold(fn(...args.map(arg => arg.constant!)));
+      const runs = args.map(arg => arg.run);
+      if (runs.length === 1) {
+        const [a] = runs;
+        return { run: vars => fn(a(vars)) };
+      }
+      if (runs.length === 2) {
+        const [a, b] = runs;
+        return { run: vars => fn(a(vars), b(vars)) };
+      }
+      return { run: vars => fn(...runs.map(run => run(vars))) };
+    }
+  }
+}
+
+function fold(value: number): { run: Compiled; constant: number } {
+  return { run: () => value, constant: value };
+}
+
+/** Whether a name can be written in an expression */
+export function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+}
+
+/**
+ * Parse and compile a formula over the given variables and named constants.
+ * The result takes the variables' values in the order they were listed.
+ * Throws ExpressionError on syntax errors, unknown names, nesting too deep to
+ * evaluate and constants that shadow a variable or function.
+ */
+export function compileFormula(
+  source: string,
+  variables: readonly string[],
+  constants: Record<string, number> = {}
+): (values: number[]) => number {
+  for (const name of Object.keys(constants)) {
+    if (!isIdentifier(name)) {
+      throw new ExpressionError(`Constant name '${name}' is not a valid identifier`, 0);
+    }
+    if (variables.includes(name) || has(EXPRESSION_FUNCTIONS, name)) {
+      throw new ExpressionError(`Constant '${name}' shadows a built-in name`, 0);
+    }
+    if (!isFinite(constants[name])) {
+      throw new ExpressionError(`Constant '${name}' must be a finite number`, 0);
+    }
+  }
+
+  const tree = new Parser(tokenize(source ?? ''), variables, constants).parse();
+  return compileNode(tree).run;
+}
+
+/**
+ * Parse and compile an expression over `parent`, `base`, `parentMean` and the
+ * given named constants. Throws ExpressionError like compileFormula.
+ */
+export function compileExpression(source: string, constants: Record<string, number> = {}): ExpressionEvaluator {
+  const run = compileFormula(source, EXPRESSION_VARIABLES, constants);
+  const vars = [0, 0, 0];
+  return (parent, base, parentMean) => {
+    vars[0] = parent;
+    vars[1] = base;
+    vars[2] = parentMean;
+    return run(vars);
+  };
+}
+
+/**
+ * The error an expression would raise when compiled, or null if it is valid
+ */
+export function validateExpression(source: string, constants: Record<string, number> = {}): ExpressionError | null {
+  try {
+    compileExpression(source, constants);
+    return null;
+  } catch (error) {
+    if (error instanceof ExpressionError) return error;
+    throw error;
+  }
+}
+
+const evaluatorCache = new WeakMap<ExpressionEffect, ExpressionEvaluator>();
+
+/**
+ * The effect's evaluator, compiled once per effect object. Invalid expressions
+ * leave the target's base value unchanged, like any other unusable effect.
+ */
+export function expressionEvaluator(effect: ExpressionEffect): ExpressionEvaluator {
+  let evaluator = evaluatorCache.get(effect);
+  if (!evaluator) {
+    try {
+      evaluator = compileExpression(effect.expression, effect.constants);
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) throw error;
+      console.warn(`[Expression] Ignoring invalid expression "${effect.expression}": ${error.message}`);
+      evaluator = (_parent, base) => base;
+    }
+    evaluatorCache.set(effect, evaluator);
+  }
+  return evaluator;
+}
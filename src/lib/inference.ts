@@ -2,17 +2,48 @@ import type {
   CausalModel,
   CausalNode,
   CausalEdge,
-  EffectFunction,
+  PointEffect,
   CircuitBreakers,
   RenderableDistribution,
+  Observation,
+  Intervention,
+  InterventionMap,
+  ParentCombiner,
+  PiecewiseEffect,
+  ExpressionEffect,
+  TableEffect,
+  JointMechanism,
+  Distribution,
 } from '@/types/causal';
-import { sampleFromDistribution, samplesToKDE, expectedValue } from './distributions';
+import { sampleFromDistribution, samplesToKDE, expectedValue, quantile, outcomeCumulative, shiftedOutcome, summarizeNodeSamples } from './distributions';
+import { piecewiseCurve } from './piecewise';
+import { expressionEvaluator } from './expression';
+import { applyJointMechanism } from './mechanisms';
+import { applyTableCell, categoryIndex, tableCellIndex, cellOutcomes } from './table';
+import { uniformColumns, type SamplingMethod } from './sampling';
+import { drawParameters, effectAt, pointEffect, type ParameterDraws } from './parameters';
+import { copulaUniforms } from './confounders';
+import { computeEvidenceWeights } from './evidence';
+import {
+  normalizeIntervention,
+  replacementSamples,
+  transformSamples,
+  evaluatePolicy,
+  describeIntervention,
+} from './interventions';
+import { seedFromValues, type RandomSource } from './random';
 
 export const DEFAULT_SAMPLE_COUNT = 100;
+export const DEFAULT_MAX_EQUILIBRIUM_ROUNDS = 100;
+export const DEFAULT_EQUILIBRIUM_TOLERANCE = 1e-4;
+
+// Tags that split a run's seed into the parameter and confounder streams
+const PARAMETER_STREAM = 1;
+const CONFOUNDER_STREAM = 2;
 
 // Default circuit breaker configuration
 // Note: priorWeight was causing effects to dampen at each propagation level
-const DEFAULT_CIRCUIT_BREAKERS: CircuitBreakers = {
+export const DEFAULT_CIRCUIT_BREAKERS: CircuitBreakers = {
   minValue: undefined,
   maxValue: undefined,
   priorWeight: 0, // Disabled - was dampening multi-level propagation
@@ -23,9 +54,60 @@ export interface NodeSamples {
   [nodeId: string]: number[];
 }
 
+export type EquilibriumStatus = 'converged' | 'oscillating' | 'diverged';
+
+export interface LoopNodeReport {
+  loopIndex: number; // Index into PropagationResult.loops
+  status: EquilibriumStatus;
+  rounds: number; // Iteration rounds run for the loop
+  residual: number; // Final relative change between rounds
+}
+
+/**
+ * Exogenous noise: one base draw per node per sample. Runs that share the same
+ * noise differ only through their interventions (common random numbers).
+ * Binary and categorical nodes also keep the uniform behind each draw, so a
+ * child's outcome can be redrawn from the same uniform once its parents have
+ * shifted the outcome probabilities. Uncertain effect parameters are drawn
+ * here too, once per sample, so runs on the same noise share them.
+ */
+export interface ExogenousNoise {
+  sampleCount: number;
+  values: NodeSamples;
+  uniforms: NodeSamples; // Binary and categorical nodes only
+  parameters: ParameterDraws; // Effect parameters given as distributions (see parameters.ts)
+}
+
+/**
+ * A previous run on the same noise and model structure. Nodes outside
+ * `changed` and its descendants keep that run's samples, loop reports and
+ * (when neither run is evidence-weighted) distributions.
+ */
+export interface PreviousPropagation {
+  samples: NodeSamples;
+  distributions: Map<string, RenderableDistribution>;
+  equilibrium: Record<string, LoopNodeReport>;
+  weighted: boolean; // Whether those distributions were evidence-weighted
+  changed: Iterable<string>; // Nodes whose mechanism or intervention changed since that run
+}
+
+export interface PropagationOptions {
+  rng?: RandomSource; // Uniform source for all draws (default: Math.random, unseeded)
+  sampling?: SamplingMethod; // How exogenous noise is drawn when not given (default: random)
+  noise?: ExogenousNoise; // Reuse these base draws instead of drawing fresh ones
+  previous?: PreviousPropagation; // Only re-propagate what changed since this run
+  evidence?: Map<string, Observation>; // Condition on observations by likelihood weighting
+  maxEquilibriumRounds?: number; // Bound on fixed-point rounds per feedback loop
+  equilibriumTolerance?: number; // Relative change below which a loop node has converged
+}
+
 export interface PropagationResult {
   samples: NodeSamples;
   distributions: Map<string, RenderableDistribution>;
+  loops: string[][]; // Node ids of each feedback loop
+  equilibrium: Record<string, LoopNodeReport>; // Keyed by node id, loop members only
+  weights: number[] | null; // Per-sample evidence weights (null without evidence)
+  effectiveSampleSize: number; // Equals sampleCount without evidence; 0 if no sample matches
 }
 
 /**
@@ -73,6 +155,140 @@ export function topologicalSort(model: CausalModel): CausalNode[] {
   return sorted;
 }
 
+/**
+ * Whether a node's samples are outcome indices (binary or categorical) rather
+ * than quantities
+ */
+export function isDiscreteOutcome(node: CausalNode): boolean {
+  return node.distribution.type === 'binary' || node.distribution.type === 'categorical';
+}
+
+/**
+ * Draw base samples for every node, including ones that may later be intervened on,
+ * so the same noise can be replayed under any set of interventions.
+ * Latin hypercube and Sobol draws map one uniform column per node through its inverse CDF.
+ * Uncertain effect parameters are drawn after the nodes (Sobol runs use Latin
+ * hypercubes for them), and then nodes that share a confounder are redrawn
+ * jointly from their own uniform columns.
+ */
+export function drawNoise(
+  model: CausalModel,
+  sampleCount: number = DEFAULT_SAMPLE_COUNT,
+  rng: RandomSource = Math.random,
+  sampling: SamplingMethod = 'random'
+): ExogenousNoise {
+  const values: NodeSamples = {};
+  const uniforms: NodeSamples = {};
+  const stratified: NodeSamples = {};
+  if (sampling === 'random') {
+    for (const node of model.nodes) {
+      if (isDiscreteOutcome(node)) {
+        uniforms[node.id] = Array.from({ length: sampleCount }, () => rng());
+        values[node.id] = uniforms[node.id].map(u => quantile(node.distribution, u));
+      } else {
+        values[node.id] = sampleFromDistribution(node.distribution, sampleCount, rng);
+      }
+    }
+  } else {
+    const columns = uniformColumns(sampling, model.nodes.length, sampleCount, rng);
+    model.nodes.forEach((node, i) => {
+      stratified[node.id] = columns[i];
+      if (isDiscreteOutcome(node)) uniforms[node.id] = columns[i];
+      values[node.id] = columns[i].map(u => quantile(node.distribution, u));
+    });
+  }
+
+  // Parameters and confounders draw from seeds of their own, taken whatever the
+  // model holds, so editing one never moves the other's draws
+  const seed = rng();
+  const parameters = drawParameters(model, sampleCount, seedFromValues([seed, PARAMETER_STREAM]), sampling);
+
+  // Confounded nodes are redrawn from their copula, keeping each node's own distribution
+  const confounded = copulaUniforms(model, sampleCount, seedFromValues([seed, CONFOUNDER_STREAM]), stratified);
+  for (const node of model.nodes) {
+    const u = confounded[node.id];
+    if (!u) continue;
+    if (isDiscreteOutcome(node)) uniforms[node.id] = u;
+    values[node.id] = u.map(p => quantile(node.distribution, p));
+  }
+  return { sampleCount, values, uniforms, parameters };
+}
+
+/**
+ * Group nodes into strongly connected components (Tarjan's algorithm)
+ *
+ * Components come out in topological order of the condensed graph, so every
+ * component's external parents belong to earlier components.
+ */
+export function stronglyConnectedComponents(model: CausalModel): CausalNode[][] {
+  const nodeMap = new Map(model.nodes.map(n => [n.id, n]));
+  const adjacency = new Map<string, string[]>();
+  for (const node of model.nodes) adjacency.set(node.id, []);
+  for (const edge of model.edges) {
+    if (nodeMap.has(edge.target)) adjacency.get(edge.source)?.push(edge.target);
+  }
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: CausalNode[][] = [];
+  let counter = 0;
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of adjacency.get(id) || []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: CausalNode[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(nodeMap.get(member)!);
+      } while (member !== id);
+      components.push(component.reverse());
+    }
+  };
+
+  for (const node of model.nodes) {
+    if (!index.has(node.id)) visit(node.id);
+  }
+
+  // Tarjan emits sinks first
+  return components.reverse();
+}
+
+/**
+ * Find feedback loops: components with more than one node, or a node that feeds itself
+ */
+export function findFeedbackLoops(model: CausalModel): string[][] {
+  const selfLoops = new Set(model.edges.filter(e => e.source === e.target).map(e => e.source));
+  return stronglyConnectedComponents(model)
+    .filter(component => component.length > 1 || selfLoops.has(component[0].id))
+    .map(component => component.map(n => n.id));
+}
+
+/**
+ * Order every node for propagation, including loop members (unlike topologicalSort,
+ * which drops them). Loop members appear contiguously, after all their external parents.
+ */
+export function propagationOrder(model: CausalModel): CausalNode[] {
+  return stronglyConnectedComponents(model).flat();
+}
+
 /**
  * Apply linear effect using sensitivity-based formula
  *
@@ -195,6 +411,131 @@ function applyThresholdEffect(
   return baseValue * clampedMultiplier;
 }
 
+/**
+ * Hill response x^n / (K^n + x^n): 0 with no parent, 1/2 at the half-saturation
+ * constant K, approaching 1 as the parent grows. Negative parents count as none.
+ */
+export function hillResponse(parentValue: number, halfSaturation: number, hillCoefficient: number): number {
+  if (!(parentValue > 0)) return 0;
+  return 1 / (1 + Math.pow(halfSaturation / parentValue, hillCoefficient));
+}
+
+/**
+ * Apply Hill (saturating) effect for dose-response and diminishing returns
+ *
+ * The multiplier is 1 at the parent's prior mean and moves with the Hill
+ * response from there, so the effect is measured as a deviation from the
+ * prior mean like the linear effect:
+ * - maxEffect: multiplier change from no parent to full saturation (0.5 = up to +50%)
+ * - halfSaturation: parent value giving half the maximum response
+ * - hillCoefficient: steepness; 1 is Michaelis-Menten, higher is more switch-like
+ *
+ * Formula: multiplier = 1 + maxEffect * (response(parent) - response(parentMean))
+ */
+function applyHillEffect(
+  baseValue: number,
+  effect: { maxEffect?: number; halfSaturation?: number; hillCoefficient?: number },
+  parentValue: number,
+  parentPriorMean: number
+): number {
+  const maxEffect = effect.maxEffect ?? 0.5;
+  const halfSaturation = effect.halfSaturation && effect.halfSaturation > 0
+    ? effect.halfSaturation
+    : parentPriorMean > 0 ? parentPriorMean : 1;
+  const n = effect.hillCoefficient && effect.hillCoefficient > 0 ? effect.hillCoefficient : 1;
+
+  const shift = hillResponse(parentValue, halfSaturation, n) - hillResponse(parentPriorMean, halfSaturation, n);
+  const multiplier = 1 + maxEffect * shift;
+
+  // Clamp multiplier to reasonable range (0.1x to 10x)
+  return baseValue * Math.min(Math.max(multiplier, 0.1), 10);
+}
+
+/**
+ * Apply exponential decay effect: the target's multiplier falls from 1 at the
+ * parent's prior mean towards a floor as the parent rises (and grows as it falls)
+ *
+ * - rate: decay per 100% rise of the parent above its prior mean
+ *   (rate = 1 keeps e^-1 ≈ 37% of the decaying part when the parent doubles)
+ * - floor: multiplier approached as the parent grows without limit
+ *
+ * Formula: multiplier = floor + (1 - floor) * exp(-rate * parentDeviation)
+ * where parentDeviation = (parentValue - parentMean) / |parentMean|
+ */
+function applyDecayEffect(
+  baseValue: number,
+  effect: { rate?: number; floor?: number },
+  parentValue: number,
+  parentPriorMean: number
+): number {
+  const rate = effect.rate ?? 1;
+  const floor = effect.floor ?? 0;
+  // Near-zero means measure the deviation in parent units instead
+  const scale = Math.abs(parentPriorMean) < 0.001 ? 1 : Math.abs(parentPriorMean);
+  const deviation = (parentValue - parentPriorMean) / scale;
+
+  const multiplier = floor + (1 - floor) * Math.exp(-rate * deviation);
+  return baseValue * Math.min(Math.max(multiplier, 0.1), 10);
+}
+
+/**
+ * Apply power-law effect: constant elasticity around the parent's prior mean
+ *
+ * - exponent: a 1% rise in the parent moves the target by about exponent %
+ *   (0.5 = diminishing returns, 1 = proportional, 2 = accelerating, negative = inverse)
+ *
+ * Formula: multiplier = (parentValue / parentMean) ^ exponent
+ */
+function applyPowerEffect(
+  baseValue: number,
+  effect: { exponent?: number },
+  parentValue: number,
+  parentPriorMean: number
+): number {
+  const exponent = effect.exponent ?? 0.5;
+
+  // Ratios are only defined for positive values
+  if (parentValue <= 0 || parentPriorMean <= 0) {
+    return baseValue;
+  }
+
+  const multiplier = Math.pow(parentValue / parentPriorMean, exponent);
+  return baseValue * Math.min(Math.max(multiplier, 0.1), 10);
+}
+
+/**
+ * Apply piecewise effect: scale by the multiplier the knot curve gives at the parent value
+ */
+function applyPiecewiseEffect(baseValue: number, effect: PiecewiseEffect, parentValue: number): number {
+  return baseValue * piecewiseCurve(effect)(parentValue);
+}
+
+/**
+ * Apply expression effect: the formula's value is the target value for this edge
+ */
+function applyExpressionEffect(
+  baseValue: number,
+  effect: ExpressionEffect,
+  parentValue: number,
+  parentPriorMean: number
+): number {
+  return expressionEvaluator(effect)(parentValue, baseValue, parentPriorMean);
+}
+
+/**
+ * Apply table effect: the cell for the parent's category scales the target or
+ * gives its value from the cell's distribution (see table.ts)
+ */
+function applyTableEffect(
+  baseValue: number,
+  effect: TableEffect,
+  parentValue: number,
+  targetPrior?: Distribution
+): number {
+  const cells = effect.cells ?? [];
+  return applyTableCell(baseValue, cells[categoryIndex(parentValue, cells.length)], targetPrior);
+}
+
 /**
  * Apply logistic effect for binary outcomes
  */
@@ -220,13 +561,15 @@ function applyLogisticEffect(
 }
 
 /**
- * Apply effect function to a sample value
+ * Apply effect function to a sample value. The target's prior is only needed
+ * by table cells that give the target its own distribution.
  */
-function applyEffectToSample(
+export function applyEffectToSample(
   baseValue: number,
-  effect: EffectFunction,
+  effect: PointEffect,
   parentValue: number,
-  parentPriorMean: number
+  parentPriorMean: number,
+  targetPrior?: Distribution
 ): number {
   // Guard against invalid inputs
   if (!effect || typeof effect.type !== 'string') {
@@ -251,6 +594,24 @@ function applyEffectToSample(
       case 'logistic':
         result = applyLogisticEffect(baseValue, effect, parentValue);
         break;
+      case 'piecewise':
+        result = applyPiecewiseEffect(baseValue, effect, parentValue);
+        break;
+      case 'hill':
+        result = applyHillEffect(baseValue, effect, parentValue, parentPriorMean);
+        break;
+      case 'decay':
+        result = applyDecayEffect(baseValue, effect, parentValue, parentPriorMean);
+        break;
+      case 'power':
+        result = applyPowerEffect(baseValue, effect, parentValue, parentPriorMean);
+        break;
+      case 'expression':
+        result = applyExpressionEffect(baseValue, effect, parentValue, parentPriorMean);
+        break;
+      case 'table':
+        result = applyTableEffect(baseValue, effect, parentValue, targetPrior);
+        break;
       default:
         result = baseValue;
     }
@@ -261,6 +622,239 @@ function applyEffectToSample(
   }
 }
 
+/**
+ * How strongly a moderator scales the edge it moderates, read off the
+ * moderator edge's own effect shape on a base of 1. It is 1 wherever that
+ * effect is neutral: the moderator's prior mean for linear effects, the
+ * effect's baseline for multiplicative ones and its cutoff for thresholds.
+ * Logistic moderators act as a gate between 0 (off) and 2 (doubled) centered
+ * on the threshold.
+ */
+export function moderationMultiplier(
+  effect: PointEffect,
+  moderatorValue: number,
+  moderatorPriorMean: number
+): number {
+  if (effect.type === 'logistic') {
+    const coefficient = effect.coefficient ?? 0.1;
+    const threshold = effect.threshold ?? moderatorPriorMean;
+    return 2 / (1 + Math.exp(-coefficient * (moderatorValue - threshold)));
+  }
+  return applyEffectToSample(1, effect, moderatorValue, moderatorPriorMean);
+}
+
+export interface JointParents {
+  mechanism: JointMechanism;
+  edges: CausalEdge[]; // One per mechanism parent, in the mechanism's order
+}
+
+export interface ParentEdges {
+  direct: CausalEdge[]; // Edges that act on the target's value
+  moderators: Map<string, CausalEdge[]>; // Moderated edge's source id -> edges scaling it
+  joint: JointParents[]; // Mechanisms reading several parents; their edges are in neither list above
+}
+
+/**
+ * Split a node's incoming edges into joint mechanisms, direct effects and
+ * moderators. A mechanism claims one edge per listed parent; it is skipped if
+ * a parent has no edge or was already claimed by an earlier mechanism. An edge
+ * only moderates if the edge it names is a direct edge into the same target;
+ * otherwise it falls back to acting directly. Edges are sorted by source so
+ * the result does not depend on their order in the model.
+ */
+export function partitionParentEdges(incoming: CausalEdge[], mechanisms: JointMechanism[] = []): ParentEdges {
+  const sorted = [...incoming].sort((a, b) => (a.source < b.source ? -1 : a.source > b.source ? 1 : 0));
+
+  const claimed = new Set<CausalEdge>();
+  const joint: JointParents[] = [];
+  for (const mechanism of mechanisms) {
+    const parents = mechanism.parents ?? [];
+    const edges = parents.map(id => sorted.find(e => e.source === id && !claimed.has(e)));
+    if (parents.length < 2 || new Set(parents).size !== parents.length || edges.some(e => !e)) continue;
+    edges.forEach(e => claimed.add(e!));
+    joint.push({ mechanism, edges: edges as CausalEdge[] });
+  }
+
+  const unclaimed = sorted.filter(e => !claimed.has(e));
+  const directSources = new Set(unclaimed.filter(e => !e.moderates).map(e => e.source));
+  const direct: CausalEdge[] = [];
+  const moderators = new Map<string, CausalEdge[]>();
+
+  for (const edge of unclaimed) {
+    if (edge.moderates && edge.moderates !== edge.source && directSources.has(edge.moderates)) {
+      moderators.set(edge.moderates, [...(moderators.get(edge.moderates) || []), edge]);
+    } else {
+      direct.push(edge);
+    }
+  }
+
+  return { direct, moderators, joint };
+}
+
+// Below this base magnitude a ratio is meaningless, so multiplicative falls back to additive
+export const MIN_RATIO_BASE = 1e-9;
+
+// Each edge's effect with any uncertain parameters at their means
+const pointEffectOf = (edge: CausalEdge): PointEffect => pointEffect(edge.effect);
+
+/**
+ * Apply every parent effect to one sample's base value. Each edge's
+ * contribution is computed against the base value on its own, then the
+ * contributions are combined:
+ * - multiplicative: base × Π(effect_i(base) / base), the default
+ * - additive: base + Σ(effect_i(base) − base)
+ *
+ * A moderated edge's contribution is scaled by the product of its
+ * moderators' multipliers, which gives an interaction term. Each joint
+ * mechanism contributes once, like a single edge, after the direct edges.
+ * effectOf gives each edge's effect for this sample (uncertain parameters at
+ * this sample's draws).
+ */
+export function combineParentEffects(
+  baseValue: number,
+  parents: ParentEdges,
+  inputOf: (edge: CausalEdge) => number,
+  priorMeanOf: (nodeId: string) => number,
+  combiner: ParentCombiner = 'multiplicative',
+  targetPrior?: Distribution,
+  effectOf: (edge: CausalEdge) => PointEffect = pointEffectOf
+): number {
+  const multiplicative = combiner === 'multiplicative' && Math.abs(baseValue) > MIN_RATIO_BASE;
+  let total = multiplicative ? 1 : 0;
+
+  for (const edge of parents.direct) {
+    const alone = applyEffectToSample(baseValue, effectOf(edge), inputOf(edge), priorMeanOf(edge.source), targetPrior);
+    const moderators = parents.moderators.get(edge.source);
+    const multiplier = moderators
+      ? moderators.reduce(
+          (product, moderator) => product * moderationMultiplier(effectOf(moderator), inputOf(moderator), priorMeanOf(moderator.source)),
+          1
+        )
+      : 1;
+
+    if (multiplicative) {
+      const ratio = 1 + (alone / baseValue - 1) * multiplier;
+      if (isFinite(ratio)) total *= ratio;
+    } else {
+      const delta = (alone - baseValue) * multiplier;
+      if (isFinite(delta)) total += delta;
+    }
+  }
+
+  for (const { mechanism, edges } of parents.joint) {
+    const alone = applyJointMechanism(
+      baseValue,
+      mechanism,
+      edges.map(inputOf),
+      edges.map(edge => priorMeanOf(edge.source)),
+      targetPrior
+    );
+    if (multiplicative) {
+      const ratio = alone / baseValue;
+      if (isFinite(ratio)) total *= ratio;
+    } else {
+      const delta = alone - baseValue;
+      if (isFinite(delta)) total += delta;
+    }
+  }
+
+  const combined = multiplicative ? baseValue * total : baseValue + total;
+  return isFinite(combined) ? combined : baseValue;
+}
+
+/**
+ * How far one edge shifts a binary or categorical child's log-odds. A
+ * logistic edge adds coefficient × (parent − threshold), as it would to a
+ * probability; any other effect's multiplier at a base of 1 is read as an
+ * odds ratio, so a 1.5× effect multiplies the odds by 1.5.
+ */
+export function edgeLogOdds(effect: PointEffect, parentValue: number, parentPriorMean: number): number {
+  if (isNaN(parentValue)) return 0;
+  if (effect.type === 'logistic') {
+    const shift = (effect.coefficient ?? 0.1) * (parentValue - (effect.threshold ?? 0));
+    return isFinite(shift) ? Math.min(Math.max(shift, -10), 10) : 0;
+  }
+  const shift = Math.log(applyEffectToSample(1, effect, parentValue, parentPriorMean));
+  return isFinite(shift) ? shift : 0;
+}
+
+/**
+ * Total log-odds shift of a binary or categorical child for one sample: the
+ * sum over its direct edges (each scaled by its moderators) and its joint
+ * mechanisms, whose multiplier at a base of 1 is read as an odds ratio.
+ * The node's combiner does not apply, since shifts on the log-odds scale add.
+ */
+export function parentLogOdds(
+  parents: ParentEdges,
+  inputOf: (edge: CausalEdge) => number,
+  priorMeanOf: (nodeId: string) => number,
+  effectOf: (edge: CausalEdge) => PointEffect = pointEffectOf
+): number {
+  let total = 0;
+
+  for (const edge of parents.direct) {
+    const moderators = parents.moderators.get(edge.source);
+    const multiplier = moderators
+      ? moderators.reduce(
+          (product, moderator) => product * moderationMultiplier(effectOf(moderator), inputOf(moderator), priorMeanOf(moderator.source)),
+          1
+        )
+      : 1;
+    const shift = edgeLogOdds(effectOf(edge), inputOf(edge), priorMeanOf(edge.source)) * multiplier;
+    if (isFinite(shift)) total += shift;
+  }
+
+  for (const { mechanism, edges } of parents.joint) {
+    const shift = Math.log(applyJointMechanism(
+      1,
+      mechanism,
+      edges.map(inputOf),
+      edges.map(edge => priorMeanOf(edge.source))
+    ));
+    if (isFinite(shift)) total += shift;
+  }
+
+  return total;
+}
+
+/**
+ * Outcome probabilities set by a table over the child's parents for one
+ * sample (cumulative, as outcomeCumulative), or null if no table sets them.
+ * The first table edge, then the first table mechanism, with a distribution
+ * in the selected cell wins.
+ */
+export function tableOutcomes(parents: ParentEdges, inputOf: (edge: CausalEdge) => number): number[] | null {
+  for (const edge of parents.direct) {
+    if (edge.effect.type !== 'table') continue;
+    const cells = edge.effect.cells ?? [];
+    const outcomes = cellOutcomes(cells[categoryIndex(inputOf(edge), cells.length)]);
+    if (outcomes) return outcomes;
+  }
+  for (const { mechanism, edges } of parents.joint) {
+    if (mechanism.type !== 'table') continue;
+    const index = tableCellIndex(edges.map(inputOf), mechanism.categoryCounts ?? []);
+    const outcomes = cellOutcomes(mechanism.cells?.[index]);
+    if (outcomes) return outcomes;
+  }
+  return null;
+}
+
+/**
+ * One sample's outcome for a binary or categorical child: the uniform u read
+ * against the prior (or a table's) outcome probabilities, shifted by the
+ * parents' log-odds
+ */
+export function drawChildOutcome(
+  cumulative: number[],
+  parents: ParentEdges,
+  inputOf: (edge: CausalEdge) => number,
+  priorMeanOf: (nodeId: string) => number,
+  u: number,
+  effectOf: (edge: CausalEdge) => PointEffect = pointEffectOf
+): number {
+  return shiftedOutcome(tableOutcomes(parents, inputOf) ?? cumulative, parentLogOdds(parents, inputOf, priorMeanOf, effectOf), u);
+}
+
 /**
  * Apply circuit breakers to samples
  */
@@ -318,86 +912,259 @@ function clampVariance(samples: number[], config: CircuitBreakers): number[] {
 }
 
 /**
- * Compute samples for a child node based on parent samples
+ * Apply circuit breakers and variance clamping to a node's samples. Binary and
+ * categorical outcomes are left alone: they are indices, not quantities.
+ */
+export function boundSamples(node: CausalNode, samples: number[]): number[] {
+  if (isDiscreteOutcome(node)) return samples;
+  const config = { ...DEFAULT_CIRCUIT_BREAKERS, ...node.circuitBreakers };
+  return clampVariance(applyCircuitBreakers(node, samples), config);
+}
+
+/**
+ * Compute samples for a child node based on parent samples. Binary and
+ * categorical children redraw their outcome from the base draw's uniform,
+ * with the parents shifting the log-odds. Each sample applies the edge effects
+ * with its own draws of any uncertain parameters.
  */
 function computeChildSamples(
   node: CausalNode,
   edges: CausalEdge[],
   parentSamples: NodeSamples,
   nodeMap: Map<string, CausalNode>,
-  sampleCount: number
+  baseSamples: number[],
+  parameters: ParameterDraws,
+  uniforms?: number[]
 ): number[] {
-  const parentEdges = edges.filter(e => e.target === node.id);
-  const baseSamples = sampleFromDistribution(node.distribution, sampleCount);
+  const parents = partitionParentEdges(edges.filter(e => e.target === node.id), node.mechanisms);
+  const priorMeans = new Map<string, number>();
+  const priorMeanOf = (nodeId: string): number => {
+    if (!priorMeans.has(nodeId)) {
+      const parentNode = nodeMap.get(nodeId);
+      priorMeans.set(nodeId, parentNode ? expectedValue(parentNode.distribution) : 0);
+    }
+    return priorMeans.get(nodeId)!;
+  };
+
+  if (isDiscreteOutcome(node) && uniforms) {
+    const cumulative = outcomeCumulative(node.distribution);
+    return uniforms.map((u, i) =>
+      drawChildOutcome(cumulative, parents, edge => parentSamples[edge.source]?.[i] ?? 0, priorMeanOf, u, edge => effectAt(edge, parameters, i))
+    );
+  }
 
   // For each sample index, apply all parent effects
-  return baseSamples.map((baseValue, i) => {
-    let value = baseValue;
-
-    for (const edge of parentEdges) {
-      const parentValue = parentSamples[edge.source]?.[i] ?? 0;
-      const parentNode = nodeMap.get(edge.source);
-      const parentPriorMean = parentNode ? expectedValue(parentNode.distribution) : 0;
-      value = applyEffectToSample(value, edge.effect, parentValue, parentPriorMean);
-    }
+  return baseSamples.map((baseValue, i) =>
+    combineParentEffects(
+      baseValue,
+      parents,
+      edge => parentSamples[edge.source]?.[i] ?? 0,
+      priorMeanOf,
+      node.combiner,
+      node.distribution,
+      edge => effectAt(edge, parameters, i)
+    )
+  );
+}
 
-    return value;
-  });
+/**
+ * Largest per-sample change between rounds, relative to the node's scale
+ */
+export function relativeChange(previous: ArrayLike<number>, next: ArrayLike<number>): number {
+  let total = 0;
+  for (let i = 0; i < previous.length; i++) total += Math.abs(previous[i]);
+  const scale = Math.max(total / previous.length, 1e-9);
+  let maxDelta = 0;
+  for (let i = 0; i < next.length; i++) {
+    maxDelta = Math.max(maxDelta, Math.abs(next[i] - previous[i]));
+  }
+  return maxDelta / scale;
+}
+
+/**
+ * Classify a loop node that did not converge from its recent mean history:
+ * repeated reversals mean oscillation, steady drift means divergence
+ */
+export function classifyNonConvergence(meanHistory: number[]): EquilibriumStatus {
+  const recent = meanHistory.slice(-10);
+  let reversals = 0;
+  for (let i = 2; i < recent.length; i++) {
+    const before = recent[i - 1] - recent[i - 2];
+    const after = recent[i] - recent[i - 1];
+    if (before * after < 0) reversals++;
+  }
+  return reversals >= 3 ? 'oscillating' : 'diverged';
 }
 
 /**
  * Main Monte Carlo propagation function
+ *
+ * Acyclic parts of the graph are computed in a single topological pass. Each
+ * feedback loop is solved by fixed-point iteration: loop members start from
+ * their base draws and are recomputed from their parents' latest samples
+ * (Gauss-Seidel style) until every member stops changing or the round limit is hit.
  */
 export function propagateWithSampling(
   model: CausalModel,
-  interventions: Map<string, number>,
-  sampleCount: number = DEFAULT_SAMPLE_COUNT
+  interventionSpecs: InterventionMap,
+  sampleCount: number = DEFAULT_SAMPLE_COUNT,
+  options: PropagationOptions = {}
 ): PropagationResult {
+  const maxRounds = options.maxEquilibriumRounds ?? DEFAULT_MAX_EQUILIBRIUM_ROUNDS;
+  const tolerance = options.equilibriumTolerance ?? DEFAULT_EQUILIBRIUM_TOLERANCE;
+  const noise = options.noise ?? drawNoise(model, sampleCount, options.rng, options.sampling);
+  if (noise.sampleCount !== sampleCount) {
+    throw new Error(`Noise has ${noise.sampleCount} samples but ${sampleCount} were requested`);
+  }
   const samples: NodeSamples = {};
-  const sorted = topologicalSort(model);
+  const components = stronglyConnectedComponents(model);
+  const loops = findFeedbackLoops(model);
+  const loopIndex = new Map<string, number>();
+  loops.forEach((loop, i) => loop.forEach(id => loopIndex.set(id, i)));
+  const equilibrium: Record<string, LoopNodeReport> = {};
   const nodeMap = new Map(model.nodes.map(n => [n.id, n]));
+  const interventions = new Map<string, Intervention>(
+    [...interventionSpecs].map(([id, spec]) => [id, normalizeIntervention(spec)])
+  );
+
+  // Mechanism replacements are fixed for the whole run, so compute them once
+  const replacements = new Map<string, number[]>();
+  for (const [nodeId, intervention] of interventions) {
+    const replaced = noise.values[nodeId] && replacementSamples(intervention, noise.values[nodeId]);
+    if (replaced) replacements.set(nodeId, replaced);
+  }
 
-  console.log('>>> [Inference] Propagating with interventions:', [...interventions.entries()], 'samples:', sampleCount);
-  console.log('>>> [Inference] Topological order:', sorted.map(n => n.id).join(' -> '));
+  // Nodes that may differ from the previous run; everything else is carried over
+  const previous = options.previous;
+  const affected = previous ? affectedNodes(model, previous.changed) : null;
 
-  for (const node of sorted) {
-    const priorMean = expectedValue(node.distribution);
+  console.log('>>> [Inference] Propagating with interventions:', [...interventions.entries()].map(([id, i]) => `${id} ${describeIntervention(i)}`), 'samples:', sampleCount);
+  console.log('>>> [Inference] Propagation order:', components.map(c => c.map(n => n.id).join(' <-> ')).join(' -> '));
+  if (affected) {
+    console.log(`>>> [Inference] Incremental: ${affected.size} of ${model.nodes.length} nodes affected:`, [...affected]);
+  }
 
-    if (interventions.has(node.id)) {
-      // Intervention: all samples are the fixed value
-      const interventionValue = interventions.get(node.id)!;
-      samples[node.id] = Array(sampleCount).fill(interventionValue);
-      console.log(`>>> [Inference] ${node.id}: INTERVENED to ${interventionValue} (prior was ${priorMean.toFixed(2)})`);
-    } else if (node.type === 'exogenous') {
-      // Exogenous: sample from prior distribution
-      samples[node.id] = sampleFromDistribution(node.distribution, sampleCount);
-      const mean = samples[node.id].reduce((a, b) => a + b, 0) / sampleCount;
-      console.log(`>>> [Inference] ${node.id}: exogenous, sampled mean=${mean.toFixed(2)} (prior=${priorMean.toFixed(2)})`);
-    } else {
-      // Endogenous: compute from parents
-      const parentEdges = model.edges.filter(e => e.target === node.id);
-      samples[node.id] = computeChildSamples(node, model.edges, samples, nodeMap, sampleCount);
+  // Compute one node from the current samples of its parents
+  const computeNode = (node: CausalNode, baseSamples: number[]): number[] => {
+    const replaced = replacements.get(node.id);
+    if (replaced) {
+      // Mechanism replaced: a fixed value or a user-specified distribution
+      return replaced;
+    }
+    const intervention = interventions.get(node.id);
+    if (intervention?.type === 'policy') {
+      // Mechanism replaced by a rule over this sample's parent values
+      return evaluatePolicy(intervention, sampleCount, (parentId, i) => {
+        const parent = nodeMap.get(parentId);
+        return samples[parentId]?.[i] ?? (parent ? expectedValue(parent.distribution) : 0);
+      });
+    }
+    const computed = node.type === 'exogenous'
+      ? baseSamples
+      : computeChildSamples(node, model.edges, samples, nodeMap, baseSamples, noise.parameters, noise.uniforms[node.id]);
+
+    // Apply circuit breakers, then any shift/scale (interventions override natural bounds)
+    const bounded = boundSamples(node, computed);
+    return intervention ? transformSamples(intervention, bounded) : bounded;
+  };
+
+  for (const component of components) {
+    const baseDraws = new Map(component.map(node => [node.id, noise.values[node.id]]));
+
+    if (previous && affected && component.every(node => !affected.has(node.id) && previous.samples[node.id])) {
+      for (const node of component) {
+        samples[node.id] = previous.samples[node.id];
+        if (previous.equilibrium[node.id]) equilibrium[node.id] = previous.equilibrium[node.id];
+      }
+      continue;
+    }
+
+    if (!loopIndex.has(component[0].id)) {
+      const node = component[0];
+      const priorMean = expectedValue(node.distribution);
+      samples[node.id] = computeNode(node, baseDraws.get(node.id)!);
       const mean = samples[node.id].reduce((a, b) => a + b, 0) / sampleCount;
-      console.log(`>>> [Inference] ${node.id}: endogenous, computed mean=${mean.toFixed(2)} (prior=${priorMean.toFixed(2)}) from parents: [${parentEdges.map(e => e.source).join(', ')}]`);
+
+      if (interventions.has(node.id)) {
+        console.log(`>>> [Inference] ${node.id}: INTERVENED ${describeIntervention(interventions.get(node.id)!)}, mean=${mean.toFixed(2)} (prior was ${priorMean.toFixed(2)})`);
+      } else if (node.type === 'exogenous') {
+        console.log(`>>> [Inference] ${node.id}: exogenous, sampled mean=${mean.toFixed(2)} (prior=${priorMean.toFixed(2)})`);
+      } else {
+        const parentEdges = model.edges.filter(e => e.target === node.id);
+        console.log(`>>> [Inference] ${node.id}: endogenous, computed mean=${mean.toFixed(2)} (prior=${priorMean.toFixed(2)}) from parents: [${parentEdges.map(e => e.source).join(', ')}]`);
+      }
+      continue;
     }
 
-    // Apply circuit breakers (but NOT to intervened nodes - interventions override natural bounds)
-    if (!interventions.has(node.id)) {
-      samples[node.id] = applyCircuitBreakers(node, samples[node.id]);
+    // Feedback loop: iterate to a fixed point starting from the base draws
+    for (const node of component) {
+      samples[node.id] = replacements.get(node.id) ?? boundSamples(node, baseDraws.get(node.id)!);
+    }
+
+    const residuals = new Map(component.map(n => [n.id, Infinity]));
+    const meanHistory = new Map<string, number[]>(component.map(n => [n.id, []]));
+    let rounds = 0;
+
+    while (rounds < maxRounds && [...residuals.values()].some(r => r > tolerance)) {
+      rounds++;
+      for (const node of component) {
+        const next = computeNode(node, baseDraws.get(node.id)!);
+        residuals.set(node.id, relativeChange(samples[node.id], next));
+        meanHistory.get(node.id)!.push(next.reduce((a, b) => a + b, 0) / sampleCount);
+        samples[node.id] = next;
+      }
+    }
 
-      // Clamp variance if needed
-      const config = { ...DEFAULT_CIRCUIT_BREAKERS, ...node.circuitBreakers };
-      samples[node.id] = clampVariance(samples[node.id], config);
+    for (const node of component) {
+      const residual = residuals.get(node.id)!;
+      equilibrium[node.id] = {
+        loopIndex: loopIndex.get(node.id)!,
+        status: residual <= tolerance ? 'converged' : classifyNonConvergence(meanHistory.get(node.id)!),
+        rounds,
+        residual,
+      };
     }
+
+    console.log(`>>> [Inference] Loop [${component.map(n => n.id).join(', ')}]: ${rounds} rounds,`, component.map(n => `${n.id}=${equilibrium[n.id].status}`).join(' '));
+  }
+
+  return { samples, loops, equilibrium, ...summarizeSamples(model, samples, sampleCount, options, affected) };
+}
+
+/**
+ * Evidence weights and renderable distributions for a finished run. Nodes
+ * outside `affected` keep the previous run's KDE when neither run is weighted.
+ */
+export function summarizeSamples(
+  model: CausalModel,
+  samples: NodeSamples,
+  sampleCount: number,
+  options: PropagationOptions,
+  affected: Set<string> | null
+): Pick<PropagationResult, 'distributions' | 'weights' | 'effectiveSampleSize'> {
+  // Likelihood-weight samples by the evidence; if nothing matches, leave distributions unconditioned
+  let weights: number[] | null = null;
+  let effectiveSampleSize = sampleCount;
+  if (options.evidence && options.evidence.size > 0) {
+    const conditioned = computeEvidenceWeights(model, samples, options.evidence, sampleCount);
+    effectiveSampleSize = conditioned.effectiveSampleSize;
+    weights = effectiveSampleSize > 0 ? conditioned.weights : null;
   }
 
-  // Convert samples to renderable distributions
+  // Convert samples to renderable distributions (reweighting touches every node, so nothing is reused then)
+  const previous = options.previous;
   const distributions = new Map<string, RenderableDistribution>();
+  const canReuseDistributions = previous !== undefined && affected !== null && !previous.weighted && !weights;
+  const nodeMap = new Map(model.nodes.map(n => [n.id, n]));
   for (const [nodeId, nodeSamples] of Object.entries(samples)) {
-    distributions.set(nodeId, samplesToKDE(nodeSamples));
+    const reusable = canReuseDistributions && !affected.has(nodeId) && previous.distributions.get(nodeId);
+    const node = nodeMap.get(nodeId);
+    distributions.set(nodeId, reusable || (node
+      ? summarizeNodeSamples(node.distribution, nodeSamples, weights ?? undefined)
+      : samplesToKDE(nodeSamples, 50, weights ?? undefined)));
   }
 
-  return { samples, distributions };
+  return { distributions, weights, effectiveSampleSize };
 }
 
 /**
@@ -420,6 +1187,20 @@ export function getDescendants(model: CausalModel, nodeId: string): Set<string>
   return descendants;
 }
 
+/**
+ * Nodes whose samples can change when the given nodes change: the nodes
+ * themselves and all their descendants
+ */
+export function affectedNodes(model: CausalModel, changed: Iterable<string>): Set<string> {
+  const affected = new Set<string>();
+  for (const nodeId of changed) {
+    if (affected.has(nodeId)) continue;
+    affected.add(nodeId);
+    getDescendants(model, nodeId).forEach(id => affected.add(id));
+  }
+  return affected;
+}
+
 /**
  * Check if node B is a descendant of node A
  */
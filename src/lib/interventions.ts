@@ -0,0 +1,186 @@
+/**
+ * Intervention Module
+ *
+ * do-operator variants beyond pinning a constant. 'set' and 'distribution'
+ * replace the node's mechanism outright; 'shift' and 'scale' keep it and
+ * transform its output, so the node's natural uncertainty survives; 'policy'
+ * replaces it with a rule evaluated on each sample's parent values.
+ */
+
+import { sampleFromDistribution, support } from './distributions';
+import { createRandom, seedFromValues } from './random';
+import type { CausalModel, Distribution, Intervention, PolicyIntervention } from '@/types/causal';
+
+/**
+ * Accept the plain-number shorthand for 'set'
+ */
+export function normalizeIntervention(intervention: number | Intervention): Intervention {
+  return typeof intervention === 'number' ? { type: 'set', value: intervention } : intervention;
+}
+
+/**
+ * Why an intervention cannot apply to a node, or null if it can. A discrete
+ * node's samples are outcome codes, and shifting or scaling them would give
+ * codes no outcome has, so such nodes can only be set or replaced. A policy
+ * rule may only read the node's parents: the engines evaluate it as the node
+ * is computed, when only its ancestors have values.
+ */
+export function interventionError(model: CausalModel, nodeId: string, intervention: Intervention): string | null {
+  const node = model.nodes.find(n => n.id === nodeId);
+  if (!node) return `${nodeId} is not in the model`;
+  if ((intervention.type === 'shift' || intervention.type === 'scale') && support(node.distribution).discrete) {
+    return `${node.label} has discrete outcomes, so it cannot be ${intervention.type === 'shift' ? 'shifted' : 'scaled'}`;
+  }
+  if (intervention.type === 'policy') {
+    const parents = new Set(model.edges.filter(e => e.target === nodeId).map(e => e.source));
+    const stray = intervention.terms.find(t => !parents.has(t.nodeId));
+    if (stray) return `The policy for ${node.label} reads ${stray.nodeId}, which is not one of its parents`;
+  }
+  return null;
+}
+
+/**
+ * Samples for interventions that replace the mechanism, or null if the
+ * intervention transforms the node's computed value instead.
+ *
+ * Distributional replacements are rank-coupled to the node's own base draws:
+ * the sample with the k-th smallest base draw gets the k-th smallest
+ * replacement. Runs sharing the same noise therefore get the same
+ * replacement, and each unit keeps its relative position.
+ */
+export function replacementSamples(intervention: Intervention, baseSamples: number[]): number[] | null {
+  const n = baseSamples.length;
+  if (intervention.type === 'set') return Array(n).fill(intervention.value);
+  if (intervention.type !== 'distribution') return null;
+
+  const draws = sampleFromDistribution(intervention.distribution, n, createRandom(seedFromValues(baseSamples)))
+    .sort((a, b) => a - b);
+  const ranks = baseSamples.map((_, i) => i).sort((a, b) => baseSamples[a] - baseSamples[b]);
+  const result: number[] = Array(n);
+  ranks.forEach((sampleIndex, rank) => {
+    result[sampleIndex] = draws[rank];
+  });
+  return result;
+}
+
+/**
+ * Evaluate a policy rule for every sample
+ *
+ * valueOf supplies the term node's value in sample i, so callers decide what
+ * "current" means (same pass for static propagation, delayed input over time).
+ */
+export function evaluatePolicy(
+  policy: PolicyIntervention,
+  sampleCount: number,
+  valueOf: (nodeId: string, i: number) => number
+): number[] {
+  return Array.from({ length: sampleCount }, (_, i) => {
+    let value = policy.intercept;
+    for (const term of policy.terms) {
+      value += term.coefficient * (valueOf(term.nodeId, i) - (term.reference ?? 0));
+    }
+    if (policy.min !== undefined) value = Math.max(value, policy.min);
+    if (policy.max !== undefined) value = Math.min(value, policy.max);
+    return value;
+  });
+}
+
+/**
+ * Apply a shift or scale to a node's computed samples (identity otherwise)
+ */
+export function transformSamples(intervention: Intervention, samples: number[]): number[] {
+  switch (intervention.type) {
+    case 'shift':
+      return samples.map(s => s + intervention.delta);
+    case 'scale':
+      return samples.map(s => s * intervention.factor);
+    default:
+      return samples;
+  }
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+/**
+ * Short label for a distribution, e.g. "Normal(5, 1)"
+ */
+export function describeDistribution(dist: Distribution): string {
+  switch (dist.type) {
+    case 'continuous': {
+      const name = dist.dist.charAt(0).toUpperCase() + dist.dist.slice(1);
+      return `${name}(${dist.params.map(formatNumber).join(', ')})`;
+    }
+    case 'bounded':
+      return `PERT(${formatNumber(dist.min)}, ${formatNumber(dist.mode)}, ${formatNumber(dist.max)})`;
+    case 'rate':
+      return `Beta(${formatNumber(dist.alpha)}, ${formatNumber(dist.beta)})`;
+    case 'count':
+      return `Poisson(${formatNumber(dist.lambda)})`;
+    case 'binary':
+      return `Bernoulli(${formatNumber(dist.p)})`;
+    case 'categorical':
+      return `Categorical(${dist.categories.join(', ')})`;
+    case 'uniform':
+      return `Uniform(${formatNumber(dist.min)}, ${formatNumber(dist.max)})`;
+    case 'triangular':
+      return `Triangular(${formatNumber(dist.min)}, ${formatNumber(dist.mode)}, ${formatNumber(dist.max)})`;
+    case 'truncatedNormal': {
+      const bounds = `${dist.min !== undefined ? formatNumber(dist.min) : '-∞'}, ${dist.max !== undefined ? formatNumber(dist.max) : '∞'}`;
+      return `TruncNormal(${formatNumber(dist.mean)}, ${formatNumber(dist.stdDev)}; ${bounds})`;
+    }
+    case 'studentT':
+      return `Student-t(${formatNumber(dist.df)}; ${formatNumber(dist.location)}, ${formatNumber(dist.scale)})`;
+    case 'weibull':
+      return `Weibull(${formatNumber(dist.shape)}, ${formatNumber(dist.scale)})`;
+    case 'exponential':
+      return `Exponential(${formatNumber(dist.rate)})`;
+    case 'mixture': {
+      const total = dist.weights.reduce((a, b) => a + b, 0) || 1;
+      const parts = dist.components.map((c, k) => `${formatNumber(dist.weights[k] / total)}·${describeDistribution(c)}`);
+      return `Mixture(${parts.join(', ')})`;
+    }
+    case 'empirical':
+      return dist.samples
+        ? `Empirical(${dist.samples.length} samples)`
+        : `Empirical(${dist.histogram?.counts.length ?? 0} bins)`;
+  }
+}
+
+/**
+ * Short label for an intervention, e.g. "= 2.00", "+1.00", "×1.25", "~ Normal(5, 1)"
+ */
+export function describeIntervention(intervention: Intervention): string {
+  switch (intervention.type) {
+    case 'set':
+      return `= ${intervention.value.toFixed(2)}`;
+    case 'shift':
+      return `${intervention.delta >= 0 ? '+' : ''}${intervention.delta.toFixed(2)}`;
+    case 'scale':
+      return `×${intervention.factor.toFixed(2)}`;
+    case 'distribution':
+      return `~ ${describeDistribution(intervention.distribution)}`;
+    case 'policy':
+      return `:= ${describePolicy(intervention)}`;
+  }
+}
+
+/**
+ * Rule in formula form, e.g. "2.00 + 1.50·(inflation − 2.00) + 0.50·output_gap"
+ */
+export function describePolicy(policy: PolicyIntervention, labelOf: (nodeId: string) => string = id => id): string {
+  const terms = policy.terms
+    .filter(term => term.coefficient !== 0)
+    .map(term => {
+      const sign = term.coefficient < 0 ? '−' : '+';
+      const input = term.reference
+        ? `(${labelOf(term.nodeId)} − ${term.reference.toFixed(2)})`
+        : labelOf(term.nodeId);
+      return ` ${sign} ${Math.abs(term.coefficient).toFixed(2)}·${input}`;
+    });
+  const bounds = policy.min !== undefined || policy.max !== undefined
+    ? ` in [${policy.min ?? '-∞'}, ${policy.max ?? '∞'}]`
+    : '';
+  return `${policy.intercept.toFixed(2)}${terms.join('')}${bounds}`;
+}
@@ -1,5 +1,8 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { CausalModel, CausalEdge } from '@/types/causal';
+import { expectedValue, validateDistribution } from './distributions';
+import { uncertainParameters } from './parameters';
+import { validateConfounders } from './confounders';
+import type { CausalModel, CausalEdge, Confounder, EffectFunction } from '@/types/causal';
 
 /**
  * Check if the graph is connected (treating edges as undirected for connectivity)
@@ -199,6 +202,57 @@ Respond ONLY with valid JSON. No markdown code blocks.`;
 /**
  * Validate if a query is suitable for causal model generation
  */
+/**
+ * Replace invalid node distributions with a normal around their intended mean
+ * (or 0 when even that is unusable), so one bad parameter doesn't sink the model.
+ * An uncertain effect parameter that cannot be sampled is fixed at its mean,
+ * or left to the effect's default when it has none.
+ */
+function repairDistributions(model: CausalModel): CausalModel {
+  const nodes = model.nodes.map(node => {
+    const problem = validateDistribution(node.distribution);
+    if (!problem) return node;
+
+    const mean = expectedValue(node.distribution);
+    const center = isFinite(mean) ? mean : 0;
+    console.warn(`[LLM] Replacing invalid distribution on "${node.id}": ${problem}`);
+    return {
+      ...node,
+      distribution: { type: 'continuous' as const, dist: 'normal' as const, params: [center, Math.abs(center) * 0.2 || 1] },
+    };
+  });
+
+  const edges = model.edges.map(edge => {
+    const invalid = uncertainParameters(edge.effect).filter(([, dist]) => validateDistribution(dist));
+    if (invalid.length === 0) return edge;
+
+    const effect: Record<string, unknown> = { ...edge.effect };
+    for (const [name, dist] of invalid) {
+      const mean = expectedValue(dist);
+      console.warn(`[LLM] Fixing uncertain ${name} on "${edge.source}" -> "${edge.target}": ${validateDistribution(dist)}`);
+      if (isFinite(mean)) effect[name] = mean;
+      else delete effect[name];
+    }
+    return { ...edge, effect: effect as unknown as EffectFunction };
+  });
+  return { ...model, nodes, edges };
+}
+
+/**
+ * Keep each confounder only if it is valid together with the ones kept before it
+ */
+function repairConfounders(model: CausalModel): CausalModel {
+  if (!Array.isArray(model.confounders)) return { ...model, confounders: undefined };
+
+  const kept: Confounder[] = [];
+  for (const confounder of model.confounders) {
+    const problem = validateConfounders({ ...model, confounders: [...kept, confounder] });
+    if (problem) console.warn(`[LLM] Dropping confounder: ${problem}`);
+    else kept.push(confounder);
+  }
+  return { ...model, confounders: kept.length > 0 ? kept : undefined };
+}
+
 export async function validateQuery(
   query: string,
   apiKey: string
@@ -249,7 +303,7 @@ const SYSTEM_PROMPT = `You are a causal inference expert. Given a user's questio
 4. Define directed edges representing causal relationships with effect functions
 5. Group nodes into 3-5 thematic "zones" for visual organization
 6. Identify "gatekeeper" nodes that filter/transform information (use octagon shape)
-7. Ensure the graph is acyclic (no circular dependencies)
+7. Prefer acyclic graphs. Only add a feedback loop (e.g., inflation → wages → inflation) when the two-way dynamic is central to the question; loops are solved by iterating to equilibrium
 8. CRITICAL: The graph MUST be fully connected - every node must be reachable from at least one other node. NO isolated nodes or disconnected subgraphs allowed.
 9. CRITICAL: Only nodes with NO children should be "terminal" type. If a node has outgoing edges, it MUST be "endogenous" not "terminal".
 
@@ -266,6 +320,15 @@ Every node MUST include a "units" field with appropriate units:
 - continuous normal: { "type": "continuous", "dist": "normal", "params": [MEAN, STD_DEV] }
 - rate: { "type": "rate", "alpha": X, "beta": Y }
 - bounded: { "type": "bounded", "min": X, "max": Y, "mode": Z }
+- uniform: { "type": "uniform", "min": X, "max": Y } (only a range is known)
+- triangular: { "type": "triangular", "min": X, "max": Y, "mode": Z } (expert min / most likely / max)
+- truncated normal: { "type": "truncatedNormal", "mean": M, "stdDev": S, "min": X } (normal with hard limits; "min" and "max" are both optional)
+- Student-t: { "type": "studentT", "df": 4, "location": M, "scale": S } (heavy tails: asset returns, shocks; lower df = fatter tails)
+- Weibull: { "type": "weibull", "shape": K, "scale": L } (positive durations, failure times, wind speeds)
+- exponential: { "type": "exponential", "rate": R } (waiting times; mean 1/R)
+- mixture: { "type": "mixture", "components": [DIST, DIST], "weights": [0.7, 0.3] } (distinct regimes, e.g. normal vs crisis)
+- empirical: { "type": "empirical", "samples": [...] } or { "type": "empirical", "histogram": { "edges": [0, 1, 2], "counts": [5, 3] } } (observed data)
+Prefer continuous normal unless the variable clearly calls for another shape.
 
 Example realistic values:
 - Federal Funds Rate: params=[5.0, 0.5], units="%"
@@ -332,6 +395,69 @@ Examples: Default probability, election outcomes, disease transmission
 Format: { "type": "logistic", "coefficient": 0.5, "threshold": 0 }
 - coefficient: How strongly source shifts the log-odds
 - threshold: Reference point for the effect
+Into a binary or categorical target, every effect shifts the outcome probabilities (other effect types act as odds ratios). Categorical targets treat their categories as ordered, so list them from lowest to highest.
+
+### Piecewise (use when the response curve is known as a few points)
+When to use: The shape is known from experience or data but has no simple formula
+Examples: Latency vs server utilization (flat, then explodes above 90%), crop yield vs rainfall (rises, plateaus, falls)
+Format: { "type": "piecewise", "knots": [{ "x": 50, "multiplier": 1.0 }, { "x": 90, "multiplier": 1.3 }, { "x": 100, "multiplier": 4.0 }], "interpolation": "monotone" }
+- knots: Parent values (x) and the multiplier applied to the target at each; use 3-6 knots spanning the parent's plausible range
+- multiplier: 1.0 means no effect; put a knot near the parent's prior mean with multiplier 1.0
+- interpolation: "linear" (straight segments) or "monotone" (smooth, never overshoots the knots)
+- Beyond the first and last knot the end multipliers hold
+
+### Hill (use for saturating, diminishing-returns effects)
+When to use: More of the parent helps less and less, up to a ceiling
+Examples: Advertising spend vs sales, drug dose vs response, fertilizer vs yield, staffing vs throughput
+Format: { "type": "hill", "maxEffect": 0.6, "halfSaturation": 50, "hillCoefficient": 1 }
+- maxEffect: Multiplier change from no parent to full saturation (0.6 = up to +60%; negative for saturating inhibition)
+- halfSaturation: Parent value at which half the maximum effect is reached (in the parent's units)
+- hillCoefficient: Steepness; 1 for gradual Michaelis-Menten saturation, 2-4 for switch-like dose-response
+- The multiplier is 1.0 at the parent's prior mean, so set halfSaturation relative to that mean
+
+### Decay (use for effects that fall off exponentially as the parent rises)
+When to use: Rising parent erodes the target quickly at first, then levels off at a floor
+Examples: Price vs conversion rate, distance vs signal strength, inspection delay vs defect catch rate
+Format: { "type": "decay", "rate": 1.5, "floor": 0.2 }
+- rate: Decay per 100% rise of the parent above its prior mean (1 keeps ~37% of the decaying part when the parent doubles)
+- floor: Multiplier the target approaches as the parent keeps rising (0-1)
+- Not the same as the edge "decayRate" field below, which fades an effect over time
+
+### Power (use for constant-elasticity, scaling-law effects)
+When to use: Percentage changes in the parent map to proportional percentage changes in the target
+Examples: Price elasticity of demand, city size vs output, metabolic scaling, economies of scale
+Format: { "type": "power", "exponent": -1.2 }
+- exponent: Elasticity; a 1% rise in the parent moves the target by about exponent % (0.5 diminishing, 1 proportional, negative inverse)
+- Only for parents that are always positive
+
+### Table (use when the parent is categorical or binary)
+When to use: The parent is a category (policy regime, season, yes/no event), so its value is not a quantity
+Examples: Monetary regime (hawkish/neutral/dovish) vs inflation, season vs demand, recession (yes/no) vs hiring
+Format: { "type": "table", "cells": [{ "multiplier": 0.8 }, { "multiplier": 1.0 }, { "multiplier": 1.3 }] }
+- cells: One per parent category, in the parent's category order (binary parents: false, then true)
+- multiplier: Scales the target for that category (1.0 = no effect)
+- A cell may instead give "distribution" (any node distribution) for the target under that category;
+  for a binary or categorical target this is its outcome probabilities, e.g. { "distribution": { "type": "binary", "p": 0.3 } }
+
+## Uncertain Parameters (optional):
+Any numeric effect parameter may be a distribution instead of a number when its value is a rough guess:
+"effect": { "type": "linear", "coefficient": { "type": "continuous", "dist": "normal", "params": [0.3, 0.1] } }
+Each Monte Carlo sample draws its own value, so the outputs show how much the guess matters.
+Use this for the few parameters you are least sure of; knots, table cells and expression constants stay numbers.
+
+## Shared Unobserved Shocks (optional):
+When two variables move together because of a common cause that is not in the model, add a top-level
+"confounders" list instead of inventing an edge between them:
+"confounders": [{ "nodes": ["oil_price", "inflation_expectations"], "correlation": 0.6, "label": "Geopolitical risk" }]
+- correlation: How strongly the shared shock moves them together (-1 to 1, exclusive; negative = opposite directions)
+- Each node keeps its own distribution; only which draws occur together changes
+Use this for inputs driven by the same unmodeled force, not for effects one variable has on another.
+
+## Edge Timing (optional):
+Add these edge fields when the effect takes time to build or wears off:
+- "delay": Ticks before the effect manifests (e.g., 2 for a rate change that takes two quarters to reach hiring)
+- "decayRate": Fraction of the effect lost per tick after it arrives (0-1, e.g., 0.2 for fading stimulus)
+Omit both for effects that are immediate and persistent.
 
 ## Node Shapes (actual geometric shapes):
 - circle: Standard endogenous variables (rounded rectangle)
@@ -339,6 +465,23 @@ Format: { "type": "logistic", "coefficient": 0.5, "threshold": 0 }
 - diamond: Exogenous inputs or decision points (parallelogram - slanted)
 - octagon: Gatekeeper nodes that filter/transform (wide octagon)
 
+## Combining Several Parents:
+Each parent's effect is computed against the node's base value, then the effects are combined.
+By default they multiply (effects compound). Add "combiner": "additive" to a node whose parents
+contribute independent increments (e.g. budget line items summing to a total).
+
+When parents interact rather than act separately, add "mechanisms" to the node. A mechanism reads
+several parents at once and replaces their edges' own effects (keep the edges for the graph):
+"mechanisms": [{ "type": "product", "parents": ["price", "advertising"] }]
+- product: parent levels (value / prior mean) multiply; optional "weights" are per-parent exponents
+- min: only as high as the lowest parent ("risk spikes only when leverage AND rates are high")
+- max: as high as the highest parent (any one suffices)
+- geometricMean: weighted geometric mean of the levels, "weights": [2, 1]
+- expression: "expression": "base * price * volume / (price_mean * volume_mean)" over base, parent ids and <id>_mean
+- table: categorical parents only; "categoryCounts": [3, 2] and "cells" (as for table edges), one per
+  combination of categories with the first parent varying slowest
+Use mechanisms sparingly, only for genuine interactions between two or more parents.
+
 ## Circuit Breakers (REQUIRED for all nodes to prevent unrealistic values):
 { "minValue": X, "maxValue": Y, "priorWeight": 0.1, "maxStdDevRatio": 2.0 }
 
@@ -422,6 +565,10 @@ export async function generateCausalModel(
     // Ensure graph is connected
     causalModel = ensureConnectedGraph(causalModel);
 
+    // Replace distributions that cannot be sampled
+    causalModel = repairDistributions(causalModel);
+    causalModel = repairConfounders(causalModel);
+
     // Fix node types based on graph structure
     causalModel = fixNodeTypes(causalModel);
 
@@ -0,0 +1,201 @@
+/**
+ * Joint Mechanisms
+ *
+ * Edge effects each read a single parent, so they cannot express "sales depend
+ * on price × advertising" or "risk spikes only when leverage and rates are both
+ * high". A joint mechanism sits on the child node and reads several parents'
+ * sampled values at once. The parents it lists are consumed by it: their edges
+ * still carry the graph structure, but their own effects are not applied.
+ *
+ * Parents enter as levels relative to their prior means, following the
+ * deviation convention of the single-parent effects:
+ *   level = 1 + (parent - parentMean) / |parentMean|   (parent / parentMean for positive means)
+ * so every built-in mechanism leaves the child unchanged when all its parents
+ * sit at their means. Table mechanisms are the exception: their parents are
+ * categorical and select a cell by category (see table.ts).
+ */
+
+import type { Distribution, JointMechanism, JointMechanismType } from '@/types/causal';
+import { compileFormula, isIdentifier, ExpressionError } from './expression';
+import { applyTableCell, tableCellIndex, validateTableCells } from './table';
+
+export const JOINT_MECHANISM_TYPES: { value: JointMechanismType; label: string; symbol: string; description: string }[] = [
+  { value: 'product', label: 'Product', symbol: '×', description: 'Parents multiply: each level raised to its weight' },
+  { value: 'min', label: 'Minimum', symbol: 'min', description: 'Only as high as the lowest parent (all must be high)' },
+  { value: 'max', label: 'Maximum', symbol: 'max', description: 'As high as the highest parent (any one suffices)' },
+  { value: 'geometricMean', label: 'Geometric mean', symbol: 'GM', description: 'Weighted geometric mean of the parent levels' },
+  { value: 'expression', label: 'Expression', symbol: 'ƒ', description: 'Custom formula over the parents' },
+  { value: 'table', label: 'Table', symbol: '⊞', description: 'One cell per combination of categorical parents' },
+];
+
+// targetPrior is only read by table cells that give the child its own distribution
+export type MechanismFunction = (base: number, values: number[], means: number[], targetPrior?: Distribution) => number;
+
+// What validateMechanism needs to check a table against the node it sits on
+export interface MechanismContext {
+  categoriesOf: (parentId: string) => string[] | null; // Outcome labels of a binary or categorical parent
+  targetPrior: Distribution;
+}
+
+/**
+ * A parent's value relative to its prior mean: 1 at the mean, 2 at double a
+ * positive mean, never below 0. Near-zero means measure the deviation in
+ * parent units instead.
+ */
+export function parentLevel(value: number, priorMean: number): number {
+  const deviation = Math.abs(priorMean) < 0.001 ? value - priorMean : (value - priorMean) / Math.abs(priorMean);
+  return Math.max(1 + deviation, 0);
+}
+
+/**
+ * Names an expression mechanism can use: base, each parent id, and each
+ * parent's prior mean as <id>_mean
+ */
+export function mechanismVariables(mechanism: JointMechanism): string[] {
+  return ['base', ...mechanism.parents, ...mechanism.parents.map(id => `${id}_mean`)];
+}
+
+function weightsOf(mechanism: JointMechanism): number[] {
+  return mechanism.parents.map((_, j) => mechanism.weights?.[j] ?? 1);
+}
+
+function clampMultiplier(multiplier: number): number {
+  return Math.min(Math.max(multiplier, 0.1), 10);
+}
+
+function buildFunction(mechanism: JointMechanism): MechanismFunction {
+  switch (mechanism.type) {
+    case 'product': {
+      const weights = weightsOf(mechanism);
+      return (base, values, means) => {
+        let multiplier = 1;
+        for (let j = 0; j < values.length; j++) multiplier *= Math.pow(parentLevel(values[j], means[j]), weights[j]);
+        return base * clampMultiplier(multiplier);
+      };
+    }
+    case 'geometricMean': {
+      const weights = weightsOf(mechanism);
+      const total = weights.reduce((a, b) => a + b, 0) || 1;
+      const shares = weights.map(w => w / total);
+      return (base, values, means) => {
+        let multiplier = 1;
+        for (let j = 0; j < values.length; j++) multiplier *= Math.pow(parentLevel(values[j], means[j]), shares[j]);
+        return base * clampMultiplier(multiplier);
+      };
+    }
+    case 'min':
+    case 'max': {
+      const pick = mechanism.type === 'min' ? Math.min : Math.max;
+      return (base, values, means) => {
+        let multiplier = parentLevel(values[0], means[0]);
+        for (let j = 1; j < values.length; j++) multiplier = pick(multiplier, parentLevel(values[j], means[j]));
+        return base * clampMultiplier(multiplier);
+      };
+    }
+    case 'expression': {
+      const run = compileFormula(mechanism.expression ?? '', mechanismVariables(mechanism), mechanism.constants);
+      const k = mechanism.parents.length;
+      const vars = new Array<number>(1 + 2 * k).fill(0);
+      return (base, values, means) => {
+        vars[0] = base;
+        for (let j = 0; j < k; j++) {
+          vars[1 + j] = values[j];
+          vars[1 + k + j] = means[j];
+        }
+        return run(vars);
+      };
+    }
+    case 'table': {
+      const counts = mechanism.categoryCounts ?? [];
+      const cells = mechanism.cells ?? [];
+      return (base, values, _means, targetPrior) => applyTableCell(base, cells[tableCellIndex(values, counts)], targetPrior);
+    }
+    default:
+      return base => base;
+  }
+}
+
+const functionCache = new WeakMap<JointMechanism, MechanismFunction>();
+
+/**
+ * The mechanism's function, built once per mechanism object. An invalid
+ * expression leaves the child's base value unchanged, like an invalid effect.
+ */
+export function mechanismFunction(mechanism: JointMechanism): MechanismFunction {
+  let fn = functionCache.get(mechanism);
+  if (!fn) {
+    try {
+      fn = buildFunction(mechanism);
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) throw error;
+      console.warn(`[Mechanism] Ignoring invalid expression "${mechanism.expression}": ${error.message}`);
+      fn = base => base;
+    }
+    functionCache.set(mechanism, fn);
+  }
+  return fn;
+}
+
+/**
+ * Apply a joint mechanism to one sample. values and means follow the order of
+ * mechanism.parents. Invalid inputs or results leave the base value unchanged.
+ */
+export function applyJointMechanism(
+  baseValue: number,
+  mechanism: JointMechanism,
+  values: number[],
+  means: number[],
+  targetPrior?: Distribution
+): number {
+  if (isNaN(baseValue) || values.some(isNaN)) return baseValue;
+  const result = mechanismFunction(mechanism)(baseValue, values, means, targetPrior);
+  return isFinite(result) ? result : baseValue;
+}
+
+/**
+ * Why a mechanism cannot be used on a node with the given parents, or null if
+ * it can. Tables are only checked against the parents' categories and the
+ * node's prior when a context is given.
+ */
+export function validateMechanism(mechanism: JointMechanism, parentIds: string[], context?: MechanismContext): string | null {
+  const parents = mechanism.parents ?? [];
+  if (new Set(parents).size !== parents.length) return 'A parent is listed twice';
+  if (parents.length < 2) return 'Choose at least two parents';
+  const missing = parents.find(id => !parentIds.includes(id));
+  if (missing) return `'${missing}' is not a parent of this node`;
+
+  if (mechanism.weights) {
+    if (mechanism.weights.length !== parents.length) return 'Give one weight per parent';
+    if (!mechanism.weights.every(isFinite)) return 'Weights must be finite numbers';
+    if (mechanism.type === 'geometricMean' && mechanism.weights.some(w => w < 0)) return 'Geometric mean weights cannot be negative';
+  }
+
+  if (mechanism.type === 'expression') {
+    const unnamed = parents.find(id => !isIdentifier(id));
+    if (unnamed) return `Parent id '${unnamed}' cannot be written in an expression`;
+    try {
+      compileFormula(mechanism.expression ?? '', mechanismVariables(mechanism), mechanism.constants);
+    } catch (error) {
+      if (error instanceof ExpressionError) return error.message;
+      throw error;
+    }
+  }
+
+  if (mechanism.type === 'table') {
+    const counts = mechanism.categoryCounts ?? [];
+    if (counts.length !== parents.length || !counts.every(c => Number.isInteger(c) && c > 0)) {
+      return 'Give the number of categories of each parent';
+    }
+    if (context) {
+      for (let j = 0; j < parents.length; j++) {
+        const categories = context.categoriesOf(parents[j]);
+        if (!categories) return `'${parents[j]}' is not categorical`;
+        if (categories.length !== counts[j]) return `'${parents[j]}' has ${categories.length} categories, the table expects ${counts[j]}`;
+      }
+      return validateTableCells(mechanism.cells ?? [], counts.reduce((a, b) => a * b, 1), context.targetPrior);
+    }
+    if ((mechanism.cells ?? []).length !== counts.reduce((a, b) => a * b, 1)) return 'Give one cell per combination of categories';
+  }
+
+  return null;
+}
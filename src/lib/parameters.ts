@@ -0,0 +1,203 @@
+/**
+ * Uncertain Effect Parameters
+ *
+ * Edge effects are usually point estimates, but a generated coefficient is a
+ * guess. Any numeric effect parameter may instead be a distribution over its
+ * value. Every Monte Carlo sample then draws its own value once, alongside the
+ * exogenous noise, so the whole run sees one consistent set of parameters per
+ * sample and the output distributions carry structural uncertainty as well as
+ * noise. Runs on the same noise share these draws, which keeps paired
+ * comparisons paired.
+ *
+ * Knots, table cells and expression constants stay fixed.
+ */
+
+import type { CausalEdge, CausalModel, Distribution, EffectFunction, EffectParameter, PointEffect } from '@/types/causal';
+import { expectedValue, quantile, sampleFromDistribution, standardDeviation, validateDistribution } from './distributions';
+import { createRandom, seedFromValues } from './random';
+import { uniformColumns, type SamplingMethod } from './sampling';
+
+// Per-sample parameter values, keyed by parameterKey
+export type ParameterDraws = Record<string, number[]>;
+
+// Numeric parameters of each effect type that may be given as a distribution
+export const EFFECT_PARAMETERS: Record<EffectFunction['type'], string[]> = {
+  linear: ['coefficient', 'intercept', 'saturation'],
+  logistic: ['coefficient', 'threshold'],
+  multiplicative: ['factor', 'baseline'],
+  threshold: ['cutoff', 'below', 'above', 'smoothness'],
+  hill: ['maxEffect', 'halfSaturation', 'hillCoefficient'],
+  decay: ['rate', 'floor'],
+  power: ['exponent'],
+  piecewise: [],
+  expression: [],
+  table: [],
+};
+
+// Whether a parameter is given as a distribution rather than a point value
+export function isUncertain(value: EffectParameter | undefined): value is Distribution {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * An effect parameter by name (undefined if unset or not a parameter of the effect)
+ */
+export function effectParameter(effect: EffectFunction, name: string): EffectParameter | undefined {
+  return (effect as unknown as Record<string, EffectParameter | undefined>)[name];
+}
+
+/**
+ * The effect's parameters that are given as distributions, by name
+ */
+export function uncertainParameters(effect: EffectFunction): [string, Distribution][] {
+  if (!effect || !EFFECT_PARAMETERS[effect.type]) return [];
+  const uncertain: [string, Distribution][] = [];
+  for (const name of EFFECT_PARAMETERS[effect.type]) {
+    const value = effectParameter(effect, name);
+    if (isUncertain(value)) uncertain.push([name, value]);
+  }
+  return uncertain;
+}
+
+export function hasUncertainParameters(model: CausalModel): boolean {
+  return model.edges.some(edge => uncertainParameters(edge.effect).length > 0);
+}
+
+/**
+ * Where a parameter's draws are kept: one entry per edge and parameter
+ */
+export function parameterKey(edge: CausalEdge, name: string): string {
+  return `${edge.source}->${edge.target}.${name}`;
+}
+
+/**
+ * A parameter's mean: the value itself, or its distribution's expected value
+ */
+export function parameterMean(value: EffectParameter): number {
+  return isUncertain(value) ? expectedValue(value) : value;
+}
+
+// Effects with their uncertain parameters at their means, cached per effect object
+const pointEffects = new WeakMap<EffectFunction, PointEffect>();
+
+/**
+ * The effect with every uncertain parameter at its mean. Effects without
+ * uncertain parameters are returned as they are.
+ */
+export function pointEffect(effect: EffectFunction): PointEffect {
+  if (!effect || typeof effect !== 'object') return effect as PointEffect;
+  let point = pointEffects.get(effect);
+  if (!point) {
+    const uncertain = uncertainParameters(effect);
+    point = (uncertain.length === 0
+      ? effect
+      : { ...effect, ...Object.fromEntries(uncertain.map(([name, dist]) => [name, expectedValue(dist)])) }) as PointEffect;
+    pointEffects.set(effect, point);
+  }
+  return point;
+}
+
+/**
+ * Draw every uncertain parameter once per sample. Each parameter gets its own
+ * stream seeded from the given seed and its key, so adding or removing
+ * uncertainty on one edge leaves every other draw as it was.
+ *
+ * Sobol runs stratify parameters with Latin hypercubes instead: a
+ * one-dimensional Sobol column is the same van der Corput sequence whatever
+ * the stream, so separately shifted columns would move together rather than
+ * independently.
+ */
+export function drawParameters(
+  model: CausalModel,
+  sampleCount: number,
+  seed: number,
+  sampling: SamplingMethod = 'random'
+): ParameterDraws {
+  const draws: ParameterDraws = {};
+  if (!hasUncertainParameters(model)) return draws;
+
+  const method = sampling === 'sobol' ? 'lhs' : sampling;
+  for (const edge of model.edges) {
+    for (const [name, dist] of uncertainParameters(edge.effect)) {
+      const key = parameterKey(edge, name);
+      const stream = createRandom(seedFromValues([seed, ...Array.from(key, c => c.charCodeAt(0))]));
+      draws[key] = method === 'random'
+        ? sampleFromDistribution(dist, sampleCount, stream)
+        : uniformColumns(method, 1, sampleCount, stream)[0].map(u => quantile(dist, u));
+    }
+  }
+  return draws;
+}
+
+// Per-sample effects of each uncertain edge, cached per set of draws
+const sampledCache = new WeakMap<ParameterDraws, WeakMap<CausalEdge, PointEffect[] | null>>();
+
+/**
+ * The edge's effect for every sample, with each uncertain parameter at that
+ * sample's draw, or null if the edge has no drawn parameters. A parameter
+ * without draws stays at its mean.
+ */
+export function sampledEffects(edge: CausalEdge, draws: ParameterDraws): PointEffect[] | null {
+  if (!sampledCache.has(draws)) sampledCache.set(draws, new WeakMap());
+  const byEdge = sampledCache.get(draws)!;
+  if (byEdge.has(edge)) return byEdge.get(edge)!;
+
+  const columns = uncertainParameters(edge.effect)
+    .map(([name]) => [name, draws[parameterKey(edge, name)]] as const)
+    .filter(([, values]) => values !== undefined);
+  const sampleCount = columns[0]?.[1].length ?? 0;
+  const point = pointEffect(edge.effect);
+  const effects = columns.length === 0
+    ? null
+    : Array.from({ length: sampleCount }, (_, i) => {
+        const effect: Record<string, unknown> = { ...point };
+        for (const [name, values] of columns) effect[name] = values[i];
+        return effect as PointEffect;
+      });
+  byEdge.set(edge, effects);
+  return effects;
+}
+
+/**
+ * The edge's effect as sample i sees it
+ */
+export function effectAt(edge: CausalEdge, draws: ParameterDraws, i: number): PointEffect {
+  const effects = sampledEffects(edge, draws);
+  return effects ? effects[i] : pointEffect(edge.effect);
+}
+
+/**
+ * Why an effect's uncertain parameters cannot be sampled, or null if they can
+ */
+export function validateEffectParameters(effect: EffectFunction): string | null {
+  for (const [name, dist] of uncertainParameters(effect)) {
+    const problem = validateDistribution(dist);
+    if (problem) return `${name}: ${problem}`;
+  }
+  return null;
+}
+
+/**
+ * A parameter's standard deviation (0 for a point value)
+ */
+export function parameterSpread(value: EffectParameter | undefined): number {
+  return isUncertain(value) ? standardDeviation(value) : 0;
+}
+
+/**
+ * The parameter with a new mean and its spread kept. Distributions other
+ * than a normal become a normal with the same standard deviation.
+ */
+export function withParameterMean(value: EffectParameter | undefined, mean: number): EffectParameter {
+  return withParameterSpread(mean, parameterSpread(value));
+}
+
+/**
+ * The parameter as a normal around its mean with this standard deviation,
+ * or back to a point value when the spread is not positive
+ */
+export function withParameterSpread(value: EffectParameter | undefined, spread: number): EffectParameter {
+  const mean = value === undefined ? 0 : parameterMean(value);
+  if (!(spread > 0)) return mean;
+  return { type: 'continuous', dist: 'normal', params: [mean, spread] };
+}
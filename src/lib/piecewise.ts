@@ -0,0 +1,112 @@
+/**
+ * Piecewise Effect Curves
+ *
+ * A piecewise effect is a response curve given as a handful of (parent value,
+ * multiplier) knots, for relationships known by shape rather than by formula
+ * ("above 90% utilization, latency explodes"). Between knots the curve is
+ * either linear or monotone cubic (Fritsch–Carlson): smooth, but never
+ * overshooting the knots, so a rising table stays rising. Beyond the end
+ * knots it holds the end multipliers.
+ */
+
+import type { EffectKnot, PiecewiseEffect } from '@/types/causal';
+
+export type KnotInterpolation = NonNullable<PiecewiseEffect['interpolation']>;
+
+export const KNOT_INTERPOLATIONS: { value: KnotInterpolation; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'monotone', label: 'Monotone cubic' },
+];
+
+/**
+ * Knots sorted by parent value, without non-finite knots. Of several knots at
+ * the same parent value, the last one listed wins.
+ */
+export function sortKnots(knots: EffectKnot[]): EffectKnot[] {
+  const byX = new Map<number, EffectKnot>();
+  for (const knot of knots ?? []) {
+    if (isFinite(knot.x) && isFinite(knot.multiplier)) byX.set(knot.x, knot);
+  }
+  return [...byX.values()].sort((a, b) => a.x - b.x);
+}
+
+// Fritsch–Carlson tangents: averaged secants, zeroed at local extrema and
+// shrunk where they would make a segment's cubic overshoot
+function monotoneTangents(xs: number[], ys: number[]): number[] {
+  const n = xs.length;
+  const secants = Array.from({ length: n - 1 }, (_, i) => (ys[i + 1] - ys[i]) / (xs[i + 1] - xs[i]));
+  const tangents = xs.map((_, i) =>
+    i === 0 ? secants[0]
+      : i === n - 1 ? secants[n - 2]
+      : secants[i - 1] * secants[i] <= 0 ? 0
+      : (secants[i - 1] + secants[i]) / 2
+  );
+
+  for (let i = 0; i < n - 1; i++) {
+    if (secants[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / secants[i];
+    const b = tangents[i + 1] / secants[i];
+    const radius = a * a + b * b;
+    if (radius > 9) {
+      const shrink = 3 / Math.sqrt(radius);
+      tangents[i] = shrink * a * secants[i];
+      tangents[i + 1] = shrink * b * secants[i];
+    }
+  }
+  return tangents;
+}
+
+/**
+ * Multiplier as a function of the parent value, through the given knots
+ */
+export function knotCurve(knots: EffectKnot[], interpolation: KnotInterpolation = 'linear'): (x: number) => number {
+  const sorted = sortKnots(knots);
+  if (sorted.length === 0) return () => 1;
+  if (sorted.length === 1) return () => sorted[0].multiplier;
+
+  const xs = sorted.map(k => k.x);
+  const ys = sorted.map(k => k.multiplier);
+  const tangents = interpolation === 'monotone' ? monotoneTangents(xs, ys) : null;
+  const last = xs.length - 1;
+
+  return (x: number) => {
+    if (x <= xs[0]) return ys[0];
+    if (x >= xs[last]) return ys[last];
+
+    let lo = 0;
+    let hi = last;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (xs[mid] <= x) lo = mid;
+      else hi = mid;
+    }
+
+    const h = xs[hi] - xs[lo];
+    const t = (x - xs[lo]) / h;
+    if (!tangents) return ys[lo] + t * (ys[hi] - ys[lo]);
+
+    // Cubic Hermite segment
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * ys[lo] + (t3 - 2 * t2 + t) * h * tangents[lo]
+      + (-2 * t3 + 3 * t2) * ys[hi] + (t3 - t2) * h * tangents[hi];
+  };
+}
+
+const curveCache = new WeakMap<PiecewiseEffect, (x: number) => number>();
+
+/**
+ * The effect's multiplier curve, built once per effect object
+ */
+export function piecewiseCurve(effect: PiecewiseEffect): (x: number) => number {
+  let curve = curveCache.get(effect);
+  if (!curve) {
+    curve = knotCurve(effect.knots, effect.interpolation);
+    curveCache.set(effect, curve);
+  }
+  return curve;
+}
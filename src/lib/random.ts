@@ -0,0 +1,80 @@
+/**
+ * Seedable pseudo-random number generation
+ *
+ * All Monte Carlo code takes a RandomSource instead of calling Math.random()
+ * directly, so a run can be reproduced exactly from its seed.
+ */
+
+/**
+ * Uniform source on [0, 1), same contract as Math.random
+ */
+export type RandomSource = () => number;
+
+const UINT32_RANGE = 4294967296;
+
+/**
+ * SplitMix32 - used only to expand a single seed into generator state
+ */
+function splitMix32(seed: number): () => number {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x9e3779b9) | 0;
+    let t = state ^ (state >>> 16);
+    t = Math.imul(t, 0x21f0aaad);
+    t ^= t >>> 15;
+    t = Math.imul(t, 0x735a2d97);
+    return (t ^ (t >>> 15)) >>> 0;
+  };
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
+
+/**
+ * Create a xoshiro128** generator from a seed
+ */
+export function createRandom(seed: number): RandomSource {
+  const expand = splitMix32(seed);
+  let s0 = expand();
+  let s1 = expand();
+  let s2 = expand();
+  let s3 = expand();
+
+  // All-zero state would only ever produce zeros
+  if ((s0 | s1 | s2 | s3) === 0) s0 = 1;
+
+  return () => {
+    const result = Math.imul(rotl(Math.imul(s1, 5), 7), 9) >>> 0;
+    const t = s1 << 9;
+
+    s2 ^= s0;
+    s3 ^= s1;
+    s1 ^= s2;
+    s0 ^= s3;
+    s2 ^= t;
+    s3 = rotl(s3, 11);
+
+    return result / UINT32_RANGE;
+  };
+}
+
+/**
+ * Pick a fresh seed that is short enough to read out and type back in
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 1_000_000);
+}
+
+/**
+ * Derive a seed from a run of sample values, so draws that depend on them
+ * (e.g. a distributional intervention) are reproduced whenever they are
+ */
+export function seedFromValues(values: number[]): number {
+  let hash = 0x811c9dc5;
+  for (const value of values) {
+    // Quantize so the seed survives formatting round trips
+    hash = Math.imul(hash ^ (Math.round(value * 1e6) | 0), 0x01000193);
+  }
+  return hash >>> 0;
+}
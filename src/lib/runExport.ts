@@ -0,0 +1,138 @@
+/**
+ * Run Export
+ *
+ * A run is a model plus everything that decides its numbers: the seed, the
+ * sample count and sampling method, the tick count, and the interventions,
+ * evidence and counterfactuals applied. Exports are versioned JSON so a
+ * teammate can load one and see exactly the same results. Imports also take
+ * a bare model, as exported before runs carried their settings.
+ */
+
+import type { CausalModel, Intervention, Observation } from '@/types/causal';
+import { SAMPLING_METHODS, type SamplingMethod } from './sampling';
+import { interventionError } from './interventions';
+
+export const RUN_FORMAT_VERSION = 1;
+
+export interface RunSettings {
+  seed: number;
+  sampleCount: number;
+  autoSampling: boolean;
+  sampling: SamplingMethod;
+  tickCount: number;
+  interventions: Map<string, Intervention>;
+  evidence: Map<string, Observation>;
+  counterfactuals: Map<string, number>;
+}
+
+// The JSON form: maps become objects keyed by node id
+export interface RunExport {
+  version: number;
+  model: CausalModel;
+  seed: number;
+  sampleCount: number;
+  autoSampling: boolean;
+  sampling: SamplingMethod;
+  tickCount: number;
+  interventions: Record<string, Intervention>;
+  evidence: Record<string, Observation>;
+  counterfactuals: Record<string, number>;
+}
+
+export interface ImportedRun {
+  model: CausalModel;
+  settings: RunSettings | null; // Null for a bare model
+}
+
+/**
+ * The run as exported JSON
+ */
+export function exportRun(model: CausalModel, settings: RunSettings): string {
+  const run: RunExport = {
+    version: RUN_FORMAT_VERSION,
+    model,
+    seed: settings.seed,
+    sampleCount: settings.sampleCount,
+    autoSampling: settings.autoSampling,
+    sampling: settings.sampling,
+    tickCount: settings.tickCount,
+    interventions: Object.fromEntries(settings.interventions),
+    evidence: Object.fromEntries(settings.evidence),
+    counterfactuals: Object.fromEntries(settings.counterfactuals),
+  };
+  return JSON.stringify(run, null, 2);
+}
+
+function isModel(value: unknown): value is CausalModel {
+  const model = value as CausalModel | null;
+  return !!model && typeof model === 'object' && Array.isArray(model.nodes) && Array.isArray(model.edges);
+}
+
+// Entries of a node-keyed record, checked against the model's nodes
+function nodeEntries<T>(record: unknown, model: CausalModel, what: string): [string, T][] {
+  if (record === undefined) return [];
+  if (!record || typeof record !== 'object') throw new Error(`Run ${what} must be an object keyed by node id`);
+  const nodeIds = new Set(model.nodes.map(n => n.id));
+  return Object.entries(record as Record<string, T>).map(([nodeId, value]) => {
+    if (!nodeIds.has(nodeId)) throw new Error(`Run ${what} names ${nodeId}, which is not in the model`);
+    return [nodeId, value];
+  });
+}
+
+// Saved policy rules, checked against the model's edges
+function checkPolicies(model: CausalModel): void {
+  for (const policy of model.policies ?? []) {
+    const problem = interventionError(model, policy.nodeId, policy.rule);
+    if (problem) throw new Error(`Saved policy ${policy.label}: ${problem}`);
+  }
+}
+
+/**
+ * Parse an exported run, or a bare model. Throws with a message fit for the
+ * user if the JSON is neither.
+ */
+export function parseRun(json: string): ImportedRun {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (isModel(data)) {
+    checkPolicies(data);
+    return { model: data, settings: null };
+  }
+
+  const run = data as Partial<RunExport> | null;
+  if (!run || typeof run !== 'object' || !isModel(run.model)) {
+    throw new Error('The file holds neither a run nor a model');
+  }
+  if (run.version !== RUN_FORMAT_VERSION) {
+    throw new Error(`Unsupported run format version ${run.version} (expected ${RUN_FORMAT_VERSION})`);
+  }
+  if (!Number.isInteger(run.seed)) throw new Error('Run seed must be an integer');
+  if (!(Number.isInteger(run.sampleCount) && run.sampleCount! > 0)) throw new Error('Run sample count must be a positive integer');
+  if (!SAMPLING_METHODS.some(m => m.value === run.sampling)) throw new Error(`Unknown sampling method ${run.sampling}`);
+
+  const model = run.model;
+  checkPolicies(model);
+  const interventions = new Map(nodeEntries<Intervention>(run.interventions, model, 'interventions'));
+  for (const [nodeId, intervention] of interventions) {
+    const problem = interventionError(model, nodeId, intervention);
+    if (problem) throw new Error(`Run interventions: ${problem}`);
+  }
+
+  return {
+    model,
+    settings: {
+      seed: run.seed!,
+      sampleCount: run.sampleCount!,
+      autoSampling: run.autoSampling === true,
+      sampling: run.sampling!,
+      tickCount: Number.isInteger(run.tickCount) && run.tickCount! >= 0 ? run.tickCount! : 0,
+      interventions,
+      evidence: new Map(nodeEntries<Observation>(run.evidence, model, 'evidence')),
+      counterfactuals: new Map(nodeEntries<number>(run.counterfactuals, model, 'counterfactuals')),
+    },
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * Sampling Strategies
+ *
+ * Uniform draws for the exogenous noise, one dimension per node. Plain
+ * pseudo-random draws are the default. Latin hypercube sampling stratifies
+ * each dimension into equal-probability slices with one draw in each, and
+ * Sobol sequences fill the unit cube evenly in every dimension at once. Both
+ * converge faster than independent draws for smooth models; drawNoise maps
+ * their uniforms through each node's inverse CDF.
+ *
+ * Both are randomized from the run's seed (random slice positions and
+ * permutations; a random digital shift for Sobol), so every seed gives a
+ * different but reproducible, unbiased set of draws.
+ */
+
+import type { RandomSource } from './random';
+
+export type SamplingMethod = 'random' | 'lhs' | 'sobol';
+
+export const SAMPLING_METHODS: { value: SamplingMethod; label: string }[] = [
+  { value: 'random', label: 'Random' },
+  { value: 'lhs', label: 'Latin hypercube' },
+  { value: 'sobol', label: 'Sobol' },
+];
+
+const UINT32_RANGE = 4294967296;
+const BITS = 32;
+
+// Keep uniforms strictly inside (0, 1) so inverse CDFs stay finite
+function openUnit(u: number): number {
+  return Math.min(Math.max(u, 1 / UINT32_RANGE), 1 - 1 / UINT32_RANGE);
+}
+
+/**
+ * One Latin hypercube column: a random point in each of `count` equal slices
+ * of [0, 1), in random order
+ */
+export function latinHypercube(count: number, rng: RandomSource): number[] {
+  const order = Array.from({ length: count }, (_, i) => i);
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order.map(slice => openUnit((slice + rng()) / count));
+}
+
+// Initial direction numbers m_1..m_s for dimensions 2-21, from Joe and Kuo's
+// new-joe-kuo-6.21201 table, in the order of primitivePolynomials()
+const JOE_KUO_DIRECTIONS = [
+  [1], [1, 3], [1, 3, 1], [1, 1, 1], [1, 1, 3, 3], [1, 3, 5, 13], [1, 1, 5, 5, 17], [1, 1, 5, 5, 5],
+  [1, 1, 7, 11, 19], [1, 1, 5, 1, 1], [1, 1, 1, 3, 11], [1, 3, 5, 5, 31], [1, 3, 3, 9, 7, 49],
+  [1, 1, 1, 15, 21, 21], [1, 3, 1, 13, 27, 49], [1, 1, 1, 15, 7, 5], [1, 3, 1, 15, 13, 25],
+  [1, 1, 5, 5, 19, 61], [1, 3, 7, 11, 23, 15, 103], [1, 3, 7, 13, 13, 15, 69],
+];
+
+// Polynomial over GF(2) as a bitmask (bit i = coefficient of x^i), reduced product mod p
+function multiplyMod(a: number, b: number, p: number, degree: number): number {
+  let result = 0;
+  while (b) {
+    if (b & 1) result ^= a;
+    b >>>= 1;
+    a <<= 1;
+    if (a & (1 << degree)) a ^= p;
+  }
+  return result;
+}
+
+function powerMod(exponent: number, p: number, degree: number): number {
+  let result = 1;
+  let base = 2; // The polynomial x
+  while (exponent > 0) {
+    if (exponent & 1) result = multiplyMod(result, base, p, degree);
+    base = multiplyMod(base, base, p, degree);
+    exponent = Math.floor(exponent / 2);
+  }
+  return result;
+}
+
+// Primitive when x has order exactly 2^degree - 1 modulo p
+function isPrimitive(p: number, degree: number): boolean {
+  const order = 2 ** degree - 1;
+  if (powerMod(order, p, degree) !== 1) return false;
+  for (let q = 2, rest = order; q <= rest; q++) {
+    if (rest % q !== 0) continue;
+    if (powerMod(order / q, p, degree) === 1) return false;
+    while (rest % q === 0) rest /= q;
+  }
+  return true;
+}
+
+/**
+ * Primitive polynomials over GF(2) in order of degree, as [degree, a] where a
+ * holds the inner coefficients (the Joe–Kuo convention). The first, x + 1,
+ * belongs to dimension 2; dimension 1 is the van der Corput sequence.
+ */
+function primitivePolynomials(count: number): [number, number][] {
+  const found: [number, number][] = [];
+  for (let degree = 1; found.length < count; degree++) {
+    for (let a = 0; a < 2 ** (degree - 1) && found.length < count; a++) {
+      const p = (1 << degree) | (a << 1) | 1;
+      if (isPrimitive(p, degree)) found.push([degree, a]);
+    }
+  }
+  return found;
+}
+
+// Direction numbers v_1..v_32 (as 32-bit integers) for each of `dimensions` dimensions
+function directionNumbers(dimensions: number, rng: RandomSource): Uint32Array[] {
+  const polynomials = primitivePolynomials(dimensions - 1);
+  const directions: Uint32Array[] = [];
+
+  for (let d = 0; d < dimensions; d++) {
+    const v = new Uint32Array(BITS);
+    if (d === 0) {
+      for (let k = 0; k < BITS; k++) v[k] = 2 ** (BITS - 1 - k);
+      directions.push(v);
+      continue;
+    }
+
+    const [degree, a] = polynomials[d - 1];
+    // Beyond the table, any odd m_k < 2^k gives a valid (if less tuned) sequence
+    const m = JOE_KUO_DIRECTIONS[d - 1]?.slice()
+      ?? Array.from({ length: degree }, (_, k) => 2 * Math.floor(rng() * 2 ** k) + 1);
+    for (let k = degree; k < BITS; k++) {
+      let next = m[k - degree] ^ (m[k - degree] << degree);
+      for (let j = 1; j < degree; j++) {
+        if ((a >>> (degree - 1 - j)) & 1) next ^= m[k - j] << j;
+      }
+      m.push(next);
+    }
+    for (let k = 0; k < BITS; k++) v[k] = (m[k] * 2 ** (BITS - 1 - k)) >>> 0;
+    directions.push(v);
+  }
+  return directions;
+}
+
+/**
+ * The first `count` points of a `dimensions`-dimensional Sobol sequence with
+ * a random digital shift, one column per dimension
+ */
+export function sobolPoints(dimensions: number, count: number, rng: RandomSource): number[][] {
+  const directions = directionNumbers(dimensions, rng);
+  const shifts = Array.from({ length: dimensions }, () => Math.floor(rng() * UINT32_RANGE));
+  const columns = Array.from({ length: dimensions }, () => new Array<number>(count));
+  const state = new Uint32Array(dimensions);
+
+  for (let i = 0; i < count; i++) {
+    for (let d = 0; d < dimensions; d++) {
+      columns[d][i] = openUnit((((state[d] ^ shifts[d]) >>> 0) + 0.5) / UINT32_RANGE);
+    }
+    // Gray code order: the next point flips the direction number of i's lowest zero bit
+    let bit = 0;
+    while ((i >>> bit) & 1) bit++;
+    for (let d = 0; d < dimensions; d++) state[d] ^= directions[d][bit];
+  }
+  return columns;
+}
+
+/**
+ * Uniform draws for `dimensions` nodes by the given method, one column per node
+ */
+export function uniformColumns(
+  method: Exclude<SamplingMethod, 'random'>,
+  dimensions: number,
+  count: number,
+  rng: RandomSource
+): number[][] {
+  if (method === 'sobol') return sobolPoints(dimensions, count, rng);
+  return Array.from({ length: dimensions }, () => latinHypercube(count, rng));
+}
@@ -2,10 +2,27 @@
  * Sensitivity Analysis Module
  *
  * Runs interventions on all exogenous nodes and measures downstream impacts.
+ * Numeric inputs are scaled around their prior mean; binary and categorical
+ * inputs are set to each of their outcomes in turn, since scaling a category
+ * index means nothing.
+ *
+ * When some effect parameters are uncertain, the terminal nodes' variance is
+ * also split between those parameters and the exogenous noise: the baseline
+ * is re-run with every parameter at its mean on the same exogenous draws, and
+ * the variance that goes away is the parameters' share.
+ *
+ * Interventions cut an input's confounders, so the impacts are causal. For a
+ * numeric input that shares an unobserved shock with other nodes, the report
+ * also gives what comparing baseline samples would suggest (the regression of
+ * each terminal node on the input), since the gap is what the confounder adds
+ * to a naive reading of the data.
  */
 
-import { propagateWithSampling, DEFAULT_SAMPLE_COUNT } from './inference';
-import { expectedValue } from './distributions';
+import { propagateWithSampling, drawNoise, DEFAULT_SAMPLE_COUNT } from './inference';
+import type { SamplingMethod } from './sampling';
+import { expectedValue, pairedDifference, outcomeLabels, variance } from './distributions';
+import { confoundedPartners } from './confounders';
+import { createRandom, generateSeed } from './random';
 import type { CausalModel, CausalNode } from '@/types/causal';
 
 export interface NodeImpact {
@@ -14,14 +31,16 @@ export interface NodeImpact {
   baseline: number;
   intervened: number;
   absoluteChange: number;
+  standardError: number; // Of absoluteChange, from the paired per-sample differences
   pctChange: number;
   units?: string;
 }
 
 export interface InterventionResult {
   level: string;
-  multiplier: number;
+  multiplier: number; // 1 for category interventions
   value: number;
+  category?: string; // Set when the input was fixed to one of its outcomes
   impacts: NodeImpact[];
 }
 
@@ -51,16 +70,36 @@ export interface BottleneckWarning {
   suspectedBottleneck?: string;
 }
 
+export interface ConfoundedEffect {
+  exogenousNode: string;
+  terminalNode: string;
+  confoundedWith: string[]; // Labels of the nodes sharing an unobserved shock with the input
+  causalPctChange: number; // From setting the input 50% higher
+  associatedPctChange: number; // From samples whose input is 50% higher, by regression on the baseline
+  units?: string;
+}
+
+export interface VarianceSource {
+  nodeId: string;
+  nodeLabel: string;
+  variance: number; // With every uncertain parameter drawn per sample
+  parameterShare: number; // Fraction that goes away with the parameters at their means (0-1); the rest is exogenous noise
+  units?: string;
+}
+
 export interface SensitivityAnalysis {
   modelTitle: string;
   timestamp: string;
   sampleCount: number;
+  seed: number; // Re-running with this seed reproduces the analysis exactly
   results: SensitivityResult[];
+  varianceSources: VarianceSource[]; // Terminal nodes; empty unless some effect parameter is uncertain
   summary: {
     strongEffects: EffectSummary[];
     weakEffects: EffectSummary[];
     asymmetricEffects: { source: string; target: string; increaseEffect: number; decreaseEffect: number }[];
     bottlenecks: BottleneckWarning[];
+    confoundedEffects: ConfoundedEffect[];
   };
 }
 
@@ -68,6 +107,19 @@ function mean(samples: number[]): number {
   return samples.reduce((a, b) => a + b, 0) / samples.length;
 }
 
+// Least-squares slope of y on x (0 when x does not vary)
+function regressionSlope(x: number[], y: number[]): number {
+  const meanX = mean(x);
+  const meanY = mean(y);
+  let covariance = 0;
+  let varianceX = 0;
+  for (let i = 0; i < x.length; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += (x[i] - meanX) ** 2;
+  }
+  return varianceX > 0 ? covariance / varianceX : 0;
+}
+
 function findExogenousNodes(model: CausalModel): CausalNode[] {
   return model.nodes.filter(n => n.type === 'exogenous');
 }
@@ -94,19 +146,44 @@ function findDownstreamNodes(model: CausalModel, nodeId: string): Set<string> {
 
 export function runSensitivityAnalysis(
   model: CausalModel,
-  sampleCount: number = DEFAULT_SAMPLE_COUNT
+  sampleCount: number = DEFAULT_SAMPLE_COUNT,
+  seed: number = generateSeed(),
+  sampling: SamplingMethod = 'random'
 ): SensitivityAnalysis {
   const exogenousNodes = findExogenousNodes(model);
   const leafNodes = findLeafNodes(model);
+  // What the analysis measures inputs against: terminal nodes, or leaves if none are marked
+  const terminals = model.nodes.filter(n => n.type === 'terminal');
+  const outputNodes = terminals.length > 0 ? terminals : leafNodes;
   const nodeMap = new Map(model.nodes.map(n => [n.id, n]));
+  // Every run replays the same exogenous draws, so differences from the
+  // baseline come from the intervention rather than from resampling
+  const noise = drawNoise(model, sampleCount, createRandom(seed), sampling);
 
   // Run baseline
-  const baseline = propagateWithSampling(model, new Map(), sampleCount);
+  const baseline = propagateWithSampling(model, new Map(), sampleCount, { noise });
   const baselineMeans: Record<string, number> = {};
   for (const node of model.nodes) {
     baselineMeans[node.id] = mean(baseline.samples[node.id]);
   }
 
+  // Same exogenous draws with every parameter at its mean: what variance remains is the noise's
+  const varianceSources: VarianceSource[] = [];
+  if (Object.keys(noise.parameters).length > 0) {
+    const fixed = propagateWithSampling(model, new Map(), sampleCount, { noise: { ...noise, parameters: {} } });
+    for (const node of outputNodes) {
+      const total = variance(baseline.samples[node.id]);
+      const share = total > 0 ? 1 - variance(fixed.samples[node.id]) / total : 0;
+      varianceSources.push({
+        nodeId: node.id,
+        nodeLabel: node.label,
+        variance: total,
+        parameterShare: Math.min(Math.max(share, 0), 1),
+        units: node.units,
+      });
+    }
+  }
+
   const interventionLevels = [
     { label: '50% decrease', multiplier: 0.5 },
     { label: '25% decrease', multiplier: 0.75 },
@@ -120,13 +197,17 @@ export function runSensitivityAnalysis(
     const prior = expectedValue(exoNode.distribution);
     const downstream = findDownstreamNodes(model, exoNode.id);
     const interventions: InterventionResult[] = [];
+    const categories = outcomeLabels(exoNode.distribution);
+    const levels = categories
+      ? categories.map((category, k) => ({ label: `= ${category}`, multiplier: 1, value: k, category }))
+      : interventionLevels.map(level => ({ ...level, value: prior * level.multiplier, category: undefined }));
 
-    for (const { label, multiplier } of interventionLevels) {
-      const interventionValue = prior * multiplier;
+    for (const { label, multiplier, value: interventionValue, category } of levels) {
       const result = propagateWithSampling(
         model,
         new Map([[exoNode.id, interventionValue]]),
-        sampleCount
+        sampleCount,
+        { noise }
       );
 
       const impacts: NodeImpact[] = [];
@@ -135,10 +216,13 @@ export function runSensitivityAnalysis(
       for (const nodeId of downstream) {
         const node = nodeMap.get(nodeId)!;
         const baseVal = baselineMeans[nodeId];
-        const intVal = mean(result.samples[nodeId]);
-        const absoluteChange = intVal - baseVal;
+        const { mean: absoluteChange, standardError } = pairedDifference(
+          result.samples[nodeId],
+          baseline.samples[nodeId]
+        );
+        const intVal = baseVal + absoluteChange;
         const pctChange = baseVal !== 0
-          ? ((intVal - baseVal) / Math.abs(baseVal)) * 100
+          ? (absoluteChange / Math.abs(baseVal)) * 100
           : 0;
 
         impacts.push({
@@ -147,6 +231,7 @@ export function runSensitivityAnalysis(
           baseline: baseVal,
           intervened: intVal,
           absoluteChange,
+          standardError,
           pctChange,
           units: node.units,
         });
@@ -156,6 +241,7 @@ export function runSensitivityAnalysis(
         level: label,
         multiplier,
         value: interventionValue,
+        ...(category !== undefined ? { category } : {}),
         impacts,
       });
     }
@@ -173,6 +259,7 @@ export function runSensitivityAnalysis(
   const effectStrengths: Map<string, {
     increases: number[];
     decreases: number[];
+    categories: number[]; // Changes from fixing a categorical input to one outcome
     absoluteChanges: number[];
     units?: string;
   }> = new Map();
@@ -186,11 +273,13 @@ export function runSensitivityAnalysis(
       for (const impact of intervention.impacts) {
         const key = `${result.exogenousNodeLabel} → ${impact.nodeLabel}`;
         if (!effectStrengths.has(key)) {
-          effectStrengths.set(key, { increases: [], decreases: [], absoluteChanges: [], units: impact.units });
+          effectStrengths.set(key, { increases: [], decreases: [], categories: [], absoluteChanges: [], units: impact.units });
         }
         const entry = effectStrengths.get(key)!;
         entry.absoluteChanges.push(Math.abs(impact.absoluteChange));
-        if (isIncrease) {
+        if (intervention.category !== undefined) {
+          entry.categories.push(Math.abs(impact.pctChange));
+        } else if (isIncrease) {
           entry.increases.push(Math.abs(impact.pctChange));
         } else {
           entry.decreases.push(Math.abs(impact.pctChange));
@@ -204,11 +293,13 @@ export function runSensitivityAnalysis(
   const asymmetricEffects: { source: string; target: string; increaseEffect: number; decreaseEffect: number }[] = [];
   const bottlenecks: BottleneckWarning[] = [];
 
-  for (const [key, { increases, decreases, absoluteChanges, units }] of effectStrengths) {
+  for (const [key, { increases, decreases, categories, absoluteChanges, units }] of effectStrengths) {
     const [source, target] = key.split(' → ');
     const avgIncrease = increases.length > 0 ? increases.reduce((a, b) => a + b, 0) / increases.length : 0;
     const avgDecrease = decreases.length > 0 ? decreases.reduce((a, b) => a + b, 0) / decreases.length : 0;
-    const avgOverall = (avgIncrease + avgDecrease) / 2;
+    const avgOverall = categories.length > 0
+      ? categories.reduce((a, b) => a + b, 0) / categories.length
+      : (avgIncrease + avgDecrease) / 2;
     const avgAbsoluteChange = absoluteChanges.length > 0 ? absoluteChanges.reduce((a, b) => a + b, 0) / absoluteChanges.length : 0;
 
     if (avgOverall > 5) {
@@ -270,6 +361,30 @@ export function runSensitivityAnalysis(
     }
   }
 
+  // Confounded inputs: the causal 50% increase against the association in the baseline draws
+  const confoundedEffects: ConfoundedEffect[] = [];
+  for (const result of results) {
+    const partners = confoundedPartners(model, result.exogenousNodeId);
+    const largeIntervention = result.interventions.find(i => i.multiplier === 1.5);
+    if (partners.length === 0 || !largeIntervention) continue;
+
+    const inputSamples = baseline.samples[result.exogenousNodeId];
+    for (const node of outputNodes) {
+      if (node.id === result.exogenousNodeId) continue;
+      const baseVal = baselineMeans[node.id];
+      const associated = regressionSlope(inputSamples, baseline.samples[node.id]) * 0.5 * result.priorMean;
+      const impact = largeIntervention.impacts.find(i => i.nodeId === node.id);
+      confoundedEffects.push({
+        exogenousNode: result.exogenousNodeLabel,
+        terminalNode: node.label,
+        confoundedWith: partners.map(p => nodeMap.get(p.nodeId)!.label),
+        causalPctChange: impact?.pctChange ?? 0,
+        associatedPctChange: baseVal !== 0 ? (associated / Math.abs(baseVal)) * 100 : 0,
+        units: node.units,
+      });
+    }
+  }
+
   // Sort by strength
   strongEffects.sort((a, b) => b.avgPctChange - a.avgPctChange);
   weakEffects.sort((a, b) => a.avgPctChange - b.avgPctChange);
@@ -278,12 +393,15 @@ export function runSensitivityAnalysis(
     modelTitle: model.title,
     timestamp: new Date().toISOString(),
     sampleCount,
+    seed,
     results,
+    varianceSources,
     summary: {
       strongEffects: strongEffects.slice(0, 10),
       weakEffects: weakEffects.slice(0, 10),
       asymmetricEffects,
       bottlenecks,
+      confoundedEffects,
     },
   };
 }
@@ -308,7 +426,8 @@ function formatAbsoluteChange(value: number, units?: string): string {
 export function formatAnalysisForLLM(analysis: SensitivityAnalysis): string {
   let output = `# Sensitivity Analysis Report\n\n`;
   output += `Model: ${analysis.modelTitle}\n`;
-  output += `Samples: ${analysis.sampleCount}\n\n`;
+  output += `Samples: ${analysis.sampleCount} (baseline and every intervention share the same draws)\n`;
+  output += `Seed: ${analysis.seed}\n\n`;
 
   output += `## Summary\n\n`;
 
@@ -349,18 +468,38 @@ export function formatAnalysisForLLM(analysis: SensitivityAnalysis): string {
     output += `\n`;
   }
 
+  if (analysis.summary.confoundedEffects.length > 0) {
+    output += `### Confounded Inputs - Causal effect vs association in the data\n`;
+    output += `These inputs share an unobserved shock with other nodes, so the data would show a different effect than intervening does:\n\n`;
+    for (const c of analysis.summary.confoundedEffects) {
+      output += `- ${c.exogenousNode} → ${c.terminalNode} (confounded with ${c.confoundedWith.join(', ')}): 50% increase causes ${c.causalPctChange.toFixed(1)}%, the data would suggest ${c.associatedPctChange.toFixed(1)}%\n`;
+    }
+    output += `\n`;
+  }
+
+  if (analysis.varianceSources.length > 0) {
+    output += `### Variance Sources - Uncertain effect parameters vs exogenous noise\n`;
+    for (const v of analysis.varianceSources) {
+      const parameters = v.parameterShare * 100;
+      output += `- ${v.nodeLabel}: ${parameters.toFixed(0)}% from effect parameters, ${(100 - parameters).toFixed(0)}% from exogenous noise (sd ${Math.sqrt(v.variance).toFixed(2)} ${v.units || ''})\n`;
+    }
+    output += `\n`;
+  }
+
   output += `## Detailed Results\n\n`;
 
   for (const result of analysis.results) {
     output += `### ${result.exogenousNodeLabel} (baseline: ${result.priorMean.toFixed(2)} ${result.units || ''})\n\n`;
 
     for (const intervention of result.interventions) {
-      output += `**${intervention.level}** (${intervention.value.toFixed(2)}):\n`;
+      output += intervention.category !== undefined
+        ? `**${intervention.level}**:\n`
+        : `**${intervention.level}** (${intervention.value.toFixed(2)}):\n`;
       const significantImpacts = intervention.impacts.filter(i => Math.abs(i.pctChange) > 0.5);
       if (significantImpacts.length > 0) {
         for (const impact of significantImpacts) {
           const sign = impact.pctChange >= 0 ? '+' : '';
-          output += `  - ${impact.nodeLabel}: ${sign}${impact.pctChange.toFixed(1)}% (${impact.baseline.toFixed(1)} → ${impact.intervened.toFixed(1)} ${impact.units || ''})\n`;
+          output += `  - ${impact.nodeLabel}: ${sign}${impact.pctChange.toFixed(1)}% (${impact.baseline.toFixed(1)} → ${impact.intervened.toFixed(1)} ±${impact.standardError.toFixed(1)} ${impact.units || ''})\n`;
         }
       } else {
         output += `  - No significant downstream changes\n`;
@@ -0,0 +1,234 @@
+/**
+ * Snapshot Module
+ *
+ * Everything the UI shows for one combination of model, interventions,
+ * evidence and settings: the intervened run, its no-intervention baseline,
+ * the temporal trajectory and any counterfactual, all on one set of draws.
+ * Runs unchanged in the propagation worker and on the main thread.
+ *
+ * Given the previous snapshot and what changed since, only the changed nodes
+ * and their descendants are re-propagated. Temporal and counterfactual runs
+ * are always recomputed in full. The intervened and baseline runs use the
+ * typed-array engine, which gives the same samples as propagateWithSampling.
+ *
+ * With a precision target instead of a fixed sample count, batches of draws
+ * are added until every terminal node's summaries are that precise or the
+ * time budget runs out. Under Latin hypercube or Sobol sampling the batches
+ * are independent replicates, and once there are enough of them the standard
+ * errors are measured from their spread instead of bounded by formula.
+ */
+
+import { drawNoise, type NodeSamples, type LoopNodeReport, type ExogenousNoise, type PropagationResult } from './inference';
+import { propagateWithSamplingFast } from './fastInference';
+import { simulateTemporal, type TemporalResult } from './temporal';
+import { runCounterfactual, type CounterfactualResult } from './counterfactual';
+import { batchStandardErrors, relativeStandardError } from './distributions';
+import type { ParameterDraws } from './parameters';
+import { createRandom, seedFromValues } from './random';
+import type { SamplingMethod } from './sampling';
+import type { CausalModel, Intervention, Observation, RenderableDistribution } from '@/types/causal';
+
+export interface SnapshotRequest {
+  model: CausalModel;
+  interventions: Map<string, Intervention>;
+  evidence: Map<string, Observation>;
+  counterfactuals: Map<string, number>;
+  sampleCount: number;
+  tickCount: number;
+  seed: number;
+  sampling?: SamplingMethod; // Default: random
+  precision?: PrecisionTarget; // Replaces sampleCount when set
+  previous?: SnapshotReuse;
+}
+
+export interface PrecisionTarget {
+  relativeError: number; // Largest allowed standard error of a terminal node's mean or percentile, relative to its scale
+  timeBudgetMs: number;
+  batchSize: number;
+  maxSamples: number;
+}
+
+export const DEFAULT_PRECISION_TARGET: PrecisionTarget = {
+  relativeError: 0.01,
+  timeBudgetMs: 1000,
+  batchSize: 500,
+  maxSamples: 20_000,
+};
+
+// The previous snapshot must come from the same seed, sampling settings and graph structure
+export interface SnapshotReuse {
+  snapshot: ReusableSnapshot;
+  changedMechanisms: string[]; // Nodes whose own equation or noise changed (edge effects, moderation, combiner, joint mechanisms, confounders)
+  changedInterventions: string[]; // Nodes whose intervention was set, changed or cleared
+}
+
+export interface Snapshot {
+  nodeSamples: NodeSamples;
+  baselineSamples: NodeSamples; // No interventions, same draws as nodeSamples (for paired deltas)
+  nodeDistributions: Map<string, RenderableDistribution>;
+  temporalResult: TemporalResult | null;
+  counterfactualResult: CounterfactualResult | null;
+  feedbackLoops: string[][];
+  equilibrium: Record<string, LoopNodeReport>;
+  effectiveSampleSize: number;
+  conditioned: boolean; // nodeDistributions are weighted by evidence
+  evidenceWeights: number[] | null; // Per-sample weights behind a conditioned snapshot
+  samplesUsed: number;
+  precisionReached: boolean | null; // Null when the sample count was fixed
+  errorsAreBounds: boolean; // Standard errors are independent-draw formulas applied to Latin hypercube or Sobol draws, so they overstate the error
+}
+
+// Batch spreads this many replicates apart are trusted over the formulas' bound
+const MIN_REPLICATES = 8;
+
+// Draws for batch 0 are the fixed-count draws for the same seed; later batches get derived
+// seeds, so stratified or Sobol batches are independent randomized replicates
+function drawBatch(model: CausalModel, batchSize: number, seed: number, batch: number, sampling?: SamplingMethod): ExogenousNoise {
+  return drawNoise(model, batchSize, createRandom(batch === 0 ? seed : seedFromValues([seed, batch])), sampling);
+}
+
+function appendNoise(noise: ExogenousNoise, batch: ExogenousNoise): ExogenousNoise {
+  const values: NodeSamples = {};
+  const uniforms: NodeSamples = {};
+  const parameters: ParameterDraws = {};
+  for (const nodeId of Object.keys(noise.values)) values[nodeId] = noise.values[nodeId].concat(batch.values[nodeId]);
+  for (const nodeId of Object.keys(noise.uniforms)) uniforms[nodeId] = noise.uniforms[nodeId].concat(batch.uniforms[nodeId]);
+  for (const key of Object.keys(noise.parameters)) parameters[key] = noise.parameters[key].concat(batch.parameters[key]);
+  return { sampleCount: noise.sampleCount + batch.sampleCount, values, uniforms, parameters };
+}
+
+// Each distribution with its standard errors measured from the spread between batches
+function withBatchErrors(result: PropagationResult, batchSize: number): PropagationResult {
+  const distributions = new Map<string, RenderableDistribution>();
+  for (const [nodeId, distribution] of result.distributions) {
+    const standardErrors = batchStandardErrors(result.samples[nodeId], batchSize, result.weights ?? undefined);
+    distributions.set(nodeId, standardErrors ? { ...distribution, standardErrors } : distribution);
+  }
+  return { ...result, distributions };
+}
+
+// Terminal nodes are what the user reads off; models without any are judged on every node
+function isPrecise(model: CausalModel, distributions: Map<string, RenderableDistribution>, target: PrecisionTarget) {
+  const terminals = model.nodes.filter(n => n.type === 'terminal');
+  return (terminals.length > 0 ? terminals : model.nodes).every(node => {
+    const distribution = distributions.get(node.id);
+    return !distribution || relativeStandardError(distribution) <= target.relativeError;
+  });
+}
+
+// The parts of a snapshot a later one can carry over; temporal and counterfactual runs are always redone
+export type ReusableSnapshot = Pick<
+  Snapshot,
+  'nodeSamples' | 'baselineSamples' | 'nodeDistributions' | 'equilibrium' | 'conditioned' | 'samplesUsed'
+>;
+
+/**
+ * Just what a later snapshot can reuse, so keeping or posting it for an
+ * incremental recompute leaves the rest behind
+ */
+export function reusableSnapshot(snapshot: Snapshot): ReusableSnapshot {
+  const { nodeSamples, baselineSamples, nodeDistributions, equilibrium, conditioned, samplesUsed } = snapshot;
+  return { nodeSamples, baselineSamples, nodeDistributions, equilibrium, conditioned, samplesUsed };
+}
+
+export function computeSnapshot(request: SnapshotRequest): Snapshot {
+  const { model, interventions, evidence, counterfactuals, tickCount, seed, sampling, precision, previous } = request;
+
+  // Earlier samples are only reusable when drawn at the same sample count
+  const reusable = (sampleCount: number) =>
+    previous && previous.snapshot.samplesUsed === sampleCount ? previous : undefined;
+
+  const propagate = (noise: ExogenousNoise): PropagationResult => {
+    const reuse = reusable(noise.sampleCount);
+    return propagateWithSamplingFast(model, interventions, noise.sampleCount, {
+      noise,
+      evidence,
+      previous: reuse && {
+        samples: reuse.snapshot.nodeSamples,
+        distributions: reuse.snapshot.nodeDistributions,
+        equilibrium: reuse.snapshot.equilibrium,
+        weighted: reuse.snapshot.conditioned,
+        changed: [...reuse.changedMechanisms, ...reuse.changedInterventions],
+      },
+    });
+  };
+
+  // One set of draws shared by the intervened run, its baseline and the temporal run
+  const correlatedDraws = sampling === 'lhs' || sampling === 'sobol';
+  let noise: ExogenousNoise;
+  let result: PropagationResult;
+  let precisionReached: boolean | null = null;
+  let errorsAreBounds = correlatedDraws;
+  if (!precision) {
+    noise = drawNoise(model, request.sampleCount, createRandom(seed), sampling);
+    result = propagate(noise);
+  } else {
+    const replicated = (noise: ExogenousNoise) => correlatedDraws && noise.sampleCount >= MIN_REPLICATES * precision.batchSize;
+    const propagateBatches = (noise: ExogenousNoise) =>
+      replicated(noise) ? withBatchErrors(propagate(noise), precision.batchSize) : propagate(noise);
+
+    // Resume from the previous snapshot's batches so its samples can be reused
+    const startTime = performance.now();
+    let batches = Math.max(1, Math.round((previous?.snapshot.samplesUsed ?? 0) / precision.batchSize));
+    noise = drawBatch(model, precision.batchSize, seed, 0, sampling);
+    for (let batch = 1; batch < batches; batch++) {
+      noise = appendNoise(noise, drawBatch(model, precision.batchSize, seed, batch, sampling));
+    }
+    let runStart = performance.now();
+    result = propagateBatches(noise);
+    precisionReached = isPrecise(model, result.distributions, precision);
+
+    while (!precisionReached && noise.sampleCount + precision.batchSize <= precision.maxSamples) {
+      // Stop if the next, larger run would overrun the budget
+      const lastRunMs = performance.now() - runStart;
+      const nextRunMs = lastRunMs * (noise.sampleCount + precision.batchSize) / noise.sampleCount;
+      if (performance.now() - startTime + nextRunMs > precision.timeBudgetMs) break;
+
+      noise = appendNoise(noise, drawBatch(model, precision.batchSize, seed, batches++, sampling));
+      runStart = performance.now();
+      result = propagateBatches(noise);
+      precisionReached = isPrecise(model, result.distributions, precision);
+    }
+    errorsAreBounds = correlatedDraws && !replicated(noise);
+    console.log(`[Snapshot] ${noise.sampleCount} samples in ${batches} batches, precision ${precisionReached ? 'reached' : 'not reached'} in ${(performance.now() - startTime).toFixed(0)}ms`);
+  }
+
+  const sampleCount = noise.sampleCount;
+  const { samples, distributions, loops, equilibrium, weights, effectiveSampleSize } = result;
+  // Interventions never touch the baseline, so only mechanism changes invalidate it
+  const baselineReuse = reusable(sampleCount);
+  const baselineSamples = interventions.size > 0
+    ? propagateWithSamplingFast(model, new Map(), sampleCount, {
+        noise,
+        previous: baselineReuse && {
+          samples: baselineReuse.snapshot.baselineSamples,
+          distributions: new Map(),
+          equilibrium: {},
+          weighted: false,
+          changed: baselineReuse.changedMechanisms,
+        },
+      }).samples
+    : samples;
+  const temporalResult = tickCount > 0
+    ? simulateTemporal(model, interventions, tickCount, sampleCount, { noise })
+    : null;
+  const counterfactualResult = counterfactuals.size > 0
+    ? runCounterfactual(model, { evidence, hypothetical: counterfactuals, interventions }, sampleCount, { noise })
+    : null;
+
+  return {
+    nodeSamples: samples,
+    baselineSamples,
+    nodeDistributions: distributions,
+    temporalResult,
+    counterfactualResult,
+    feedbackLoops: loops,
+    equilibrium,
+    effectiveSampleSize,
+    conditioned: weights !== null,
+    evidenceWeights: weights,
+    samplesUsed: sampleCount,
+    precisionReached,
+    errorsAreBounds,
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Conditional Tables
+ *
+ * A categorical parent's samples are category indices, so reading them as
+ * quantities ("hawkish = 0, neutral = 1, dovish = 2" through a linear effect)
+ * means nothing. A table instead gives each category of a parent, or each
+ * combination of categories across several parents, a cell of its own.
+ *
+ * A cell either scales the target like any other effect, or replaces the
+ * target's distribution: the base draw keeps its quantile under the target's
+ * prior and is read off the cell's distribution instead, so runs on the same
+ * noise stay paired. For a binary or categorical target the cell's outcome
+ * probabilities replace the prior ones, which makes the table an ordinary
+ * conditional probability table.
+ */
+
+import type { Distribution, TableCell } from '@/types/causal';
+import { cdf, quantile, outcomeCumulative, outcomeLabels, validateDistribution } from './distributions';
+
+// Keeps the quantile of a base draw off the ends of the cell's distribution
+const QUANTILE_MARGIN = 1e-9;
+
+/**
+ * The category a sampled parent value falls in, or -1 if it is not one of 0..count-1
+ */
+export function categoryIndex(value: number, count: number): number {
+  const k = Math.round(value);
+  return k >= 0 && k < count ? k : -1;
+}
+
+/**
+ * Cell of a table over several categorical parents, the first parent varying
+ * slowest, or -1 if any value is not a category
+ */
+export function tableCellIndex(values: number[], counts: number[]): number {
+  let index = 0;
+  for (let j = 0; j < counts.length; j++) {
+    const k = categoryIndex(values[j], counts[j]);
+    if (k < 0) return -1;
+    index = index * counts[j] + k;
+  }
+  return index;
+}
+
+/**
+ * Target value a cell gives for one sample. A distribution cell needs the
+ * target's prior to find the base draw's quantile; without it, or without a
+ * cell, the base value passes through.
+ */
+export function applyTableCell(baseValue: number, cell: TableCell | undefined, targetPrior?: Distribution): number {
+  if (!cell) return baseValue;
+  if (cell.distribution) {
+    if (!targetPrior) return baseValue;
+    const u = Math.min(Math.max(cdf(targetPrior, baseValue), QUANTILE_MARGIN), 1 - QUANTILE_MARGIN);
+    return quantile(cell.distribution, u);
+  }
+  return baseValue * (cell.multiplier ?? 1);
+}
+
+/**
+ * Cumulative outcome probabilities a cell sets for a binary or categorical
+ * target, or null if the cell only scales
+ */
+export function cellOutcomes(cell: TableCell | undefined): number[] | null {
+  const cumulative = cell?.distribution ? outcomeCumulative(cell.distribution) : [];
+  return cumulative.length > 0 ? cumulative : null;
+}
+
+/**
+ * Labels of every combination of the given parents' categories, in cell
+ * order (first parent varying slowest)
+ */
+export function tableRowLabels(parentCategories: string[][]): string[][] {
+  return parentCategories.reduce<string[][]>(
+    (rows, categories) => rows.flatMap(row => categories.map(category => [...row, category])),
+    [[]]
+  );
+}
+
+/**
+ * Why a table's cells cannot be used for a target with the given prior, or
+ * null if they can. Binary and categorical targets need their outcome
+ * probabilities in every distribution cell.
+ */
+export function validateTableCells(cells: TableCell[], expectedCount: number, targetPrior: Distribution): string | null {
+  if (!Array.isArray(cells) || cells.length !== expectedCount) {
+    return `Give one cell per ${expectedCount === 1 ? 'category' : 'row'}: expected ${expectedCount}, got ${cells?.length ?? 0}`;
+  }
+  const outcomes = outcomeLabels(targetPrior);
+  for (let k = 0; k < cells.length; k++) {
+    const { multiplier, distribution } = cells[k];
+    if (distribution) {
+      const error = validateDistribution(distribution);
+      if (error) return `Row ${k + 1}: ${error}`;
+      if (outcomes && outcomeLabels(distribution)?.length !== outcomes.length) {
+        return `Row ${k + 1}: give a probability for each of the ${outcomes.length} outcomes`;
+      }
+    } else if (multiplier !== undefined && !(isFinite(multiplier) && multiplier >= 0)) {
+      return `Row ${k + 1}: multipliers must be non-negative numbers`;
+    }
+  }
+  return null;
+}
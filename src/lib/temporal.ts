@@ -0,0 +1,255 @@
+/**
+ * Temporal Simulation Module
+ *
+ * Runs the model forward over discrete ticks so edge delays and decay rates
+ * shape when an intervention's impact arrives, peaks and fades.
+ */
+
+import {
+  propagationOrder,
+  findFeedbackLoops,
+  partitionParentEdges,
+  combineParentEffects,
+  drawChildOutcome,
+  isDiscreteOutcome,
+  boundSamples,
+  drawNoise,
+  DEFAULT_SAMPLE_COUNT,
+  DEFAULT_MAX_EQUILIBRIUM_ROUNDS,
+  DEFAULT_EQUILIBRIUM_TOLERANCE,
+  type NodeSamples,
+  type PropagationOptions,
+  type ParentEdges,
+} from './inference';
+import { expectedValue, outcomeCumulative } from './distributions';
+import { effectAt } from './parameters';
+import { normalizeIntervention, replacementSamples, transformSamples, evaluatePolicy } from './interventions';
+import type { CausalModel, CausalEdge, Intervention, InterventionMap } from '@/types/causal';
+
+export const DEFAULT_TICK_COUNT = 20;
+
+// A node counts as "affected" once its mean moves more than this fraction of its baseline
+const ARRIVAL_THRESHOLD = 0.01;
+
+export interface TickSummary {
+  tick: number;
+  mean: number;
+  p5: number;
+  p95: number;
+}
+
+export interface NodeTrajectory {
+  nodeId: string;
+  baselineMean: number;
+  ticks: TickSummary[];
+  arrivalTick: number | null; // First tick where the mean moves noticeably from baseline
+  peakTick: number | null; // Tick with the largest absolute change from baseline
+  peakChange: number; // Signed change from baseline at the peak
+  halfLifeTick: number | null; // First tick after the peak where the change has halved
+}
+
+export interface TemporalResult {
+  tickCount: number;
+  sampleCount: number;
+  baseline: NodeSamples;
+  trajectories: Record<string, number[][]>; // nodeId -> [tick][sample]
+  summaries: Record<string, NodeTrajectory>;
+}
+
+function summarizeTick(tick: number, samples: number[]): TickSummary {
+  const n = samples.length;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    tick,
+    mean: samples.reduce((a, b) => a + b, 0) / n,
+    p5: sorted[Math.min(Math.floor(n * 0.05), n - 1)],
+    p95: sorted[Math.min(Math.floor(n * 0.95), n - 1)],
+  };
+}
+
+/**
+ * Locate arrival, peak and half-life ticks for a node's mean trajectory
+ */
+export function summarizeTrajectory(
+  nodeId: string,
+  baselineMean: number,
+  ticks: TickSummary[]
+): NodeTrajectory {
+  const threshold = Math.max(Math.abs(baselineMean) * ARRIVAL_THRESHOLD, 1e-9);
+  const changes = ticks.map(t => t.mean - baselineMean);
+
+  const arrivalIndex = changes.findIndex(c => Math.abs(c) > threshold);
+  if (arrivalIndex < 0) {
+    return { nodeId, baselineMean, ticks, arrivalTick: null, peakTick: null, peakChange: 0, halfLifeTick: null };
+  }
+
+  let peakIndex = arrivalIndex;
+  for (let t = arrivalIndex; t < changes.length; t++) {
+    if (Math.abs(changes[t]) > Math.abs(changes[peakIndex])) peakIndex = t;
+  }
+
+  const peakChange = changes[peakIndex];
+  let halfLifeTick: number | null = null;
+  for (let t = peakIndex + 1; t < changes.length; t++) {
+    if (Math.abs(changes[t]) <= Math.abs(peakChange) / 2) {
+      halfLifeTick = ticks[t].tick;
+      break;
+    }
+  }
+
+  return {
+    nodeId,
+    baselineMean,
+    ticks,
+    arrivalTick: ticks[arrivalIndex].tick,
+    peakTick: ticks[peakIndex].tick,
+    peakChange,
+    halfLifeTick,
+  };
+}
+
+/**
+ * Multi-tick Monte Carlo simulation
+ *
+ * Interventions take hold at tick 0 and persist. Each node keeps the same base
+ * draw across ticks, so trajectories differ only through the edges:
+ * - An edge transmits its parent's change from baseline `delay` ticks late
+ *   (before that, the target sees the parent's baseline value)
+ * - Once arrived, the transmitted change is attenuated by (1 - decayRate) per tick
+ *
+ * With every delay and decay rate at zero, each tick reproduces the static
+ * propagation for the same base draws. Inside a feedback loop, an edge whose
+ * parent is computed later in the same tick reads that parent's previous tick,
+ * so loops unfold one step per tick.
+ */
+export function simulateTemporal(
+  model: CausalModel,
+  interventionSpecs: InterventionMap,
+  tickCount: number = DEFAULT_TICK_COUNT,
+  sampleCount: number = DEFAULT_SAMPLE_COUNT,
+  options: PropagationOptions = {}
+): TemporalResult {
+  const sorted = propagationOrder(model);
+  const hasLoops = findFeedbackLoops(model).length > 0;
+  const nodeMap = new Map(model.nodes.map(n => [n.id, n]));
+  const priorMeans = new Map(model.nodes.map(n => [n.id, expectedValue(n.distribution)]));
+  const priorMeanOf = (nodeId: string) => priorMeans.get(nodeId) ?? 0;
+  const parentEdges = new Map<string, CausalEdge[]>();
+  const parents = new Map<string, ParentEdges>();
+  for (const node of model.nodes) {
+    parentEdges.set(node.id, model.edges.filter(e => e.target === node.id));
+    parents.set(node.id, partitionParentEdges(parentEdges.get(node.id)!, node.mechanisms));
+  }
+
+  const interventions = new Map<string, Intervention>(
+    [...interventionSpecs].map(([id, spec]) => [id, normalizeIntervention(spec)])
+  );
+
+  console.log('[Temporal] Simulating', tickCount, 'ticks with', sampleCount, 'samples and interventions:', [...interventions.entries()]);
+
+  // Base draws are shared by the baseline and every tick
+  const noise = options.noise ?? drawNoise(model, sampleCount, options.rng, options.sampling);
+  const baseDraws = noise.values;
+  // Sample i's edge effects, with its draws of any uncertain parameters (the same at every tick)
+  const effectOf = (i: number) => (edge: CausalEdge) => effectAt(edge, noise.parameters, i);
+
+  // Mechanism replacements ('set' / 'distribution') hold for every tick
+  const replacements = new Map<string, number[]>();
+  for (const [nodeId, intervention] of interventions) {
+    const replaced = baseDraws[nodeId] && replacementSamples(intervention, baseDraws[nodeId]);
+    if (replaced) replacements.set(nodeId, replaced);
+  }
+
+  // Evaluate every node for one tick; inputFor resolves what an edge delivers for sample i
+  const evaluateTick = (
+    activeInterventions: Map<string, Intervention>,
+    inputFor: (edge: CausalEdge, current: NodeSamples, i: number) => number
+  ): NodeSamples => {
+    const current: NodeSamples = {};
+
+    for (const node of sorted) {
+      const intervention = activeInterventions.get(node.id);
+      const replaced = intervention && replacements.get(node.id);
+      if (replaced) {
+        current[node.id] = replaced;
+        continue;
+      }
+
+      const edges = parentEdges.get(node.id) || [];
+      if (intervention?.type === 'policy') {
+        // Rule inputs arrive through the parent edges, so they respect delays too
+        current[node.id] = evaluatePolicy(intervention, sampleCount, (parentId, i) => {
+          const edge = edges.find(e => e.source === parentId);
+          return edge ? inputFor(edge, current, i) : current[parentId]?.[i] ?? priorMeans.get(parentId) ?? 0;
+        });
+        continue;
+      }
+      // Binary and categorical children redraw their outcome with the parents' log-odds shift
+      const uniforms = node.type !== 'exogenous' && isDiscreteOutcome(node) ? noise.uniforms[node.id] : undefined;
+      const cumulative = uniforms ? outcomeCumulative(node.distribution) : [];
+      const values = node.type === 'exogenous'
+        ? [...baseDraws[node.id]]
+        : uniforms
+          ? uniforms.map((u, i) =>
+              drawChildOutcome(cumulative, parents.get(node.id)!, edge => inputFor(edge, current, i), priorMeanOf, u, effectOf(i))
+            )
+          : baseDraws[node.id].map((baseValue, i) =>
+              combineParentEffects(
+                baseValue,
+                parents.get(node.id)!,
+                edge => inputFor(edge, current, i),
+                priorMeanOf,
+                node.combiner,
+                node.distribution,
+                effectOf(i)
+              )
+            );
+
+      const bounded = boundSamples(nodeMap.get(node.id)!, values);
+      current[node.id] = intervention ? transformSamples(intervention, bounded) : bounded;
+    }
+
+    return current;
+  };
+
+  // Steady state before any intervention: every edge sees its parent's current value
+  let baseline = evaluateTick(new Map(), (edge, current, i) => current[edge.source]?.[i] ?? priorMeans.get(edge.source) ?? 0);
+
+  // Feedback loops need repeated passes to settle
+  for (let round = 0; hasLoops && round < DEFAULT_MAX_EQUILIBRIUM_ROUNDS; round++) {
+    const previous = baseline;
+    baseline = evaluateTick(new Map(), (edge, current, i) => current[edge.source]?.[i] ?? previous[edge.source][i]);
+    const settled = sorted.every(node => baseline[node.id].every((value, i) =>
+      Math.abs(value - previous[node.id][i]) <= DEFAULT_EQUILIBRIUM_TOLERANCE * Math.max(Math.abs(value), 1)
+    ));
+    if (settled) break;
+  }
+
+  const history: NodeSamples[] = [];
+  for (let tick = 0; tick < tickCount; tick++) {
+    const state = evaluateTick(interventions, (edge, current, i) => {
+      const base = baseline[edge.source]?.[i] ?? 0;
+      const lag = tick - Math.max(0, Math.round(edge.delay ?? 0));
+      if (lag < 0) return base;
+
+      const previous = tick > 0 ? history[tick - 1][edge.source]?.[i] ?? base : base;
+      const parentValue = lag === tick
+        ? current[edge.source]?.[i] ?? previous
+        : history[lag][edge.source]?.[i] ?? base;
+      const attenuation = Math.pow(1 - Math.min(Math.max(edge.decayRate ?? 0, 0), 1), lag);
+      return base + (parentValue - base) * attenuation;
+    });
+    history.push(state);
+  }
+
+  const trajectories: Record<string, number[][]> = {};
+  const summaries: Record<string, NodeTrajectory> = {};
+  for (const node of sorted) {
+    trajectories[node.id] = history.map(state => state[node.id]);
+    const baselineMean = baseline[node.id].reduce((a, b) => a + b, 0) / sampleCount;
+    const ticks = trajectories[node.id].map((samples, tick) => summarizeTick(tick, samples));
+    summaries[node.id] = summarizeTrajectory(node.id, baselineMean, ticks);
+  }
+
+  return { tickCount, sampleCount, baseline, trajectories, summaries };
+}
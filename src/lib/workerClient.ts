@@ -0,0 +1,135 @@
+/**
+ * Propagation Worker Client
+ *
+ * Runs worker jobs with one lane per job kind. Starting a job on a lane
+ * supersedes the one in flight: that worker is terminated (the only way to
+ * interrupt a synchronous Monte Carlo run) and its promise resolves to null.
+ * Where workers are unavailable (server rendering, tests, a worker that fails
+ * to load) jobs run synchronously on the calling thread instead.
+ */
+
+import { computeSnapshot } from './snapshot';
+import { runSensitivityAnalysis } from './sensitivity';
+import type { WorkerJobs, WorkerJobKind, WorkerRequest, WorkerResponse, WorkerResult } from '@/workers/protocol';
+
+interface PendingJob {
+  id: number;
+  message: WorkerRequest;
+  resolve: (result: WorkerResult | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface Lane {
+  worker: Worker | null;
+  pending: PendingJob | null;
+}
+
+const lanes = new Map<WorkerJobKind, Lane>();
+let nextJobId = 1;
+let workersBroken = false;
+
+function runInline(message: WorkerRequest): WorkerResult {
+  switch (message.kind) {
+    case 'snapshot':
+      return computeSnapshot(message.request);
+    case 'sensitivity':
+      return runSensitivityAnalysis(
+        message.request.model,
+        message.request.sampleCount,
+        message.request.seed,
+        message.request.sampling
+      );
+  }
+}
+
+function settleInline(job: PendingJob) {
+  try {
+    job.resolve(runInline(job.message));
+  } catch (error) {
+    job.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+function spawnWorker(lane: Lane): Worker {
+  const worker = new Worker(new URL('../workers/propagation.worker.ts', import.meta.url));
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const job = lane.pending;
+    if (!job || job.id !== event.data.id) return; // Answer to a superseded job
+    lane.pending = null;
+    if (event.data.ok) {
+      job.resolve(event.data.result);
+    } else {
+      job.reject(new Error(event.data.error));
+    }
+  };
+
+  // Raised when the worker script cannot load or dies outside a job
+  worker.onerror = (event) => {
+    console.error('[Worker] Propagation worker failed, falling back to the main thread:', event.message);
+    event.preventDefault();
+    workersBroken = true;
+    worker.terminate();
+    lane.worker = null;
+    const job = lane.pending;
+    lane.pending = null;
+    if (job) settleInline(job);
+  };
+
+  return worker;
+}
+
+function laneFor(kind: WorkerJobKind): Lane {
+  if (!lanes.has(kind)) lanes.set(kind, { worker: null, pending: null });
+  return lanes.get(kind)!;
+}
+
+/**
+ * Cancel the job in flight on a lane, if any. Its promise resolves to null.
+ */
+export function cancelJob(kind: WorkerJobKind) {
+  const lane = laneFor(kind);
+  const job = lane.pending;
+  if (!job) return;
+
+  console.log(`[Worker] Cancelling ${kind} job ${job.id}`);
+  lane.worker?.terminate();
+  lane.worker = null;
+  lane.pending = null;
+  job.resolve(null);
+}
+
+/**
+ * Run a job off the main thread, superseding any job of the same kind.
+ * Resolves to null if a later job supersedes this one before it finishes.
+ */
+export function runJob<K extends WorkerJobKind>(
+  kind: K,
+  request: WorkerJobs[K]['request']
+): Promise<WorkerJobs[K]['result'] | null> {
+  cancelJob(kind);
+
+  const id = nextJobId++;
+  const message = { id, kind, request } as WorkerRequest;
+
+  return new Promise<WorkerResult | null>((resolve, reject) => {
+    const job: PendingJob = { id, message, resolve, reject };
+
+    if (typeof Worker === 'undefined' || workersBroken) {
+      settleInline(job);
+      return;
+    }
+
+    const lane = laneFor(kind);
+    try {
+      lane.worker = lane.worker ?? spawnWorker(lane);
+      lane.pending = job;
+      lane.worker.postMessage(message);
+    } catch (error) {
+      // Uncloneable payload or worker construction failure
+      console.error('[Worker] Could not post job, running on the main thread:', error);
+      lane.pending = null;
+      settleInline(job);
+    }
+  }) as Promise<WorkerJobs[K]['result'] | null>;
+}
@@ -2,8 +2,26 @@
 
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import type { CausalModel, RenderableDistribution, EffectFunction } from '@/types/causal';
-import { propagateWithSampling, DEFAULT_SAMPLE_COUNT, type NodeSamples } from '@/lib/inference';
+import type {
+  CausalModel,
+  RenderableDistribution,
+  EffectFunction,
+  Observation,
+  Intervention,
+  SavedPolicy,
+  ParentCombiner,
+  JointMechanism,
+  Confounder,
+} from '@/types/causal';
+import { DEFAULT_SAMPLE_COUNT, type NodeSamples, type LoopNodeReport } from '@/lib/inference';
+import type { TemporalResult } from '@/lib/temporal';
+import type { CounterfactualResult } from '@/lib/counterfactual';
+import { normalizeIntervention, describeIntervention, interventionError } from '@/lib/interventions';
+import { generateSeed } from '@/lib/random';
+import { runJob } from '@/lib/workerClient';
+import type { SamplingMethod } from '@/lib/sampling';
+import { DEFAULT_PRECISION_TARGET, reusableSnapshot, type ReusableSnapshot } from '@/lib/snapshot';
+import type { ImportedRun } from '@/lib/runExport';
 
 interface CausalGraphStore {
   // Model from LLM
@@ -15,14 +33,36 @@ interface CausalGraphStore {
   query: string;
 
   // Intervention state
-  interventions: Map<string, number>;
+  interventions: Map<string, Intervention>;
+
+  // Evidence state (observations to condition on; a node is either observed or intervened)
+  evidence: Map<string, Observation>;
+
+  // Counterfactual state ("had X been x instead", evaluated against the evidence)
+  counterfactuals: Map<string, number>;
 
   // Computed state (from Monte Carlo)
   nodeSamples: NodeSamples;
+  baselineSamples: NodeSamples; // No interventions, same draws as nodeSamples (for paired deltas)
   nodeDistributions: Map<string, RenderableDistribution>;
+  temporalResult: TemporalResult | null;
+  counterfactualResult: CounterfactualResult | null;
+  feedbackLoops: string[][];
+  equilibrium: Record<string, LoopNodeReport>;
+  effectiveSampleSize: number; // Samples' worth of information left after conditioning on evidence
+  isComputing: boolean; // A recompute is running in the worker; computed state is from the previous one
+  conditioned: boolean; // nodeDistributions are weighted by evidence
+  evidenceWeights: number[] | null; // Per-sample weights behind conditioned distributions
+  samplesUsed: number; // Differs from sampleCount in auto mode
+  precisionReached: boolean | null; // Auto mode only: terminal nodes met the precision target within the time budget
+  errorsAreBounds: boolean; // Distribution standard errors are upper bounds (Latin hypercube or Sobol without enough auto batches)
 
   // Settings
   sampleCount: number;
+  autoSampling: boolean; // Add sample batches until results are precise, instead of using sampleCount
+  samplingMethod: SamplingMethod; // How exogenous noise is drawn
+  tickCount: number; // 0 = static snapshot only
+  seed: number; // Same seed + model + interventions = same numbers
 
   // UI state
   selectedNodeId: string | null;
@@ -33,24 +73,57 @@ interface CausalGraphStore {
   // Actions
   setQuery: (query: string) => void;
   setModel: (model: CausalModel) => void;
+  loadRun: (run: ImportedRun) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
 
-  setIntervention: (nodeId: string, value: number) => void;
+  setIntervention: (nodeId: string, intervention: number | Intervention) => void;
   clearIntervention: (nodeId: string) => void;
   clearAllInterventions: () => void;
 
+  setEvidence: (nodeId: string, observation: Observation) => void;
+  clearEvidence: (nodeId: string) => void;
+  clearAllEvidence: () => void;
+
+  setCounterfactual: (nodeId: string, value: number) => void;
+  clearCounterfactual: (nodeId: string) => void;
+  clearAllCounterfactuals: () => void;
+
   selectNode: (nodeId: string | null) => void;
   selectEdge: (edgeId: string | null) => void;
   hoverNode: (nodeId: string | null) => void;
   toggleInsights: () => void;
   updateEdgeEffect: (sourceId: string, targetId: string, effect: EffectFunction) => void;
+  updateEdgeModeration: (sourceId: string, targetId: string, moderates: string | undefined) => void;
+  updateNodeCombiner: (nodeId: string, combiner: ParentCombiner) => void;
+  updateNodeMechanisms: (nodeId: string, mechanisms: JointMechanism[]) => void;
+  updateConfounders: (confounders: Confounder[]) => void;
+  savePolicy: (policy: SavedPolicy) => void;
+  deletePolicy: (policyId: string) => void;
   setSampleCount: (count: number) => void;
+  setAutoSampling: (auto: boolean) => void;
+  setSamplingMethod: (method: SamplingMethod) => void;
+  setTickCount: (count: number) => void;
+  setSeed: (seed: number) => void;
+  rerollSeed: () => void;
 
   // Internal
   recompute: () => void;
 }
 
+// Incremental recompute bookkeeping: the reusable part of the last snapshot applied
+// and what has changed since. A null change set forces the next recompute to start from scratch.
+let lastSnapshot: ReusableSnapshot | null = null;
+let changesSinceSnapshot: { mechanisms: Set<string>; interventions: Set<string> } | null = null;
+
+function markChanged(kind: 'mechanisms' | 'interventions', nodeIds: Iterable<string>) {
+  for (const nodeId of nodeIds) changesSinceSnapshot?.[kind].add(nodeId);
+}
+
+function invalidateSnapshot() {
+  changesSinceSnapshot = null;
+}
+
 export const useCausalGraphStore = create<CausalGraphStore>()(
   subscribeWithSelector((set, get) => ({
     // Initial state
@@ -59,9 +132,27 @@ export const useCausalGraphStore = create<CausalGraphStore>()(
     error: null,
     query: '',
     interventions: new Map(),
+    evidence: new Map(),
+    counterfactuals: new Map(),
     nodeSamples: {},
+    baselineSamples: {},
     nodeDistributions: new Map(),
+    temporalResult: null,
+    counterfactualResult: null,
+    feedbackLoops: [],
+    equilibrium: {},
+    effectiveSampleSize: DEFAULT_SAMPLE_COUNT,
+    isComputing: false,
+    conditioned: false,
+    evidenceWeights: null,
+    samplesUsed: DEFAULT_SAMPLE_COUNT,
+    precisionReached: null,
+    errorsAreBounds: false,
     sampleCount: DEFAULT_SAMPLE_COUNT,
+    autoSampling: false,
+    samplingMethod: 'random',
+    tickCount: 0,
+    seed: generateSeed(),
     selectedNodeId: null,
     selectedEdgeId: null,
     hoveredNodeId: null,
@@ -75,6 +166,32 @@ export const useCausalGraphStore = create<CausalGraphStore>()(
       console.log('[Store] Setting model:', model.title);
       console.log('[Store] Model has', model.nodes.length, 'nodes and', model.edges.length, 'edges');
       set({ model, error: null });
+      invalidateSnapshot();
+      get().recompute();
+    },
+
+    // An imported run replaces the model and every setting that decides its numbers
+    loadRun: ({ model, settings }) => {
+      if (!settings) {
+        get().setModel(model);
+        return;
+      }
+      console.log('[Store] Loading run:', model.title, 'seed', settings.seed);
+      set({
+        model,
+        error: null,
+        seed: settings.seed,
+        sampleCount: settings.sampleCount,
+        autoSampling: settings.autoSampling,
+        samplingMethod: settings.sampling,
+        tickCount: settings.tickCount,
+        interventions: settings.interventions,
+        evidence: settings.evidence,
+        counterfactuals: settings.counterfactuals,
+        selectedNodeId: null,
+        selectedEdgeId: null,
+      });
+      invalidateSnapshot();
       get().recompute();
     },
 
@@ -85,11 +202,22 @@ export const useCausalGraphStore = create<CausalGraphStore>()(
     setError: (error) => set({ error, isLoading: false }),
 
     // Intervention actions
-    setIntervention: (nodeId, value) => {
-      console.log('[Store] Setting intervention:', nodeId, '=', value);
+    setIntervention: (nodeId, spec) => {
+      const intervention = normalizeIntervention(spec);
+      const { model } = get();
+      const problem = model ? interventionError(model, nodeId, intervention) : null;
+      if (problem) {
+        console.warn('[Store] Rejecting intervention:', problem);
+        set({ error: problem });
+        return;
+      }
+      console.log('[Store] Setting intervention:', nodeId, describeIntervention(intervention));
       const interventions = new Map(get().interventions);
-      interventions.set(nodeId, value);
-      set({ interventions });
+      interventions.set(nodeId, intervention);
+      const evidence = new Map(get().evidence);
+      evidence.delete(nodeId);
+      set({ interventions, evidence });
+      markChanged('interventions', [nodeId]);
       get().recompute();
     },
 
@@ -98,15 +226,65 @@ export const useCausalGraphStore = create<CausalGraphStore>()(
       const interventions = new Map(get().interventions);
       interventions.delete(nodeId);
       set({ interventions });
+      markChanged('interventions', [nodeId]);
       get().recompute();
     },
 
     clearAllInterventions: () => {
       console.log('[Store] Clearing all interventions');
+      markChanged('interventions', get().interventions.keys());
       set({ interventions: new Map() });
       get().recompute();
     },
 
+    // Evidence actions
+    setEvidence: (nodeId, observation) => {
+      console.log('[Store] Setting evidence:', nodeId, observation);
+      const evidence = new Map(get().evidence);
+      evidence.set(nodeId, observation);
+      const interventions = new Map(get().interventions);
+      if (interventions.delete(nodeId)) markChanged('interventions', [nodeId]);
+      set({ evidence, interventions });
+      get().recompute();
+    },
+
+    clearEvidence: (nodeId) => {
+      console.log('[Store] Clearing evidence:', nodeId);
+      const evidence = new Map(get().evidence);
+      evidence.delete(nodeId);
+      set({ evidence });
+      get().recompute();
+    },
+
+    clearAllEvidence: () => {
+      console.log('[Store] Clearing all evidence');
+      set({ evidence: new Map() });
+      get().recompute();
+    },
+
+    // Counterfactual actions
+    setCounterfactual: (nodeId, value) => {
+      console.log('[Store] Setting counterfactual:', nodeId, '=', value);
+      const counterfactuals = new Map(get().counterfactuals);
+      counterfactuals.set(nodeId, value);
+      set({ counterfactuals });
+      get().recompute();
+    },
+
+    clearCounterfactual: (nodeId) => {
+      console.log('[Store] Clearing counterfactual:', nodeId);
+      const counterfactuals = new Map(get().counterfactuals);
+      counterfactuals.delete(nodeId);
+      set({ counterfactuals });
+      get().recompute();
+    },
+
+    clearAllCounterfactuals: () => {
+      console.log('[Store] Clearing all counterfactuals');
+      set({ counterfactuals: new Map() });
+      get().recompute();
+    },
+
     // UI actions
     selectNode: (nodeId) => {
       console.log('>>> [Store] selectNode called with:', nodeId);
@@ -119,9 +297,32 @@ export const useCausalGraphStore = create<CausalGraphStore>()(
     hoverNode: (nodeId) => set({ hoveredNodeId: nodeId }),
     toggleInsights: () => set((state) => ({ showInsights: !state.showInsights })),
     setSampleCount: (count) => {
-      set({ sampleCount: count });
+      set({ sampleCount: count, autoSampling: false });
+      invalidateSnapshot();
+      get().recompute();
+    },
+    setAutoSampling: (autoSampling) => {
+      set({ autoSampling });
+      invalidateSnapshot();
       get().recompute();
     },
+    setSamplingMethod: (samplingMethod) => {
+      console.log('[Store] Setting sampling method:', samplingMethod);
+      set({ samplingMethod });
+      invalidateSnapshot();
+      get().recompute();
+    },
+    setTickCount: (count) => {
+      set({ tickCount: count });
+      get().recompute();
+    },
+    setSeed: (seed) => {
+      console.log('[Store] Setting seed:', seed);
+      set({ seed });
+      invalidateSnapshot();
+      get().recompute();
+    },
+    rerollSeed: () => get().setSeed(generateSeed()),
 
     // Edge effect update
     updateEdgeEffect: (sourceId, targetId, effect) => {
@@ -136,26 +337,132 @@ export const useCausalGraphStore = create<CausalGraphStore>()(
       );
 
       set({ model: { ...model, edges: updatedEdges } });
+      markChanged('mechanisms', [targetId]);
       get().recompute();
     },
 
-    // Recompute distributions
+    // Point an edge at another edge into the same target (moderation), or back to a direct effect
+    updateEdgeModeration: (sourceId, targetId, moderates) => {
+      const { model } = get();
+      if (!model) return;
+
+      console.log('[Store] Updating edge moderation:', sourceId, '->', targetId, 'moderates', moderates ?? '(none)');
+      const updatedEdges = model.edges.map((edge) => {
+        if (edge.source !== sourceId || edge.target !== targetId) return edge;
+        if (moderates) return { ...edge, moderates, relationship: 'moderates' as const };
+        return {
+          ...edge,
+          moderates: undefined,
+          relationship: edge.relationship === 'moderates' ? 'causes' as const : edge.relationship,
+        };
+      });
+
+      set({ model: { ...model, edges: updatedEdges } });
+      markChanged('mechanisms', [targetId]);
+      get().recompute();
+    },
+
+    updateNodeCombiner: (nodeId, combiner) => {
+      const { model } = get();
+      if (!model) return;
+
+      console.log('[Store] Updating parent combiner:', nodeId, combiner);
+      const updatedNodes = model.nodes.map((node) => (node.id === nodeId ? { ...node, combiner } : node));
+
+      set({ model: { ...model, nodes: updatedNodes } });
+      markChanged('mechanisms', [nodeId]);
+      get().recompute();
+    },
+
+    updateNodeMechanisms: (nodeId, mechanisms) => {
+      const { model } = get();
+      if (!model) return;
+
+      console.log('[Store] Updating joint mechanisms:', nodeId, mechanisms.map((m) => `${m.type}(${m.parents.join(', ')})`));
+      const updatedNodes = model.nodes.map((node) =>
+        node.id === nodeId ? { ...node, mechanisms: mechanisms.length > 0 ? mechanisms : undefined } : node
+      );
+
+      set({ model: { ...model, nodes: updatedNodes } });
+      markChanged('mechanisms', [nodeId]);
+      get().recompute();
+    },
+
+    // Confounded nodes are redrawn together, so any node in an old or new
+    // confounder may have different noise
+    updateConfounders: (confounders) => {
+      const { model } = get();
+      if (!model) return;
+
+      console.log('[Store] Updating confounders:', confounders.map((c) => `${c.nodes[0]} <-> ${c.nodes[1]} (${c.correlation})`));
+      const touched = [...(model.confounders || []), ...confounders].flatMap((c) => c.nodes);
+
+      set({ model: { ...model, confounders: confounders.length > 0 ? confounders : undefined } });
+      markChanged('mechanisms', touched);
+      get().recompute();
+    },
+
+    // Policy rules live on the model so they travel with its JSON
+    savePolicy: (policy) => {
+      const { model } = get();
+      if (!model) return;
+
+      const problem = interventionError(model, policy.nodeId, policy.rule);
+      if (problem) {
+        console.warn('[Store] Rejecting policy:', problem);
+        set({ error: problem });
+        return;
+      }
+
+      console.log('[Store] Saving policy:', policy.label, 'on', policy.nodeId);
+      const policies = (model.policies || []).filter((p) => p.id !== policy.id);
+      set({ model: { ...model, policies: [...policies, policy] } });
+    },
+
+    deletePolicy: (policyId) => {
+      const { model } = get();
+      if (!model) return;
+
+      console.log('[Store] Deleting policy:', policyId);
+      set({ model: { ...model, policies: (model.policies || []).filter((p) => p.id !== policyId) } });
+    },
+
+    // Recompute distributions in the worker; a newer recompute cancels this one.
+    // Only nodes downstream of what changed since the last snapshot are re-propagated.
     recompute: () => {
-      const { model, interventions, sampleCount } = get();
+      const { model, interventions, evidence, counterfactuals, sampleCount, autoSampling, samplingMethod, tickCount, seed } = get();
       if (!model) return;
 
-      console.log('[Store] Recomputing distributions with', interventions.size, 'interventions,', sampleCount, 'samples');
+      const previous = lastSnapshot && changesSinceSnapshot
+        ? {
+            snapshot: lastSnapshot,
+            changedMechanisms: [...changesSinceSnapshot.mechanisms],
+            changedInterventions: [...changesSinceSnapshot.interventions],
+          }
+        : undefined;
+
+      console.log('[Store] Recomputing distributions with', interventions.size, 'interventions,', evidence.size, 'observations,', autoSampling ? 'auto' : sampleCount, 'samples,', samplingMethod, 'draws, seed', seed, previous ? '(incremental)' : '(full)');
       const startTime = performance.now();
+      set({ isComputing: true });
 
-      try {
-        const { samples, distributions } = propagateWithSampling(model, interventions, sampleCount);
-        const elapsed = performance.now() - startTime;
-        console.log('[Store] Propagation complete in', elapsed.toFixed(1), 'ms');
-        set({ nodeSamples: samples, nodeDistributions: distributions });
-      } catch (error) {
-        console.error('[Store] Recomputation failed:', error);
-        // Don't crash - just log the error
-      }
+      const precision = autoSampling ? DEFAULT_PRECISION_TARGET : undefined;
+      runJob('snapshot', {
+        model, interventions, evidence, counterfactuals, sampleCount, tickCount, seed, sampling: samplingMethod, precision, previous,
+      })
+        .then((snapshot) => {
+          if (!snapshot) return; // Superseded; the newer run will clear isComputing
+          const elapsed = performance.now() - startTime;
+          console.log('[Store] Propagation complete in', elapsed.toFixed(1), 'ms');
+          lastSnapshot = reusableSnapshot(snapshot);
+          changesSinceSnapshot = { mechanisms: new Set(), interventions: new Set() };
+          set({ ...snapshot, isComputing: false });
+        })
+        .catch((error) => {
+          console.error('[Store] Recomputation failed:', error);
+          // Don't crash - just log the error
+          invalidateSnapshot();
+          set({ isComputing: false });
+        });
     },
   }))
 );
@@ -166,6 +473,10 @@ export const useQuery = () => useCausalGraphStore((s) => s.query);
 export const useIsLoading = () => useCausalGraphStore((s) => s.isLoading);
 export const useError = () => useCausalGraphStore((s) => s.error);
 export const useInterventions = () => useCausalGraphStore((s) => s.interventions);
+export const useEvidence = () => useCausalGraphStore((s) => s.evidence);
+export const useCounterfactuals = () => useCausalGraphStore((s) => s.counterfactuals);
+export const useEffectiveSampleSize = () => useCausalGraphStore((s) => s.effectiveSampleSize);
+export const useIsComputing = () => useCausalGraphStore((s) => s.isComputing);
 export const useSelectedNodeId = () => useCausalGraphStore((s) => s.selectedNodeId);
 export const useSelectedEdgeId = () => useCausalGraphStore((s) => s.selectedEdgeId);
 export const useHoveredNodeId = () => useCausalGraphStore((s) => s.hoveredNodeId);
@@ -178,3 +489,12 @@ export const useNodeSamples = (nodeId: string) =>
   useCausalGraphStore((s) => s.nodeSamples[nodeId]);
 
 export const useSampleCount = () => useCausalGraphStore((s) => s.sampleCount);
+export const useSamplesUsed = () => useCausalGraphStore((s) => s.samplesUsed);
+export const useTickCount = () => useCausalGraphStore((s) => s.tickCount);
+export const useSeed = () => useCausalGraphStore((s) => s.seed);
+
+export const useNodeEquilibrium = (nodeId: string) =>
+  useCausalGraphStore((s) => s.equilibrium[nodeId]);
+
+export const useNodeTrajectory = (nodeId: string) =>
+  useCausalGraphStore((s) => s.temporalResult?.summaries[nodeId]);
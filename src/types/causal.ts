@@ -5,7 +5,15 @@ export type Distribution =
   | ContinuousDistribution
   | BoundedDistribution
   | CountDistribution
-  | RateDistribution;
+  | RateDistribution
+  | UniformDistribution
+  | TriangularDistribution
+  | TruncatedNormalDistribution
+  | StudentTDistribution
+  | WeibullDistribution
+  | ExponentialDistribution
+  | MixtureDistribution
+  | EmpiricalDistribution;
 
 export interface BinaryDistribution {
   type: 'binary';
@@ -46,38 +54,149 @@ export interface RateDistribution {
   beta: number; // Beta distribution beta
 }
 
+export interface UniformDistribution {
+  type: 'uniform';
+  min: number;
+  max: number;
+}
+
+export interface TriangularDistribution {
+  type: 'triangular';
+  min: number;
+  max: number;
+  mode: number;
+}
+
+export interface TruncatedNormalDistribution {
+  type: 'truncatedNormal';
+  mean: number; // Of the normal before truncation
+  stdDev: number;
+  min?: number; // Omit for no lower bound
+  max?: number; // Omit for no upper bound
+}
+
+export interface StudentTDistribution {
+  type: 'studentT';
+  df: number; // Degrees of freedom; lower means heavier tails
+  location: number;
+  scale: number;
+}
+
+export interface WeibullDistribution {
+  type: 'weibull';
+  shape: number; // k
+  scale: number; // λ
+}
+
+export interface ExponentialDistribution {
+  type: 'exponential';
+  rate: number;
+}
+
+export interface MixtureDistribution {
+  type: 'mixture';
+  components: Distribution[];
+  weights: number[]; // Relative weights, normalized when sampling
+}
+
+export interface EmpiricalDistribution {
+  type: 'empirical';
+  samples?: number[]; // Observed values; draws interpolate between them
+  histogram?: { edges: number[]; counts: number[] }; // Used when samples is absent; uniform within each bin
+}
+
 // Effect Functions
 export type EffectFunction =
   | LinearEffect
   | LogisticEffect
   | MultiplicativeEffect
-  | ThresholdEffect;
+  | ThresholdEffect
+  | PiecewiseEffect
+  | HillEffect
+  | DecayEffect
+  | PowerEffect
+  | ExpressionEffect
+  | TableEffect;
+
+// A numeric effect parameter: a point value, or a distribution when the value itself is uncertain
+export type EffectParameter = number | Distribution;
+
+// An effect with every uncertain parameter fixed to a number, as the engines apply it
+export type PointEffect<E extends EffectFunction = EffectFunction> = E extends unknown
+  ? { [K in keyof E]: Exclude<E[K], Distribution> }
+  : never;
 
 export interface LinearEffect {
   type: 'linear';
-  coefficient: number;
-  intercept?: number;
-  saturation?: number; // Optional tanh saturation
+  coefficient: EffectParameter;
+  intercept?: EffectParameter;
+  saturation?: EffectParameter; // Optional tanh saturation
 }
 
 export interface LogisticEffect {
   type: 'logistic';
-  coefficient: number;
-  threshold: number;
+  coefficient: EffectParameter;
+  threshold: EffectParameter;
 }
 
 export interface MultiplicativeEffect {
   type: 'multiplicative';
-  factor: number;
-  baseline?: number;
+  factor: EffectParameter;
+  baseline?: EffectParameter;
 }
 
 export interface ThresholdEffect {
   type: 'threshold';
-  cutoff: number;
-  below: number;
-  above: number;
-  smoothness?: number; // Sigmoid smoothness (default: 2)
+  cutoff: EffectParameter;
+  below: EffectParameter;
+  above: EffectParameter;
+  smoothness?: EffectParameter; // Sigmoid smoothness (default: 2)
+}
+
+export interface HillEffect {
+  type: 'hill';
+  maxEffect: EffectParameter; // Multiplier change from no parent to full saturation (negative for inhibition)
+  halfSaturation: EffectParameter; // Parent value giving half the maximum response (EC50 / Michaelis constant)
+  hillCoefficient?: EffectParameter; // Steepness; 1 is Michaelis–Menten (default: 1)
+}
+
+export interface DecayEffect {
+  type: 'decay';
+  rate: EffectParameter; // Decay per 100% rise of the parent above its prior mean
+  floor?: EffectParameter; // Multiplier the effect decays towards (default: 0)
+}
+
+export interface PowerEffect {
+  type: 'power';
+  exponent: EffectParameter; // Elasticity: a 1% rise in the parent moves the target by about exponent %
+}
+
+export interface ExpressionEffect {
+  type: 'expression';
+  expression: string; // Formula for the target value over parent, base, parentMean and the constants
+  constants?: Record<string, number>; // Named values usable in the expression
+}
+
+// One cell of a conditional table: scale the target, or give it its own distribution
+export interface TableCell {
+  multiplier?: number; // Target scaled by this (default 1)
+  distribution?: Distribution; // Target drawn from this instead, at the base draw's quantile
+}
+
+export interface TableEffect {
+  type: 'table';
+  cells: TableCell[]; // One per category of a categorical (or binary) parent, in category order
+}
+
+export interface EffectKnot {
+  x: number; // Parent value
+  multiplier: number; // Target multiplier at that parent value
+}
+
+export interface PiecewiseEffect {
+  type: 'piecewise';
+  knots: EffectKnot[]; // Held flat beyond the first and last knot
+  interpolation?: 'linear' | 'monotone'; // Monotone cubic never overshoots the knots (default: linear)
 }
 
 // Circuit Breakers
@@ -92,6 +211,22 @@ export interface CircuitBreakers {
 export type NodeType = 'exogenous' | 'endogenous' | 'terminal' | 'moderator' | 'mediator';
 export type NodeShape = 'circle' | 'octagon' | 'diamond' | 'rectangle';
 
+// How a node folds its parents' contributions together
+export type ParentCombiner = 'multiplicative' | 'additive';
+
+// A mechanism that reads several parents at once, replacing their edges' own effects
+export type JointMechanismType = 'product' | 'min' | 'max' | 'geometricMean' | 'expression' | 'table';
+
+export interface JointMechanism {
+  type: JointMechanismType;
+  parents: string[]; // Source ids of edges into this node (at least two)
+  weights?: number[]; // Per-parent exponents for product and geometricMean (default: 1 each)
+  expression?: string; // For 'expression': formula over base, the parent ids and <id>_mean
+  constants?: Record<string, number>; // Named values usable in the expression
+  categoryCounts?: number[]; // For 'table': number of categories of each parent
+  cells?: TableCell[]; // For 'table': one per combination of parent categories, the first parent varying slowest
+}
+
 export interface CausalNode {
   id: string;
   label: string;
@@ -102,6 +237,8 @@ export interface CausalNode {
   units?: string;
   distribution: Distribution;
   circuitBreakers?: CircuitBreakers;
+  combiner?: ParentCombiner; // Defaults to multiplicative
+  mechanisms?: JointMechanism[]; // Interactions between parents
 }
 
 // Edge Types
@@ -118,9 +255,18 @@ export interface CausalEdge {
   weight: EdgeWeight;
   delay?: number; // Ticks before effect manifests
   decayRate?: number; // Effect decay per tick (0-1)
+  moderates?: string; // Source id of the edge into the same target whose strength this edge scales
   effect: EffectFunction;
 }
 
+// A latent common cause of two nodes, drawn as a bidirected arc: their noise
+// is correlated through a Gaussian copula, so each keeps its own distribution
+export interface Confounder {
+  nodes: [string, string];
+  correlation: number; // Of the two nodes' normal scores, between -1 and 1 exclusive
+  label?: string; // The shared unobserved shock
+}
+
 // Zone definition
 export interface Zone {
   label: string;
@@ -135,7 +281,9 @@ export interface CausalModel {
   zones: Record<string, Zone>;
   nodes: CausalNode[];
   edges: CausalEdge[];
+  confounders?: Confounder[];
   keyInsights: string[];
+  policies?: SavedPolicy[]; // Authored in the UI; not generated by the LLM
 }
 
 // Renderable Distribution (after KDE)
@@ -151,6 +299,94 @@ export interface RenderableDistribution {
     p75: number;
     p95: number;
   };
+  // Monte Carlo standard errors: how much the summaries above would move with another seed
+  standardErrors: {
+    mean: number;
+    percentiles: {
+      p5: number;
+      p25: number;
+      p50: number;
+      p75: number;
+      p95: number;
+    };
+  };
+  // Binary and categorical nodes: the share of samples in each outcome, in outcome order
+  categories?: OutcomeShare[];
+}
+
+export interface OutcomeShare {
+  label: string;
+  probability: number;
+  standardError: number;
+}
+
+// Interventions (do-operator variants)
+export type Intervention =
+  | SetIntervention
+  | ShiftIntervention
+  | ScaleIntervention
+  | DistributionIntervention
+  | PolicyIntervention;
+
+export interface SetIntervention {
+  type: 'set';
+  value: number; // Pin every sample to this value
+}
+
+export interface ShiftIntervention {
+  type: 'shift';
+  delta: number; // x + delta, keeping the node's natural variation
+}
+
+export interface ScaleIntervention {
+  type: 'scale';
+  factor: number; // x * factor, keeping the node's natural variation
+}
+
+export interface DistributionIntervention {
+  type: 'distribution';
+  distribution: Distribution; // Replace the node's mechanism with draws from this
+}
+
+// Policy rule: value = intercept + sum(coefficient * (parent - reference)), per sample
+export interface PolicyIntervention {
+  type: 'policy';
+  intercept: number;
+  terms: PolicyTerm[];
+  min?: number; // Optional clamp on the rule's output
+  max?: number;
+}
+
+export interface PolicyTerm {
+  nodeId: string; // Must be a parent of the intervened node
+  coefficient: number;
+  reference?: number; // Value the parent is measured against (default 0)
+}
+
+// A named policy rule saved with the model
+export interface SavedPolicy {
+  id: string;
+  label: string;
+  nodeId: string;
+  rule: PolicyIntervention;
+}
+
+// A plain number is shorthand for a 'set' intervention
+export type InterventionMap = Map<string, number | Intervention>;
+
+// Evidence (observational conditioning, as opposed to do-interventions)
+export type Observation = PointObservation | RangeObservation;
+
+export interface PointObservation {
+  type: 'point';
+  value: number;
+  tolerance?: number; // Measurement noise std dev (default: a fraction of the node's spread)
+}
+
+export interface RangeObservation {
+  type: 'range';
+  min?: number; // Open-ended when omitted
+  max?: number;
 }
 
 // Node state for runtime
@@ -159,12 +395,14 @@ export interface NodeState {
   samples: number[];
   distribution: RenderableDistribution;
   isIntervened: boolean;
-  interventionValue: number | null;
+  intervention: Intervention | null;
+  observation: Observation | null;
 }
 
 // Graph state for runtime
 export interface GraphState {
   model: CausalModel;
   nodeStates: Record<string, NodeState>;
-  interventions: Map<string, number>;
+  interventions: Map<string, Intervention>;
+  evidence: Map<string, Observation>;
 }
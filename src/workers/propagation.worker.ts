@@ -0,0 +1,36 @@
+/**
+ * Propagation Worker
+ *
+ * Runs Monte Carlo propagation and sensitivity analysis off the main thread.
+ * Jobs run to completion one at a time; the client cancels a superseded job
+ * by terminating the worker and starting a fresh one.
+ */
+
+import { computeSnapshot } from '@/lib/snapshot';
+import { runSensitivityAnalysis } from '@/lib/sensitivity';
+import type { WorkerRequest, WorkerResponse, WorkerResult } from './protocol';
+
+function runJob(message: WorkerRequest): WorkerResult {
+  switch (message.kind) {
+    case 'snapshot':
+      return computeSnapshot(message.request);
+    case 'sensitivity':
+      return runSensitivityAnalysis(
+        message.request.model,
+        message.request.sampleCount,
+        message.request.seed,
+        message.request.sampling
+      );
+  }
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  let response: WorkerResponse;
+  try {
+    response = { id: message.id, ok: true, result: runJob(message) };
+  } catch (error) {
+    response = { id: message.id, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
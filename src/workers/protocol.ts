@@ -0,0 +1,33 @@
+/**
+ * Message protocol between the main thread and the propagation worker.
+ * Every payload is structured-cloneable (Maps survive; functions do not).
+ */
+
+import type { Snapshot, SnapshotRequest } from '@/lib/snapshot';
+import type { SensitivityAnalysis } from '@/lib/sensitivity';
+import type { SamplingMethod } from '@/lib/sampling';
+import type { CausalModel } from '@/types/causal';
+
+export interface SensitivityRequest {
+  model: CausalModel;
+  sampleCount: number;
+  seed: number;
+  sampling?: SamplingMethod; // Default: random
+}
+
+// Each job kind with its request and result payloads
+export interface WorkerJobs {
+  snapshot: { request: SnapshotRequest; result: Snapshot };
+  sensitivity: { request: SensitivityRequest; result: SensitivityAnalysis };
+}
+
+export type WorkerJobKind = keyof WorkerJobs;
+export type WorkerResult = WorkerJobs[WorkerJobKind]['result'];
+
+export type WorkerRequest = {
+  [K in WorkerJobKind]: { id: number; kind: K; request: WorkerJobs[K]['request'] };
+}[WorkerJobKind];
+
+export type WorkerResponse =
+  | { id: number; ok: true; result: WorkerResult }
+  | { id: number; ok: false; error: string };
@@ -0,0 +1,180 @@
+/**
+ * Sampling Strategy Benchmark
+ *
+ * Checks that Latin hypercube and Sobol draws, mapped through each
+ * distribution's inverse CDF, target the same distributions as the random
+ * sampler, then measures how much they shrink the seed-to-seed variance of
+ * the bundled fixtures' terminal node summaries.
+ *
+ * Usage:
+ *   npx tsx tests/bench-sampling.ts                  # 40 seeds per setting
+ *   npx tsx tests/bench-sampling.ts 100              # Custom seed count
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { drawNoise } from '../src/lib/inference';
+import { computeSnapshot } from '../src/lib/snapshot';
+import { SAMPLING_METHODS, type SamplingMethod } from '../src/lib/sampling';
+import { createRandom } from '../src/lib/random';
+import type { CausalModel, Distribution, RenderableDistribution } from '../src/types/causal';
+
+const CHECK_SAMPLES = 20_000;
+const SAMPLE_COUNTS = [100, 1000];
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function moments(values: number[]): { mean: number; sd: number } {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const sd = Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / (values.length - 1));
+  return { mean, sd };
+}
+
+function variance(values: number[]): number {
+  return moments(values).sd ** 2;
+}
+
+// A one-node model, so drawNoise gives draws from a single distribution
+function draws(distribution: Distribution, sampling: SamplingMethod, seed: number): number[] {
+  const model: CausalModel = {
+    title: 'Check', description: '', zones: {}, edges: [], keyInsights: [],
+    nodes: [{ id: 'x', label: 'X', description: '', zone: 'check', type: 'exogenous', shape: 'circle', distribution }],
+  };
+  return drawNoise(model, CHECK_SAMPLES, createRandom(seed), sampling).values.x;
+}
+
+// ============================================================================
+// Inverse CDF checks
+// ============================================================================
+
+const CHECKS: [string, Distribution][] = [
+  ['binary p=0.3', { type: 'binary', p: 0.3 }],
+  ['categorical', { type: 'categorical', categories: ['a', 'b', 'c'], probs: [0.2, 0.5, 0.3] }],
+  ['normal(5, 2)', { type: 'continuous', dist: 'normal', params: [5, 2] }],
+  ['lognormal(1, 0.5)', { type: 'continuous', dist: 'lognormal', params: [1, 0.5] }],
+  ['beta(2, 5)', { type: 'continuous', dist: 'beta', params: [2, 5] }],
+  ['gamma(0.5, 2)', { type: 'continuous', dist: 'gamma', params: [0.5, 2] }],
+  ['gamma(9, 0.5)', { type: 'continuous', dist: 'gamma', params: [9, 0.5] }],
+  ['PERT(0, 100, 20)', { type: 'bounded', min: 0, max: 100, mode: 20 }],
+  ['count λ=4', { type: 'count', lambda: 4 }],
+  ['count λ=50', { type: 'count', lambda: 50 }],
+  ['rate(0.5, 0.5)', { type: 'rate', alpha: 0.5, beta: 0.5 }],
+  ['Student-t(6; 1, 2)', { type: 'studentT', df: 6, location: 1, scale: 2 }],
+  ['truncated normal', { type: 'truncatedNormal', mean: 2, stdDev: 1.5, min: 0 }],
+  ['mixture', {
+    type: 'mixture',
+    components: [{ type: 'continuous', dist: 'normal', params: [0, 1] }, { type: 'weibull', shape: 2, scale: 5 }],
+    weights: [2, 1],
+  }],
+];
+
+function checkInverseCdfs(): number {
+  console.log(`Inverse CDF draws vs random draws (${CHECK_SAMPLES} samples; z-scores of the difference)`);
+  console.log(`${'Distribution'.padEnd(20)} ${'random mean'.padStart(12)} ${'lhs z'.padStart(8)} ${'sobol z'.padStart(8)} ${'sd ratio'.padStart(9)}`);
+
+  let failures = 0;
+  for (const [label, distribution] of CHECKS) {
+    const reference = moments(draws(distribution, 'random', 1));
+    const standardError = reference.sd / Math.sqrt(CHECK_SAMPLES);
+    const z = (method: SamplingMethod) => {
+      const m = moments(draws(distribution, method, 2));
+      return { z: (m.mean - reference.mean) / (standardError * Math.SQRT2), sdRatio: m.sd / reference.sd };
+    };
+    const lhs = z('lhs');
+    const sobol = z('sobol');
+    // Means within 4.5 standard errors, spreads within 5%
+    const passed = [lhs, sobol].every(r => Math.abs(r.z) < 4.5 && Math.abs(r.sdRatio - 1) < 0.05);
+    if (!passed) failures++;
+    console.log(
+      `${passed ? '✓' : '✗'} ${label.padEnd(18)} ${reference.mean.toFixed(4).padStart(12)} ` +
+      `${lhs.z.toFixed(2).padStart(8)} ${sobol.z.toFixed(2).padStart(8)} ${lhs.sdRatio.toFixed(3).padStart(9)}`
+    );
+  }
+  return failures;
+}
+
+// ============================================================================
+// Variance reduction on fixtures
+// ============================================================================
+
+function benchFixture(file: string, seedCount: number) {
+  const model = JSON.parse(fs.readFileSync(file, 'utf-8')) as CausalModel;
+  const terminals = model.nodes.filter(n => n.type === 'terminal').map(n => n.id);
+  console.log(`\n${path.basename(file)}: seed-to-seed variance of terminal summaries, ${seedCount} seeds`);
+  console.log('(variance reduction = random variance / method variance; 4x is worth 4x the samples)');
+
+  const summaries: [string, (d: RenderableDistribution) => number][] = [
+    ['mean', d => d.mean],
+    ['p5', d => d.percentiles.p5],
+    ['p95', d => d.percentiles.p95],
+  ];
+
+  for (const sampleCount of SAMPLE_COUNTS) {
+    const results = new Map<SamplingMethod, Map<string, number>>();
+    for (const { value: sampling } of SAMPLING_METHODS) {
+      suppressLogs();
+      const start = performance.now();
+      const runs = Array.from({ length: seedCount }, (_, seed) => computeSnapshot({
+        model, interventions: new Map(), evidence: new Map(), counterfactuals: new Map(),
+        sampleCount, tickCount: 0, seed: 5000 + seed, sampling,
+      }));
+      const elapsed = (performance.now() - start) / seedCount;
+      restoreLogs();
+
+      const variances = new Map<string, number>();
+      for (const nodeId of terminals) {
+        for (const [label, pick] of summaries) {
+          variances.set(`${nodeId} ${label}`, variance(runs.map(run => pick(run.nodeDistributions.get(nodeId)!))));
+        }
+      }
+      results.set(sampling, variances);
+      console.log(`  ${sampleCount} samples, ${sampling}: ${elapsed.toFixed(1)} ms per snapshot`);
+    }
+
+    const random = results.get('random')!;
+    console.log(`  ${'Summary'.padEnd(30)} ${SAMPLING_METHODS.filter(m => m.value !== 'random').map(m => m.label.padStart(16)).join(' ')}`);
+    for (const key of random.keys()) {
+      const ratios = SAMPLING_METHODS
+        .filter(m => m.value !== 'random')
+        .map(m => `${(random.get(key)! / results.get(m.value)!.get(key)!).toFixed(1)}x`.padStart(16));
+      console.log(`  ${key.padEnd(30)} ${ratios.join(' ')}`);
+    }
+  }
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  const seedCount = Number(process.argv[2]) || 40;
+
+  console.log('='.repeat(70));
+  console.log('SAMPLING STRATEGY BENCHMARK');
+  console.log('='.repeat(70));
+
+  const failures = checkInverseCdfs();
+
+  const fixtures = path.join(__dirname, 'fixtures');
+  for (const file of fs.readdirSync(fixtures).filter(f => f.endsWith('.json'))) {
+    benchFixture(path.join(fixtures, file), seedCount);
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} distributions drawn by inverse CDF disagree with the random sampler`);
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,270 @@
+/**
+ * Confounder Test Suite
+ *
+ * Tests that confounded nodes keep their own distributions while their normal
+ * scores take the given correlation, that stratified sampling keeps them
+ * independent of every other draw, that interventions cut the confounding,
+ * and that adding a confounder changes only the nodes it joins. Also checks
+ * that the reference, typed-array and temporal engines agree, that invalid
+ * correlations are reported, and that sensitivity analysis separates the
+ * causal effect of a confounded input from its association in the data.
+ *
+ * Usage:
+ *   npx tsx tests/test-confounders.ts
+ */
+
+import { drawNoise, propagateWithSampling } from '../src/lib/inference';
+import { propagateWithSamplingFast } from '../src/lib/fastInference';
+import { simulateTemporal } from '../src/lib/temporal';
+import { runSensitivityAnalysis } from '../src/lib/sensitivity';
+import { cholesky, confoundedGroups, validateConfounders } from '../src/lib/confounders';
+import { cdf } from '../src/lib/distributions';
+import { normalQuantile } from '../src/lib/specialFunctions';
+import { createRandom } from '../src/lib/random';
+import type { CausalModel, Confounder } from '../src/types/causal';
+
+const SAMPLE_COUNT = 4000;
+const TOLERANCE = 1e-9;
+const OIL_SHOCK: Confounder = { nodes: ['oil', 'expectations'], correlation: 0.7, label: 'Geopolitical risk' };
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+function average(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function correlation(x: number[], y: number[]): number {
+  const mx = average(x);
+  const my = average(y);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < x.length; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+    syy += (y[i] - my) ** 2;
+  }
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+// Each value's rank as a fraction of the sample, so different scales compare
+function ranks(values: number[]): number[] {
+  const order = values.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const result = new Array<number>(values.length);
+  order.forEach(([, i], r) => { result[i] = (r + 0.5) / values.length; });
+  return result;
+}
+
+// How many cells of a bins × bins grid over the two rank columns hold a draw
+function filledCells(x: number[], y: number[], bins = 16): number {
+  const rx = ranks(x);
+  const ry = ranks(y);
+  return new Set(rx.map((u, i) => Math.floor(u * bins) * bins + Math.floor(ry[i] * bins))).size;
+}
+
+function buildModel(confounders?: Confounder[]): CausalModel {
+  return {
+    title: 'Oil and inflation',
+    description: '',
+    zones: {},
+    keyInsights: [],
+    nodes: [
+      { id: 'oil', label: 'Oil price', description: '', zone: 'inputs', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'lognormal', params: [Math.log(80), 0.25] } },
+      { id: 'expectations', label: 'Inflation expectations', description: '', zone: 'inputs', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'normal', params: [3, 0.8] } },
+      { id: 'wages', label: 'Wage growth', description: '', zone: 'inputs', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'normal', params: [4, 1] } },
+      { id: 'strike', label: 'Strike', description: '', zone: 'inputs', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'binary', p: 0.2 } },
+      { id: 'inflation', label: 'Inflation', description: '', zone: 'outcome', type: 'terminal', shape: 'rectangle',
+        distribution: { type: 'continuous', dist: 'normal', params: [2.5, 0.5] } },
+      { id: 'recession', label: 'Recession', description: '', zone: 'outcome', type: 'terminal', shape: 'rectangle',
+        distribution: { type: 'binary', p: 0.15 } },
+    ],
+    edges: [
+      { source: 'oil', target: 'inflation', relationship: 'causes', style: 'solid', weight: 'normal',
+        effect: { type: 'linear', coefficient: 0.1 } },
+      { source: 'expectations', target: 'inflation', relationship: 'causes', style: 'solid', weight: 'normal',
+        effect: { type: 'linear', coefficient: 0.8 } },
+      { source: 'wages', target: 'inflation', relationship: 'causes', style: 'solid', weight: 'normal',
+        effect: { type: 'linear', coefficient: { type: 'continuous', dist: 'normal', params: [0.3, 0.1] } } },
+      { source: 'strike', target: 'recession', relationship: 'causes', style: 'solid', weight: 'normal',
+        effect: { type: 'logistic', coefficient: 1.5, threshold: 0.5 } },
+      { source: 'oil', target: 'recession', relationship: 'causes', style: 'solid', weight: 'normal',
+        effect: { type: 'linear', coefficient: 0.5 } },
+    ],
+    confounders,
+  };
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testValidation(): number {
+  let failures = 0;
+  const errors = [
+    validateConfounders(buildModel([{ nodes: ['oil', 'missing'], correlation: 0.5 }])),
+    validateConfounders(buildModel([{ nodes: ['oil', 'oil'], correlation: 0.5 }])),
+    validateConfounders(buildModel([{ nodes: ['oil', 'wages'], correlation: 1 }])),
+    validateConfounders(buildModel([OIL_SHOCK, { nodes: ['expectations', 'oil'], correlation: 0.2 }])),
+    validateConfounders(buildModel([
+      { nodes: ['oil', 'expectations'], correlation: 0.9 },
+      { nodes: ['expectations', 'wages'], correlation: 0.9 },
+      { nodes: ['oil', 'wages'], correlation: -0.9 },
+    ])),
+  ];
+  if (!report(errors.every(Boolean), 'invalid confounders are reported', errors.join('; '))) failures++;
+  if (!report(validateConfounders(buildModel([OIL_SHOCK])) === null, 'a valid confounder is accepted')) failures++;
+
+  const lower = cholesky([[1, 0.5], [0.5, 1]]);
+  const exact = !!lower && Math.abs(lower[1][0] - 0.5) < 1e-12 && Math.abs(lower[1][1] - Math.sqrt(0.75)) < 1e-12;
+  if (!report(exact && cholesky([[1, 2], [2, 1]]) === null, 'Cholesky factors positive definite matrices only')) failures++;
+
+  const groups = confoundedGroups(buildModel([{ nodes: ['wages', 'oil'], correlation: 0.3 }, OIL_SHOCK]));
+  if (!report(JSON.stringify(groups) === '[["oil","expectations","wages"]]', 'confounders sharing a node form one group in model order', JSON.stringify(groups))) failures++;
+  return failures;
+}
+
+function testCopula(): number {
+  let failures = 0;
+  const model = buildModel([OIL_SHOCK, { nodes: ['strike', 'wages'], correlation: -0.5 }]);
+  const noise = drawNoise(model, SAMPLE_COUNT, createRandom(11));
+  const [oil, expectations] = [noise.values.oil, noise.values.expectations];
+
+  const logMean = average(oil.map(Math.log));
+  if (!report(Math.abs(logMean - Math.log(80)) < 0.02, 'a confounded node keeps its own distribution', `mean log ${logMean.toFixed(3)}`)) failures++;
+  const strikeShare = average(noise.values.strike);
+  if (!report(Math.abs(strikeShare - 0.2) < 0.025 && noise.uniforms.strike !== undefined, 'a confounded binary node keeps its probability', strikeShare.toFixed(3))) failures++;
+
+  const scores = (values: number[], nodeId: string) =>
+    values.map(v => normalQuantile(cdf(model.nodes.find(n => n.id === nodeId)!.distribution, v)));
+  const rho = correlation(scores(oil, 'oil'), scores(expectations, 'expectations'));
+  if (!report(Math.abs(rho - 0.7) < 0.03, 'normal scores take the confounder\'s correlation', rho.toFixed(3))) failures++;
+  const strikeWages = correlation(noise.values.strike, noise.values.wages);
+  if (!report(strikeWages < -0.2, 'a negative correlation pulls a binary node against its partner', strikeWages.toFixed(3))) failures++;
+
+  // do(oil) cuts the confounder: expectations keep their draws
+  suppressLogs();
+  const baseline = propagateWithSampling(model, new Map(), SAMPLE_COUNT, { noise });
+  const intervened = propagateWithSampling(model, new Map([['oil', 120]]), SAMPLE_COUNT, { noise });
+  restoreLogs();
+  const kept = intervened.samples.expectations.every((v, i) => v === baseline.samples.expectations[i]);
+  if (!report(kept, 'intervening on one node leaves its confounded partner alone')) failures++;
+  return failures;
+}
+
+function testIndependence(): number {
+  let failures = 0;
+  // Wages and inflation come after oil and expectations, so their stratified columns are not the first ones
+  const model = buildModel([{ nodes: ['wages', 'inflation'], correlation: 0.6 }]);
+  for (const sampling of ['lhs', 'sobol'] as const) {
+    const noise = drawNoise(model, SAMPLE_COUNT, createRandom(23), sampling);
+    const { oil, expectations, wages, inflation } = noise.values;
+    const coefficient = Object.values(noise.parameters)[0];
+    const pairs = [[wages, oil], [wages, expectations], [inflation, oil], [inflation, expectations], [inflation, coefficient]];
+    const fewest = Math.min(...pairs.map(([x, y]) => filledCells(x, y)));
+    const strongest = Math.max(...pairs.map(([x, y]) => Math.abs(correlation(ranks(x), ranks(y)))));
+    // 4000 independent draws fill every cell of a 16 × 16 grid
+    if (!report(fewest === 256 && strongest < 0.1, `${sampling}: confounded nodes stay independent of everything else`,
+      `fewest cells filled ${fewest}/256, largest rank correlation ${strongest.toFixed(3)}`)) failures++;
+
+    const rho = correlation(ranks(wages), ranks(inflation));
+    if (!report(rho > 0.5, `${sampling}: confounded nodes still move together`, `rank correlation ${rho.toFixed(3)}`)) failures++;
+  }
+  return failures;
+}
+
+function testStability(): number {
+  let failures = 0;
+  const plain = drawNoise(buildModel(), SAMPLE_COUNT, createRandom(5));
+  const confounded = drawNoise(buildModel([OIL_SHOCK]), SAMPLE_COUNT, createRandom(5));
+
+  const untouched = ['wages', 'strike', 'inflation', 'recession'].every(id =>
+    plain.values[id].every((v, i) => v === confounded.values[id][i]));
+  const sameParameters = Object.keys(plain.parameters).every(key =>
+    plain.parameters[key].every((v, i) => v === confounded.parameters[key][i]));
+  if (!report(untouched && sameParameters, 'a confounder changes only the nodes it joins')) failures++;
+
+  const changed = plain.values.oil.some((v, i) => v !== confounded.values.oil[i]);
+  if (!report(changed, 'confounded nodes are redrawn')) failures++;
+  return failures;
+}
+
+function testEngines(): number {
+  let failures = 0;
+  const model = buildModel([OIL_SHOCK, { nodes: ['strike', 'wages'], correlation: -0.5 }]);
+
+  for (const sampling of ['random', 'lhs'] as const) {
+    const noise = drawNoise(model, SAMPLE_COUNT, createRandom(17), sampling);
+    suppressLogs();
+    const reference = propagateWithSampling(model, new Map(), SAMPLE_COUNT, { noise });
+    const fast = propagateWithSamplingFast(model, new Map(), SAMPLE_COUNT, { noise });
+    const temporal = simulateTemporal(model, new Map(), 2, SAMPLE_COUNT, { noise });
+    restoreLogs();
+
+    for (const nodeId of ['inflation', 'recession']) {
+      const a = reference.samples[nodeId];
+      const fastDelta = Math.max(...a.map((value, i) => Math.abs(value - fast.samples[nodeId][i])));
+      const temporalDelta = Math.max(...a.map((value, i) => Math.abs(value - temporal.baseline[nodeId][i])));
+      if (!report(fastDelta < TOLERANCE, `${nodeId} (${sampling}): fast engine agrees`, `max difference ${fastDelta.toExponential(2)}`)) failures++;
+      if (!report(temporalDelta < TOLERANCE, `${nodeId} (${sampling}): temporal baseline agrees`, `max difference ${temporalDelta.toExponential(2)}`)) failures++;
+    }
+  }
+  return failures;
+}
+
+function testSensitivity(): number {
+  let failures = 0;
+  suppressLogs();
+  const confounded = runSensitivityAnalysis(buildModel([OIL_SHOCK]), 2000, 3);
+  const plain = runSensitivityAnalysis(buildModel(), 2000, 3);
+  restoreLogs();
+
+  const oilInflation = confounded.summary.confoundedEffects.find(c => c.exogenousNode === 'Oil price' && c.terminalNode === 'Inflation');
+  const gap = oilInflation ? oilInflation.associatedPctChange - oilInflation.causalPctChange : 0;
+  if (!report(!!oilInflation && oilInflation.confoundedWith.join() === 'Inflation expectations', 'confounded inputs are listed with their partners')) failures++;
+  if (!report(gap > 5, 'the association overstates the causal effect of a positively confounded input',
+    oilInflation ? `${oilInflation.causalPctChange.toFixed(1)}% causal, ${oilInflation.associatedPctChange.toFixed(1)}% associated` : 'missing')) failures++;
+  if (!report(plain.summary.confoundedEffects.length === 0, 'no confounded inputs without confounders')) failures++;
+  return failures;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('CONFOUNDER TEST SUITE');
+  console.log('='.repeat(70));
+
+  const failures = testValidation() + testCopula() + testIndependence() + testStability() + testEngines() + testSensitivity();
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} confounder checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Confounded nodes keep their distributions, share their shocks and agree across engines');
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,176 @@
+/**
+ * Discrete Outcome Test Suite
+ *
+ * Tests that binary and categorical children stay 0/1 and category indices
+ * under parent effects, that a logistic edge shifts a binary child's log-odds
+ * exactly, that the prior is kept when parents sit at their reference point,
+ * and that the reference, typed-array and temporal engines draw the same
+ * outcomes.
+ *
+ * Usage:
+ *   npx tsx tests/test-discrete.ts
+ */
+
+import { drawNoise, propagateWithSampling } from '../src/lib/inference';
+import { propagateWithSamplingFast } from '../src/lib/fastInference';
+import { simulateTemporal } from '../src/lib/temporal';
+import { outcomeCumulative, shiftedOutcome } from '../src/lib/distributions';
+import { createRandom } from '../src/lib/random';
+import type { CausalModel } from '../src/types/causal';
+
+const SAMPLE_COUNT = 2000;
+const TOLERANCE = 1e-9;
+const GRID = 100000;
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+// Share of an even grid of uniforms that lands in each outcome
+function gridShares(cumulative: number[], shift: number): number[] {
+  const counts = new Array<number>(cumulative.length).fill(0);
+  for (let i = 0; i < GRID; i++) counts[shiftedOutcome(cumulative, shift, (i + 0.5) / GRID)]++;
+  return counts.map(c => c / GRID);
+}
+
+const model: CausalModel = {
+  title: 'Exposure and infection',
+  description: '',
+  zones: {},
+  keyInsights: [],
+  nodes: [
+    { id: 'dose', label: 'Dose', description: '', zone: 'health', type: 'exogenous', shape: 'diamond',
+      distribution: { type: 'continuous', dist: 'normal', params: [10, 3] } },
+    { id: 'infected', label: 'Infected', description: '', zone: 'health', type: 'endogenous', shape: 'rectangle',
+      distribution: { type: 'binary', p: 0.05 } },
+    { id: 'severity', label: 'Severity', description: '', zone: 'health', type: 'terminal', shape: 'rectangle',
+      distribution: { type: 'categorical', categories: ['mild', 'moderate', 'severe'], probs: [0.5, 0.3, 0.2] } },
+  ],
+  edges: [
+    { source: 'dose', target: 'infected', relationship: 'causes', style: 'solid', weight: 'normal',
+      effect: { type: 'logistic', coefficient: 0.3, threshold: 10 } },
+    { source: 'dose', target: 'severity', relationship: 'causes', style: 'solid', weight: 'normal',
+      effect: { type: 'linear', coefficient: 0.8 } },
+    { source: 'infected', target: 'severity', relationship: 'causes', style: 'solid', weight: 'normal',
+      effect: { type: 'logistic', coefficient: 1.5, threshold: 0 } },
+  ],
+};
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testOutcomeShift(): number {
+  let failures = 0;
+  const binary = outcomeCumulative({ type: 'binary', p: 0.05 });
+  const categorical = outcomeCumulative({ type: 'categorical', categories: ['a', 'b', 'c'], probs: [0.5, 0.3, 0.2] });
+
+  const prior = gridShares(categorical, 0);
+  const priorError = Math.max(...[0.5, 0.3, 0.2].map((p, k) => Math.abs(prior[k] - p)));
+  if (!report(priorError < 2 / GRID, 'no shift keeps the prior probabilities', `max error ${priorError.toExponential(2)}`)) failures++;
+
+  const worst = Math.max(...[-3, -0.5, 0.7, 2].map(shift =>
+    Math.abs(gridShares(binary, shift)[1] - sigmoid(Math.log(0.05 / 0.95) + shift))
+  ));
+  if (!report(worst < 2 / GRID, 'binary: a shift adds exactly to the log-odds of true', `max error ${worst.toExponential(2)}`)) failures++;
+
+  const raised = gridShares(categorical, 1);
+  if (!report(raised[2] > 0.2 && raised[0] < 0.5, 'categorical: a positive shift moves probability to later categories', raised.map(p => p.toFixed(3)).join(' / '))) failures++;
+  return failures;
+}
+
+function testPropagation(): number {
+  let failures = 0;
+  const noise = drawNoise(model, SAMPLE_COUNT, createRandom(23));
+
+  suppressLogs();
+  const baseline = propagateWithSampling(model, new Map(), SAMPLE_COUNT, { noise });
+  const atThreshold = propagateWithSampling(model, new Map([['dose', 10]]), SAMPLE_COUNT, { noise });
+  const exposed = propagateWithSampling(model, new Map([['dose', 16]]), SAMPLE_COUNT, { noise });
+  restoreLogs();
+
+  const binaryValues = baseline.samples.infected.every(v => v === 0 || v === 1);
+  const categoryValues = baseline.samples.severity.every(v => v === 0 || v === 1 || v === 2);
+  if (!report(binaryValues, 'binary child samples are 0 or 1')) failures++;
+  if (!report(categoryValues, 'categorical child samples are category indices')) failures++;
+
+  const unshifted = atThreshold.samples.infected.every((v, i) => v === noise.values.infected[i]);
+  if (!report(unshifted, 'parent at the logistic threshold leaves the prior draw unchanged')) failures++;
+
+  const monotone = exposed.samples.infected.every((v, i) => v >= atThreshold.samples.infected[i]);
+  const share = exposed.samples.infected.reduce((a, b) => a + b, 0) / SAMPLE_COUNT;
+  const expected = sigmoid(Math.log(0.05 / 0.95) + 0.3 * 6);
+  const spread = 4 * Math.sqrt((expected * (1 - expected)) / SAMPLE_COUNT);
+  if (!report(monotone, 'raising the parent only turns outcomes on (same uniforms)')) failures++;
+  if (!report(Math.abs(share - expected) < spread, 'P(infected) under do(dose = 16) matches σ(logit p + shift)', `${share.toFixed(3)} vs ${expected.toFixed(3)}`)) failures++;
+
+  const categories = baseline.distributions.get('severity')?.categories ?? [];
+  const total = categories.reduce((a, c) => a + c.probability, 0);
+  if (!report(categories.map(c => c.label).join(',') === 'mild,moderate,severe' && Math.abs(total - 1) < TOLERANCE, 'rendered distribution lists each category\'s share')) failures++;
+  const binaryLabels = baseline.distributions.get('infected')?.categories?.map(c => c.label).join(',');
+  if (!report(binaryLabels === 'false,true', 'binary outcomes are labelled false / true')) failures++;
+  if (!report(baseline.distributions.get('dose')?.categories === undefined, 'continuous nodes have no outcome shares')) failures++;
+  return failures;
+}
+
+function testEngines(): number {
+  let failures = 0;
+  for (const sampling of ['random', 'lhs'] as const) {
+    const noise = drawNoise(model, SAMPLE_COUNT, createRandom(7), sampling);
+
+    suppressLogs();
+    const reference = propagateWithSampling(model, new Map(), SAMPLE_COUNT, { noise });
+    const fast = propagateWithSamplingFast(model, new Map(), SAMPLE_COUNT, { noise });
+    const temporal = simulateTemporal(model, new Map(), 2, SAMPLE_COUNT, { noise });
+    restoreLogs();
+
+    for (const nodeId of ['infected', 'severity']) {
+      const a = reference.samples[nodeId];
+      const fastAgrees = a.every((value, i) => value === fast.samples[nodeId][i]);
+      const temporalAgrees = a.every((value, i) => value === temporal.baseline[nodeId][i]);
+      if (!report(fastAgrees, `${sampling}: ${nodeId} fast engine agrees`)) failures++;
+      if (!report(temporalAgrees, `${sampling}: ${nodeId} temporal baseline agrees`)) failures++;
+    }
+  }
+  return failures;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('DISCRETE OUTCOME TEST SUITE');
+  console.log('='.repeat(70));
+
+  const failures = testOutcomeShift() + testPropagation() + testEngines();
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} discrete outcome checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Binary and categorical nodes draw outcomes from shifted probabilities in every engine');
+  }
+}
+
+main().catch(console.error);
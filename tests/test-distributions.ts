@@ -0,0 +1,208 @@
+/**
+ * Distribution Functions Test Suite
+ *
+ * Tests that pdf, cdf, quantile, support and the moments agree with each other
+ * and with sampleFromDistribution for every Distribution type, and that the
+ * KDE summary of the draws matches a direct kernel sum and sorted percentiles.
+ * Also checks that categorical probabilities summing to a little under 1 still
+ * map the top of the range to the last category.
+ *
+ * Usage:
+ *   npx tsx tests/test-distributions.ts
+ */
+
+import { sampleFromDistribution, pdf, cdf, quantile, support, expectedValue, standardDeviation, samplesToKDE } from '../src/lib/distributions';
+import { createRandom } from '../src/lib/random';
+import type { Distribution } from '../src/types/causal';
+
+const SAMPLE_COUNT = 5000;
+const KS_CRITICAL = 1.63 / Math.sqrt(SAMPLE_COUNT); // 1% level
+const PROBABILITIES = [0.001, 0.05, 0.25, 0.5, 0.75, 0.95, 0.999];
+
+const DISTRIBUTIONS: [string, Distribution][] = [
+  ['binary p=0.3', { type: 'binary', p: 0.3 }],
+  ['categorical', { type: 'categorical', categories: ['low', 'mid', 'high'], probs: [0.2, 0.5, 0.3] }],
+  ['normal(5, 2)', { type: 'continuous', dist: 'normal', params: [5, 2] }],
+  ['lognormal(1, 0.5)', { type: 'continuous', dist: 'lognormal', params: [1, 0.5] }],
+  ['beta(2, 5)', { type: 'continuous', dist: 'beta', params: [2, 5] }],
+  ['gamma(0.5, 2)', { type: 'continuous', dist: 'gamma', params: [0.5, 2] }],
+  ['gamma(9, 0.5)', { type: 'continuous', dist: 'gamma', params: [9, 0.5] }],
+  ['PERT(0, 100, 20)', { type: 'bounded', min: 0, max: 100, mode: 20 }],
+  ['count λ=4', { type: 'count', lambda: 4 }],
+  ['count λ=50', { type: 'count', lambda: 50 }],
+  ['rate(0.5, 0.5)', { type: 'rate', alpha: 0.5, beta: 0.5 }],
+  ['rate(8, 2)', { type: 'rate', alpha: 8, beta: 2 }],
+  ['uniform(-2, 3)', { type: 'uniform', min: -2, max: 3 }],
+  ['triangular(0, 10, 3)', { type: 'triangular', min: 0, max: 10, mode: 3 }],
+  ['truncated normal(2, 1.5) ≥ 0', { type: 'truncatedNormal', mean: 2, stdDev: 1.5, min: 0 }],
+  ['truncated normal(0, 1) in [6, 8]', { type: 'truncatedNormal', mean: 0, stdDev: 1, min: 6, max: 8 }],
+  ['Student-t(6; 1, 2)', { type: 'studentT', df: 6, location: 1, scale: 2 }],
+  ['Student-t(1; 0, 1)', { type: 'studentT', df: 1, location: 0, scale: 1 }],
+  ['Weibull(0.8, 2)', { type: 'weibull', shape: 0.8, scale: 2 }],
+  ['Weibull(3, 10)', { type: 'weibull', shape: 3, scale: 10 }],
+  ['exponential(0.5)', { type: 'exponential', rate: 0.5 }],
+  ['mixture of normals', {
+    type: 'mixture',
+    components: [
+      { type: 'continuous', dist: 'normal', params: [0, 1] },
+      { type: 'continuous', dist: 'normal', params: [6, 2] },
+    ],
+    weights: [3, 1],
+  }],
+  ['mixture of counts', { type: 'mixture', components: [{ type: 'count', lambda: 2 }, { type: 'count', lambda: 12 }], weights: [0.5, 0.5] }],
+  ['empirical samples', { type: 'empirical', samples: [4, 1, 2.5, 7, 2] }],
+  ['empirical histogram', { type: 'empirical', histogram: { edges: [0, 1, 2, 5, 10], counts: [1, 3, 4, 2] } }],
+];
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+// Quantile inverts the CDF (for discrete types: the smallest value whose CDF reaches p)
+function checkQuantiles(dist: Distribution): string | null {
+  const { discrete } = support(dist);
+  for (const p of PROBABILITIES) {
+    const x = quantile(dist, p);
+    if (discrete) {
+      if (cdf(dist, x) < p - 1e-12 || cdf(dist, x - 1) >= p) return `quantile(${p}) = ${x} is not the smallest value with cdf >= p`;
+    } else if (Math.abs(cdf(dist, x) - p) > 1e-8) {
+      return `cdf(quantile(${p})) = ${cdf(dist, x)}`;
+    }
+  }
+  return null;
+}
+
+// Probability masses sum to 1; densities integrate to the CDF's increase between the
+// 1% and 99% quantiles (Simpson's rule on each of 98 one-percent slices, so steep
+// densities get as many points as flat ones). Slice ends are sampled just inside the
+// slice, so a density that jumps at a slice boundary (empirical) is read from the right side.
+function checkNormalization(dist: Distribution): string | null {
+  if (support(dist).discrete) {
+    let total = 0;
+    for (let k = 0; k <= quantile(dist, 1 - 1e-12); k++) total += pdf(dist, k);
+    return Math.abs(total - 1) < 1e-9 ? null : `probabilities sum to ${total}`;
+  }
+
+  let total = 0;
+  for (let slice = 1; slice < 99; slice++) {
+    const low = quantile(dist, slice / 100);
+    const h = (quantile(dist, (slice + 1) / 100) - low) / 20;
+    let sum = pdf(dist, low + h * 1e-9) + pdf(dist, low + h * (20 - 1e-9));
+    for (let i = 1; i < 20; i++) sum += (i % 2 === 1 ? 4 : 2) * pdf(dist, low + i * h);
+    total += (sum * h) / 3;
+  }
+  return Math.abs(total - 0.98) < 1e-6 ? null : `density integrates to ${total.toFixed(8)} between the 1% and 99% quantiles`;
+}
+
+// Kolmogorov–Smirnov distance between the sampler's draws and the CDF
+function checkAgainstSampler(dist: Distribution): string | null {
+  const draws = sampleFromDistribution(dist, SAMPLE_COUNT, createRandom(11)).sort((a, b) => a - b);
+  const { min, max } = support(dist);
+  let distance = 0;
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    if (draws[i] < min || draws[i] > max) return `draw ${draws[i]} outside support [${min}, ${max}]`;
+    // Compare at the last of a run of ties, where the empirical CDF has stepped up fully
+    if (i + 1 < SAMPLE_COUNT && draws[i + 1] === draws[i]) continue;
+    const below = (draws.findIndex(d => d === draws[i])) / SAMPLE_COUNT;
+    const upTo = (i + 1) / SAMPLE_COUNT;
+    const F = cdf(dist, draws[i]);
+    distance = Math.max(distance, Math.abs(upTo - F), support(dist).discrete ? 0 : Math.abs(F - below));
+  }
+  return distance < KS_CRITICAL ? null : `KS distance ${distance.toFixed(4)} (critical ${KS_CRITICAL.toFixed(4)})`;
+}
+
+// Expected value and standard deviation match the draws. Skipped when the fourth
+// moment is infinite (Student-t with df <= 4): the sample spread never settles.
+function checkMoments(dist: Distribution): string | null {
+  if (dist.type === 'studentT' && dist.df <= 4) return null;
+  const draws = sampleFromDistribution(dist, SAMPLE_COUNT, createRandom(12));
+  const mean = draws.reduce((a, b) => a + b, 0) / SAMPLE_COUNT;
+  const sd = Math.sqrt(draws.reduce((a, b) => a + (b - mean) ** 2, 0) / (SAMPLE_COUNT - 1));
+  const expected = expectedValue(dist);
+  const spread = standardDeviation(dist);
+  if (Math.abs(mean - expected) > (5 * spread) / Math.sqrt(SAMPLE_COUNT)) return `mean ${expected} but draws average ${mean.toFixed(4)}`;
+  if (Math.abs(sd / spread - 1) > 0.1) return `standard deviation ${spread} but draws spread ${sd.toFixed(4)}`;
+  return null;
+}
+
+// The binned KDE stays within 1% of the peak of a direct kernel sum, and the
+// percentiles are exactly the sorted (weighted) draws', with and without weights
+function checkSummary(dist: Distribution): string | null {
+  const draws = sampleFromDistribution(dist, SAMPLE_COUNT, createRandom(13));
+  const rng = createRandom(14);
+  for (const weights of [undefined, draws.map(() => rng())]) {
+    const summary = samplesToKDE(draws, 50, weights);
+    const w = weights ?? draws.map(() => 1);
+    const total = w.reduce((a, b) => a + b, 0);
+    const order = draws.map((_, i) => i).sort((a, b) => draws[a] - draws[b]);
+    const sortedQuantile = (p: number) => {
+      let acc = 0;
+      for (const i of order) {
+        acc += w[i];
+        if (acc > p * total) return draws[i];
+      }
+      return draws[order[order.length - 1]];
+    };
+    for (const [key, p] of [['p5', 0.05], ['p25', 0.25], ['p50', 0.5], ['p75', 0.75], ['p95', 0.95]] as const) {
+      if (summary.percentiles[key] !== sortedQuantile(p)) return `${key} ${summary.percentiles[key]} but the sorted draws give ${sortedQuantile(p)}`;
+    }
+
+    // Direct sum at Silverman's bandwidth, as the summary chooses it
+    const iqr = sortedQuantile(0.75) - sortedQuantile(0.25);
+    const effectiveN = weights ? total ** 2 / w.reduce((a, b) => a + b * b, 0) : draws.length;
+    const bandwidth = Math.max(0.9 * Math.min(summary.stdDev, (iqr / 1.34) || summary.stdDev) * effectiveN ** -0.2, 0.01);
+    const direct = summary.points.map(({ x }) =>
+      draws.reduce((sum, v, i) => sum + w[i] * Math.exp(-0.5 * ((x - v) / bandwidth) ** 2), 0) / (total * bandwidth * Math.sqrt(2 * Math.PI)));
+    const peak = Math.max(...direct);
+    const worst = Math.max(...direct.map((y, i) => Math.abs(y - summary.points[i].y)));
+    if (!(worst <= 0.01 * peak)) return `KDE differs from a direct kernel sum by ${(worst / peak * 100).toFixed(2)}% of its peak`;
+  }
+  return null;
+}
+
+// Probabilities short of 1 by rounding leave the top of the range to the last category
+function checkShortCategorical(): string | null {
+  const dist: Distribution = { type: 'categorical', categories: ['low', 'mid', 'high'], probs: [0.3, 0.3, 0.39] };
+  for (const p of [0.995, 1]) {
+    const x = quantile(dist, p);
+    if (x !== 2) return `quantile(${p}) = ${x}`;
+  }
+  const draws = sampleFromDistribution(dist, SAMPLE_COUNT, createRandom(12));
+  const stray = draws.find(x => x < 0 || x > 2);
+  return stray === undefined ? null : `drew outcome ${stray}`;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('DISTRIBUTION FUNCTIONS TEST SUITE');
+  console.log('='.repeat(70));
+
+  let failed = 0;
+  for (const [label, dist] of DISTRIBUTIONS) {
+    const problems = [checkQuantiles(dist), checkNormalization(dist), checkAgainstSampler(dist), checkMoments(dist), checkSummary(dist)].filter(Boolean);
+    if (problems.length > 0) failed++;
+    console.log(`${problems.length === 0 ? '✓' : '✗'} ${label}`);
+    for (const problem of problems) console.log(`    ${problem}`);
+  }
+
+  const shortfall = checkShortCategorical();
+  if (shortfall) failed++;
+  console.log(`${shortfall ? '✗' : '✓'} categorical probabilities summing to 0.99`);
+  if (shortfall) console.log(`    ${shortfall}`);
+
+  console.log('\n' + '='.repeat(70));
+  console.log(`Distributions: ${DISTRIBUTIONS.length}, failed: ${failed}`);
+
+  if (failed > 0) {
+    console.log('\n❌ Distribution functions disagree');
+    process.exit(1);
+  } else {
+    console.log('\n✅ pdf, cdf, quantile, the sampler and the KDE summary agree for every distribution');
+  }
+}
+
+main().catch(console.error);
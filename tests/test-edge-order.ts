@@ -0,0 +1,182 @@
+/**
+ * Edge Order Test Suite
+ *
+ * Tests that a node with several parents gets the same samples no matter how
+ * its incoming edges are ordered in the model, for every parent combiner.
+ *
+ * Usage:
+ *   npx tsx tests/test-edge-order.ts                      # Run embedded model + fixture
+ *   npx tsx tests/test-edge-order.ts model.json           # Test a specific model file
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { propagateWithSampling } from '../src/lib/inference';
+import { createRandom } from '../src/lib/random';
+import type { CausalModel, CausalEdge, ParentCombiner } from '../src/types/causal';
+
+const SAMPLE_COUNT = 500;
+const SEED = 20260101;
+const TOLERANCE = 1e-9;
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function withEdges(model: CausalModel, edges: CausalEdge[]): CausalModel {
+  return { ...model, edges };
+}
+
+function withCombiner(model: CausalModel, combiner: ParentCombiner): CausalModel {
+  return { ...model, nodes: model.nodes.map(n => ({ ...n, combiner })) };
+}
+
+// Deterministic shuffle so failures reproduce
+function shuffled<T>(items: T[], seed: number): T[] {
+  const rng = createRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function run(model: CausalModel): Record<string, number[]> {
+  suppressLogs();
+  try {
+    return propagateWithSampling(model, new Map(), SAMPLE_COUNT, { rng: createRandom(SEED) }).samples;
+  } finally {
+    restoreLogs();
+  }
+}
+
+function maxDifference(a: Record<string, number[]>, b: Record<string, number[]>): { nodeId: string; delta: number } {
+  let worst = { nodeId: '', delta: 0 };
+  for (const nodeId of Object.keys(a)) {
+    for (let i = 0; i < a[nodeId].length; i++) {
+      const delta = Math.abs(a[nodeId][i] - (b[nodeId]?.[i] ?? NaN));
+      if (!(delta <= worst.delta)) worst = { nodeId, delta };
+    }
+  }
+  return worst;
+}
+
+// ============================================================================
+// Test Runner
+// ============================================================================
+
+function testModel(model: CausalModel): boolean {
+  console.log(`\n${'─'.repeat(70)}`);
+  console.log(`MODEL: ${model.title}`);
+  console.log('─'.repeat(70));
+
+  const orderings: { name: string; edges: CausalEdge[] }[] = [
+    { name: 'reversed', edges: [...model.edges].reverse() },
+    { name: 'shuffled #1', edges: shuffled(model.edges, 1) },
+    { name: 'shuffled #2', edges: shuffled(model.edges, 2) },
+  ];
+
+  let passed = true;
+  for (const combiner of ['multiplicative', 'additive'] as const) {
+    const base = withCombiner(model, combiner);
+    const reference = run(base);
+
+    for (const ordering of orderings) {
+      const { nodeId, delta } = maxDifference(reference, run(withEdges(base, ordering.edges)));
+      const ok = delta <= TOLERANCE;
+      passed = passed && ok;
+      console.log(`${ok ? '✓' : '✗'} ${combiner.padEnd(14)} ${ordering.name.padEnd(12)} max |Δ| = ${delta.toExponential(2)}${ok ? '' : ` at ${nodeId}`}`);
+    }
+  }
+
+  return passed;
+}
+
+// ============================================================================
+// Embedded Test Models
+// ============================================================================
+
+// One child with four parents of every effect type, one of them moderated
+const MANY_PARENTS_MODEL: CausalModel = {
+  title: "Many Parents",
+  description: "Four parents of mixed effect types feeding one child",
+  zones: { "test": { label: "Test", color: "#ccc", description: "" } },
+  nodes: [
+    { id: "rate", label: "Rate", type: "exogenous", zone: "test", units: "%",
+      description: "", distribution: { type: "continuous", dist: "normal", params: [5, 1] },
+      shape: "diamond", circuitBreakers: { minValue: 0, maxValue: 20 } },
+    { id: "demand", label: "Demand", type: "exogenous", zone: "test", units: "index",
+      description: "", distribution: { type: "continuous", dist: "normal", params: [100, 15] },
+      shape: "diamond", circuitBreakers: { minValue: 0, maxValue: 300 } },
+    { id: "stress", label: "Stress", type: "exogenous", zone: "test", units: "index",
+      description: "", distribution: { type: "continuous", dist: "normal", params: [50, 20] },
+      shape: "diamond", circuitBreakers: { minValue: 0, maxValue: 100 } },
+    { id: "confidence", label: "Confidence", type: "exogenous", zone: "test", units: "index",
+      description: "", distribution: { type: "continuous", dist: "normal", params: [0, 1] },
+      shape: "diamond" },
+    { id: "output", label: "Output", type: "terminal", zone: "test", units: "index",
+      description: "", distribution: { type: "continuous", dist: "normal", params: [200, 20] },
+      shape: "rectangle", circuitBreakers: { minValue: 0, maxValue: 1000 } },
+  ],
+  edges: [
+    { source: "rate", target: "output", relationship: "causes", style: "solid", weight: "normal",
+      effect: { type: "linear", coefficient: -0.8 } },
+    { source: "demand", target: "output", relationship: "causes", style: "solid", weight: "normal",
+      effect: { type: "multiplicative", factor: 1.8, baseline: 100 } },
+    { source: "stress", target: "output", relationship: "causes", style: "solid", weight: "normal",
+      effect: { type: "threshold", cutoff: 60, below: 0.1, above: 0.9, smoothness: 1 } },
+    { source: "confidence", target: "output", relationship: "moderates", moderates: "rate",
+      style: "dashed", weight: "light", effect: { type: "logistic", coefficient: 2, threshold: 0 } },
+  ],
+  keyInsights: []
+};
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  console.log('='.repeat(70));
+  console.log('EDGE ORDER TEST SUITE');
+  console.log('='.repeat(70));
+
+  let models: CausalModel[];
+  if (args.length > 0) {
+    const filePath = args[0];
+    const absolutePath = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+    if (!fs.existsSync(absolutePath)) {
+      console.error(`Error: File not found: ${absolutePath}`);
+      process.exit(1);
+    }
+    models = [JSON.parse(fs.readFileSync(absolutePath, 'utf-8')) as CausalModel];
+  } else {
+    const fixture = path.join(__dirname, 'fixtures', 'debt-model-2026.json');
+    models = [MANY_PARENTS_MODEL, JSON.parse(fs.readFileSync(fixture, 'utf-8')) as CausalModel];
+  }
+
+  const failed = models.filter(model => !testModel(model));
+
+  console.log('\n' + '='.repeat(70));
+  console.log(`Models tested: ${models.length}, failed: ${failed.length}`);
+
+  if (failed.length > 0) {
+    console.log('\n❌ Results depend on edge order');
+    process.exit(1);
+  } else {
+    console.log('\n✅ Results are independent of edge order');
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,148 @@
+/**
+ * Saturating and Decay Effect Test Suite
+ *
+ * Tests that Hill, exponential decay and power-law effects leave the child
+ * unchanged at the parent's prior mean, reach their documented limits, and
+ * that the reference and typed-array engines apply them identically.
+ *
+ * Usage:
+ *   npx tsx tests/test-effects.ts
+ */
+
+import { applyEffectToSample, drawNoise, propagateWithSampling } from '../src/lib/inference';
+import { propagateWithSamplingFast } from '../src/lib/fastInference';
+import { createRandom } from '../src/lib/random';
+import { pointEffect } from '../src/lib/parameters';
+import type { CausalModel, EffectFunction } from '../src/types/causal';
+
+const SAMPLE_COUNT = 2000;
+const TOLERANCE = 1e-9;
+const PARENT_MEAN = 40;
+
+const EFFECTS: EffectFunction[] = [
+  { type: 'hill', maxEffect: 0.8, halfSaturation: 30, hillCoefficient: 2 },
+  { type: 'hill', maxEffect: -0.5, halfSaturation: 60 },
+  { type: 'decay', rate: 1.5, floor: 0.2 },
+  { type: 'power', exponent: 0.75 },
+  { type: 'power', exponent: -1.2 },
+];
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+// Multiplier applied to a base value of 1
+function multiplier(effect: EffectFunction, parent: number): number {
+  return applyEffectToSample(1, pointEffect(effect), parent, PARENT_MEAN);
+}
+
+function model(effect: EffectFunction): CausalModel {
+  return {
+    title: 'Spend and sales',
+    description: '',
+    zones: {},
+    keyInsights: [],
+    nodes: [
+      { id: 'spend', label: 'Spend', description: '', zone: 'marketing', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'lognormal', params: [Math.log(PARENT_MEAN), 0.5] } },
+      { id: 'sales', label: 'Sales', description: '', zone: 'marketing', type: 'terminal', shape: 'rectangle',
+        distribution: { type: 'continuous', dist: 'normal', params: [100, 10] } },
+    ],
+    edges: [
+      { source: 'spend', target: 'sales', relationship: 'causes', style: 'solid', weight: 'normal', effect },
+    ],
+  };
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testShapes(): number {
+  let failures = 0;
+
+  const neutral = EFFECTS.every(effect => Math.abs(multiplier(effect, PARENT_MEAN) - 1) < TOLERANCE);
+  if (!report(neutral, 'every effect is ×1 at the parent prior mean')) failures++;
+
+  // Hill: n = 2, K = 30, mean 40 → response 0.64 at the mean, 0 at no parent, 1 at saturation
+  const hill = EFFECTS[0];
+  const atZero = multiplier(hill, 0);
+  const saturated = multiplier(hill, 1e6);
+  if (!report(Math.abs(atZero - (1 - 0.8 * 0.64)) < TOLERANCE, 'hill: no parent gives 1 − maxEffect × response(mean)', atZero.toFixed(4))) failures++;
+  if (!report(Math.abs(saturated - (1 + 0.8 * 0.36)) < 1e-6, 'hill: saturates at 1 + maxEffect × (1 − response(mean))', saturated.toFixed(4))) failures++;
+  if (!report(Math.abs(saturated - atZero - 0.8) < 1e-6, 'hill: full range spans maxEffect')) failures++;
+  if (!report(multiplier(hill, -10) === atZero, 'hill: negative parents count as none')) failures++;
+  if (!report(multiplier(EFFECTS[1], 1e6) < 1, 'hill: negative maxEffect inhibits')) failures++;
+
+  // Decay: doubling the parent keeps e^-rate of the part above the floor
+  const decay = EFFECTS[2];
+  const doubled = multiplier(decay, 2 * PARENT_MEAN);
+  if (!report(Math.abs(doubled - (0.2 + 0.8 * Math.exp(-1.5))) < TOLERANCE, 'decay: doubling keeps e^-rate above the floor', doubled.toFixed(4))) failures++;
+  if (!report(Math.abs(multiplier(decay, 1e4) - 0.2) < 1e-9, 'decay: approaches its floor')) failures++;
+  if (!report(multiplier(decay, PARENT_MEAN / 2) > 1, 'decay: falling parent raises the child')) failures++;
+
+  // Power: constant elasticity
+  const power = EFFECTS[3];
+  const elasticity = Math.log(multiplier(power, PARENT_MEAN * 1.01)) / Math.log(1.01);
+  if (!report(Math.abs(elasticity - 0.75) < TOLERANCE, 'power: elasticity equals the exponent', elasticity.toFixed(6))) failures++;
+  if (!report(Math.abs(multiplier(power, 2 * PARENT_MEAN) - Math.pow(2, 0.75)) < TOLERANCE, 'power: doubling scales by 2^exponent')) failures++;
+  if (!report(multiplier(power, -5) === 1, 'power: non-positive parents pass through')) failures++;
+  if (!report(multiplier(EFFECTS[4], PARENT_MEAN / 100) === 10, 'power: multiplier clamped to 10×')) failures++;
+
+  return failures;
+}
+
+function testEngines(): number {
+  let failures = 0;
+  for (const effect of EFFECTS) {
+    const causal = model(effect);
+    const noise = drawNoise(causal, SAMPLE_COUNT, createRandom(17));
+
+    suppressLogs();
+    const reference = propagateWithSampling(causal, new Map(), SAMPLE_COUNT, { noise });
+    const fast = propagateWithSamplingFast(causal, new Map(), SAMPLE_COUNT, { noise });
+    restoreLogs();
+
+    const a = reference.samples.sales;
+    const b = fast.samples.sales;
+    const delta = Math.max(...a.map((value, i) => Math.abs(value - b[i])));
+    if (!report(delta < TOLERANCE, `${JSON.stringify(effect)}: engines agree`, `max difference ${delta.toExponential(2)}`)) failures++;
+  }
+  return failures;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('SATURATING AND DECAY EFFECT TEST SUITE');
+  console.log('='.repeat(70));
+
+  const failures = testShapes() + testEngines();
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} effect checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Hill, decay and power effects behave as documented in both engines');
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,178 @@
+/**
+ * Evidence Test Suite
+ *
+ * Tests that observations weight samples by their likelihood without moving
+ * them, that range evidence keeps exactly the matching samples, that a point
+ * observation on a child recovers the conjugate normal posterior of its
+ * parent, and that the effective sample size is the Kish size of the weights
+ * and sets the reported standard errors. Also checks that evidence nothing
+ * matches leaves the distributions unconditioned.
+ *
+ * Usage:
+ *   npx tsx tests/test-evidence.ts
+ */
+
+import { drawNoise, propagateWithSampling, type PropagationResult } from '../src/lib/inference';
+import { observationLikelihood } from '../src/lib/evidence';
+import { effectiveSampleSize, pairedDifference } from '../src/lib/distributions';
+import { createRandom } from '../src/lib/random';
+import type { CausalModel, Observation } from '../src/types/causal';
+
+const SAMPLE_COUNT = 20000;
+const TOLERANCE = 1e-9;
+
+// Prior of the cause and noise of the effect, which moves one-for-one with the cause
+const CAUSE_MEAN = 10;
+const CAUSE_SD = 2;
+const EFFECT_MEAN = 20;
+const EFFECT_SD = 0.01;
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+function model(): CausalModel {
+  return {
+    title: 'Demand and sales',
+    description: '',
+    zones: {},
+    keyInsights: [],
+    nodes: [
+      { id: 'demand', label: 'Demand', description: '', zone: 'market', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'normal', params: [CAUSE_MEAN, CAUSE_SD] } },
+      { id: 'sales', label: 'Sales', description: '', zone: 'market', type: 'terminal', shape: 'rectangle',
+        distribution: { type: 'continuous', dist: 'normal', params: [EFFECT_MEAN, EFFECT_SD] } },
+    ],
+    edges: [
+      // Sales scale with demand's relative deviation: 20 × 0.5 × (demand − 10) / 10 = demand − 10
+      { source: 'demand', target: 'sales', relationship: 'causes', style: 'solid', weight: 'normal',
+        effect: { type: 'linear', coefficient: 0.5 } },
+    ],
+  };
+}
+
+function run(causal: CausalModel, evidence: Map<string, Observation>): PropagationResult {
+  suppressLogs();
+  try {
+    return propagateWithSampling(causal, new Map(), SAMPLE_COUNT, { noise: drawNoise(causal, SAMPLE_COUNT, createRandom(31)), evidence });
+  } finally {
+    restoreLogs();
+  }
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testLikelihood(): number {
+  let failures = 0;
+  const range: Observation = { type: 'range', min: 2, max: 5 };
+  const inRange = observationLikelihood(range, 2, 1) === 1 && observationLikelihood(range, 5, 1) === 1;
+  const outOfRange = observationLikelihood(range, 1.99, 1) === 0 && observationLikelihood(range, 5.01, 1) === 0;
+  if (!report(inRange && outOfRange, 'range evidence accepts its bounds and rejects everything outside')) failures++;
+
+  const point: Observation = { type: 'point', value: 3 };
+  const oneWidth = observationLikelihood(point, 3.5, 0.5);
+  if (!report(observationLikelihood(point, 3, 0.5) === 1 && Math.abs(oneWidth - Math.exp(-0.5)) < TOLERANCE,
+    'point evidence is a Gaussian kernel of the tolerance\'s width')) failures++;
+  if (!report(observationLikelihood(point, NaN, 0.5) === 0, 'non-finite values have no likelihood')) failures++;
+  return failures;
+}
+
+function testRangeWeights(causal: CausalModel): number {
+  let failures = 0;
+  const plain = run(causal, new Map());
+  const result = run(causal, new Map([['sales', { type: 'range', min: 22 }]]));
+
+  const unmoved = causal.nodes.every(n => plain.samples[n.id].every((value, i) => value === result.samples[n.id][i]));
+  if (!report(unmoved, 'evidence weights the samples without moving them')) failures++;
+
+  const matching = result.samples.sales.filter(v => v >= 22).length;
+  const weights = result.weights ?? [];
+  const exact = weights.every((w, i) => (result.samples.sales[i] >= 22 ? Math.abs(w - 1 / matching) < TOLERANCE : w === 0));
+  if (!report(exact && Math.abs(result.effectiveSampleSize - matching) < 1e-6,
+    'range evidence weights the matching samples equally and the rest zero', `${matching} matching, ESS ${result.effectiveSampleSize.toFixed(1)}`)) failures++;
+
+  // Only samples above the cutoff count, so the conditioned mean is theirs
+  const conditionedMean = result.distributions.get('sales')!.mean;
+  const matchingMean = result.samples.sales.filter(v => v >= 22).reduce((a, b) => a + b, 0) / matching;
+  if (!report(Math.abs(conditionedMean - matchingMean) < 1e-9, 'the conditioned distribution is that of the matching samples')) failures++;
+  return failures;
+}
+
+function testPosterior(causal: CausalModel): number {
+  let failures = 0;
+  const observed = 23;
+  const tolerance = 0.5;
+  const result = run(causal, new Map([['sales', { type: 'point', value: observed, tolerance }]]));
+
+  // Conjugate normal: the cause's deviation explains its share of the observed one
+  const noiseVariance = EFFECT_SD ** 2 + tolerance ** 2;
+  const gain = CAUSE_SD ** 2 / (CAUSE_SD ** 2 + noiseVariance);
+  const posteriorMean = CAUSE_MEAN + gain * (observed - EFFECT_MEAN);
+  const posteriorSd = Math.sqrt(CAUSE_SD ** 2 * (1 - gain));
+
+  const demand = result.distributions.get('demand')!;
+  const meanError = Math.abs(demand.mean - posteriorMean);
+  if (!report(meanError < 4 * demand.standardErrors.mean, 'observing the effect updates the cause to its posterior mean',
+    `${demand.mean.toFixed(3)} vs ${posteriorMean.toFixed(3)}`)) failures++;
+  if (!report(Math.abs(demand.stdDev / posteriorSd - 1) < 0.05, 'and narrows it to the posterior spread',
+    `${demand.stdDev.toFixed(3)} vs ${posteriorSd.toFixed(3)}`)) failures++;
+
+  const kish = effectiveSampleSize(result.weights ?? []);
+  if (!report(Math.abs(result.effectiveSampleSize - kish) < 1e-6 && kish < SAMPLE_COUNT / 2,
+    'the effective sample size is the Kish size of the weights', `${kish.toFixed(0)} of ${SAMPLE_COUNT}`)) failures++;
+  const expectedError = demand.stdDev / Math.sqrt(result.effectiveSampleSize);
+  if (!report(Math.abs(demand.standardErrors.mean / expectedError - 1) < 1e-6, 'standard errors count effective samples, not draws')) failures++;
+
+  // Pairs weighted by the evidence give the difference of the weighted means
+  const shifted = result.samples.demand.map(v => v + 1);
+  const weighted = pairedDifference(shifted, result.samples.demand, result.weights ?? undefined);
+  if (!report(Math.abs(weighted.mean - 1) < TOLERANCE, 'weighted paired differences average under the evidence weights')) failures++;
+  return failures;
+}
+
+function testNoMatch(causal: CausalModel): number {
+  const plain = run(causal, new Map());
+  const result = run(causal, new Map([['sales', { type: 'range', min: 1000 }]]));
+  const unconditioned = result.weights === null && result.effectiveSampleSize === 0
+    && result.distributions.get('sales')!.mean === plain.distributions.get('sales')!.mean;
+  return report(unconditioned, 'evidence no sample matches reports ESS 0 and leaves the distributions unconditioned') ? 0 : 1;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('EVIDENCE TEST SUITE');
+  console.log('='.repeat(70));
+
+  const causal = model();
+  const failures = testLikelihood() + testRangeWeights(causal) + testPosterior(causal) + testNoMatch(causal);
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} evidence checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Evidence reweights samples by likelihood and reports its effective sample size');
+  }
+}
+
+main().catch(console.error);
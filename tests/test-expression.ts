@@ -0,0 +1,202 @@
+/**
+ * Expression Effect Test Suite
+ *
+ * Tests that expression effects parse with the documented precedence, report
+ * syntax and name errors with their position, cannot reach anything beyond
+ * their own names, and that the reference and typed-array engines evaluate
+ * them identically.
+ *
+ * Usage:
+ *   npx tsx tests/test-expression.ts
+ */
+
+import { compileExpression, validateExpression, ExpressionError } from '../src/lib/expression';
+import { applyEffectToSample, drawNoise, propagateWithSampling } from '../src/lib/inference';
+import { propagateWithSamplingFast } from '../src/lib/fastInference';
+import { createRandom } from '../src/lib/random';
+import type { CausalModel, ExpressionEffect } from '../src/types/causal';
+
+const SAMPLE_COUNT = 2000;
+const TOLERANCE = 1e-9;
+
+// [expression, parent, base, parentMean, expected]
+const CASES: [string, number, number, number, number][] = [
+  ['parent * 0.8 + 2', 10, 0, 0, 10],
+  ['2 + 3 * 4', 0, 0, 0, 14],
+  ['(2 + 3) * 4', 0, 0, 0, 20],
+  ['-2 ^ 2', 0, 0, 0, -4],
+  ['2 ^ 3 ^ 2', 0, 0, 0, 512],
+  ['2 ^ -1', 0, 0, 0, 0.5],
+  ['10 - 4 - 3', 0, 0, 0, 3],
+  ['base * parent / parentMean', 30, 5, 20, 7.5],
+  ['parent > parentMean ? base * 2 : base', 3, 4, 2, 8],
+  ['parent > parentMean ? base * 2 : base', 1, 4, 2, 4],
+  ['max(parent - 5, 0) + min(1, 2, base)', 8, -1, 0, 2],
+  ['clamp(parent, 0, 1) + abs(-2) + sqrt(9)', 7, 0, 0, 6],
+  ['1.5e2 + .5 + 7 % 4', 0, 0, 0, 153.5],
+  ['log(e) + round(pi)', 0, 0, 0, 4],
+];
+
+// [expression, error position]
+const ERRORS: [string, number][] = [
+  ['', 0],
+  ['parent +', 8],
+  ['(parent * 2', 11],
+  ['parent * * 2', 9],
+  ['parent $ 2', 7],
+  ['target', 0],
+  ['foo(parent)', 0],
+  ['max()', 0],
+  ['pow(parent)', 0],
+  ['sqrt', 0],
+  ['parent ? 1', 10],
+  ['1 2', 2],
+  // Nothing outside the expression's own names is reachable
+  ['constructor', 0],
+  ['toString(1)', 0],
+  ['process.exit(1)', 7],
+  ['globalThis', 0],
+];
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+function model(effect: ExpressionEffect): CausalModel {
+  return {
+    title: 'Load and cost',
+    description: '',
+    zones: {},
+    keyInsights: [],
+    nodes: [
+      { id: 'load', label: 'Load', description: '', zone: 'ops', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'normal', params: [80, 15] } },
+      { id: 'cost', label: 'Cost', description: '', zone: 'ops', type: 'terminal', shape: 'rectangle',
+        distribution: { type: 'continuous', dist: 'lognormal', params: [3, 0.2] } },
+    ],
+    edges: [
+      { source: 'load', target: 'cost', relationship: 'causes', style: 'solid', weight: 'normal', effect },
+    ],
+  };
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testEvaluation(): number {
+  let failures = 0;
+  for (const [expression, parent, base, parentMean, expected] of CASES) {
+    const value = compileExpression(expression)(parent, base, parentMean);
+    if (!report(Math.abs(value - expected) < TOLERANCE, `${expression} = ${expected}`, `got ${value}`)) failures++;
+  }
+
+  const constants = { k: 0.5, capacity: 90 };
+  const value = compileExpression('base + k * max(parent - capacity, 0)', constants)(100, 10, 80);
+  if (!report(value === 15, 'named constants are substituted')) failures++;
+
+  const shadow = validateExpression('parent', { parent: 1 });
+  if (!report(shadow instanceof ExpressionError, 'constants may not shadow variables', shadow?.message)) failures++;
+
+  return failures;
+}
+
+function testErrors(): number {
+  let failures = 0;
+  for (const [expression, position] of ERRORS) {
+    const error = validateExpression(expression);
+    const passed = error instanceof ExpressionError && error.position === position;
+    if (!report(passed, `rejects "${expression}" at ${position}`, error ? `${error.message} @ ${error.position}` : 'accepted')) failures++;
+  }
+
+  // Nesting deep enough to exhaust the stack is rejected like any other error
+  const deep: [string, string][] = [
+    ['20000 nested parentheses', '('.repeat(20000) + 'parent' + ')'.repeat(20000)],
+    ['50000 unary minuses', '-'.repeat(50000) + 'parent'],
+    ['a 50000-term sum', 'parent + '.repeat(50000) + 'parent'],
+  ];
+  for (const [label, expression] of deep) {
+    const error = validateExpression(expression);
+    if (!report(error instanceof ExpressionError, `rejects ${label}`, error?.message ?? 'accepted')) failures++;
+  }
+  const nested = '('.repeat(100) + 'parent' + ')'.repeat(100);
+  if (!report(validateExpression(nested) === null, 'accepts 100 nested parentheses')) failures++;
+
+  // Invalid expressions leave the target's base value unchanged
+  const originalWarn = console.warn;
+  console.warn = () => {};
+  const unchanged = applyEffectToSample(7, { type: 'expression', expression: 'parent +' }, 3, 2);
+  const divided = applyEffectToSample(7, { type: 'expression', expression: 'base / (parent - 3)' }, 3, 2);
+  const tooDeep = applyEffectToSample(7, { type: 'expression', expression: deep[0][1] }, 3, 2);
+  console.warn = originalWarn;
+  if (!report(unchanged === 7, 'invalid expression passes the base value through')) failures++;
+  if (!report(divided === 7, 'non-finite result passes the base value through')) failures++;
+  if (!report(tooDeep === 7, 'too deeply nested expression passes the base value through')) failures++;
+
+  return failures;
+}
+
+function testEngines(): number {
+  let failures = 0;
+  const effects: ExpressionEffect[] = [
+    { type: 'expression', expression: 'parent * 0.8 + 2' },
+    { type: 'expression', expression: 'parent > cutoff ? base * (1 + k * (parent - cutoff) / parentMean) : base', constants: { cutoff: 90, k: 3 } },
+  ];
+  for (const effect of effects) {
+    const causal = model(effect);
+    const noise = drawNoise(causal, SAMPLE_COUNT, createRandom(23));
+
+    suppressLogs();
+    const reference = propagateWithSampling(causal, new Map(), SAMPLE_COUNT, { noise });
+    const fast = propagateWithSamplingFast(causal, new Map(), SAMPLE_COUNT, { noise });
+    restoreLogs();
+
+    const a = reference.samples.cost;
+    const b = fast.samples.cost;
+    const delta = Math.max(...a.map((value, i) => Math.abs(value - b[i])));
+    if (!report(delta < TOLERANCE, `${effect.expression}: engines agree`, `max difference ${delta.toExponential(2)}`)) failures++;
+
+    const evaluate = compileExpression(effect.expression, effect.constants);
+    const base = noise.values.cost;
+    const parent = noise.values.load;
+    const applied = a.every((value, i) => Math.abs(value - evaluate(parent[i], base[i], 80)) < TOLERANCE * Math.abs(value));
+    if (!report(applied, `${effect.expression}: child = expression(parent, base, parentMean)`)) failures++;
+  }
+  return failures;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('EXPRESSION EFFECT TEST SUITE');
+  console.log('='.repeat(70));
+
+  const failures = testEvaluation() + testErrors() + testEngines();
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} expression checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Expressions parse, report errors and evaluate as specified in both engines');
+  }
+}
+
+main().catch(console.error);
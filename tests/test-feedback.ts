@@ -0,0 +1,175 @@
+/**
+ * Feedback Loop Test Suite
+ *
+ * Tests that a wage-price loop with gain below one settles to the fixed point
+ * of its edges, that an intervention outside the loop moves the equilibrium by
+ * more than its direct effect, and that loops which never settle are reported
+ * as oscillating or diverged after the round limit. Also checks that the
+ * reference and typed-array engines agree on the samples and the reports.
+ *
+ * Usage:
+ *   npx tsx tests/test-feedback.ts
+ */
+
+import { drawNoise, propagateWithSampling, type ExogenousNoise, type PropagationResult } from '../src/lib/inference';
+import { propagateWithSamplingFast } from '../src/lib/fastInference';
+import { createRandom } from '../src/lib/random';
+import type { CausalModel } from '../src/types/causal';
+
+const SAMPLE_COUNT = 1000;
+const TOLERANCE = 1e-3;
+const MAX_ROUNDS = 40;
+const OIL_SHOCK = 6;
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// What a linear edge makes of a value: it scales with the parent's relative deviation
+const linear = (value: number, coefficient: number, parent: number, parentMean: number) =>
+  value * (1 + coefficient * (parent - parentMean) / parentMean);
+
+// Oil drives wages; wages and prices feed each other with the given gains.
+// Wages and prices have (almost) no noise of their own, so the loop is deterministic given oil.
+function model(wageGain: number, priceGain: number): CausalModel {
+  const edge = (source: string, target: string, coefficient: number) => ({
+    source, target, relationship: 'causes' as const, style: 'solid' as const, weight: 'normal' as const,
+    effect: { type: 'linear' as const, coefficient },
+  });
+  return {
+    title: 'Wage-price spiral',
+    description: '',
+    zones: {},
+    keyInsights: [],
+    nodes: [
+      { id: 'oil', label: 'Oil price', description: '', zone: 'inputs', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'normal', params: [80, 8] } },
+      { id: 'wages', label: 'Wages', description: '', zone: 'economy', type: 'endogenous', shape: 'rectangle',
+        distribution: { type: 'continuous', dist: 'normal', params: [100, 0] } },
+      { id: 'prices', label: 'Prices', description: '', zone: 'economy', type: 'terminal', shape: 'rectangle',
+        distribution: { type: 'continuous', dist: 'normal', params: [100, 0] } },
+    ],
+    edges: [edge('oil', 'wages', 0.8), edge('prices', 'wages', wageGain), edge('wages', 'prices', priceGain)],
+  };
+}
+
+function run(causal: CausalModel, interventions: Map<string, number>, noise?: ExogenousNoise, fast = false): PropagationResult {
+  const propagate = fast ? propagateWithSamplingFast : propagateWithSampling;
+  suppressLogs();
+  try {
+    return propagate(causal, interventions, SAMPLE_COUNT, { noise, maxEquilibriumRounds: MAX_ROUNDS });
+  } finally {
+    restoreLogs();
+  }
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testEquilibrium(): number {
+  let failures = 0;
+  const causal = model(0.5, 0.5);
+  const result = run(causal, new Map());
+
+  const loop = result.loops.find(l => l.includes('wages'));
+  if (!report(!!loop && loop.length === 2 && loop.includes('prices'), 'wages and prices form one loop', JSON.stringify(result.loops))) failures++;
+
+  const reports = ['wages', 'prices'].map(id => result.equilibrium[id]);
+  const converged = reports.every(r => r?.status === 'converged' && r.rounds < MAX_ROUNDS);
+  if (!report(converged, 'a loop with gain 0.25 converges', reports.map(r => `${r?.status} in ${r?.rounds}`).join(', '))) failures++;
+  if (!report(!('oil' in result.equilibrium), 'nodes outside the loop get no loop report')) failures++;
+
+  // At the fixed point each member is what its edges make of the others' final samples
+  const { oil, wages, prices } = result.samples;
+  const residual = Math.max(...wages.map((w, i) => {
+    const expectedWages = linear(linear(100, 0.8, oil[i], 80), 0.5, prices[i], 100);
+    const expectedPrices = linear(100, 0.5, w, 100);
+    return Math.max(Math.abs(w - expectedWages), Math.abs(prices[i] - expectedPrices)) / 100;
+  }));
+  if (!report(residual < TOLERANCE, 'the equilibrium satisfies every loop edge', `largest relative residual ${residual.toExponential(2)}`)) failures++;
+
+  // Raising oil feeds through the loop, so wages move by more than the direct effect
+  const calm = run(causal, new Map([['oil', 80]])).samples;
+  const shocked = run(causal, new Map([['oil', 80 + OIL_SHOCK]])).samples;
+  const direct = linear(100, 0.8, 80 + OIL_SHOCK, 80) - 100;
+  const wageMove = mean(shocked.wages) - mean(calm.wages);
+  const priceMove = mean(shocked.prices) - mean(calm.prices);
+  const amplified = wageMove > direct * 1.2 && Math.abs(priceMove - wageMove / 2) < 0.01;
+  if (!report(amplified, 'an outside shock is amplified by the loop',
+    `direct +${direct.toFixed(3)}, wages +${wageMove.toFixed(3)}, prices +${priceMove.toFixed(3)}`)) failures++;
+  return failures;
+}
+
+function testNonConvergence(): number {
+  let failures = 0;
+  // Linear edges cap their multiplier at 10×, so gains just above one keep the spiral off the cap
+  const cases: [string, number, number, string][] = [
+    ['negative feedback above unit gain', 1.05, -1.05, 'oscillating'],
+    ['positive feedback above unit gain', 1.05, 1.05, 'diverged'],
+  ];
+  for (const [label, wageGain, priceGain, expected] of cases) {
+    const result = run(model(wageGain, priceGain), new Map());
+    const reports = ['wages', 'prices'].map(id => result.equilibrium[id]);
+    const passed = reports.every(r => r?.status === expected && r.rounds === MAX_ROUNDS);
+    if (!report(passed, `${label} is reported as ${expected} after ${MAX_ROUNDS} rounds`,
+      reports.map(r => `${r?.status} in ${r?.rounds}`).join(', '))) failures++;
+  }
+  return failures;
+}
+
+function testEngines(): number {
+  let failures = 0;
+  for (const [wageGain, priceGain] of [[0.5, 0.5], [1.05, -1.05], [1.05, 1.05]]) {
+    const causal = model(wageGain, priceGain);
+    const noise = drawNoise(causal, SAMPLE_COUNT, createRandom(23));
+    const reference = run(causal, new Map(), noise);
+    const fast = run(causal, new Map(), noise, true);
+    const delta = Math.max(...['wages', 'prices'].flatMap(id =>
+      reference.samples[id].map((value, i) => Math.abs(value - fast.samples[id][i]) / Math.max(Math.abs(value), 1))
+    ));
+    const sameReports = ['wages', 'prices'].every(id =>
+      reference.equilibrium[id].status === fast.equilibrium[id].status && reference.equilibrium[id].rounds === fast.equilibrium[id].rounds
+    );
+    if (!report(delta < 1e-9 && sameReports, `gains ${wageGain}, ${priceGain}: engines agree`, `max relative difference ${delta.toExponential(2)}`)) failures++;
+  }
+  return failures;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('FEEDBACK LOOP TEST SUITE');
+  console.log('='.repeat(70));
+
+  const failures = testEquilibrium() + testNonConvergence() + testEngines();
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} feedback loop checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Feedback loops settle or are reported as not settling');
+  }
+}
+
+main().catch(console.error);
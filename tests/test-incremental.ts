@@ -0,0 +1,248 @@
+/**
+ * Incremental Recompute Test Suite
+ *
+ * Tests that re-propagating only the descendants of a changed node or edge
+ * gives exactly the same snapshot as recomputing everything, and that nodes
+ * outside the affected set keep their previous samples and KDEs.
+ *
+ * Usage:
+ *   npx tsx tests/test-incremental.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { computeSnapshot, reusableSnapshot, type Snapshot, type SnapshotRequest } from '../src/lib/snapshot';
+import { affectedNodes } from '../src/lib/inference';
+import type { CausalModel, Intervention, Observation } from '../src/types/causal';
+
+const SAMPLE_COUNT = 300;
+const SEED = 424242;
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function snapshot(request: SnapshotRequest): Snapshot {
+  suppressLogs();
+  try {
+    return computeSnapshot(request);
+  } finally {
+    restoreLogs();
+  }
+}
+
+function request(
+  model: CausalModel,
+  interventions: Map<string, Intervention>,
+  evidence: Map<string, Observation> = new Map()
+): SnapshotRequest {
+  return { model, interventions, evidence, counterfactuals: new Map(), sampleCount: SAMPLE_COUNT, tickCount: 0, seed: SEED };
+}
+
+function sameNumbers(a: number[] | undefined, b: number[] | undefined): boolean {
+  return !!a && !!b && a.length === b.length && a.every((v, i) => Object.is(v, b[i]));
+}
+
+// Every node's samples, baseline and KDE must match the full run exactly
+function compare(incremental: Snapshot, full: Snapshot): string[] {
+  const mismatches: string[] = [];
+  for (const nodeId of Object.keys(full.nodeSamples)) {
+    if (!sameNumbers(incremental.nodeSamples[nodeId], full.nodeSamples[nodeId])) mismatches.push(`${nodeId} samples`);
+    if (!sameNumbers(incremental.baselineSamples[nodeId], full.baselineSamples[nodeId])) mismatches.push(`${nodeId} baseline`);
+    const a = incremental.nodeDistributions.get(nodeId);
+    const b = full.nodeDistributions.get(nodeId);
+    if (JSON.stringify(a) !== JSON.stringify(b)) mismatches.push(`${nodeId} distribution`);
+  }
+  if (JSON.stringify(incremental.equilibrium) !== JSON.stringify(full.equilibrium)) mismatches.push('equilibrium');
+  if (incremental.effectiveSampleSize !== full.effectiveSampleSize) mismatches.push('effective sample size');
+  return mismatches;
+}
+
+// ============================================================================
+// Test Runner
+// ============================================================================
+
+interface Scenario {
+  name: string;
+  model: CausalModel;
+  before: Map<string, Intervention>;
+  after: Map<string, Intervention>;
+  changedModel?: CausalModel; // Model after an edge edit
+  changedMechanisms?: string[];
+  evidence?: Map<string, Observation>;
+}
+
+function runScenario(scenario: Scenario): boolean {
+  const afterModel = scenario.changedModel ?? scenario.model;
+  const changedMechanisms = scenario.changedMechanisms ?? [];
+  const changedInterventions = [...new Set([...scenario.before.keys(), ...scenario.after.keys()])].filter(
+    id => JSON.stringify(scenario.before.get(id)) !== JSON.stringify(scenario.after.get(id))
+  );
+
+  const previous = snapshot(request(scenario.model, scenario.before, scenario.evidence));
+  const full = snapshot(request(afterModel, scenario.after, scenario.evidence));
+  const incremental = snapshot({
+    ...request(afterModel, scenario.after, scenario.evidence),
+    // Only the reusable part, as the store keeps it
+    previous: { snapshot: reusableSnapshot(previous), changedMechanisms, changedInterventions },
+  });
+
+  const mismatches = compare(incremental, full);
+
+  // Nodes outside the affected set must be carried over, not recomputed
+  const affected = affectedNodes(afterModel, [...changedMechanisms, ...changedInterventions]);
+  const notReused = afterModel.nodes
+    .filter(n => !affected.has(n.id))
+    .filter(n => incremental.nodeSamples[n.id] !== previous.nodeSamples[n.id]
+      || (!scenario.evidence && incremental.nodeDistributions.get(n.id) !== previous.nodeDistributions.get(n.id)))
+    .map(n => n.id);
+
+  const passed = mismatches.length === 0 && notReused.length === 0;
+  console.log(`${passed ? '✓' : '✗'} ${scenario.name} (${affected.size}/${afterModel.nodes.length} nodes re-propagated)`);
+  if (mismatches.length > 0) console.log(`    differs from full run: ${mismatches.join(', ')}`);
+  if (notReused.length > 0) console.log(`    recomputed although unaffected: ${notReused.join(', ')}`);
+  return passed;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('INCREMENTAL RECOMPUTE TEST SUITE');
+  console.log('='.repeat(70));
+
+  const fixture = path.join(__dirname, 'fixtures', 'debt-model-2026.json');
+  const model = JSON.parse(fs.readFileSync(fixture, 'utf-8')) as CausalModel;
+
+  // Same model with a feedback loop: headline CPI feeds back into monetary base expansion
+  const loopModel: CausalModel = {
+    ...model,
+    edges: [
+      ...model.edges,
+      { source: 'headline_cpi', target: 'monetary_base_expansion', relationship: 'causes', style: 'solid',
+        weight: 'normal', effect: { type: 'linear', coefficient: 0.2 } },
+    ],
+  };
+
+  const steeperPremium: CausalModel = {
+    ...model,
+    edges: model.edges.map(e =>
+      e.source === 'debt_sustainability_gate' && e.target === 'sovereign_risk_premium'
+        ? { ...e, effect: { type: 'threshold', cutoff: 60, below: 0.1, above: 1.2, smoothness: 1 } }
+        : e
+    ),
+  };
+
+  // A shared shock between an input and an endogenous node
+  const confounded: CausalModel = {
+    ...model,
+    confounders: [{ nodes: ['global_risk_appetite', 'inflation_expectations'], correlation: -0.6 }],
+  };
+
+  // The confounded model with an uncertain coefficient on one edge
+  const uncertainYield: CausalModel = {
+    ...confounded,
+    edges: confounded.edges.map(e =>
+      e.source === 'treasury_issuance_volume' && e.target === 'ten_year_yield'
+        ? { ...e, effect: { type: 'linear', coefficient: { type: 'continuous', dist: 'normal', params: [0.3, 0.1] } } }
+        : e
+    ),
+  };
+
+  const set = (value: number): Intervention => ({ type: 'set', value });
+
+  const scenarios: Scenario[] = [
+    {
+      name: 'Add an intervention',
+      model,
+      before: new Map(),
+      after: new Map([['debt_to_gdp', set(140)]]),
+    },
+    {
+      name: 'Change an intervention',
+      model,
+      before: new Map([['debt_to_gdp', set(140)], ['fiscal_deficit_path', set(5)]]),
+      after: new Map([['debt_to_gdp', set(150)], ['fiscal_deficit_path', set(5)]]),
+    },
+    {
+      name: 'Clear an intervention',
+      model,
+      before: new Map([['global_risk_appetite', set(30)]]),
+      after: new Map(),
+    },
+    {
+      name: 'Switch to a shift intervention',
+      model,
+      before: new Map([['inflation_expectations', set(4)]]),
+      after: new Map([['inflation_expectations', { type: 'shift', delta: 0.5 }]]),
+    },
+    {
+      name: 'Edit an edge effect',
+      model,
+      before: new Map([['fiscal_deficit_path', set(8)]]),
+      after: new Map([['fiscal_deficit_path', set(8)]]),
+      changedModel: steeperPremium,
+      changedMechanisms: ['sovereign_risk_premium'],
+    },
+    {
+      name: 'Change an intervention under evidence',
+      model,
+      before: new Map([['debt_to_gdp', set(140)]]),
+      after: new Map([['debt_to_gdp', set(120)]]),
+      evidence: new Map([['ten_year_yield', { type: 'range', min: 4 }]]),
+    },
+    {
+      name: 'Add a confounder',
+      model,
+      before: new Map([['debt_to_gdp', set(140)]]),
+      after: new Map([['debt_to_gdp', set(140)]]),
+      changedModel: confounded,
+      changedMechanisms: ['global_risk_appetite', 'inflation_expectations'],
+    },
+    {
+      name: 'Make a parameter uncertain in a confounded model',
+      model: confounded,
+      before: new Map([['debt_to_gdp', set(140)]]),
+      after: new Map([['debt_to_gdp', set(140)]]),
+      changedModel: uncertainYield,
+      changedMechanisms: ['ten_year_yield'],
+    },
+    {
+      name: 'Intervene upstream of a feedback loop',
+      model: loopModel,
+      before: new Map(),
+      after: new Map([['global_risk_appetite', set(80)]]),
+    },
+    {
+      name: 'Intervene downstream of a feedback loop',
+      model: loopModel,
+      before: new Map(),
+      after: new Map([['real_interest_rates', set(2)]]),
+    },
+  ];
+
+  const failed = scenarios.filter(scenario => !runScenario(scenario));
+
+  console.log('\n' + '='.repeat(70));
+  console.log(`Scenarios: ${scenarios.length}, failed: ${failed.length}`);
+
+  if (failed.length > 0) {
+    console.log('\n❌ Incremental recompute disagrees with a full recompute');
+    process.exit(1);
+  } else {
+    console.log('\n✅ Incremental and full recomputes agree');
+  }
+}
+
+main().catch(console.error);
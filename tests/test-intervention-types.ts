@@ -0,0 +1,206 @@
+/**
+ * Intervention Type Test Suite
+ *
+ * Tests that shift and scale interventions transform a node's computed value
+ * sample by sample, so it keeps its natural spread and its dependence on its
+ * parents, while distribution interventions replace the mechanism with draws
+ * from the given distribution, rank-coupled to the node's own base draws so
+ * runs on the same noise get the same replacement. Discrete nodes may not be
+ * shifted or scaled. Also checks that the reference and typed-array engines
+ * apply every type identically.
+ *
+ * Usage:
+ *   npx tsx tests/test-intervention-types.ts
+ */
+
+import { drawNoise, propagateWithSampling, type ExogenousNoise, type PropagationResult } from '../src/lib/inference';
+import { propagateWithSamplingFast } from '../src/lib/fastInference';
+import { interventionError } from '../src/lib/interventions';
+import { createRandom } from '../src/lib/random';
+import type { CausalModel, Intervention } from '../src/types/causal';
+
+const SAMPLE_COUNT = 4000;
+const TOLERANCE = 1e-9;
+
+const INTERVENTIONS: Intervention[] = [
+  { type: 'set', value: 60 },
+  { type: 'shift', delta: 8 },
+  { type: 'scale', factor: 1.2 },
+  { type: 'distribution', distribution: { type: 'continuous', dist: 'normal', params: [70, 3] } },
+];
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const stdDev = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((a, b) => a + (b - m) ** 2, 0) / values.length);
+};
+
+function correlation(x: number[], y: number[]): number {
+  const mx = mean(x);
+  const my = mean(y);
+  let sxy = 0, sxx = 0, syy = 0;
+  for (let i = 0; i < x.length; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+    syy += (y[i] - my) ** 2;
+  }
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+// Orders are equal when every sample sits at the same rank in both
+function sameOrder(a: number[], b: number[]): boolean {
+  const order = (values: number[]) => values.map((_, i) => i).sort((i, j) => values[i] - values[j]);
+  const orderA = order(a);
+  const orderB = order(b);
+  return orderA.every((index, rank) => index === orderB[rank]);
+}
+
+// Orders drive wages, and wages drive output
+function model(): CausalModel {
+  return {
+    title: 'Orders, wages and output',
+    description: '',
+    zones: {},
+    keyInsights: [],
+    nodes: [
+      { id: 'orders', label: 'Orders', description: '', zone: 'demand', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'normal', params: [100, 10] } },
+      { id: 'wages', label: 'Wages', description: '', zone: 'labor', type: 'endogenous', shape: 'rectangle',
+        distribution: { type: 'continuous', dist: 'normal', params: [50, 2] } },
+      { id: 'output', label: 'Output', description: '', zone: 'labor', type: 'terminal', shape: 'rectangle',
+        distribution: { type: 'continuous', dist: 'normal', params: [30, 3] } },
+    ],
+    edges: [
+      { source: 'orders', target: 'wages', relationship: 'causes', style: 'solid', weight: 'normal',
+        effect: { type: 'linear', coefficient: 0.8 } },
+      { source: 'wages', target: 'output', relationship: 'causes', style: 'solid', weight: 'normal',
+        effect: { type: 'linear', coefficient: 0.5 } },
+    ],
+  };
+}
+
+function run(causal: CausalModel, noise: ExogenousNoise, intervention?: Intervention, fast = false): PropagationResult {
+  const propagate = fast ? propagateWithSamplingFast : propagateWithSampling;
+  suppressLogs();
+  try {
+    return propagate(causal, new Map(intervention ? [['wages', intervention]] : []), SAMPLE_COUNT, { noise });
+  } finally {
+    restoreLogs();
+  }
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testTransforms(causal: CausalModel, noise: ExogenousNoise): number {
+  let failures = 0;
+  const baseline = run(causal, noise).samples;
+  const shifted = run(causal, noise, { type: 'shift', delta: 8 }).samples;
+  const scaled = run(causal, noise, { type: 'scale', factor: 1.2 }).samples;
+
+  const shiftError = Math.max(...shifted.wages.map((v, i) => Math.abs(v - (baseline.wages[i] + 8))));
+  if (!report(shiftError < TOLERANCE, 'shift adds its delta to every sample', `max error ${shiftError.toExponential(2)}`)) failures++;
+  const scaleError = Math.max(...scaled.wages.map((v, i) => Math.abs(v - baseline.wages[i] * 1.2)));
+  if (!report(scaleError < TOLERANCE, 'scale multiplies every sample by its factor', `max error ${scaleError.toExponential(2)}`)) failures++;
+
+  const keepsSpread = Math.abs(stdDev(shifted.wages) - stdDev(baseline.wages)) < TOLERANCE;
+  const keepsParents = correlation(shifted.orders, shifted.wages) > 0.5 && correlation(scaled.orders, scaled.wages) > 0.5;
+  if (!report(keepsSpread && keepsParents, 'shifted and scaled nodes keep their spread and follow their parents',
+    `corr with orders ${correlation(shifted.orders, shifted.wages).toFixed(2)}`)) failures++;
+
+  const passedOn = mean(shifted.output) > mean(baseline.output) && mean(scaled.output) > mean(baseline.output);
+  if (!report(passedOn, 'children see the transformed values')) failures++;
+  return failures;
+}
+
+function testReplacement(causal: CausalModel, noise: ExogenousNoise): number {
+  let failures = 0;
+  const replacement = INTERVENTIONS[3];
+  const result = run(causal, noise, replacement).samples;
+
+  const m = mean(result.wages);
+  const s = stdDev(result.wages);
+  if (!report(Math.abs(m - 70) < 0.2 && Math.abs(s / 3 - 1) < 0.05, 'a distribution intervention draws from the given distribution',
+    `mean ${m.toFixed(2)}, sd ${s.toFixed(2)}`)) failures++;
+
+  const cut = Math.abs(correlation(result.orders, result.wages));
+  if (!report(cut < 0.05, 'and cuts the node off from its parents', `corr with orders ${cut.toFixed(3)}`)) failures++;
+  if (!report(sameOrder(result.wages, noise.values.wages), 'replacement draws keep the order of the node\'s own base draws')) failures++;
+
+  const again = run(causal, noise, replacement).samples;
+  if (!report(again.wages.every((v, i) => v === result.wages[i]), 'runs on the same noise get the same replacement')) failures++;
+
+  const set = run(causal, noise, INTERVENTIONS[0]).samples;
+  if (!report(set.wages.every(v => v === 60), 'set pins every sample')) failures++;
+  return failures;
+}
+
+function testDiscrete(causal: CausalModel): number {
+  let failures = 0;
+  const withStrike: CausalModel = {
+    ...causal,
+    nodes: [...causal.nodes, { id: 'strike', label: 'Strike', description: '', zone: 'labor', type: 'exogenous', shape: 'diamond',
+      distribution: { type: 'binary', p: 0.2 } }],
+  };
+
+  const rejected = INTERVENTIONS.filter(i => interventionError(withStrike, 'strike', i) !== null).map(i => i.type);
+  if (!report(rejected.join() === 'shift,scale', 'a binary node can be set or replaced but not shifted or scaled',
+    `rejected ${rejected.join(', ')}`)) failures++;
+  const accepted = INTERVENTIONS.every(i => interventionError(withStrike, 'wages', i) === null);
+  if (!report(accepted, 'a continuous node takes every intervention')) failures++;
+  return failures;
+}
+
+function testEngines(causal: CausalModel, noise: ExogenousNoise): number {
+  let failures = 0;
+  for (const intervention of INTERVENTIONS) {
+    const reference = run(causal, noise, intervention).samples;
+    const fast = run(causal, noise, intervention, true).samples;
+    const delta = Math.max(...causal.nodes.flatMap(n => reference[n.id].map((v, i) => Math.abs(v - fast[n.id][i]))));
+    if (!report(delta < TOLERANCE, `${intervention.type}: engines agree`, `max difference ${delta.toExponential(2)}`)) failures++;
+  }
+  return failures;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('INTERVENTION TYPE TEST SUITE');
+  console.log('='.repeat(70));
+
+  const causal = model();
+  const noise = drawNoise(causal, SAMPLE_COUNT, createRandom(51));
+  const failures = testTransforms(causal, noise) + testReplacement(causal, noise) + testDiscrete(causal) + testEngines(causal, noise);
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} intervention type checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Shift, scale and distribution interventions behave as documented in both engines');
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,177 @@
+/**
+ * Joint Mechanism Test Suite
+ *
+ * Tests that joint mechanisms leave a node unchanged with every parent at its
+ * prior mean, combine parents as documented, replace the effects of the edges
+ * they claim, and that the reference, typed-array and temporal engines all
+ * apply them identically.
+ *
+ * Usage:
+ *   npx tsx tests/test-mechanisms.ts
+ */
+
+import { applyJointMechanism, validateMechanism } from '../src/lib/mechanisms';
+import { drawNoise, propagateWithSampling, partitionParentEdges } from '../src/lib/inference';
+import { propagateWithSamplingFast } from '../src/lib/fastInference';
+import { simulateTemporal } from '../src/lib/temporal';
+import { createRandom } from '../src/lib/random';
+import type { CausalModel, JointMechanism } from '../src/types/causal';
+
+const SAMPLE_COUNT = 2000;
+const TOLERANCE = 1e-9;
+const MEANS = [0.5, 0.04]; // leverage, rates
+
+const MECHANISMS: JointMechanism[] = [
+  { type: 'product', parents: ['leverage', 'rates'] },
+  { type: 'product', parents: ['leverage', 'rates'], weights: [2, -0.5] },
+  { type: 'min', parents: ['leverage', 'rates'] },
+  { type: 'max', parents: ['leverage', 'rates'] },
+  { type: 'geometricMean', parents: ['leverage', 'rates'], weights: [3, 1] },
+  { type: 'expression', parents: ['leverage', 'rates'], expression: 'base * (1 + k * max(leverage / leverage_mean - 1, 0) * max(rates / rates_mean - 1, 0))', constants: { k: 4 } },
+];
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+function describe(mechanism: JointMechanism): string {
+  return mechanism.type + (mechanism.weights ? ` [${mechanism.weights}]` : '');
+}
+
+// Multiplier applied to a base value of 1
+function multiplier(mechanism: JointMechanism, values: number[]): number {
+  return applyJointMechanism(1, mechanism, values, MEANS);
+}
+
+function model(mechanism: JointMechanism): CausalModel {
+  return {
+    title: 'Leverage, rates and risk',
+    description: '',
+    zones: {},
+    keyInsights: [],
+    nodes: [
+      { id: 'leverage', label: 'Leverage', description: '', zone: 'finance', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'normal', params: [MEANS[0], 0.15] } },
+      { id: 'rates', label: 'Rates', description: '', zone: 'finance', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'lognormal', params: [Math.log(MEANS[1]) - 0.045, 0.3] } },
+      { id: 'sentiment', label: 'Sentiment', description: '', zone: 'finance', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'normal', params: [0, 1] } },
+      { id: 'risk', label: 'Risk', description: '', zone: 'finance', type: 'terminal', shape: 'rectangle',
+        distribution: { type: 'continuous', dist: 'lognormal', params: [0, 0.1] },
+        mechanisms: [mechanism] },
+    ],
+    edges: [
+      // Strong edge effects that the mechanism must override
+      { source: 'leverage', target: 'risk', relationship: 'causes', style: 'solid', weight: 'normal', effect: { type: 'linear', coefficient: 5 } },
+      { source: 'rates', target: 'risk', relationship: 'causes', style: 'solid', weight: 'normal', effect: { type: 'linear', coefficient: 5 } },
+      // Not in the mechanism, so still applied on its own
+      { source: 'sentiment', target: 'risk', relationship: 'causes', style: 'solid', weight: 'normal', effect: { type: 'linear', coefficient: 0.1 } },
+    ],
+  };
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testShapes(): number {
+  let failures = 0;
+
+  const neutral = MECHANISMS.every(m => Math.abs(multiplier(m, MEANS) - 1) < TOLERANCE);
+  if (!report(neutral, 'every mechanism is ×1 with all parents at their means')) failures++;
+
+  // Leverage 50% above its mean, rates at theirs
+  const oneHigh: number[] = [0.75, 0.04];
+  const bothHigh: number[] = [0.75, 0.06];
+  if (!report(Math.abs(multiplier(MECHANISMS[0], bothHigh) - 2.25) < TOLERANCE, 'product: levels multiply')) failures++;
+  if (!report(Math.abs(multiplier(MECHANISMS[1], bothHigh) - 1.5 ** 2 * 1.5 ** -0.5) < TOLERANCE, 'product: weights are exponents')) failures++;
+  if (!report(multiplier(MECHANISMS[2], oneHigh) === 1 && multiplier(MECHANISMS[2], bothHigh) === 1.5, 'min: rises only when both parents are high')) failures++;
+  if (!report(multiplier(MECHANISMS[3], oneHigh) === 1.5, 'max: one high parent suffices')) failures++;
+  if (!report(Math.abs(multiplier(MECHANISMS[4], [0.75, 0.04]) - 1.5 ** 0.75) < TOLERANCE, 'geometric mean: weights are normalized')) failures++;
+  if (!report(multiplier(MECHANISMS[5], oneHigh) === 1 && multiplier(MECHANISMS[5], bothHigh) === 2, 'expression: reads every parent and its mean')) failures++;
+  if (!report(multiplier(MECHANISMS[0], [100, 100]) === 10, 'multipliers clamped to 10×')) failures++;
+
+  const errors = [
+    validateMechanism({ type: 'product', parents: ['leverage'] }, ['leverage', 'rates']),
+    validateMechanism({ type: 'min', parents: ['leverage', 'ghost'] }, ['leverage', 'rates']),
+    validateMechanism({ type: 'expression', parents: ['leverage', 'rates'], expression: 'leverage +' }, ['leverage', 'rates']),
+  ];
+  if (!report(errors.every(Boolean), 'invalid mechanisms are reported', errors.join('; '))) failures++;
+
+  return failures;
+}
+
+function testClaims(): number {
+  let failures = 0;
+  const causal = model(MECHANISMS[0]);
+  const risk = causal.nodes[3];
+  const parents = partitionParentEdges(causal.edges, risk.mechanisms);
+  const claimed = parents.joint[0]?.edges.map(e => e.source).join(',');
+  if (!report(claimed === 'leverage,rates' && parents.direct.map(e => e.source).join(',') === 'sentiment', 'mechanism claims its parents\' edges')) failures++;
+
+  const overlapping = partitionParentEdges(causal.edges, [MECHANISMS[0], MECHANISMS[2]]);
+  if (!report(overlapping.joint.length === 1, 'a parent feeds only the first mechanism listing it')) failures++;
+
+  const missing = partitionParentEdges(causal.edges, [{ type: 'min', parents: ['leverage', 'ghost'] }]);
+  if (!report(missing.joint.length === 0 && missing.direct.length === 3, 'mechanism with a missing parent is ignored')) failures++;
+  return failures;
+}
+
+function testEngines(): number {
+  let failures = 0;
+  for (const mechanism of MECHANISMS) {
+    const causal = model(mechanism);
+    const noise = drawNoise(causal, SAMPLE_COUNT, createRandom(41));
+
+    suppressLogs();
+    const reference = propagateWithSampling(causal, new Map(), SAMPLE_COUNT, { noise });
+    const fast = propagateWithSamplingFast(causal, new Map(), SAMPLE_COUNT, { noise });
+    const temporal = simulateTemporal(causal, new Map(), 2, SAMPLE_COUNT, { noise });
+    restoreLogs();
+
+    const a = reference.samples.risk;
+    const b = fast.samples.risk;
+    const c = temporal.baseline.risk;
+    const fastDelta = Math.max(...a.map((value, i) => Math.abs(value - b[i])));
+    const temporalDelta = Math.max(...a.map((value, i) => Math.abs(value - c[i])));
+    if (!report(fastDelta < TOLERANCE, `${describe(mechanism)}: fast engine agrees`, `max difference ${fastDelta.toExponential(2)}`)) failures++;
+    if (!report(temporalDelta < TOLERANCE, `${describe(mechanism)}: temporal baseline agrees`, `max difference ${temporalDelta.toExponential(2)}`)) failures++;
+  }
+  return failures;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('JOINT MECHANISM TEST SUITE');
+  console.log('='.repeat(70));
+
+  const failures = testShapes() + testClaims() + testEngines();
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} joint mechanism checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Joint mechanisms combine parents as specified in every engine');
+  }
+}
+
+main().catch(console.error);
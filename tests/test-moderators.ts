@@ -0,0 +1,174 @@
+/**
+ * Moderator Test Suite
+ *
+ * Tests that a moderator's multiplier is 1 at each effect type's neutral
+ * point, that only edges naming a direct edge into the same target moderate,
+ * and that a moderated edge's contribution is scaled by the multiplier: left
+ * alone at 1, switched off near 0 and doubled at 2. Also checks that the
+ * reference and typed-array engines apply moderators identically.
+ *
+ * Usage:
+ *   npx tsx tests/test-moderators.ts
+ */
+
+import { drawNoise, moderationMultiplier, partitionParentEdges, propagateWithSampling, type ExogenousNoise } from '../src/lib/inference';
+import { propagateWithSamplingFast } from '../src/lib/fastInference';
+import { createRandom } from '../src/lib/random';
+import type { CausalEdge, CausalModel, EffectFunction, InterventionMap } from '../src/types/causal';
+
+const SAMPLE_COUNT = 2000;
+const TOLERANCE = 1e-9;
+const CREDIBILITY_THRESHOLD = 50;
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+function edge(source: string, target: string, effect: EffectFunction, moderates?: string): CausalEdge {
+  return { source, target, relationship: 'causes', style: 'solid', weight: 'normal', effect, ...(moderates ? { moderates } : {}) };
+}
+
+// Rate hikes lower inflation, more so when the central bank is credible
+function model(moderated: boolean): CausalModel {
+  return {
+    title: 'Credibility and rate hikes',
+    description: '',
+    zones: {},
+    keyInsights: [],
+    nodes: [
+      { id: 'rate_hike', label: 'Rate hike', description: '', zone: 'policy', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'normal', params: [5, 1] } },
+      { id: 'credibility', label: 'Credibility', description: '', zone: 'policy', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'normal', params: [CREDIBILITY_THRESHOLD, 10] } },
+      { id: 'inflation', label: 'Inflation', description: '', zone: 'economy', type: 'terminal', shape: 'rectangle',
+        distribution: { type: 'continuous', dist: 'normal', params: [3, 0.5] } },
+    ],
+    edges: [
+      edge('rate_hike', 'inflation', { type: 'linear', coefficient: -0.5 }),
+      ...(moderated
+        ? [edge('credibility', 'inflation', { type: 'logistic', coefficient: 0.2, threshold: CREDIBILITY_THRESHOLD }, 'rate_hike')]
+        : []),
+    ],
+  };
+}
+
+function inflation(causal: CausalModel, noise: ExogenousNoise, interventions: InterventionMap, fast = false): number[] {
+  const propagate = fast ? propagateWithSamplingFast : propagateWithSampling;
+  suppressLogs();
+  try {
+    return propagate(causal, interventions, SAMPLE_COUNT, { noise }).samples.inflation;
+  } finally {
+    restoreLogs();
+  }
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testNeutralPoints(): number {
+  let failures = 0;
+  const priorMean = 40;
+  const neutral: [string, number][] = [
+    ['linear at the prior mean', moderationMultiplier({ type: 'linear', coefficient: 0.8 }, priorMean, priorMean)],
+    ['multiplicative at its baseline', moderationMultiplier({ type: 'multiplicative', factor: 1.5, baseline: 25 }, 25, priorMean)],
+    ['threshold at its cutoff', moderationMultiplier({ type: 'threshold', cutoff: 60, below: 0.1, above: 0.9 }, 60, priorMean)],
+    ['logistic at its threshold', moderationMultiplier({ type: 'logistic', coefficient: 0.3, threshold: 55 }, 55, priorMean)],
+  ];
+  for (const [label, multiplier] of neutral) {
+    if (!report(Math.abs(multiplier - 1) < TOLERANCE, `the multiplier is 1 for ${label}`, multiplier.toFixed(6))) failures++;
+  }
+
+  // Without a baseline a multiplicative moderator is neutral at 1, not at its prior mean
+  const unset = moderationMultiplier({ type: 'multiplicative', factor: 1.5 }, priorMean, priorMean);
+  if (!report(Math.abs(unset - 1) > 0.1, 'a multiplicative moderator without a baseline is not neutral at its prior mean', unset.toFixed(3))) failures++;
+
+  const gate = { type: 'logistic' as const, coefficient: 0.3, threshold: 55 };
+  const off = moderationMultiplier(gate, -1000, priorMean);
+  const doubled = moderationMultiplier(gate, 1000, priorMean);
+  if (!report(off < 1e-9 && Math.abs(doubled - 2) < 1e-9, 'a logistic moderator gates from 0 to 2')) failures++;
+  return failures;
+}
+
+function testPartition(): number {
+  let failures = 0;
+  const linear: EffectFunction = { type: 'linear', coefficient: 0.5 };
+  const direct = edge('rate_hike', 'inflation', linear);
+  const moderator = edge('credibility', 'inflation', linear, 'rate_hike');
+  const dangling = edge('wages', 'inflation', linear, 'oil');
+  const self = edge('oil_shock', 'inflation', linear, 'oil_shock');
+  const parents = partitionParentEdges([moderator, dangling, direct, self]);
+
+  const moderates = parents.moderators.get('rate_hike') ?? [];
+  if (!report(moderates.length === 1 && moderates[0] === moderator, 'an edge naming a direct edge into its target moderates it')) failures++;
+  const fallback = parents.direct.includes(dangling) && parents.direct.includes(self) && !parents.direct.includes(moderator);
+  if (!report(fallback, 'edges naming no direct edge, or their own source, act directly')) failures++;
+  return failures;
+}
+
+function testScaling(noise: ExogenousNoise): number {
+  let failures = 0;
+  const moderated = model(true);
+  const base = noise.values.inflation;
+  const plain = inflation(model(false), noise, new Map());
+
+  // Credibility pinned at the threshold, far below it and far above it
+  const neutral = inflation(moderated, noise, new Map([['credibility', CREDIBILITY_THRESHOLD]]));
+  const off = inflation(moderated, noise, new Map([['credibility', -1000]]));
+  const doubled = inflation(moderated, noise, new Map([['credibility', 1000]]));
+
+  const largest = (values: number[], expected: (i: number) => number) => Math.max(...values.map((v, i) => Math.abs(v - expected(i))));
+  const neutralError = largest(neutral, i => plain[i]);
+  const offError = largest(off, i => base[i]);
+  const doubledError = largest(doubled, i => base[i] + 2 * (plain[i] - base[i]));
+
+  if (!report(neutralError < TOLERANCE, 'a neutral moderator leaves the edge untouched', `max error ${neutralError.toExponential(2)}`)) failures++;
+  if (!report(offError < 1e-6, 'a closed gate switches the edge off', `max error ${offError.toExponential(2)}`)) failures++;
+  if (!report(doubledError < 1e-6, 'a fully open gate doubles the edge\'s contribution', `max error ${doubledError.toExponential(2)}`)) failures++;
+  return failures;
+}
+
+function testEngines(noise: ExogenousNoise): number {
+  const causal = model(true);
+  const reference = inflation(causal, noise, new Map());
+  const fast = inflation(causal, noise, new Map(), true);
+  const delta = Math.max(...reference.map((v, i) => Math.abs(v - fast[i])));
+  return report(delta < TOLERANCE, 'engines agree', `max difference ${delta.toExponential(2)}`) ? 0 : 1;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('MODERATOR TEST SUITE');
+  console.log('='.repeat(70));
+
+  const noise = drawNoise(model(true), SAMPLE_COUNT, createRandom(71));
+  const failures = testNeutralPoints() + testPartition() + testScaling(noise) + testEngines(noise);
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} moderator checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Moderators scale the edges they name around their neutral points');
+  }
+}
+
+main().catch(console.error);
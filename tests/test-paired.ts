@@ -0,0 +1,169 @@
+/**
+ * Common Random Numbers Test Suite
+ *
+ * Tests that a snapshot's baseline replays the intervened run's exogenous
+ * draws, so nodes the intervention cannot reach match sample by sample; that
+ * the paired difference between the two runs is far tighter than comparing
+ * independent runs, with a standard error that matches how much it moves
+ * between seeds; and that sensitivity analysis reports these paired deltas.
+ *
+ * Usage:
+ *   npx tsx tests/test-paired.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { drawNoise, getDescendants, propagateWithSampling } from '../src/lib/inference';
+import { computeSnapshot, type Snapshot } from '../src/lib/snapshot';
+import { runSensitivityAnalysis } from '../src/lib/sensitivity';
+import { pairedDifference, variance } from '../src/lib/distributions';
+import { createRandom } from '../src/lib/random';
+import type { CausalModel, Intervention } from '../src/types/causal';
+
+const SAMPLE_COUNT = 400;
+const SEEDS = [101, 202, 303, 404, 505, 606, 707, 808];
+const INTERVENED = 'fiscal_deficit_path';
+const INTERVENTIONS = new Map<string, Intervention>([[INTERVENED, { type: 'shift', delta: 1 }]]);
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+function snapshot(model: CausalModel, interventions: Map<string, Intervention>, seed: number): Snapshot {
+  suppressLogs();
+  try {
+    return computeSnapshot({
+      model,
+      interventions,
+      evidence: new Map(),
+      counterfactuals: new Map(),
+      sampleCount: SAMPLE_COUNT,
+      tickCount: 0,
+      seed,
+    });
+  } finally {
+    restoreLogs();
+  }
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const sameSamples = (a: number[], b: number[]) => a.length === b.length && a.every((value, i) => value === b[i]);
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testSharedDraws(model: CausalModel): number {
+  let failures = 0;
+  const intervened = snapshot(model, INTERVENTIONS, SEEDS[0]);
+  const plain = snapshot(model, new Map(), SEEDS[0]);
+
+  const baselineMatches = model.nodes.every(n => sameSamples(intervened.baselineSamples[n.id], plain.nodeSamples[n.id]));
+  if (!report(baselineMatches, 'the baseline is the same seed run without interventions')) failures++;
+
+  const reached = getDescendants(model, INTERVENED);
+  const untouched = model.nodes.filter(n => n.id !== INTERVENED && !reached.has(n.id));
+  const unchanged = untouched.every(n => sameSamples(intervened.nodeSamples[n.id], intervened.baselineSamples[n.id]));
+  if (!report(untouched.length > 0 && unchanged, 'nodes the intervention cannot reach match the baseline sample by sample',
+    `${untouched.length} nodes`)) failures++;
+
+  const moved = [...reached].every(id => !sameSamples(intervened.nodeSamples[id], intervened.baselineSamples[id]));
+  if (!report(moved, 'every descendant of the intervened node moves')) failures++;
+  return failures;
+}
+
+function testPairedError(model: CausalModel): number {
+  let failures = 0;
+  const terminals = model.nodes.filter(n => n.type === 'terminal').map(n => n.id);
+
+  for (const nodeId of terminals) {
+    const estimates: number[] = [];
+    const pairedErrors: number[] = [];
+    const unpairedErrors: number[] = [];
+    for (const seed of SEEDS) {
+      const result = snapshot(model, INTERVENTIONS, seed);
+      const intervened = result.nodeSamples[nodeId];
+      const baseline = result.baselineSamples[nodeId];
+      const { mean: delta, standardError } = pairedDifference(intervened, baseline);
+      estimates.push(delta);
+      pairedErrors.push(standardError);
+      unpairedErrors.push(Math.sqrt((variance(intervened) + variance(baseline)) / SAMPLE_COUNT));
+    }
+
+    const paired = mean(pairedErrors);
+    const unpaired = mean(unpairedErrors);
+    if (!report(paired < unpaired / 3, `${nodeId}: pairing cuts the standard error at least 3×`,
+      `paired ${paired.toExponential(2)}, unpaired ${unpaired.toExponential(2)}`)) failures++;
+
+    // With 8 seeds the spread is itself rough, so only ask for the right order of magnitude
+    const spread = Math.sqrt(variance(estimates) * SEEDS.length / (SEEDS.length - 1));
+    if (!report(spread < paired * 2.5 && spread > paired / 2.5, `${nodeId}: the paired error matches the seed-to-seed spread`,
+      `spread ${spread.toExponential(2)}, error ${paired.toExponential(2)}`)) failures++;
+  }
+  return failures;
+}
+
+function testSensitivity(model: CausalModel): number {
+  const seed = SEEDS[1];
+  suppressLogs();
+  const analysis = runSensitivityAnalysis(model, SAMPLE_COUNT, seed);
+  const noise = drawNoise(model, SAMPLE_COUNT, createRandom(seed));
+  const baseline = propagateWithSampling(model, new Map(), SAMPLE_COUNT, { noise });
+  restoreLogs();
+
+  let largest = 0;
+  let checked = 0;
+  for (const result of analysis.results) {
+    for (const intervention of result.interventions) {
+      suppressLogs();
+      const run = propagateWithSampling(model, new Map([[result.exogenousNodeId, intervention.value]]), SAMPLE_COUNT, { noise });
+      restoreLogs();
+      for (const impact of intervention.impacts) {
+        const expected = pairedDifference(run.samples[impact.nodeId], baseline.samples[impact.nodeId]);
+        largest = Math.max(largest, Math.abs(impact.absoluteChange - expected.mean), Math.abs(impact.standardError - expected.standardError));
+        checked++;
+      }
+    }
+  }
+  return report(checked > 0 && largest === 0, 'sensitivity impacts are paired deltas on one set of draws',
+    `${checked} impacts, max difference ${largest.toExponential(2)}`) ? 0 : 1;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('COMMON RANDOM NUMBERS TEST SUITE');
+  console.log('='.repeat(70));
+
+  const fixture = path.join(__dirname, 'fixtures', 'debt-model-2026.json');
+  const model = JSON.parse(fs.readFileSync(fixture, 'utf-8')) as CausalModel;
+
+  const failures = testSharedDraws(model) + testPairedError(model) + testSensitivity(model);
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} common random number checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Baseline and intervened runs share their draws and are compared pair by pair');
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,266 @@
+/**
+ * Uncertain Parameter Test Suite
+ *
+ * Tests that effect parameters given as distributions are drawn once per
+ * sample, that the drawn values widen the outputs compared with the same
+ * parameters fixed at their means, that the draws are independent of each
+ * other and of the nodes under every sampling method, and that the reference,
+ * typed-array and temporal engines see the same draws. Also checks that adding uncertainty
+ * to one edge leaves other draws alone, that models without uncertain
+ * parameters draw the same noise as before, and that sensitivity analysis
+ * splits terminal variance between parameters and noise.
+ *
+ * Usage:
+ *   npx tsx tests/test-parameters.ts
+ */
+
+import { drawNoise, propagateWithSampling } from '../src/lib/inference';
+import { propagateWithSamplingFast } from '../src/lib/fastInference';
+import { simulateTemporal } from '../src/lib/temporal';
+import { runSensitivityAnalysis } from '../src/lib/sensitivity';
+import {
+  parameterKey,
+  pointEffect,
+  validateEffectParameters,
+  withParameterMean,
+  withParameterSpread,
+} from '../src/lib/parameters';
+import { createRandom } from '../src/lib/random';
+import type { CausalModel, Distribution } from '../src/types/causal';
+
+const SAMPLE_COUNT = 2000;
+const TOLERANCE = 1e-9;
+const COEFFICIENT: Distribution = { type: 'continuous', dist: 'normal', params: [0.5, 0.2] };
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+function average(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  const mean = average(values);
+  return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+}
+
+// Each value's rank as a fraction of the sample, so different scales compare
+function ranks(values: number[]): number[] {
+  const order = values.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const result = new Array<number>(values.length);
+  order.forEach(([, i], r) => { result[i] = (r + 0.5) / values.length; });
+  return result;
+}
+
+// How many cells of a bins × bins grid over the two rank columns hold a draw
+function filledCells(x: number[], y: number[], bins = 16): number {
+  const rx = ranks(x);
+  const ry = ranks(y);
+  return new Set(rx.map((u, i) => Math.floor(u * bins) * bins + Math.floor(ry[i] * bins))).size;
+}
+
+function correlation(x: number[], y: number[]): number {
+  const mx = average(x);
+  const my = average(y);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < x.length; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+    syy += (y[i] - my) ** 2;
+  }
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+function buildModel(uncertain: boolean, extra = false): CausalModel {
+  return {
+    title: 'Pricing',
+    description: '',
+    zones: {},
+    keyInsights: [],
+    nodes: [
+      { id: 'demand', label: 'Demand', description: '', zone: 'market', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'normal', params: [100, 10] } },
+      { id: 'confidence', label: 'Confidence', description: '', zone: 'market', type: 'moderator', shape: 'diamond',
+        distribution: { type: 'continuous', dist: 'normal', params: [0, 1] } },
+      { id: 'price', label: 'Price', description: '', zone: 'market', type: 'endogenous', shape: 'circle',
+        distribution: { type: 'continuous', dist: 'normal', params: [50, 5] } },
+      { id: 'revenue', label: 'Revenue', description: '', zone: 'outcome', type: 'terminal', shape: 'rectangle',
+        distribution: { type: 'continuous', dist: 'normal', params: [200, 20] } },
+      { id: 'shortage', label: 'Shortage', description: '', zone: 'outcome', type: 'terminal', shape: 'rectangle',
+        distribution: { type: 'binary', p: 0.2 } },
+    ],
+    edges: [
+      { source: 'demand', target: 'price', relationship: 'causes', style: 'solid', weight: 'normal',
+        effect: { type: 'linear', coefficient: uncertain ? COEFFICIENT : 0.5 } },
+      { source: 'price', target: 'revenue', relationship: 'causes', style: 'solid', weight: 'normal',
+        effect: { type: 'multiplicative', factor: extra ? { type: 'continuous', dist: 'normal', params: [1.5, 0.3] } : 1.5, baseline: 50 } },
+      { source: 'confidence', target: 'revenue', relationship: 'moderates', moderates: 'price', style: 'dashed', weight: 'light',
+        effect: { type: 'logistic', coefficient: uncertain ? { type: 'uniform', min: 1, max: 3 } : 2, threshold: 0 } },
+      { source: 'demand', target: 'shortage', relationship: 'causes', style: 'solid', weight: 'normal',
+        effect: { type: 'threshold', cutoff: uncertain ? { type: 'continuous', dist: 'normal', params: [110, 5] } : 110, below: 0, above: 1, smoothness: 2 } },
+    ],
+  };
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testHelpers(): number {
+  let failures = 0;
+  const point = pointEffect(buildModel(true).edges[0].effect);
+  if (!report(point.type === 'linear' && point.coefficient === 0.5, 'point effect stands each parameter at its mean')) failures++;
+  const fixed = buildModel(false).edges[0].effect;
+  if (!report(pointEffect(fixed) === fixed, 'effects without uncertain parameters are used as they are')) failures++;
+
+  const invalid = validateEffectParameters({ type: 'linear', coefficient: { type: 'continuous', dist: 'normal', params: [0.5, -1] } });
+  const valid = validateEffectParameters(buildModel(true).edges[0].effect);
+  if (!report(invalid !== null && valid === null, 'invalid parameter distributions are reported', invalid ?? '')) failures++;
+
+  const spread = withParameterSpread(0.5, 0.1);
+  const back = withParameterSpread(spread, 0);
+  const moved = withParameterMean(spread, 0.8);
+  const movedOk = typeof moved === 'object' && moved.type === 'continuous' && moved.params[0] === 0.8 && Math.abs(moved.params[1] - 0.1) < 1e-12;
+  if (!report(typeof spread === 'object' && back === 0.5 && movedOk, 'spread and mean edits keep the other part of the parameter')) failures++;
+  return failures;
+}
+
+function testDraws(): number {
+  let failures = 0;
+  const model = buildModel(true);
+  const noise = drawNoise(model, SAMPLE_COUNT, createRandom(3));
+  const draws = noise.parameters[parameterKey(model.edges[0], 'coefficient')];
+  const mean = average(draws);
+  const sd = Math.sqrt(variance(draws));
+  if (!report(draws.length === SAMPLE_COUNT, 'one draw per sample')) failures++;
+  if (!report(Math.abs(mean - 0.5) < 0.02 && Math.abs(sd - 0.2) < 0.02, 'draws follow the parameter\'s distribution', `mean ${mean.toFixed(3)}, sd ${sd.toFixed(3)}`)) failures++;
+  const gains = noise.parameters[parameterKey(model.edges[2], 'coefficient')];
+  if (!report(gains.every(v => v >= 1 && v <= 3), 'uniform parameter draws stay in range')) failures++;
+
+  suppressLogs();
+  const result = propagateWithSampling(model, new Map(), SAMPLE_COUNT, { noise });
+  const fixed = propagateWithSampling(model, new Map(), SAMPLE_COUNT, { noise: { ...noise, parameters: {} } });
+  restoreLogs();
+
+  // Linear effects scale the base draw by 1 + coefficient × the parent's relative deviation
+  const exact = result.samples.price.every((v, i) =>
+    Math.abs(v - noise.values.price[i] * (1 + draws[i] * (noise.values.demand[i] - 100) / 100)) < 1e-6);
+  if (!report(exact, 'each sample uses its own coefficient')) failures++;
+
+  const wide = variance(result.samples.revenue);
+  const narrow = variance(fixed.samples.revenue);
+  if (!report(wide > narrow, 'uncertain parameters widen the outcome', `variance ${narrow.toFixed(1)} → ${wide.toFixed(1)}`)) failures++;
+  return failures;
+}
+
+function testIndependence(): number {
+  let failures = 0;
+  const model = buildModel(true, true);
+  const keys = model.edges.flatMap(edge =>
+    (['coefficient', 'factor', 'cutoff'] as const).map(name => parameterKey(edge, name)));
+
+  for (const sampling of ['lhs', 'sobol'] as const) {
+    const noise = drawNoise(model, SAMPLE_COUNT, createRandom(21), sampling);
+    const columns = [...keys.filter(key => noise.parameters[key]).map(key => noise.parameters[key]), noise.values.demand];
+    let fewest = Infinity;
+    let strongest = 0;
+    for (let i = 0; i < columns.length; i++) {
+      for (let j = i + 1; j < columns.length; j++) {
+        fewest = Math.min(fewest, filledCells(columns[i], columns[j]));
+        strongest = Math.max(strongest, Math.abs(correlation(ranks(columns[i]), ranks(columns[j]))));
+      }
+    }
+    // 2000 independent draws leave a 16 × 16 grid with all but a cell or two filled
+    if (!report(columns.length === 5 && fewest >= 240 && strongest < 0.1, `${sampling}: parameter draws are independent of each other and of the nodes`,
+      `fewest cells filled ${fewest}/256, largest rank correlation ${strongest.toFixed(3)}`)) failures++;
+  }
+  return failures;
+}
+
+function testEngines(): number {
+  let failures = 0;
+  const model = buildModel(true, true);
+  const noise = drawNoise(model, SAMPLE_COUNT, createRandom(17));
+
+  suppressLogs();
+  const reference = propagateWithSampling(model, new Map(), SAMPLE_COUNT, { noise });
+  const fast = propagateWithSamplingFast(model, new Map(), SAMPLE_COUNT, { noise });
+  const temporal = simulateTemporal(model, new Map(), 2, SAMPLE_COUNT, { noise });
+  restoreLogs();
+
+  for (const nodeId of ['price', 'revenue', 'shortage']) {
+    const a = reference.samples[nodeId];
+    const fastDelta = Math.max(...a.map((value, i) => Math.abs(value - fast.samples[nodeId][i])));
+    const temporalDelta = Math.max(...a.map((value, i) => Math.abs(value - temporal.baseline[nodeId][i])));
+    if (!report(fastDelta < TOLERANCE, `${nodeId}: fast engine agrees`, `max difference ${fastDelta.toExponential(2)}`)) failures++;
+    if (!report(temporalDelta < TOLERANCE, `${nodeId}: temporal baseline agrees`, `max difference ${temporalDelta.toExponential(2)}`)) failures++;
+  }
+  return failures;
+}
+
+function testStability(): number {
+  let failures = 0;
+  const before = drawNoise(buildModel(true), SAMPLE_COUNT, createRandom(9));
+  const after = drawNoise(buildModel(true, true), SAMPLE_COUNT, createRandom(9));
+  const key = parameterKey(buildModel(true).edges[0], 'coefficient');
+  const kept = before.parameters[key].every((v, i) => v === after.parameters[key][i]);
+  if (!report(kept, 'adding uncertainty to another edge leaves existing draws unchanged')) failures++;
+
+  const plain = drawNoise(buildModel(false), SAMPLE_COUNT, createRandom(9));
+  const sameValues = Object.keys(plain.values).every(id => plain.values[id].every((v, i) => v === before.values[id][i]));
+  if (!report(Object.keys(plain.parameters).length === 0 && sameValues, 'node noise does not depend on parameter uncertainty')) failures++;
+  return failures;
+}
+
+function testSensitivity(): number {
+  let failures = 0;
+  suppressLogs();
+  const uncertain = runSensitivityAnalysis(buildModel(true), 500, 3);
+  const fixed = runSensitivityAnalysis(buildModel(false), 500, 3);
+  restoreLogs();
+
+  const shares = uncertain.varianceSources.map(v => v.parameterShare);
+  const inRange = shares.length === 2 && shares.every(s => s >= 0 && s <= 1) && shares.some(s => s > 0);
+  if (!report(inRange, 'terminal variance splits between parameters and noise', shares.map(s => s.toFixed(3)).join(' / '))) failures++;
+  if (!report(fixed.varianceSources.length === 0, 'no variance sources without uncertain parameters')) failures++;
+  return failures;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('UNCERTAIN PARAMETER TEST SUITE');
+  console.log('='.repeat(70));
+
+  const failures = testHelpers() + testDraws() + testIndependence() + testEngines() + testStability() + testSensitivity();
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} parameter checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Uncertain parameters are drawn per sample and seen alike by every engine');
+  }
+}
+
+main().catch(console.error);
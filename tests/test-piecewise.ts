@@ -0,0 +1,154 @@
+/**
+ * Piecewise Effect Test Suite
+ *
+ * Tests that piecewise effect curves pass through their knots, hold flat
+ * beyond them, stay monotone under monotone cubic interpolation, and that the
+ * reference and typed-array engines apply them identically.
+ *
+ * Usage:
+ *   npx tsx tests/test-piecewise.ts
+ */
+
+import { knotCurve } from '../src/lib/piecewise';
+import { drawNoise, propagateWithSampling } from '../src/lib/inference';
+import { propagateWithSamplingFast } from '../src/lib/fastInference';
+import { createRandom } from '../src/lib/random';
+import type { CausalModel, EffectKnot, PiecewiseEffect } from '../src/types/causal';
+
+const SAMPLE_COUNT = 2000;
+const TOLERANCE = 1e-9;
+
+// Latency multiplier against utilization: flat, then steep above 90%
+const LATENCY_KNOTS: EffectKnot[] = [
+  { x: 50, multiplier: 1 },
+  { x: 70, multiplier: 1.1 },
+  { x: 90, multiplier: 1.6 },
+  { x: 100, multiplier: 6 },
+];
+
+// A rise, a plateau and a fall: overshoot-prone for ordinary cubic splines
+const PLATEAU_KNOTS: EffectKnot[] = [
+  { x: 0, multiplier: 0.5 },
+  { x: 1, multiplier: 2 },
+  { x: 2, multiplier: 2 },
+  { x: 3, multiplier: 2.1 },
+  { x: 4, multiplier: 0.5 },
+];
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+function model(effect: PiecewiseEffect): CausalModel {
+  return {
+    title: 'Utilization and latency',
+    description: '',
+    zones: {},
+    keyInsights: [],
+    nodes: [
+      { id: 'utilization', label: 'Utilization', description: '', zone: 'ops', type: 'exogenous', shape: 'diamond',
+        distribution: { type: 'truncatedNormal', mean: 80, stdDev: 12, min: 0, max: 100 } },
+      { id: 'latency', label: 'Latency', description: '', zone: 'ops', type: 'terminal', shape: 'rectangle',
+        distribution: { type: 'continuous', dist: 'lognormal', params: [4, 0.2] } },
+    ],
+    edges: [
+      { source: 'utilization', target: 'latency', relationship: 'causes', style: 'solid', weight: 'normal', effect },
+    ],
+  };
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testCurves(): number {
+  let failures = 0;
+  for (const interpolation of ['linear', 'monotone'] as const) {
+    const curve = knotCurve(LATENCY_KNOTS, interpolation);
+    const throughKnots = LATENCY_KNOTS.every(k => Math.abs(curve(k.x) - k.multiplier) < TOLERANCE);
+    if (!report(throughKnots, `${interpolation}: passes through every knot`)) failures++;
+
+    const flat = curve(-1e6) === 1 && curve(30) === 1 && curve(150) === 6;
+    if (!report(flat, `${interpolation}: holds the end multipliers beyond the knots`)) failures++;
+  }
+
+  // Monotone cubic: between each pair of knots the curve stays within them
+  const monotone = knotCurve(PLATEAU_KNOTS, 'monotone');
+  let worstOvershoot = 0;
+  for (let i = 0; i + 1 < PLATEAU_KNOTS.length; i++) {
+    const [a, b] = [PLATEAU_KNOTS[i], PLATEAU_KNOTS[i + 1]];
+    for (let step = 1; step < 100; step++) {
+      const y = monotone(a.x + ((b.x - a.x) * step) / 100);
+      const overshoot = Math.max(y - Math.max(a.multiplier, b.multiplier), Math.min(a.multiplier, b.multiplier) - y, 0);
+      worstOvershoot = Math.max(worstOvershoot, overshoot);
+    }
+  }
+  if (!report(worstOvershoot < TOLERANCE, 'monotone: never overshoots neighbouring knots', `worst ${worstOvershoot.toExponential(2)}`)) failures++;
+
+  const unsorted = knotCurve([...LATENCY_KNOTS].reverse());
+  if (!report(Math.abs(unsorted(95) - 3.8) < TOLERANCE, 'knots are sorted before interpolating')) failures++;
+
+  return failures;
+}
+
+function testEngines(): number {
+  let failures = 0;
+  for (const interpolation of ['linear', 'monotone'] as const) {
+    const causal = model({ type: 'piecewise', knots: LATENCY_KNOTS, interpolation });
+    const noise = drawNoise(causal, SAMPLE_COUNT, createRandom(31));
+
+    suppressLogs();
+    const reference = propagateWithSampling(causal, new Map(), SAMPLE_COUNT, { noise });
+    const fast = propagateWithSamplingFast(causal, new Map(), SAMPLE_COUNT, { noise });
+    restoreLogs();
+
+    const a = reference.samples.latency;
+    const b = fast.samples.latency;
+    const delta = Math.max(...a.map((value, i) => Math.abs(value - b[i])));
+    if (!report(delta < TOLERANCE, `${interpolation}: engines agree`, `max difference ${delta.toExponential(2)}`)) failures++;
+
+    // Each sample is its base value times the curve at its parent value
+    const curve = knotCurve(LATENCY_KNOTS, interpolation);
+    const base = noise.values.latency;
+    const parent = noise.values.utilization;
+    const applied = a.every((value, i) => Math.abs(value - base[i] * curve(parent[i])) < TOLERANCE * Math.abs(value));
+    if (!report(applied, `${interpolation}: child = base × curve(parent)`)) failures++;
+  }
+  return failures;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('PIECEWISE EFFECT TEST SUITE');
+  console.log('='.repeat(70));
+
+  const failures = testCurves() + testEngines();
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} piecewise checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Piecewise curves interpolate as specified in both engines');
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,147 @@
+/**
+ * Monte Carlo Precision Test Suite
+ *
+ * Tests that the standard errors on each distribution match how much its mean
+ * and percentiles actually move between seeds, also when auto sampling
+ * measures them from the spread between Latin hypercube batches, and that
+ * auto sampling adds batches until the terminal nodes are precise enough or
+ * time runs out.
+ *
+ * Usage:
+ *   npx tsx tests/test-precision.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { computeSnapshot, type PrecisionTarget, type Snapshot, type SnapshotRequest } from '../src/lib/snapshot';
+import { relativeStandardError } from '../src/lib/distributions';
+import type { CausalModel, RenderableDistribution } from '../src/types/causal';
+
+const SAMPLE_COUNT = 400;
+const SEED_COUNT = 30;
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function snapshot(request: SnapshotRequest): Snapshot {
+  suppressLogs();
+  try {
+    return computeSnapshot(request);
+  } finally {
+    restoreLogs();
+  }
+}
+
+function request(model: CausalModel, seed: number, precision?: PrecisionTarget): SnapshotRequest {
+  return {
+    model, interventions: new Map(), evidence: new Map(), counterfactuals: new Map(),
+    sampleCount: SAMPLE_COUNT, tickCount: 0, seed, precision,
+  };
+}
+
+function spread(values: number[]): number {
+  const m = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((a, b) => a + (b - m) ** 2, 0) / (values.length - 1));
+}
+
+// Reported standard errors vs the spread of the same summary across seeds
+function checkCalibration(runs: Snapshot[], terminals: string[]): number {
+  let failed = 0;
+  const summaries: [string, (d: RenderableDistribution) => [number, number]][] = [
+    ['mean', d => [d.mean, d.standardErrors.mean]],
+    ['p5', d => [d.percentiles.p5, d.standardErrors.percentiles.p5]],
+    ['p50', d => [d.percentiles.p50, d.standardErrors.percentiles.p50]],
+    ['p95', d => [d.percentiles.p95, d.standardErrors.percentiles.p95]],
+  ];
+  for (const nodeId of terminals) {
+    for (const [label, pick] of summaries) {
+      const values = runs.map(run => pick(run.nodeDistributions.get(nodeId)!));
+      const observed = spread(values.map(v => v[0]));
+      const reported = values.reduce((a, v) => a + v[1], 0) / values.length;
+      // 30 seeds pin the observed spread down to about ±25%, so allow a factor of two
+      const ratio = reported / observed;
+      const passed = ratio > 0.5 && ratio < 2;
+      if (!passed) failed++;
+      console.log(`${passed ? '✓' : '✗'} ${nodeId} ${label}: reported ±${reported.toPrecision(3)}, observed ±${observed.toPrecision(3)} (ratio ${ratio.toFixed(2)})`);
+    }
+  }
+  return failed;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('MONTE CARLO PRECISION TEST SUITE');
+  console.log('='.repeat(70));
+
+  const fixture = path.join(__dirname, 'fixtures', 'debt-model-2026.json');
+  const model = JSON.parse(fs.readFileSync(fixture, 'utf-8')) as CausalModel;
+  const terminals = model.nodes.filter(n => n.type === 'terminal').map(n => n.id);
+  let failed = 0;
+
+  console.log(`\nStandard errors vs spread across ${SEED_COUNT} seeds (${SAMPLE_COUNT} samples each)`);
+  const runs = Array.from({ length: SEED_COUNT }, (_, i) => snapshot(request(model, 1000 + i)));
+  failed += checkCalibration(runs, terminals);
+
+  // An unreachable target draws all eight batches, enough to measure their spread
+  console.log(`\nLatin hypercube batch errors vs spread across ${SEED_COUNT} seeds (8 batches of 200)`);
+  const replicates: PrecisionTarget = { relativeError: 0, timeBudgetMs: 60_000, batchSize: 200, maxSamples: 1600 };
+  const lhsRuns = Array.from({ length: SEED_COUNT }, (_, i) => snapshot({ ...request(model, 2000 + i, replicates), sampling: 'lhs' }));
+  failed += checkCalibration(lhsRuns, terminals);
+
+  const fixedLhs = snapshot({ ...request(model, 2000), sampleCount: 1600, sampling: 'lhs' });
+  const bounded = fixedLhs.errorsAreBounds && lhsRuns.every(run => !run.errorsAreBounds)
+    && terminals.every(id => fixedLhs.nodeDistributions.get(id)!.standardErrors.mean > lhsRuns[0].nodeDistributions.get(id)!.standardErrors.mean);
+  if (!bounded) failed++;
+  console.log(`${bounded ? '✓' : '✗'} A fixed Latin hypercube run reports the larger independent-draw errors as bounds`);
+
+  // Auto sampling
+  console.log('\nAuto sampling');
+  const loose: PrecisionTarget = { relativeError: 0.5, timeBudgetMs: 60_000, batchSize: 200, maxSamples: 5000 };
+  const looseRun = snapshot(request(model, 7, loose));
+  const stopsEarly = looseRun.precisionReached === true && looseRun.samplesUsed === 200;
+  if (!stopsEarly) failed++;
+  console.log(`${stopsEarly ? '✓' : '✗'} Loose target is met by the first batch (${looseRun.samplesUsed} samples)`);
+
+  const tight: PrecisionTarget = { relativeError: 0.01, timeBudgetMs: 60_000, batchSize: 200, maxSamples: 5000 };
+  const tightRun = snapshot(request(model, 7, tight));
+  const worst = Math.max(...terminals.map(id => relativeStandardError(tightRun.nodeDistributions.get(id)!)));
+  const addsBatches = tightRun.samplesUsed > 200 && tightRun.samplesUsed % 200 === 0
+    && (tightRun.precisionReached ? worst <= 0.01 : tightRun.samplesUsed === 5000);
+  if (!addsBatches) failed++;
+  console.log(`${addsBatches ? '✓' : '✗'} Tight target adds batches (${tightRun.samplesUsed} samples, worst relative error ${worst.toFixed(4)}, reached: ${tightRun.precisionReached})`);
+
+  const fixedCount = snapshot(request(model, 7));
+  const matchesFixed = fixedCount.samplesUsed === SAMPLE_COUNT && fixedCount.precisionReached === null;
+  if (!matchesFixed) failed++;
+  console.log(`${matchesFixed ? '✓' : '✗'} Fixed sample count is used as given (${fixedCount.samplesUsed} samples)`);
+
+  const budgeted: PrecisionTarget = { relativeError: 0.0001, timeBudgetMs: 1, batchSize: 200, maxSamples: 100_000 };
+  const budgetRun = snapshot(request(model, 7, budgeted));
+  const respectsBudget = budgetRun.precisionReached === false && budgetRun.samplesUsed === 200;
+  if (!respectsBudget) failed++;
+  console.log(`${respectsBudget ? '✓' : '✗'} Time budget stops sampling (${budgetRun.samplesUsed} samples, reached: ${budgetRun.precisionReached})`);
+
+  console.log('\n' + '='.repeat(70));
+  if (failed > 0) {
+    console.log(`\n❌ ${failed} precision checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Standard errors are calibrated and auto sampling stops as configured');
+  }
+}
+
+main().catch(console.error);
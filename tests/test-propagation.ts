@@ -11,7 +11,8 @@
 import { generateCausalModel } from '../src/lib/llm';
 import { propagateWithSampling, topologicalSort } from '../src/lib/inference';
 import { expectedValue } from '../src/lib/distributions';
-import type { CausalModel, CausalEdge, EffectFunction } from '../src/types/causal';
+import { pointEffect } from '../src/lib/parameters';
+import type { CausalModel, CausalEdge, PointEffect } from '../src/types/causal';
 
 // Get API key from environment
 const API_KEY: string = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || '';
@@ -44,7 +45,7 @@ function computeStats(samples: number[]) {
 }
 
 // Describe what an effect should do
-function describeExpectedEffect(effect: EffectFunction, parentLabel: string): string {
+function describeExpectedEffect(effect: PointEffect, parentLabel: string): string {
   switch (effect.type) {
     case 'linear':
       const coef = effect.coefficient;
@@ -195,11 +196,12 @@ async function analyzeModel(query: string): Promise<ModelTestResult | null> {
 
   // Check for multiplicative explosion potential
   for (const edge of model.edges) {
-    if (edge.effect.type === 'multiplicative') {
+    const effect = pointEffect(edge.effect);
+    if (effect.type === 'multiplicative') {
       const source = nodeMap.get(edge.source)!;
       const parentPrior = expectedValue(source.distribution);
-      const factor = edge.effect.factor;
-      const baseline = edge.effect.baseline ?? 1;
+      const factor = effect.factor;
+      const baseline = effect.baseline ?? 1;
       const expectedMultiplier = Math.pow(factor, parentPrior / baseline);
 
       if (expectedMultiplier > 5 || expectedMultiplier < 0.2) {
@@ -269,10 +271,11 @@ async function analyzeModel(query: string): Promise<ModelTestResult | null> {
       const actualChange = highTargetMean - baselineTargetMean;
 
       let expectedDirection: 'increase' | 'decrease' | 'unknown' = 'unknown';
-      if (edge.effect.type === 'linear') {
-        expectedDirection = edge.effect.coefficient > 0 ? 'increase' : 'decrease';
-      } else if (edge.effect.type === 'multiplicative') {
-        expectedDirection = edge.effect.factor > 1 ? 'increase' : 'decrease';
+      const effect = pointEffect(edge.effect);
+      if (effect.type === 'linear') {
+        expectedDirection = effect.coefficient > 0 ? 'increase' : 'decrease';
+      } else if (effect.type === 'multiplicative') {
+        expectedDirection = effect.factor > 1 ? 'increase' : 'decrease';
       }
 
       const actualDirection = actualChange > 0.01 ? 'increase' : actualChange < -0.01 ? 'decrease' : 'no change';
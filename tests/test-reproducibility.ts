@@ -0,0 +1,183 @@
+/**
+ * Reproducibility Test Suite
+ *
+ * Tests that the same seed gives the same snapshot under every sampling method
+ * and under auto sampling, that an exported run survives the trip through
+ * JSON, that loading it reproduces the exported snapshot exactly, that a bare
+ * model still imports, and that malformed runs are rejected with a message.
+ *
+ * Usage:
+ *   npx tsx tests/test-reproducibility.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { computeSnapshot, type PrecisionTarget, type Snapshot, type SnapshotRequest } from '../src/lib/snapshot';
+import { SAMPLING_METHODS } from '../src/lib/sampling';
+import { exportRun, parseRun, type RunSettings } from '../src/lib/runExport';
+import type { CausalModel } from '../src/types/causal';
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+// A time budget no run comes near, so auto sampling stops on precision or sample count alone
+const AUTO_PRECISION: PrecisionTarget = { relativeError: 0.001, timeBudgetMs: 600000, batchSize: 200, maxSamples: 1000 };
+
+function snapshot(model: CausalModel, settings: RunSettings, precision?: PrecisionTarget): Snapshot {
+  const request: SnapshotRequest = {
+    model,
+    interventions: settings.interventions,
+    evidence: settings.evidence,
+    counterfactuals: settings.counterfactuals,
+    sampleCount: settings.sampleCount,
+    tickCount: settings.tickCount,
+    seed: settings.seed,
+    sampling: settings.sampling,
+    precision,
+  };
+  suppressLogs();
+  try {
+    return computeSnapshot(request);
+  } finally {
+    restoreLogs();
+  }
+}
+
+// Everything a snapshot shows, as comparable text
+function fingerprint(result: Snapshot): string {
+  return JSON.stringify({
+    samples: result.nodeSamples,
+    baseline: result.baselineSamples,
+    distributions: [...result.nodeDistributions],
+    temporal: result.temporalResult,
+    counterfactual: result.counterfactualResult,
+    effectiveSampleSize: result.effectiveSampleSize,
+  });
+}
+
+function settingsText(settings: RunSettings): string {
+  const { interventions, evidence, counterfactuals, ...rest } = settings;
+  return JSON.stringify({ ...rest, interventions: [...interventions], evidence: [...evidence], counterfactuals: [...counterfactuals] });
+}
+
+// The model with one node made binary
+function withBinary(model: CausalModel, nodeId: string): CausalModel {
+  return {
+    ...model,
+    nodes: model.nodes.map(n => (n.id === nodeId ? { ...n, distribution: { type: 'binary' as const, p: 0.5 } } : n)),
+  };
+}
+
+function rejects(json: string): string | null {
+  try {
+    parseRun(json);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testSeeds(model: CausalModel, settings: RunSettings): number {
+  let failures = 0;
+  for (const { value: sampling } of SAMPLING_METHODS) {
+    const run = { ...settings, sampling };
+    const same = fingerprint(snapshot(model, run)) === fingerprint(snapshot(model, run));
+    if (!report(same, `${sampling}: the same seed gives the same numbers`)) failures++;
+  }
+
+  const first = snapshot(model, settings, AUTO_PRECISION);
+  const second = snapshot(model, settings, AUTO_PRECISION);
+  const auto = first.samplesUsed > AUTO_PRECISION.batchSize && fingerprint(first) === fingerprint(second);
+  if (!report(auto, 'auto sampling draws the same batches from the same seed', `${first.samplesUsed} samples`)) failures++;
+  return failures;
+}
+
+function testRoundTrip(model: CausalModel, settings: RunSettings): number {
+  let failures = 0;
+  const imported = parseRun(exportRun(model, settings));
+  const same = imported.settings !== null
+    && JSON.stringify(imported.model) === JSON.stringify(model)
+    && settingsText(imported.settings) === settingsText(settings);
+  if (!report(same, 'an exported run imports with the same model and settings')) failures++;
+
+  const original = fingerprint(snapshot(model, settings));
+  const reloaded = imported.settings ? fingerprint(snapshot(imported.model, imported.settings)) : '';
+  if (!report(original === reloaded, 'an imported run reproduces the exported numbers exactly')) failures++;
+
+  const otherSeed = fingerprint(snapshot(model, { ...settings, seed: settings.seed + 1 }));
+  if (!report(otherSeed !== original, 'another seed gives other numbers')) failures++;
+  return failures;
+}
+
+function testBareModel(model: CausalModel): number {
+  const imported = parseRun(JSON.stringify(model));
+  return report(imported.settings === null && imported.model.nodes.length === model.nodes.length, 'a bare model imports without settings') ? 0 : 1;
+}
+
+function testInvalid(model: CausalModel, settings: RunSettings): number {
+  const run = JSON.parse(exportRun(model, settings));
+  const errors = [
+    rejects('{ not json'),
+    rejects(JSON.stringify({ title: 'No graph' })),
+    rejects(JSON.stringify({ ...run, version: 99 })),
+    rejects(JSON.stringify({ ...run, seed: 'abc' })),
+    rejects(JSON.stringify({ ...run, sampling: 'quasi' })),
+    rejects(JSON.stringify({ ...run, interventions: { missing_node: { type: 'set', value: 1 } } })),
+    rejects(JSON.stringify({ ...run, model: withBinary(model, 'global_risk_appetite') })),
+  ];
+  return report(errors.every(Boolean), 'malformed runs are rejected', errors.join('; ')) ? 0 : 1;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('REPRODUCIBILITY TEST SUITE');
+  console.log('='.repeat(70));
+
+  const fixture = path.join(__dirname, 'fixtures', 'debt-model-2026.json');
+  const model = JSON.parse(fs.readFileSync(fixture, 'utf-8')) as CausalModel;
+  const settings: RunSettings = {
+    seed: 2718,
+    sampleCount: 400,
+    autoSampling: false,
+    sampling: 'lhs',
+    tickCount: 3,
+    interventions: new Map([['debt_to_gdp', { type: 'set', value: 140 }], ['global_risk_appetite', { type: 'shift', delta: -5 }]]),
+    evidence: new Map([['ten_year_yield', { type: 'range', min: 4 }]]),
+    counterfactuals: new Map([['fiscal_deficit_path', 3]]),
+  };
+
+  const failures = testSeeds(model, settings) + testRoundTrip(model, settings) + testBareModel(model) + testInvalid(model, settings);
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} reproducibility checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Exported runs reload and reproduce the same numbers');
+  }
+}
+
+main().catch(console.error);
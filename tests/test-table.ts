@@ -0,0 +1,212 @@
+/**
+ * Conditional Table Test Suite
+ *
+ * Tests that table effects and table mechanisms select the cell for each
+ * parent category (or combination), that multiplier cells scale the target,
+ * distribution cells keep each sample's quantile, and probability cells act
+ * as a conditional probability table for binary targets. Also checks that
+ * the reference, typed-array and temporal engines agree, and that
+ * sensitivity analysis sets categorical inputs to each category.
+ *
+ * Usage:
+ *   npx tsx tests/test-table.ts
+ */
+
+import { drawNoise, propagateWithSampling } from '../src/lib/inference';
+import { propagateWithSamplingFast } from '../src/lib/fastInference';
+import { simulateTemporal } from '../src/lib/temporal';
+import { runSensitivityAnalysis } from '../src/lib/sensitivity';
+import { validateMechanism } from '../src/lib/mechanisms';
+import { categoryIndex, tableCellIndex, tableRowLabels, validateTableCells } from '../src/lib/table';
+import { createRandom } from '../src/lib/random';
+import type { CausalModel, Distribution, InterventionMap } from '../src/types/causal';
+
+const SAMPLE_COUNT = 2000;
+const TOLERANCE = 1e-9;
+const REGIME_CELLS = [0.8, 1, 1.3];
+const RECESSION_P = [0.05, 0.1, 0.4]; // P(recession) by regime
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  console.log = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+function average(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+const regime: Distribution = { type: 'categorical', categories: ['hawkish', 'neutral', 'dovish'], probs: [0.3, 0.5, 0.2] };
+
+const model: CausalModel = {
+  title: 'Policy regime',
+  description: '',
+  zones: {},
+  keyInsights: [],
+  nodes: [
+    { id: 'regime', label: 'Regime', description: '', zone: 'policy', type: 'exogenous', shape: 'diamond', distribution: regime },
+    { id: 'shock', label: 'Oil shock', description: '', zone: 'policy', type: 'exogenous', shape: 'diamond',
+      distribution: { type: 'binary', p: 0.3 } },
+    { id: 'lending', label: 'Lending', description: '', zone: 'economy', type: 'endogenous', shape: 'circle',
+      distribution: { type: 'continuous', dist: 'lognormal', params: [Math.log(100), 0.2] } },
+    { id: 'inflation', label: 'Inflation', description: '', zone: 'economy', type: 'terminal', shape: 'rectangle',
+      distribution: { type: 'continuous', dist: 'normal', params: [2.5, 0.5] },
+      mechanisms: [{
+        type: 'table',
+        parents: ['regime', 'shock'],
+        categoryCounts: [3, 2],
+        cells: [
+          { multiplier: 0.7 }, { multiplier: 1.1 },
+          { multiplier: 1 }, { multiplier: 1.4 },
+          { distribution: { type: 'continuous', dist: 'normal', params: [3.5, 0.6] } }, { multiplier: 2 },
+        ],
+      }] },
+    { id: 'recession', label: 'Recession', description: '', zone: 'economy', type: 'terminal', shape: 'rectangle',
+      distribution: { type: 'binary', p: 0.12 } },
+  ],
+  edges: [
+    { source: 'regime', target: 'lending', relationship: 'causes', style: 'solid', weight: 'normal',
+      effect: { type: 'table', cells: REGIME_CELLS.map(multiplier => ({ multiplier })) } },
+    { source: 'regime', target: 'inflation', relationship: 'causes', style: 'solid', weight: 'normal', effect: { type: 'linear', coefficient: 5 } },
+    { source: 'shock', target: 'inflation', relationship: 'causes', style: 'solid', weight: 'normal', effect: { type: 'linear', coefficient: 5 } },
+    { source: 'regime', target: 'recession', relationship: 'causes', style: 'solid', weight: 'normal',
+      effect: { type: 'table', cells: RECESSION_P.map(p => ({ distribution: { type: 'binary', p } })) } },
+  ],
+};
+
+function run(interventions: InterventionMap, noise = drawNoise(model, SAMPLE_COUNT, createRandom(5))) {
+  suppressLogs();
+  const result = propagateWithSampling(model, interventions, SAMPLE_COUNT, { noise });
+  restoreLogs();
+  return { result, noise };
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function testIndexing(): number {
+  let failures = 0;
+  const indices = [categoryIndex(1.2, 3), categoryIndex(2, 3), categoryIndex(3, 3), categoryIndex(-0.6, 3), categoryIndex(NaN, 3)];
+  if (!report(indices.join(',') === '1,2,-1,-1,-1', 'parent values round to a category, others select none', indices.join(','))) failures++;
+  if (!report(tableCellIndex([2, 1], [3, 2]) === 5 && tableCellIndex([1, 0], [3, 2]) === 2, 'combinations run with the first parent slowest')) failures++;
+  const rows = tableRowLabels([['a', 'b'], ['x', 'y', 'z']]).map(row => row.join(''));
+  if (!report(rows.join(',') === 'ax,ay,az,bx,by,bz', 'row labels follow cell order', rows.join(','))) failures++;
+
+  const errors = [
+    validateTableCells([{ multiplier: 1 }], 3, regime),
+    validateTableCells([{ distribution: { type: 'binary', p: 0.2 } }, {}, {}], 3, regime),
+    validateTableCells([{ multiplier: -1 }], 1, { type: 'continuous', dist: 'normal', params: [0, 1] }),
+    validateMechanism(model.nodes[3].mechanisms![0], ['regime', 'shock'], {
+      categoriesOf: id => (id === 'regime' ? ['a', 'b', 'c'] : null),
+      targetPrior: model.nodes[3].distribution,
+    }),
+  ];
+  if (!report(errors.every(Boolean), 'invalid tables are reported', errors.join('; '))) failures++;
+  const valid = validateMechanism(model.nodes[3].mechanisms![0], ['regime', 'shock'], {
+    categoriesOf: id => (id === 'regime' ? ['a', 'b', 'c'] : ['no', 'yes']),
+    targetPrior: model.nodes[3].distribution,
+  });
+  if (!report(valid === null, 'a table matching its parents is accepted', valid ?? '')) failures++;
+  return failures;
+}
+
+function testCells(): number {
+  let failures = 0;
+  const noise = drawNoise(model, SAMPLE_COUNT, createRandom(5));
+
+  for (let k = 0; k < REGIME_CELLS.length; k++) {
+    const { result } = run(new Map([['regime', k]]), noise);
+    const exact = result.samples.lending.every((v, i) => Math.abs(v - noise.values.lending[i] * REGIME_CELLS[k]) < TOLERANCE);
+    if (!report(exact, `table edge: ${(regime as { categories: string[] }).categories[k]} scales lending by ${REGIME_CELLS[k]}`)) failures++;
+
+    const share = average(result.samples.recession);
+    const spread = 4 * Math.sqrt((RECESSION_P[k] * (1 - RECESSION_P[k])) / SAMPLE_COUNT);
+    if (!report(Math.abs(share - RECESSION_P[k]) < spread, `probability table: P(recession | regime = ${k}) = ${RECESSION_P[k]}`, share.toFixed(3))) failures++;
+  }
+
+  // Dovish without a shock: cell 4 gives inflation its own distribution
+  const { result: dovish } = run(new Map([['regime', 2], ['shock', 0]]), noise);
+  const base = noise.values.inflation;
+  const order = base.map((_, i) => i).sort((a, b) => base[a] - base[b]);
+  const keepsRank = order.every((i, j) => j === 0 || dovish.samples.inflation[i] >= dovish.samples.inflation[order[j - 1]]);
+  const mean = average(dovish.samples.inflation);
+  if (!report(keepsRank, 'distribution cell keeps each sample\'s rank')) failures++;
+  if (!report(Math.abs(mean - 3.5) < 0.05, 'distribution cell gives its own distribution', `mean ${mean.toFixed(3)}`)) failures++;
+
+  const { result: shocked } = run(new Map([['regime', 1], ['shock', 1]]), noise);
+  const scaled = shocked.samples.inflation.every((v, i) => Math.abs(v - base[i] * 1.4) < TOLERANCE);
+  if (!report(scaled, 'table mechanism selects the cell for the combination and replaces the linear edges')) failures++;
+  return failures;
+}
+
+function testEngines(): number {
+  let failures = 0;
+  const noise = drawNoise(model, SAMPLE_COUNT, createRandom(17));
+
+  suppressLogs();
+  const reference = propagateWithSampling(model, new Map(), SAMPLE_COUNT, { noise });
+  const fast = propagateWithSamplingFast(model, new Map(), SAMPLE_COUNT, { noise });
+  const temporal = simulateTemporal(model, new Map(), 2, SAMPLE_COUNT, { noise });
+  restoreLogs();
+
+  for (const nodeId of ['lending', 'inflation', 'recession']) {
+    const a = reference.samples[nodeId];
+    const fastDelta = Math.max(...a.map((value, i) => Math.abs(value - fast.samples[nodeId][i])));
+    const temporalDelta = Math.max(...a.map((value, i) => Math.abs(value - temporal.baseline[nodeId][i])));
+    if (!report(fastDelta < TOLERANCE, `${nodeId}: fast engine agrees`, `max difference ${fastDelta.toExponential(2)}`)) failures++;
+    if (!report(temporalDelta < TOLERANCE, `${nodeId}: temporal baseline agrees`, `max difference ${temporalDelta.toExponential(2)}`)) failures++;
+  }
+  return failures;
+}
+
+function testSensitivity(): number {
+  let failures = 0;
+  suppressLogs();
+  const analysis = runSensitivityAnalysis(model, 500, 3);
+  restoreLogs();
+
+  const regimeResult = analysis.results.find(r => r.exogenousNodeId === 'regime');
+  const levels = regimeResult?.interventions.map(i => i.level).join(',');
+  if (!report(levels === '= hawkish,= neutral,= dovish', 'sensitivity sets a categorical input to each category', levels)) failures++;
+  const shockLevels = analysis.results.find(r => r.exogenousNodeId === 'shock')?.interventions.map(i => i.value).join(',');
+  if (!report(shockLevels === '0,1', 'sensitivity sets a binary input to false and true', shockLevels)) failures++;
+
+  const lending = regimeResult?.interventions.map(i => i.impacts.find(impact => impact.nodeId === 'lending')!.pctChange) ?? [];
+  if (!report(lending[0] < 0 && lending[2] > 0, 'category impacts follow the table', lending.map(p => p.toFixed(1)).join(' / '))) failures++;
+  return failures;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('CONDITIONAL TABLE TEST SUITE');
+  console.log('='.repeat(70));
+
+  const failures = testIndexing() + testCells() + testEngines() + testSensitivity();
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} table checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Tables select cells by category in every engine and in sensitivity analysis');
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,161 @@
+/**
+ * Worker Fallback Test Suite
+ *
+ * Tests that jobs run on the calling thread where workers are unavailable and
+ * give exactly what the snapshot and sensitivity functions give when called
+ * directly, that errors reject the job's promise, and that a worker which
+ * cannot be constructed or fails to load falls back to the calling thread
+ * without losing the job.
+ *
+ * Usage:
+ *   npx tsx tests/test-worker.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { runJob } from '../src/lib/workerClient';
+import { computeSnapshot, type Snapshot, type SnapshotRequest } from '../src/lib/snapshot';
+import { runSensitivityAnalysis, type SensitivityAnalysis } from '../src/lib/sensitivity';
+import type { CausalModel } from '../src/types/causal';
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function suppressLogs() {
+  (global as any)._originalLog = console.log;
+  (global as any)._originalError = console.error;
+  console.log = () => {};
+  console.error = () => {};
+}
+
+function restoreLogs() {
+  console.log = (global as any)._originalLog || console.log;
+  console.error = (global as any)._originalError || console.error;
+}
+
+function report(passed: boolean, label: string, detail = ''): boolean {
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? ` (${detail})` : ''}`);
+  return passed;
+}
+
+// Everything a snapshot shows, as comparable text
+function fingerprint(result: Snapshot | null): string {
+  return result
+    ? JSON.stringify({ samples: result.nodeSamples, baseline: result.baselineSamples, distributions: [...result.nodeDistributions] })
+    : '';
+}
+
+// Sensitivity results without their timestamp
+function analysisText(analysis: SensitivityAnalysis | null): string {
+  if (!analysis) return '';
+  const { timestamp, ...rest } = analysis;
+  return JSON.stringify(rest);
+}
+
+async function quietly<T>(job: () => Promise<T>): Promise<T> {
+  suppressLogs();
+  try {
+    return await job();
+  } finally {
+    restoreLogs();
+  }
+}
+
+// Stand-ins for the browser's Worker: one that cannot be built, one whose script fails to load
+class UnconstructableWorker {
+  constructor() {
+    throw new Error('Workers are disabled');
+  }
+}
+
+let brokenWorkers = 0;
+class BrokenWorker {
+  onmessage: ((event: unknown) => void) | null = null;
+  onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null;
+  constructor() {
+    brokenWorkers++;
+  }
+  postMessage() {
+    setTimeout(() => this.onerror?.({ message: 'Script failed to load', preventDefault: () => {} }), 0);
+  }
+  terminate() {}
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+async function testInline(request: SnapshotRequest): Promise<number> {
+  let failures = 0;
+  if (!report(typeof Worker === 'undefined', 'this runtime has no Worker, so jobs run inline')) failures++;
+
+  const viaJob = await quietly(() => runJob('snapshot', request));
+  const direct = await quietly(async () => computeSnapshot(request));
+  if (!report(fingerprint(viaJob) === fingerprint(direct), 'an inline snapshot job gives the same snapshot as a direct call')) failures++;
+
+  const sensitivity = { model: request.model, sampleCount: 200, seed: request.seed, sampling: 'lhs' as const };
+  const analysis = await quietly(() => runJob('sensitivity', sensitivity));
+  const directAnalysis = await quietly(async () => runSensitivityAnalysis(request.model, 200, request.seed, 'lhs'));
+  if (!report(analysisText(analysis) === analysisText(directAnalysis), 'an inline sensitivity job passes its sampling through')) failures++;
+
+  const error = await quietly(() => runJob('snapshot', { ...request, model: null as unknown as CausalModel }).then(() => null, e => e));
+  if (!report(error instanceof Error, 'a job that throws rejects its promise', error?.message)) failures++;
+  return failures;
+}
+
+async function testBrokenWorkers(request: SnapshotRequest): Promise<number> {
+  let failures = 0;
+  const expected = fingerprint(await quietly(async () => computeSnapshot(request)));
+  const scope = globalThis as { Worker?: unknown };
+
+  try {
+    scope.Worker = UnconstructableWorker;
+    const unbuilt = await quietly(() => runJob('snapshot', request));
+    if (!report(fingerprint(unbuilt) === expected, 'a worker that cannot be built runs the job inline')) failures++;
+
+    scope.Worker = BrokenWorker;
+    const failed = await quietly(() => runJob('snapshot', request));
+    if (!report(brokenWorkers === 1 && fingerprint(failed) === expected, 'a worker that fails to load hands its job to the calling thread')) failures++;
+
+    const later = await quietly(() => runJob('snapshot', request));
+    if (!report(brokenWorkers === 1 && fingerprint(later) === expected, 'once a worker has failed, later jobs run inline without a new one')) failures++;
+  } finally {
+    delete scope.Worker;
+  }
+  return failures;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+  console.log('='.repeat(70));
+  console.log('WORKER FALLBACK TEST SUITE');
+  console.log('='.repeat(70));
+
+  const fixture = path.join(__dirname, 'fixtures', 'debt-model-2026.json');
+  const model = JSON.parse(fs.readFileSync(fixture, 'utf-8')) as CausalModel;
+  const request: SnapshotRequest = {
+    model,
+    interventions: new Map([['debt_to_gdp', { type: 'set', value: 140 }]]),
+    evidence: new Map(),
+    counterfactuals: new Map(),
+    sampleCount: 300,
+    tickCount: 2,
+    seed: 4242,
+  };
+
+  const failures = await testInline(request) + await testBrokenWorkers(request);
+
+  console.log('\n' + '='.repeat(70));
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} worker fallback checks failed`);
+    process.exit(1);
+  } else {
+    console.log('\n✅ Jobs run on the calling thread wherever workers are unavailable');
+  }
+}
+
+main().catch(console.error);